@@ -0,0 +1,38 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getSharedDrawingCode } from "@/lib/share";
+import { EditorScreen } from "@/ui/EditorScreen";
+
+/**
+ * 共有リンクを開く画面
+ * フラグメントの共有コードを読んでからエディタを表示し、メモを開く
+ */
+export default function SharePage() {
+  // undefined: 読み込み前、null: 共有コード無し
+  const [sharedCode, setSharedCode] = useState<string | null | undefined>(
+    undefined,
+  );
+
+  const readRef = useRef(false);
+
+  useEffect(() => {
+    // StrictModeで2回実行されても、最初に読んだフラグメントを使う
+    if (readRef.current) return;
+    readRef.current = true;
+    setSharedCode(getSharedDrawingCode(window.location.hash));
+  }, []);
+
+  /** 再読み込みで同じメモを重ねて追加しないよう、開き終えたらホームのURLに置き換える */
+  const handleSharedCodeOpened = useCallback(() => {
+    window.history.replaceState(null, "", "/");
+  }, []);
+
+  if (sharedCode === undefined) return null;
+  return (
+    <EditorScreen
+      sharedCode={sharedCode ?? undefined}
+      onSharedCodeOpened={handleSharedCodeOpened}
+    />
+  );
+}
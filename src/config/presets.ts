@@ -1,13 +1,10 @@
+import { createDrawing } from "@/core/layers";
 import type { Drawing } from "@/core/types";
 
 /**
  * デフォルトの描画サイズ（論理サイズ）
  */
-export const DEFAULT_DRAWING: Drawing = {
-  width: 384,
-  height: 256,
-  strokes: [],
-};
+export const DEFAULT_DRAWING: Drawing = createDrawing(384, 256);
 
 /** 本体カラーの配色セット */
 export interface BodyColor {
@@ -0,0 +1,55 @@
+/** ぶるぶるアニメーションの設定 */
+export type AnimationSettings = {
+  /** 1ループの揺れのコマ数 */
+  cycleCount: number;
+  /** 揺れのコマを切り替える間隔（ミリ秒） */
+  cycleIntervalMs: number;
+};
+
+/** 揺れのコマ数の下限 */
+export const MIN_CYCLE_COUNT = 2;
+/** 揺れのコマ数の上限（コマごとにバッファとキャッシュを持つため抑える） */
+export const MAX_CYCLE_COUNT = 8;
+/** 揺れの間隔の下限（ミリ秒） */
+export const MIN_CYCLE_INTERVAL_MS = 50;
+/** 揺れの間隔の上限（ミリ秒） */
+export const MAX_CYCLE_INTERVAL_MS = 250;
+
+/**
+ * 既定のアニメーション設定
+ * 3コマ・100ms（10fps相当）でキャッシュ枚数と揺れの見えやすさのバランスを取る
+ */
+export const DEFAULT_ANIMATION_SETTINGS: AnimationSettings = {
+  cycleCount: 3,
+  cycleIntervalMs: 100,
+};
+
+/** 設定値を上下限に収め、整数にする（不正な値は既定値にする） */
+export function clampAnimationSettings(
+  settings: AnimationSettings,
+): AnimationSettings {
+  return {
+    cycleCount: clampInteger(
+      settings.cycleCount,
+      MIN_CYCLE_COUNT,
+      MAX_CYCLE_COUNT,
+      DEFAULT_ANIMATION_SETTINGS.cycleCount,
+    ),
+    cycleIntervalMs: clampInteger(
+      settings.cycleIntervalMs,
+      MIN_CYCLE_INTERVAL_MS,
+      MAX_CYCLE_INTERVAL_MS,
+      DEFAULT_ANIMATION_SETTINGS.cycleIntervalMs,
+    ),
+  };
+}
+
+function clampInteger(
+  value: number,
+  min: number,
+  max: number,
+  fallback: number,
+): number {
+  if (!Number.isFinite(value)) return fallback;
+  return Math.round(Math.max(min, Math.min(max, value)));
+}
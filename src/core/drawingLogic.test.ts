@@ -1,11 +1,9 @@
 import { appendPoint, clearDrawing, startStroke } from "@/core/drawingLogic";
+import { addLayer, createDrawing, createLayer } from "@/core/layers";
 import type { BrushSettings, Drawing } from "@/core/types";
 
-const baseDrawing: Drawing = {
-  width: 100,
-  height: 100,
-  strokes: [],
-};
+const baseDrawing: Drawing = createDrawing(100, 100);
+const layerId = baseDrawing.layers[0].id;
 
 const brush: BrushSettings = {
   kind: "solid",
@@ -17,41 +15,68 @@ const brush: BrushSettings = {
 
 describe("drawingLogic", () => {
   test("startStrokeは初期ポイント付きのストロークを追加する", () => {
-    const result = startStroke(baseDrawing, "s1", "draw", brush, {
+    const result = startStroke(baseDrawing, layerId, "s1", "draw", brush, {
       x: 10,
       y: 20,
       t: 0,
     });
 
-    expect(result.strokes).toHaveLength(1);
-    const stroke = result.strokes[0];
+    expect(result.layers[0].strokes).toHaveLength(1);
+    const stroke = result.layers[0].strokes[0];
     expect(stroke.id).toBe("s1");
     expect(stroke.points).toEqual([{ x: 10, y: 20, t: 0 }]);
   });
 
+  test("startStrokeは指定したレイヤーだけに追加する", () => {
+    const layered = addLayer(baseDrawing, createLayer("top", "上"));
+
+    const result = startStroke(layered, "top", "s1", "draw", brush, {
+      x: 1,
+      y: 1,
+      t: 0,
+    });
+
+    expect(result.layers[0].strokes).toHaveLength(0);
+    expect(result.layers[1].strokes).toHaveLength(1);
+  });
+
   test("appendPointは指定ストロークにポイントを追加する", () => {
-    const started = startStroke(baseDrawing, "s1", "draw", brush, {
+    const started = startStroke(baseDrawing, layerId, "s1", "draw", brush, {
       x: 1,
       y: 1,
       t: 0,
     });
     const updated = appendPoint(started, "s1", { x: 2, y: 3, t: 5 });
 
-    expect(updated.strokes[0].points).toEqual([
+    expect(updated.layers[0].strokes[0].points).toEqual([
       { x: 1, y: 1, t: 0 },
       { x: 2, y: 3, t: 5 },
     ]);
   });
 
   test("clearDrawingは全ストロークを削除する", () => {
-    const started = startStroke(baseDrawing, "s1", "draw", brush, {
+    const started = startStroke(baseDrawing, layerId, "s1", "draw", brush, {
       x: 1,
       y: 1,
       t: 0,
     });
     const cleared = clearDrawing(started);
 
-    expect(cleared.strokes).toHaveLength(0);
-    expect(started.strokes).toHaveLength(1);
+    expect(cleared.layers[0].strokes).toHaveLength(0);
+    expect(started.layers[0].strokes).toHaveLength(1);
+  });
+
+  test("clearDrawingはロック中のレイヤーを残す", () => {
+    const started = startStroke(baseDrawing, layerId, "s1", "draw", brush, {
+      x: 1,
+      y: 1,
+      t: 0,
+    });
+    const locked: Drawing = {
+      ...started,
+      layers: [{ ...started.layers[0], locked: true }],
+    };
+
+    expect(clearDrawing(locked).layers[0].strokes).toHaveLength(1);
   });
 });
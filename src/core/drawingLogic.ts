@@ -1,3 +1,4 @@
+import { updateLayer } from "@/core/layers";
 import type {
   BrushSettings,
   Drawing,
@@ -6,9 +7,10 @@ import type {
   StrokeKind,
 } from "@/core/types";
 
-/** ストロークを開始する */
+/** 指定レイヤーにストロークを開始する */
 export function startStroke(
   drawing: Drawing,
+  layerId: string,
   strokeId: string,
   strokeKind: StrokeKind,
   brush: BrushSettings,
@@ -21,10 +23,10 @@ export function startStroke(
     points: [startPoint],
   };
 
-  return {
-    ...drawing,
-    strokes: [...drawing.strokes, newStroke],
-  };
+  return updateLayer(drawing, layerId, (layer) => ({
+    ...layer,
+    strokes: [...layer.strokes, newStroke],
+  }));
 }
 
 /** 既存ストロークにポイントを追加する */
@@ -32,21 +34,40 @@ export function appendPoint(
   drawing: Drawing,
   strokeId: string,
   point: Point,
+): Drawing {
+  return updateStroke(drawing, strokeId, (stroke) => ({
+    ...stroke,
+    points: [...stroke.points, point],
+  }));
+}
+
+/** ストロークをIDで探して更新する（どのレイヤーにあってもよい） */
+export function updateStroke(
+  drawing: Drawing,
+  strokeId: string,
+  update: (stroke: Stroke) => Stroke,
 ): Drawing {
   return {
     ...drawing,
-    strokes: drawing.strokes.map((stroke) =>
-      stroke.id === strokeId
-        ? { ...stroke, points: [...stroke.points, point] }
-        : stroke,
+    layers: drawing.layers.map((layer) =>
+      layer.strokes.some((stroke) => stroke.id === strokeId)
+        ? {
+            ...layer,
+            strokes: layer.strokes.map((stroke) =>
+              stroke.id === strokeId ? update(stroke) : stroke,
+            ),
+          }
+        : layer,
     ),
   };
 }
 
-/** 描画を全消去する */
+/** 描画を全消去する（ロック中のレイヤーは残す） */
 export function clearDrawing(drawing: Drawing): Drawing {
   return {
     ...drawing,
-    strokes: [],
+    layers: drawing.layers.map((layer) =>
+      layer.locked ? layer : { ...layer, strokes: [] },
+    ),
   };
 }
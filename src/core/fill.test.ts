@@ -0,0 +1,91 @@
+import { floodFillRegion, getFillRuns } from "@/core/fill";
+import type { RasterImage } from "@/core/rasterImport";
+
+/**
+ * 文字の並びからテスト用の画像を作る
+ * "#"を黒、それ以外を白のピクセルにする
+ */
+function createImage(rows: string[]): RasterImage {
+  const width = rows[0].length;
+  const data: number[] = [];
+  for (const row of rows) {
+    for (const char of row) {
+      const value = char === "#" ? 0 : 255;
+      data.push(value, value, value, 255);
+    }
+  }
+  return { width, height: rows.length, data };
+}
+
+describe("fill", () => {
+  test("線で囲まれた内側だけを、押した位置からの相対位置で返す", () => {
+    const image = createImage([
+      "......",
+      ".####.",
+      ".#..#.",
+      ".#.##.",
+      ".####.",
+    ]);
+
+    const region = floodFillRegion(image, 2, 2);
+
+    expect(region).toEqual({
+      top: 0,
+      rows: [
+        [0, 2],
+        [0, 1],
+      ],
+    });
+  });
+
+  test("同じ色でも上下左右につながっていないピクセルは塗らない", () => {
+    const image = createImage(["..#..", "###..", "....."]);
+
+    const region = floodFillRegion(image, 0, 0);
+
+    expect(region).toEqual({ top: 0, rows: [[0, 2]] });
+  });
+
+  test("1行に離れた連続があれば左から順に並べる", () => {
+    const image = createImage(["..#..", ".....", "#####"]);
+
+    const region = floodFillRegion(image, 2, 1);
+
+    expect(region).toEqual({
+      top: -1,
+      rows: [
+        [-2, 2, 1, 2],
+        [-2, 5],
+      ],
+    });
+  });
+
+  test("画像の外を押した場合はnullになる", () => {
+    const image = createImage(["..", ".."]);
+
+    expect(floodFillRegion(image, 2, 0)).toBeNull();
+    expect(floodFillRegion(image, 0, -1)).toBeNull();
+  });
+
+  test("範囲を最初の点の位置に置いた絶対座標の連続にする", () => {
+    const runs = getFillRuns(
+      {
+        top: -1,
+        rows: [
+          [-2, 2, 1, 2],
+          [0, 1],
+        ],
+      },
+      {
+        x: 10.4,
+        y: 20,
+      },
+    );
+
+    expect(runs).toEqual([
+      { y: 19, left: 8, right: 9 },
+      { y: 19, left: 11, right: 12 },
+      { y: 20, left: 10, right: 10 },
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import type { RasterImage } from "@/core/rasterImport";
+import type { FillRegion } from "@/core/types";
+
+/** 塗りつぶしの1行分の連続（両端を含む絶対座標） */
+export type FillRun = { y: number; left: number; right: number };
+
+/**
+ * 指定したピクセルと同じ色でつながった範囲を求める（スキャンライン方式の塗りつぶし）
+ * 上下左右につながったピクセルだけをたどり、色はRGBAが完全に一致するものを同じとみなす。
+ *
+ * @returns 指定したピクセルからの相対位置で表した範囲（画像の外を指定した場合はnull）
+ */
+export function floodFillRegion(
+  image: RasterImage,
+  x: number,
+  y: number,
+): FillRegion | null {
+  const { width, height, data } = image;
+  if (x < 0 || y < 0 || x >= width || y >= height) return null;
+
+  const colorAt = (px: number, py: number) => (py * width + px) * 4;
+  const seed = colorAt(x, y);
+  const matches = (px: number, py: number): boolean => {
+    const offset = colorAt(px, py);
+    return (
+      data[offset] === data[seed] &&
+      data[offset + 1] === data[seed + 1] &&
+      data[offset + 2] === data[seed + 2] &&
+      data[offset + 3] === data[seed + 3]
+    );
+  };
+
+  const filled = new Uint8Array(width * height);
+  const runsByRow = new Map<number, [number, number][]>();
+  const stack: [number, number][] = [[x, y]];
+  while (stack.length > 0) {
+    const next = stack.pop();
+    if (!next) break;
+    const [startX, rowY] = next;
+    if (filled[rowY * width + startX] || !matches(startX, rowY)) continue;
+
+    // 左右に伸ばして1行分の連続を塗る
+    let left = startX;
+    while (left > 0 && !filled[rowY * width + left - 1]) {
+      if (!matches(left - 1, rowY)) break;
+      left -= 1;
+    }
+    let right = startX;
+    while (right < width - 1 && !filled[rowY * width + right + 1]) {
+      if (!matches(right + 1, rowY)) break;
+      right += 1;
+    }
+    filled.fill(1, rowY * width + left, rowY * width + right + 1);
+    const runs = runsByRow.get(rowY) ?? [];
+    runs.push([left, right]);
+    runsByRow.set(rowY, runs);
+
+    // 上下の行は、同じ色の連続ごとに1つだけ種を積む
+    for (const nextY of [rowY - 1, rowY + 1]) {
+      if (nextY < 0 || nextY >= height) continue;
+      let inSpan = false;
+      for (let px = left; px <= right; px++) {
+        const fillable = !filled[nextY * width + px] && matches(px, nextY);
+        if (fillable && !inSpan) stack.push([px, nextY]);
+        inSpan = fillable;
+      }
+    }
+  }
+
+  const rowYs = [...runsByRow.keys()].sort((a, b) => a - b);
+  const top = rowYs[0];
+  const bottom = rowYs[rowYs.length - 1];
+  const rows: number[][] = [];
+  for (let rowY = top; rowY <= bottom; rowY++) {
+    const runs = (runsByRow.get(rowY) ?? []).sort((a, b) => a[0] - b[0]);
+    rows.push(runs.flatMap(([left, right]) => [left - x, right - left + 1]));
+  }
+  return { top: top - y, rows };
+}
+
+/** 範囲を、最初の点の位置に置いた絶対座標の連続にする */
+export function getFillRuns(
+  region: FillRegion,
+  origin: { x: number; y: number },
+): FillRun[] {
+  const originX = Math.round(origin.x);
+  const originY = Math.round(origin.y);
+  const runs: FillRun[] = [];
+  region.rows.forEach((row, i) => {
+    for (let j = 0; j + 1 < row.length; j += 2) {
+      const left = originX + row[j];
+      runs.push({
+        y: originY + region.top + i,
+        left,
+        right: left + row[j + 1] - 1,
+      });
+    }
+  });
+  return runs;
+}
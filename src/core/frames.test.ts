@@ -0,0 +1,149 @@
+import {
+  addFrame,
+  clampFrameDuration,
+  collectFixedColors,
+  createBlankDrawing,
+  createFrame,
+  createOnionSkinDrawing,
+  DEFAULT_FRAME_DURATION_MS,
+  getFrameIndexAtTime,
+  MAX_FRAME_DURATION_MS,
+  MIN_FRAME_DURATION_MS,
+  moveFrame,
+  removeFrame,
+} from "@/core/frames";
+import { createDrawing, createLayer } from "@/core/layers";
+import type { Frame, Stroke } from "@/core/types";
+
+/** テスト用のストロークを生成する */
+function createStroke(id: string): Stroke {
+  return {
+    id,
+    kind: "draw",
+    brush: {
+      kind: "solid",
+      color: { kind: "palette", index: 0 },
+      width: 2,
+      opacity: 1,
+      variant: "penCircle",
+    },
+    points: [{ x: 0, y: 0, t: 0 }],
+  };
+}
+
+/** a, b, cの3コマ（表示時間は100, 200, 300ms） */
+function createFrames(): Frame[] {
+  return ["a", "b", "c"].map((id, i) =>
+    createFrame(
+      id,
+      createDrawing(10, 10, [createStroke(`${id}1`)]),
+      (i + 1) * 100,
+    ),
+  );
+}
+
+describe("frames", () => {
+  test("clampFrameDurationは上下限に丸め、不正な値は既定値にする", () => {
+    expect(clampFrameDuration(0)).toBe(MIN_FRAME_DURATION_MS);
+    expect(clampFrameDuration(99999)).toBe(MAX_FRAME_DURATION_MS);
+    expect(clampFrameDuration(123.4)).toBe(123);
+    expect(clampFrameDuration(Number.NaN)).toBe(DEFAULT_FRAME_DURATION_MS);
+  });
+
+  test("createBlankDrawingはレイヤー構成を残してストロークだけ消す", () => {
+    const drawing = createDrawing(10, 10, [createStroke("s1")]);
+    const withLocked = {
+      ...drawing,
+      layers: [...drawing.layers, { ...createLayer("x", "X"), locked: true }],
+    };
+
+    const blank = createBlankDrawing(withLocked);
+
+    expect(blank.layers.map((l) => [l.id, l.locked, l.strokes.length])).toEqual(
+      [
+        [drawing.layers[0].id, false, 0],
+        ["x", true, 0],
+      ],
+    );
+  });
+
+  test("addFrame/removeFrame/moveFrameはコマ列を並べ替える", () => {
+    const frames = createFrames();
+    const extra = createFrame("d", createDrawing(10, 10));
+
+    expect(addFrame(frames, extra, 1).map((f) => f.id)).toEqual([
+      "a",
+      "d",
+      "b",
+      "c",
+    ]);
+    expect(removeFrame(frames, "b").map((f) => f.id)).toEqual(["a", "c"]);
+    expect(removeFrame([frames[0]], "a")).toEqual([frames[0]]);
+    expect(moveFrame(frames, "a", 5).map((f) => f.id)).toEqual(["b", "c", "a"]);
+  });
+
+  test("getFrameIndexAtTimeは表示時間を積み上げて末尾で先頭に戻る", () => {
+    const frames = createFrames();
+
+    expect(getFrameIndexAtTime(frames, 0)).toBe(0);
+    expect(getFrameIndexAtTime(frames, 100)).toBe(1);
+    expect(getFrameIndexAtTime(frames, 299)).toBe(1);
+    expect(getFrameIndexAtTime(frames, 300)).toBe(2);
+    expect(getFrameIndexAtTime(frames, 650)).toBe(0);
+  });
+
+  test("createOnionSkinDrawingは前後のコマを固定色で下に重ねる", () => {
+    const frames = createFrames();
+    const colors = { previous: "#0000ff", next: "#ff0000" };
+
+    const onion = createOnionSkinDrawing(frames, 1, colors);
+    const layerId = frames[1].drawing.layers[0].id;
+
+    expect(onion.layers.map((l) => l.id)).toEqual([
+      `onion-previous:${layerId}`,
+      `onion-next:${layerId}`,
+      layerId,
+    ]);
+    expect(onion.layers[0].locked).toBe(true);
+    expect(onion.layers[0].strokes[0]).toMatchObject({
+      id: `onion-previous:${layerId}:a1`,
+      brush: { color: { kind: "fixed", color: "#0000ff" } },
+    });
+    expect(createOnionSkinDrawing([frames[0]], 0, colors)).toBe(
+      frames[0].drawing,
+    );
+  });
+
+  test("collectFixedColorsは表示中のレイヤーの固定色を重複なく集める", () => {
+    const fixed = (id: string, color: string): Stroke => ({
+      ...createStroke(id),
+      brush: {
+        ...createStroke(id).brush,
+        color: { kind: "fixed", color },
+      },
+    });
+    const frames = [
+      createFrame(
+        "a",
+        createDrawing(10, 10, [fixed("a1", "#123456"), createStroke("a2")]),
+        100,
+      ),
+      createFrame(
+        "b",
+        {
+          ...createDrawing(10, 10, [fixed("b1", "#123456")]),
+          layers: [
+            createLayer("l1", "レイヤー1", [fixed("b1", "#abcdef")]),
+            {
+              ...createLayer("l2", "レイヤー2", [fixed("b2", "#000000")]),
+              visible: false,
+            },
+          ],
+        },
+        100,
+      ),
+    ];
+
+    expect(collectFixedColors(frames)).toEqual(["#123456", "#abcdef"]);
+  });
+});
@@ -0,0 +1,199 @@
+import { countStrokes, getVisibleLayers } from "@/core/layers";
+import type { Drawing, Frame, Layer, Stroke } from "@/core/types";
+
+/** 最初のコマのID */
+export const DEFAULT_FRAME_ID = "frame-1";
+/** コマの表示時間の既定値（ミリ秒） */
+export const DEFAULT_FRAME_DURATION_MS = 200;
+/** コマの表示時間の下限（ミリ秒） */
+export const MIN_FRAME_DURATION_MS = 50;
+/** コマの表示時間の上限（ミリ秒） */
+export const MAX_FRAME_DURATION_MS = 2000;
+
+/** コマを生成する */
+export function createFrame(
+  id: string,
+  drawing: Drawing,
+  durationMs = DEFAULT_FRAME_DURATION_MS,
+): Frame {
+  return { id, drawing, durationMs: clampFrameDuration(durationMs) };
+}
+
+/** 表示時間を上下限に収め、整数ミリ秒にする */
+export function clampFrameDuration(durationMs: number): number {
+  if (!Number.isFinite(durationMs)) return DEFAULT_FRAME_DURATION_MS;
+  return Math.round(
+    Math.max(
+      MIN_FRAME_DURATION_MS,
+      Math.min(MAX_FRAME_DURATION_MS, durationMs),
+    ),
+  );
+}
+
+/**
+ * レイヤー構成だけを引き継いだ白紙の描画を作る
+ * 新しいコマでも同じレイヤーに描き続けられるようにするため
+ */
+export function createBlankDrawing(drawing: Drawing): Drawing {
+  return {
+    ...drawing,
+    layers: drawing.layers.map((layer) => ({ ...layer, strokes: [] })),
+  };
+}
+
+/** IDでコマの位置を探す（見つからない場合は-1） */
+export function findFrameIndex(frames: Frame[], frameId: string): number {
+  return frames.findIndex((frame) => frame.id === frameId);
+}
+
+/** 指定コマを更新する（存在しない場合はそのまま返す） */
+export function updateFrame(
+  frames: Frame[],
+  frameId: string,
+  update: (frame: Frame) => Frame,
+): Frame[] {
+  return frames.map((frame) => (frame.id === frameId ? update(frame) : frame));
+}
+
+/**
+ * コマを追加する
+ * @param index 挿入位置（省略時は末尾）
+ */
+export function addFrame(
+  frames: Frame[],
+  frame: Frame,
+  index = frames.length,
+): Frame[] {
+  const next = [...frames];
+  next.splice(clampIndex(index, next.length), 0, frame);
+  return next;
+}
+
+/** コマを削除する（最後の1枚は削除しない） */
+export function removeFrame(frames: Frame[], frameId: string): Frame[] {
+  if (frames.length <= 1 || findFrameIndex(frames, frameId) === -1) {
+    return frames;
+  }
+  return frames.filter((frame) => frame.id !== frameId);
+}
+
+/** コマを指定位置へ移動する */
+export function moveFrame(
+  frames: Frame[],
+  frameId: string,
+  toIndex: number,
+): Frame[] {
+  const fromIndex = findFrameIndex(frames, frameId);
+  if (fromIndex === -1) return frames;
+  const targetIndex = clampIndex(toIndex, frames.length - 1);
+  if (fromIndex === targetIndex) return frames;
+  const next = [...frames];
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(targetIndex, 0, moved);
+  return next;
+}
+
+/** 全コマのストローク数の合計 */
+export function countFrameStrokes(frames: Frame[]): number {
+  return frames.reduce((sum, frame) => sum + countStrokes(frame.drawing), 0);
+}
+
+/**
+ * 表示中のレイヤーで固定色のストロークが使う色を重複なく返す
+ * パレット参照の色はパレット側で分かるため含めない
+ */
+export function collectFixedColors(frames: Frame[]): string[] {
+  const colors = new Set<string>();
+  for (const frame of frames) {
+    for (const layer of getVisibleLayers(frame.drawing)) {
+      for (const stroke of layer.strokes) {
+        if (stroke.kind !== "erase" && stroke.brush.color.kind === "fixed") {
+          colors.add(stroke.brush.color.color);
+        }
+      }
+    }
+  }
+  return [...colors];
+}
+
+/** 全コマの表示時間の合計（ミリ秒） */
+export function getTotalDuration(frames: Frame[]): number {
+  return frames.reduce((sum, frame) => sum + frame.durationMs, 0);
+}
+
+/**
+ * 再生開始からの経過時間で表示するコマの位置を返す（末尾まで来たら先頭に戻る）
+ */
+export function getFrameIndexAtTime(frames: Frame[], timeMs: number): number {
+  const total = getTotalDuration(frames);
+  if (total <= 0) return 0;
+  let remaining = ((timeMs % total) + total) % total;
+  for (let i = 0; i < frames.length; i++) {
+    if (remaining < frames[i].durationMs) return i;
+    remaining -= frames[i].durationMs;
+  }
+  return frames.length - 1;
+}
+
+/** オニオンスキンの色 */
+export type OnionSkinColors = {
+  /** 前のコマ */
+  previous: string;
+  /** 次のコマ */
+  next: string;
+};
+
+/**
+ * 前後のコマを薄い単色で下に重ねた表示用の描画を作る
+ * 前後のコマの表示中レイヤーは、編集中のコマのレイヤーより下に置く
+ */
+export function createOnionSkinDrawing(
+  frames: Frame[],
+  index: number,
+  colors: OnionSkinColors,
+): Drawing {
+  const current = frames[index].drawing;
+  const onionLayers: Layer[] = [];
+  const previous = frames[index - 1];
+  const next = frames[index + 1];
+  if (previous) {
+    onionLayers.push(
+      ...createOnionLayers("onion-previous", previous.drawing, colors.previous),
+    );
+  }
+  if (next) {
+    onionLayers.push(
+      ...createOnionLayers("onion-next", next.drawing, colors.next),
+    );
+  }
+  if (onionLayers.length === 0) return current;
+  return { ...current, layers: [...onionLayers, ...current.layers] };
+}
+
+/** コマの表示中レイヤーを単色に塗り替えたレイヤー列にする */
+function createOnionLayers(
+  prefix: string,
+  drawing: Drawing,
+  color: string,
+): Layer[] {
+  return getVisibleLayers(drawing).map((layer) => {
+    // 編集中のコマと同じIDを持つことがあるため、差分判定が混ざらないよう区別する
+    const id = `${prefix}:${layer.id}`;
+    return {
+      ...layer,
+      id,
+      locked: true,
+      strokes: layer.strokes.map(
+        (stroke): Stroke => ({
+          ...stroke,
+          id: `${id}:${stroke.id}`,
+          brush: { ...stroke.brush, color: { kind: "fixed", color } },
+        }),
+      ),
+    };
+  });
+}
+
+function clampIndex(index: number, max: number): number {
+  return Math.max(0, Math.min(max, Math.floor(index)));
+}
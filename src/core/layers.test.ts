@@ -0,0 +1,102 @@
+import {
+  addLayer,
+  createDrawing,
+  createLayer,
+  createLayerName,
+  getAllStrokes,
+  getVisibleLayers,
+  moveLayer,
+  removeLayer,
+} from "@/core/layers";
+import type { Drawing, Stroke } from "@/core/types";
+
+/** テスト用のストロークを生成する */
+function createStroke(id: string): Stroke {
+  return {
+    id,
+    kind: "draw",
+    brush: {
+      kind: "solid",
+      color: { kind: "palette", index: 0 },
+      width: 2,
+      opacity: 1,
+      variant: "penCircle",
+    },
+    points: [{ x: 0, y: 0, t: 0 }],
+  };
+}
+
+/** 下からa, b, cの3レイヤーを持つ描画 */
+function createLayeredDrawing(): Drawing {
+  return {
+    width: 10,
+    height: 10,
+    layers: [
+      createLayer("a", "A", [createStroke("a1")]),
+      createLayer("b", "B", [createStroke("b1")]),
+      createLayer("c", "C", [createStroke("c1")]),
+    ],
+  };
+}
+
+describe("layers", () => {
+  test("createDrawingはレイヤー1枚の描画を作る", () => {
+    const drawing = createDrawing(10, 20, [createStroke("s1")]);
+
+    expect(drawing.layers).toHaveLength(1);
+    expect(drawing.layers[0]).toMatchObject({
+      visible: true,
+      locked: false,
+    });
+    expect(getAllStrokes(drawing).map((s) => s.id)).toEqual(["s1"]);
+  });
+
+  test("addLayerは指定位置に挿入し、省略時は最前面に追加する", () => {
+    const drawing = createLayeredDrawing();
+
+    const top = addLayer(drawing, createLayer("d", "D"));
+    const middle = addLayer(drawing, createLayer("d", "D"), 1);
+
+    expect(top.layers.map((l) => l.id)).toEqual(["a", "b", "c", "d"]);
+    expect(middle.layers.map((l) => l.id)).toEqual(["a", "d", "b", "c"]);
+  });
+
+  test("removeLayerは最後の1枚を削除しない", () => {
+    const single = createDrawing(10, 10);
+
+    expect(removeLayer(single, single.layers[0].id)).toBe(single);
+    expect(
+      removeLayer(createLayeredDrawing(), "b").layers.map((l) => l.id),
+    ).toEqual(["a", "c"]);
+  });
+
+  test("moveLayerは範囲外の位置を端に丸める", () => {
+    const drawing = createLayeredDrawing();
+
+    expect(moveLayer(drawing, "a", 2).layers.map((l) => l.id)).toEqual([
+      "b",
+      "c",
+      "a",
+    ]);
+    expect(moveLayer(drawing, "c", -5).layers.map((l) => l.id)).toEqual([
+      "c",
+      "a",
+      "b",
+    ]);
+  });
+
+  test("getVisibleLayersは非表示レイヤーを除く", () => {
+    const drawing = createLayeredDrawing();
+    drawing.layers[1] = { ...drawing.layers[1], visible: false };
+
+    expect(getVisibleLayers(drawing).map((l) => l.id)).toEqual(["a", "c"]);
+  });
+
+  test("createLayerNameは既存の名前と重ならない", () => {
+    const drawing = createDrawing(10, 10);
+    const withSecond = addLayer(drawing, createLayer("x", "レイヤー2"));
+
+    expect(createLayerName(drawing)).toBe("レイヤー2");
+    expect(createLayerName(withSecond)).toBe("レイヤー3");
+  });
+});
@@ -0,0 +1,117 @@
+import type { Drawing, Layer, Stroke } from "@/core/types";
+
+/** 最初のレイヤーのID */
+export const DEFAULT_LAYER_ID = "layer-1";
+/** レイヤー名の接頭辞 */
+const LAYER_NAME_PREFIX = "レイヤー";
+
+/** 空のレイヤーを生成する */
+export function createLayer(
+  id: string,
+  name: string,
+  strokes: Stroke[] = [],
+): Layer {
+  return { id, name, visible: true, locked: false, strokes };
+}
+
+/** レイヤー1枚だけの描画を生成する */
+export function createDrawing(
+  width: number,
+  height: number,
+  strokes: Stroke[] = [],
+): Drawing {
+  return {
+    width,
+    height,
+    layers: [createLayer(DEFAULT_LAYER_ID, `${LAYER_NAME_PREFIX}1`, strokes)],
+  };
+}
+
+/** 既存のレイヤー名と重ならない既定名を返す */
+export function createLayerName(drawing: Drawing): string {
+  const names = new Set(drawing.layers.map((layer) => layer.name));
+  let index = drawing.layers.length + 1;
+  while (names.has(`${LAYER_NAME_PREFIX}${index}`)) {
+    index += 1;
+  }
+  return `${LAYER_NAME_PREFIX}${index}`;
+}
+
+/** IDでレイヤーを探す */
+export function findLayer(drawing: Drawing, layerId: string): Layer | null {
+  return drawing.layers.find((layer) => layer.id === layerId) ?? null;
+}
+
+/** 表示中のレイヤーを下から順に返す */
+export function getVisibleLayers(drawing: Drawing): Layer[] {
+  return drawing.layers.filter((layer) => layer.visible);
+}
+
+/** 全レイヤーのストロークを下から順に並べて返す */
+export function getAllStrokes(drawing: Drawing): Stroke[] {
+  return drawing.layers.flatMap((layer) => layer.strokes);
+}
+
+/** 全レイヤーのストローク数 */
+export function countStrokes(drawing: Drawing): number {
+  return drawing.layers.reduce((sum, layer) => sum + layer.strokes.length, 0);
+}
+
+/** 指定レイヤーを更新する（存在しない場合はそのまま返す） */
+export function updateLayer(
+  drawing: Drawing,
+  layerId: string,
+  update: (layer: Layer) => Layer,
+): Drawing {
+  return {
+    ...drawing,
+    layers: drawing.layers.map((layer) =>
+      layer.id === layerId ? update(layer) : layer,
+    ),
+  };
+}
+
+/**
+ * レイヤーを追加する
+ * @param index 挿入位置（省略時は最前面）
+ */
+export function addLayer(
+  drawing: Drawing,
+  layer: Layer,
+  index = drawing.layers.length,
+): Drawing {
+  const layers = [...drawing.layers];
+  layers.splice(clampIndex(index, layers.length), 0, layer);
+  return { ...drawing, layers };
+}
+
+/** レイヤーを削除する（最後の1枚は削除しない） */
+export function removeLayer(drawing: Drawing, layerId: string): Drawing {
+  if (drawing.layers.length <= 1 || !findLayer(drawing, layerId)) {
+    return drawing;
+  }
+  return {
+    ...drawing,
+    layers: drawing.layers.filter((layer) => layer.id !== layerId),
+  };
+}
+
+/** レイヤーを指定位置へ移動する */
+export function moveLayer(
+  drawing: Drawing,
+  layerId: string,
+  toIndex: number,
+): Drawing {
+  const fromIndex = drawing.layers.findIndex((layer) => layer.id === layerId);
+  if (fromIndex === -1) return drawing;
+  const targetIndex = clampIndex(toIndex, drawing.layers.length - 1);
+  if (fromIndex === targetIndex) return drawing;
+  const layers = [...drawing.layers];
+  const [moved] = layers.splice(fromIndex, 1);
+  layers.splice(targetIndex, 0, moved);
+  return { ...drawing, layers };
+}
+
+function clampIndex(index: number, max: number): number {
+  return Math.max(0, Math.min(max, Math.floor(index)));
+}
@@ -1,4 +1,8 @@
-import { getPatternDefinition, PATTERNS } from "@/core/patterns";
+import {
+  getPatternDefinition,
+  isDitheredPixel,
+  PATTERNS,
+} from "@/core/patterns";
 import type { BrushPatternId } from "@/core/types";
 
 describe("patterns", () => {
@@ -35,4 +39,20 @@ describe("patterns", () => {
   test("PATTERNSに最低1件の定義が含まれる", () => {
     expect(PATTERNS.length).toBeGreaterThanOrEqual(1);
   });
+
+  test("isDitheredPixelは濃さに近い割合でピクセルを置く", () => {
+    const countOn = (density: number) => {
+      let count = 0;
+      for (let y = 0; y < 12; y++) {
+        for (let x = 0; x < 12; x++) {
+          if (isDitheredPixel(density, x, y)) count += 1;
+        }
+      }
+      return count;
+    };
+    expect(countOn(0)).toBe(0);
+    expect(countOn(1)).toBe(144);
+    expect(countOn(0.5)).toBe(72);
+    expect(countOn(0.25)).toBeLessThan(countOn(0.75));
+  });
 });
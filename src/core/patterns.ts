@@ -1,4 +1,4 @@
-import type { PatternDefinition } from "@/core/patternTypes";
+import type { PatternDefinition, PatternTile } from "@/core/patternTypes";
 import type { BrushPatternId } from "@/core/types";
 
 /** パターン一覧 */
@@ -124,6 +124,14 @@ export const PATTERNS: PatternDefinition[] = [
   },
 ];
 
+/**
+ * 文字列が既知のパターンIDかどうかを判定する
+ * 保存データなど外部入力の検証に使う
+ */
+export function isBrushPatternId(id: string): id is BrushPatternId {
+  return PATTERNS.some((pattern) => pattern.id === id);
+}
+
 /**
  * IDからパターン定義を取得する
  * @param id パターンID
@@ -135,3 +143,38 @@ export function getPatternDefinition(id: BrushPatternId): PatternDefinition {
   }
   return definition;
 }
+
+/**
+ * パターンのタイルを濃さ（1の割合）の順に並べた網掛けの段階
+ * 0（何も置かない）と1（すべて置く）も含める
+ */
+const DITHER_LEVELS: { density: number; tile: PatternTile | null }[] = [
+  { density: 0, tile: null },
+  ...PATTERNS.map(({ tile }) => ({
+    density: tile.alpha.filter((alpha) => alpha > 0).length / tile.alpha.length,
+    tile,
+  })),
+  { density: 1, tile: null },
+].sort((a, b) => a.density - b.density);
+
+/**
+ * 濃さで網掛けした時にピクセルを置くか
+ * 濃さに最も近いパターンのタイルで決める
+ * @param density 置くピクセルの割合（0〜1）
+ */
+export function isDitheredPixel(
+  density: number,
+  x: number,
+  y: number,
+): boolean {
+  const level = DITHER_LEVELS.reduce((best, current) =>
+    Math.abs(current.density - density) < Math.abs(best.density - density)
+      ? current
+      : best,
+  );
+  if (!level.tile) return level.density === 1;
+  const { tile } = level;
+  const tileX = ((x % tile.width) + tile.width) % tile.width;
+  const tileY = ((y % tile.height) + tile.height) % tile.height;
+  return tile.alpha[tileY * tile.width + tileX] > 0;
+}
@@ -0,0 +1,33 @@
+import {
+  applyPressureCurve,
+  getPressureDensity,
+  getPressureWidth,
+} from "@/core/pressure";
+
+describe("pressure", () => {
+  test("applyPressureCurveは指数で曲げ、0〜1に収める", () => {
+    expect(applyPressureCurve(0.5, 1)).toBe(0.5);
+    expect(applyPressureCurve(0.25, 0.5)).toBe(0.5);
+    expect(applyPressureCurve(0.5, 2)).toBe(0.25);
+    expect(applyPressureCurve(1.2, 2)).toBe(1);
+    expect(applyPressureCurve(-0.1, 1)).toBe(0);
+  });
+
+  test("getPressureWidthは筆圧1で元の太さ、筆圧0でも1ピクセル以上になる", () => {
+    expect(getPressureWidth(10, 1, "penCircle")).toBe(10);
+    expect(getPressureWidth(10, 0, "penCircle")).toBe(2);
+    expect(getPressureWidth(10, 0, "penSquare")).toBe(5);
+    expect(getPressureWidth(2, 0, "penCircle")).toBe(1);
+  });
+
+  test("ペン以外のバリアントは筆圧で変わらない", () => {
+    expect(getPressureWidth(10, 0, "eraserCircle")).toBe(10);
+    expect(getPressureDensity(0, "eraserCircle")).toBe(1);
+  });
+
+  test("getPressureDensityは筆圧が弱いほど薄くなる", () => {
+    expect(getPressureDensity(1, "penCircle")).toBe(1);
+    expect(getPressureDensity(0, "penCircle")).toBe(0.25);
+    expect(getPressureDensity(0.5, "penCircle")).toBeGreaterThan(0.25);
+  });
+});
@@ -0,0 +1,72 @@
+import type { BrushVariant } from "@/core/types";
+
+/** 筆圧の補正カーブの初期値（補正しない） */
+export const DEFAULT_PRESSURE_CURVE = 1;
+/** 筆圧の補正カーブの最小値（軽い筆圧でもすぐ太く濃くなる） */
+export const MIN_PRESSURE_CURVE = 0.25;
+/** 筆圧の補正カーブの最大値（強く押さないと太く濃くならない） */
+export const MAX_PRESSURE_CURVE = 4;
+
+/** 筆圧に対する線の変わり方（筆圧0の時の割合。筆圧1で元の太さ・濃さになる） */
+type PressureResponse = {
+  /** 太さの割合 */
+  minWidthRatio: number;
+  /** 網掛けの濃さ（置くピクセルの割合） */
+  minDensity: number;
+};
+
+/**
+ * ペンのバリアントごとの筆圧への反応
+ * 丸ペンは細く薄くまで変わり、四角ペンはマーカーのように太さを保つ。
+ * 入り抜き筆は太さだけ大きく変わり、墨は濃さが大きく変わる
+ */
+const PRESSURE_RESPONSES: Partial<Record<BrushVariant, PressureResponse>> = {
+  penCircle: { minWidthRatio: 0.2, minDensity: 0.25 },
+  penSquare: { minWidthRatio: 0.5, minDensity: 0.5 },
+  brushTaper: { minWidthRatio: 0.1, minDensity: 0.5 },
+  brushInk: { minWidthRatio: 0.4, minDensity: 0.25 },
+};
+
+/**
+ * 入力の筆圧を補正カーブで曲げる
+ * @param pressure 入力の筆圧（0〜1の範囲外は丸める）
+ * @param curve 指数（1で補正なし。小さいほど軽い筆圧で強くなる）
+ */
+export function applyPressureCurve(pressure: number, curve: number): number {
+  const clamped = Math.min(1, Math.max(0, pressure));
+  const exponent = Math.min(
+    MAX_PRESSURE_CURVE,
+    Math.max(MIN_PRESSURE_CURVE, curve),
+  );
+  return clamped ** exponent;
+}
+
+/**
+ * 筆圧に応じた点の太さ（整数ピクセル、1以上）
+ * 筆圧に反応しないバリアントは元の太さのまま
+ */
+export function getPressureWidth(
+  width: number,
+  pressure: number,
+  variant: BrushVariant,
+): number {
+  const response = PRESSURE_RESPONSES[variant];
+  const baseWidth = Math.max(1, Math.round(width));
+  if (!response) return baseWidth;
+  const ratio =
+    response.minWidthRatio + (1 - response.minWidthRatio) * pressure;
+  return Math.max(1, Math.round(baseWidth * ratio));
+}
+
+/**
+ * 筆圧に応じた網掛けの濃さ（置くピクセルの割合、0〜1）
+ * 筆圧に反応しないバリアントは常に1
+ */
+export function getPressureDensity(
+  pressure: number,
+  variant: BrushVariant,
+): number {
+  const response = PRESSURE_RESPONSES[variant];
+  if (!response) return 1;
+  return response.minDensity + (1 - response.minDensity) * pressure;
+}
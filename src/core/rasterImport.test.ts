@@ -0,0 +1,129 @@
+import {
+  BACKGROUND_INDEX,
+  createRasterStrokes,
+  createReferenceLayer,
+  quantizeRaster,
+  type RasterImage,
+  REFERENCE_OPACITY,
+  resampleRaster,
+} from "@/core/rasterImport";
+
+const BLACK = { r: 0, g: 0, b: 0 };
+const RED = { r: 255, g: 0, b: 0 };
+const WHITE = { r: 255, g: 255, b: 255 };
+
+/** 全ピクセルが同じ色のテスト用画像を生成する */
+function createSolidImage(
+  width: number,
+  height: number,
+  [r, g, b, a]: [number, number, number, number],
+): RasterImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set([r, g, b, a], i * 4);
+  }
+  return { width, height, data };
+}
+
+describe("rasterImport", () => {
+  test("縦横比を保って中央に収め、縮小は平均、余白は透明にする", () => {
+    // 4x2の左半分が黒、右半分が白の画像を2x2に収める
+    const data = new Uint8ClampedArray(4 * 2 * 4);
+    for (let i = 0; i < 8; i++) {
+      const value = i % 4 < 2 ? 0 : 255;
+      data.set([value, value, value, 255], i * 4);
+    }
+
+    const resampled = resampleRaster({ width: 4, height: 2, data }, 2, 2);
+
+    expect(Array.from(resampled.data)).toEqual([
+      0, 0, 0, 255, 255, 255, 255, 255, 0, 0, 0, 0, 0, 0, 0, 0,
+    ]);
+
+    const mixed = resampleRaster(
+      { width: 2, height: 1, data: [0, 0, 0, 255, 200, 200, 200, 255] },
+      1,
+      1,
+    );
+    expect(Array.from(mixed.data)).toEqual([100, 100, 100, 255]);
+  });
+
+  test("最も近いパレットの色番号にし、背景色に近いピクセルは背景にする", () => {
+    const image = {
+      width: 3,
+      height: 1,
+      data: [250, 10, 10, 255, 20, 20, 20, 255, 0, 0, 0, 0],
+    };
+
+    const quantized = quantizeRaster(image, {
+      palette: [BLACK, RED],
+      backgroundColor: WHITE,
+    });
+
+    expect(Array.from(quantized.indices)).toEqual([1, 0, BACKGROUND_INDEX]);
+  });
+
+  test("ditherを指定すると中間の色を近い2色のパターンで網掛けする", () => {
+    const gray = createSolidImage(4, 4, [128, 128, 128, 255]);
+    const options = { palette: [BLACK], backgroundColor: WHITE };
+
+    const flat = quantizeRaster(gray, options);
+    const dithered = quantizeRaster(gray, { ...options, dither: true });
+
+    expect(new Set(flat.indices)).toEqual(new Set([BACKGROUND_INDEX]));
+    const blackCount = dithered.indices.filter((index) => index === 0).length;
+    expect(blackCount).toBe(8);
+  });
+
+  test("行ごとの同じ色の連続を1本のストロークにする", () => {
+    const strokes = createRasterStrokes(
+      {
+        width: 4,
+        height: 2,
+        indices: Int16Array.from([0, 0, -1, 1, -1, 1, 1, 1]),
+      },
+      { idPrefix: "img" },
+    );
+
+    expect(
+      strokes.map((stroke) => [
+        stroke.brush.color,
+        stroke.points.map(({ x, y }) => [x, y]),
+      ]),
+    ).toEqual([
+      [
+        { kind: "palette", index: 0 },
+        [
+          [0, 0],
+          [1, 0],
+        ],
+      ],
+      [
+        { kind: "palette", index: 1 },
+        [
+          [3, 0],
+          [3, 0],
+        ],
+      ],
+      [
+        { kind: "palette", index: 1 },
+        [
+          [1, 1],
+          [3, 1],
+        ],
+      ],
+    ]);
+    expect(new Set(strokes.map((stroke) => stroke.id)).size).toBe(3);
+  });
+
+  test("下絵はロックされた薄いレイヤーにする", () => {
+    const layer = createReferenceLayer({
+      width: 1,
+      height: 1,
+      indices: Int16Array.from([0]),
+    });
+
+    expect(layer.locked).toBe(true);
+    expect(layer.strokes[0].brush.opacity).toBe(REFERENCE_OPACITY);
+  });
+});
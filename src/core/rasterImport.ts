@@ -0,0 +1,221 @@
+import { isDitheredPixel } from "@/core/patterns";
+import type { Layer, Stroke } from "@/core/types";
+
+/** 取り込む画像のRGBAピクセル（ImageDataと同じ並び） */
+export type RasterImage = {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+};
+
+/** 色の対応付けに使うRGB */
+export type RasterColor = { r: number; g: number; b: number };
+
+/** パレットの色番号に置き換えた画像（背景になるピクセルはBACKGROUND_INDEX） */
+export type QuantizedRaster = {
+  width: number;
+  height: number;
+  indices: Int16Array;
+};
+
+/** 背景色に最も近い（ストロークを置かない）ピクセルの色番号 */
+export const BACKGROUND_INDEX = -1;
+/** 下絵の不透明度（描き込んだ線と見分けやすくする） */
+export const REFERENCE_OPACITY = 0.35;
+/** 下絵のレイヤーID */
+const REFERENCE_LAYER_ID = "reference";
+
+/**
+ * 画像を縦横比を保ったまま指定の大きさに収めて中央に置く
+ * 縮小は覆う範囲の平均（アルファで重み付け）、拡大は最近傍で行い、余白は透明にする
+ */
+export function resampleRaster(
+  image: RasterImage,
+  width: number,
+  height: number,
+): RasterImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  if (image.width === 0 || image.height === 0) return { width, height, data };
+
+  const scale = Math.min(width / image.width, height / image.height);
+  const fitWidth = Math.max(1, Math.round(image.width * scale));
+  const fitHeight = Math.max(1, Math.round(image.height * scale));
+  const offsetX = Math.floor((width - fitWidth) / 2);
+  const offsetY = Math.floor((height - fitHeight) / 2);
+
+  for (let y = 0; y < fitHeight; y++) {
+    const [top, bottom] = getSourceRange(y, fitHeight, image.height);
+    for (let x = 0; x < fitWidth; x++) {
+      const [left, right] = getSourceRange(x, fitWidth, image.width);
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          const s = (sy * image.width + sx) * 4;
+          const alpha = image.data[s + 3];
+          r += image.data[s] * alpha;
+          g += image.data[s + 1] * alpha;
+          b += image.data[s + 2] * alpha;
+          a += alpha;
+        }
+      }
+      const d = ((offsetY + y) * width + offsetX + x) * 4;
+      const count = (right - left) * (bottom - top);
+      if (a > 0) {
+        data[d] = r / a;
+        data[d + 1] = g / a;
+        data[d + 2] = b / a;
+      }
+      data[d + 3] = a / count;
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * 画像の各ピクセルをパレットの最も近い色番号に置き換える
+ * 半透明は背景色と合成してから比べ、背景色に最も近いピクセルはBACKGROUND_INDEXにする。
+ * ditherを指定すると、近い2色の間の色をパターンのタイルで網掛けして表す（タイルの位置は画像の座標に揃える）。
+ */
+export function quantizeRaster(
+  image: RasterImage,
+  {
+    palette,
+    backgroundColor,
+    dither = false,
+  }: {
+    palette: RasterColor[];
+    backgroundColor: RasterColor;
+    dither?: boolean;
+  },
+): QuantizedRaster {
+  const { width, height } = image;
+  const candidates = [
+    ...palette.map((color, index) => ({ color, index })),
+    { color: backgroundColor, index: BACKGROUND_INDEX },
+  ];
+  const indices = new Int16Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const alpha = image.data[i * 4 + 3] / 255;
+      const pixel = {
+        r: image.data[i * 4] * alpha + backgroundColor.r * (1 - alpha),
+        g: image.data[i * 4 + 1] * alpha + backgroundColor.g * (1 - alpha),
+        b: image.data[i * 4 + 2] * alpha + backgroundColor.b * (1 - alpha),
+      };
+      const [nearest, second] = [...candidates].sort(
+        (a, b) =>
+          getDistance(pixel, a.color) - getDistance(pixel, b.color) ||
+          a.index - b.index,
+      );
+      indices[i] =
+        dither && second && isDitherPixel(pixel, nearest, second, x, y)
+          ? second.index
+          : nearest.index;
+    }
+  }
+  return { width, height, indices };
+}
+
+/**
+ * 色番号の画像を、行ごとの同じ色の連続を1本にしたストロークにする
+ * 幅1の四角ペンで描いた線として扱うので、手描きの線と同じように揺れる。
+ * 描き順のリプレイで上の行から描いたように見えるよう、ストロークごとに時刻を進める。
+ */
+export function createRasterStrokes(
+  raster: QuantizedRaster,
+  { idPrefix, opacity = 1 }: { idPrefix: string; opacity?: number },
+): Stroke[] {
+  const { width, height, indices } = raster;
+  const strokes: Stroke[] = [];
+  for (let y = 0; y < height; y++) {
+    let x = 0;
+    while (x < width) {
+      const index = indices[y * width + x];
+      let end = x;
+      while (end + 1 < width && indices[y * width + end + 1] === index) {
+        end += 1;
+      }
+      if (index !== BACKGROUND_INDEX) {
+        const t = strokes.length;
+        strokes.push({
+          id: `${idPrefix}-${strokes.length + 1}`,
+          kind: "draw",
+          brush: {
+            kind: "solid",
+            color: { kind: "palette", index },
+            width: 1,
+            opacity,
+            variant: "penSquare",
+          },
+          points: [
+            { x, y, t },
+            { x: end, y, t },
+          ],
+        });
+      }
+      x = end + 1;
+    }
+  }
+  return strokes;
+}
+
+/**
+ * 下絵のレイヤーを作る
+ * 表示用に一番下へ重ねるだけで、描き込みや書き出しの対象にはしない
+ */
+export function createReferenceLayer(raster: QuantizedRaster): Layer {
+  return {
+    id: REFERENCE_LAYER_ID,
+    name: "下絵",
+    visible: true,
+    locked: true,
+    strokes: createRasterStrokes(raster, {
+      idPrefix: REFERENCE_LAYER_ID,
+      opacity: REFERENCE_OPACITY,
+    }),
+  };
+}
+
+/** 出力の1ピクセルが覆う元画像の範囲（少なくとも1ピクセル） */
+function getSourceRange(
+  index: number,
+  outputSize: number,
+  sourceSize: number,
+): [number, number] {
+  const start = Math.min(
+    sourceSize - 1,
+    Math.floor((index * sourceSize) / outputSize),
+  );
+  const end = Math.floor(((index + 1) * sourceSize) / outputSize);
+  return [start, Math.max(start + 1, end)];
+}
+
+/** RGBの二乗距離 */
+function getDistance(a: RasterColor, b: RasterColor): number {
+  return (a.r - b.r) ** 2 + (a.g - b.g) ** 2 + (a.b - b.b) ** 2;
+}
+
+/**
+ * 網掛けで遠い方の色を置くピクセルか
+ * 2色を結ぶ線上の位置を濃さとし、最も近い濃さのタイルで決める
+ */
+function isDitherPixel(
+  pixel: RasterColor,
+  nearest: { color: RasterColor },
+  second: { color: RasterColor },
+  x: number,
+  y: number,
+): boolean {
+  const span = getDistance(nearest.color, second.color);
+  if (span === 0) return false;
+  const ratio =
+    ((pixel.r - nearest.color.r) * (second.color.r - nearest.color.r) +
+      (pixel.g - nearest.color.g) * (second.color.g - nearest.color.g) +
+      (pixel.b - nearest.color.b) * (second.color.b - nearest.color.b)) /
+    span;
+  return isDitheredPixel(ratio, x, y);
+}
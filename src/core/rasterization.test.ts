@@ -2,6 +2,7 @@ import {
   bresenhamLine,
   calculateStampedLinePixels,
   calculateThickLinePixels,
+  calculateVariableStampedLinePixels,
   getCircleStampOffsets,
   getLineStampOffsets,
   getSquareStampOffsets,
@@ -428,4 +429,22 @@ describe("rasterization", () => {
       expect(uniquePixels.size).toBe(result.length);
     });
   });
+
+  describe("calculateVariableStampedLinePixels", () => {
+    it("中心ごとのスタンプで塗り、重なりは大きい値を残す", () => {
+      const result = calculateVariableStampedLinePixels([
+        { x: 0, y: 0, stamp: getSquareStampOffsets(3), value: 0.2 },
+        { x: 2, y: 0, stamp: getSquareStampOffsets(1), value: 0.8 },
+        { x: 1, y: 0, stamp: getSquareStampOffsets(1), value: 0.5 },
+      ]);
+      expect(result.length).toBe(10);
+      expect(result).toContainEqual({ x: -1, y: -1, value: 0.2 });
+      expect(result).toContainEqual({ x: 1, y: 0, value: 0.5 });
+      expect(result).toContainEqual({ x: 2, y: 0, value: 0.8 });
+    });
+
+    it("空の配列を渡すと空の配列を返す", () => {
+      expect(calculateVariableStampedLinePixels([])).toEqual([]);
+    });
+  });
 });
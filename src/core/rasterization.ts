@@ -278,6 +278,57 @@ export function calculateStampedLinePixels(
   return result;
 }
 
+/**
+ * 中心ごとに異なるスタンプで中心線を塗りつぶす
+ * 重なったピクセルは値の大きい方を残す（筆圧で太さの変わる線に使う）
+ * @param centers 中心のピクセル座標と、そこで使うスタンプと値
+ * @returns 塗りつぶすべきピクセル座標と値の配列（重複排除済み）
+ */
+export function calculateVariableStampedLinePixels(
+  centers: Array<{ x: number; y: number; stamp: StampOffsets; value: number }>,
+): Array<{ x: number; y: number; value: number }> {
+  if (centers.length === 0) {
+    return [];
+  }
+
+  let minX = Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY;
+  let minY = Number.POSITIVE_INFINITY;
+  let maxY = Number.NEGATIVE_INFINITY;
+  for (const { x, y, stamp } of centers) {
+    minX = Math.min(minX, x + stamp.minX);
+    maxX = Math.max(maxX, x + stamp.maxX);
+    minY = Math.min(minY, y + stamp.minY);
+    maxY = Math.max(maxY, y + stamp.maxY);
+  }
+  const maskWidth = maxX - minX + 1;
+  const maskHeight = maxY - minY + 1;
+  if (maskWidth <= 0 || maskHeight <= 0) {
+    return [];
+  }
+
+  // マスクには結果の位置+1を持つ（0は未塗り）
+  const mask = new Int32Array(maskWidth * maskHeight);
+  const result: Array<{ x: number; y: number; value: number }> = [];
+
+  for (const center of centers) {
+    for (const { dx, dy } of center.stamp.offsets) {
+      const x = center.x + dx;
+      const y = center.y + dy;
+      const index = (y - minY) * maskWidth + (x - minX);
+      const existing = mask[index];
+      if (existing === 0) {
+        result.push({ x, y, value: center.value });
+        mask[index] = result.length;
+      } else if (result[existing - 1].value < center.value) {
+        result[existing - 1].value = center.value;
+      }
+    }
+  }
+
+  return result;
+}
+
 /**
  * 円スタンプのオフセットと範囲を取得
  * @param radius 半径（0.5刻みなどの小数も許容）
@@ -0,0 +1,127 @@
+import { createDrawing, createLayer } from "@/core/layers";
+import {
+  countReplayPoints,
+  createReplayFrames,
+  createReplayTimeline,
+  getReplayDrawing,
+} from "@/core/replay";
+import type { Drawing, Stroke } from "@/core/types";
+
+/** 指定の時刻に点を打つテスト用のストロークを生成する */
+function createStroke(id: string, times: number[]): Stroke {
+  return {
+    id,
+    kind: "draw",
+    brush: {
+      kind: "solid",
+      color: { kind: "palette", index: 0 },
+      width: 2,
+      opacity: 1,
+      variant: "penCircle",
+    },
+    points: times.map((t, i) => ({ x: i, y: 0, t })),
+  };
+}
+
+/** 下のレイヤーにa・c、上のレイヤーにbを描いた描画（b→cの間は長い休憩） */
+function createLayeredDrawing(): Drawing {
+  const drawing = createDrawing(10, 10, [
+    createStroke("a", [0, 100, 200]),
+    createStroke("c", [60_000, 60_100]),
+  ]);
+  return {
+    ...drawing,
+    layers: [
+      ...drawing.layers,
+      createLayer("top", "上", [createStroke("b", [300, 400])]),
+    ],
+  };
+}
+
+/** レイヤーごとのストロークIDと点の数 */
+function describeDrawing(drawing: Drawing): string[][] {
+  return drawing.layers.map((layer) =>
+    layer.strokes.map((stroke) => `${stroke.id}:${stroke.points.length}`),
+  );
+}
+
+describe("replay", () => {
+  test("レイヤーをまたいで描き始めの時刻順に並べ、長い間隔は詰める", () => {
+    const timeline = createReplayTimeline(createLayeredDrawing());
+
+    expect(timeline.strokes.map((stroke) => stroke.pointTimesMs)).toEqual([
+      [0, 100, 200],
+      [300, 400],
+      [900, 1000],
+    ]);
+    expect(timeline.durationMs).toBe(1000);
+    expect(timeline.pointCount).toBe(7);
+  });
+
+  test("途中の時刻では描き終えたストロークと描きかけの点だけを表示する", () => {
+    const timeline = createReplayTimeline(createLayeredDrawing());
+
+    expect(countReplayPoints(timeline, -1)).toBe(0);
+    expect(countReplayPoints(timeline, 350)).toBe(4);
+    expect(
+      describeDrawing(
+        getReplayDrawing(timeline, countReplayPoints(timeline, 350)),
+      ),
+    ).toEqual([["a:3"], ["b:1"]]);
+    expect(describeDrawing(getReplayDrawing(timeline, 0))).toEqual([[], []]);
+    // 描き終えたら元の描画をそのまま返す
+    expect(getReplayDrawing(timeline, timeline.pointCount)).toBe(
+      timeline.drawing,
+    );
+  });
+
+  test("長さを指定すると時刻を比例して縮め、範囲外の長さは受け付けない", () => {
+    const timeline = createReplayTimeline(createLayeredDrawing(), {
+      targetDurationMs: 2000,
+    });
+
+    expect(timeline.durationMs).toBe(2000);
+    expect(timeline.strokes[1].pointTimesMs).toEqual([600, 800]);
+    expect(() =>
+      createReplayTimeline(createLayeredDrawing(), { targetDurationMs: 10 }),
+    ).toThrow("targetDurationMs must be between");
+  });
+
+  test("時刻の記録が無い描画は点ごとに一定の間隔で進める", () => {
+    const timeline = createReplayTimeline(
+      createDrawing(10, 10, [createStroke("a", [0, 0, 0])]),
+    );
+
+    expect(timeline.durationMs).toBeGreaterThan(0);
+    expect(countReplayPoints(timeline, timeline.durationMs / 2)).toBe(2);
+  });
+
+  test("書き出し用のコマ列は点の数が変わらない間をまとめ、最後に完成した絵を見せる", () => {
+    const drawing = createLayeredDrawing();
+    const frames = createReplayFrames(createReplayTimeline(drawing), {
+      stepMs: 250,
+      holdMs: 1000,
+    });
+
+    expect(frames.map((frame) => describeDrawing(frame.drawing))).toEqual([
+      [["a:1"], []],
+      [["a:3"], []],
+      [["a:3"], ["b:2"]],
+      describeDrawing(drawing),
+    ]);
+    expect(frames.map((frame) => frame.durationMs)).toEqual([
+      250, 250, 500, 1000,
+    ]);
+    expect(new Set(frames.map((frame) => frame.id)).size).toBe(frames.length);
+  });
+
+  test("コマの間隔が正の値でない場合は受け付けない", () => {
+    const timeline = createReplayTimeline(createLayeredDrawing());
+
+    for (const stepMs of [0, -10, Number.NaN]) {
+      expect(() => createReplayFrames(timeline, { stepMs })).toThrow(
+        "stepMs must be a positive finite number",
+      );
+    }
+  });
+});
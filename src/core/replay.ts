@@ -0,0 +1,216 @@
+import type { Drawing, Frame, Point, Stroke } from "@/core/types";
+
+/** リプレイの長さの下限（ミリ秒） */
+export const MIN_REPLAY_DURATION_MS = 1000;
+/** リプレイの長さの上限（ミリ秒） */
+export const MAX_REPLAY_DURATION_MS = 60000;
+/** 描き終えた絵を見せてから最初に戻るまでの時間（ミリ秒） */
+export const REPLAY_END_HOLD_MS = 1500;
+/**
+ * 点と点・ストロークとストロークの間隔の上限（ミリ秒）
+ * 長い休憩や、セッションをまたいで時刻が戻った間を詰めるため
+ */
+const MAX_REPLAY_GAP_MS = 500;
+/** 時刻の記録が無い描画で1点ごとに進める時間（ミリ秒） */
+const FALLBACK_POINT_INTERVAL_MS = 1000 / 60;
+
+/** リプレイの速さの指定 */
+export type ReplayOptions = {
+  /** 描き終えるまでの長さ（省略時は描いた時の速さのまま） */
+  targetDurationMs?: number;
+};
+
+/** 描いた順に並べた1本のストロークと、各点を表示し始める時刻 */
+type ReplayStroke = {
+  layerIndex: number;
+  strokeIndex: number;
+  pointTimesMs: number[];
+};
+
+/** 描画のストロークを描いた順に並べ、各点の表示時刻を割り当てたもの */
+export type ReplayTimeline = {
+  drawing: Drawing;
+  /** 最後の点を表示するまでの時間（ミリ秒） */
+  durationMs: number;
+  /** 全ストロークの点の数 */
+  pointCount: number;
+  strokes: ReplayStroke[];
+};
+
+/**
+ * 描画のリプレイ用の時刻表を作る
+ * レイヤーをまたいだ順番はストロークの描き始めの時刻で決め、同じレイヤー内の順番は保つ。
+ * 点の時刻差は上限で詰め、時刻の記録が無い場合は点ごとに一定の間隔で進める。
+ *
+ * @throws targetDurationMsが1000〜60000の範囲外の場合
+ */
+export function createReplayTimeline(
+  drawing: Drawing,
+  { targetDurationMs }: ReplayOptions = {},
+): ReplayTimeline {
+  if (
+    targetDurationMs !== undefined &&
+    !(
+      targetDurationMs >= MIN_REPLAY_DURATION_MS &&
+      targetDurationMs <= MAX_REPLAY_DURATION_MS
+    )
+  ) {
+    throw new Error(
+      `targetDurationMs must be between ${MIN_REPLAY_DURATION_MS} and ${MAX_REPLAY_DURATION_MS}, got ${targetDurationMs}`,
+    );
+  }
+
+  const ordered = orderStrokes(drawing);
+  const points = ordered.flatMap(({ stroke }) => stroke.points);
+  const hasTiming = points.some(
+    (point, i) => getGapMs(points[i - 1], point) > 0,
+  );
+
+  let cursor = 0;
+  let previous: Point | undefined;
+  const strokes = ordered.map(({ layerIndex, strokeIndex, stroke }) => {
+    const pointTimesMs = stroke.points.map((point) => {
+      if (previous) {
+        cursor += hasTiming
+          ? getGapMs(previous, point)
+          : FALLBACK_POINT_INTERVAL_MS;
+      }
+      previous = point;
+      return cursor;
+    });
+    return { layerIndex, strokeIndex, pointTimesMs };
+  });
+
+  if (targetDurationMs !== undefined && cursor > 0) {
+    const ratio = targetDurationMs / cursor;
+    for (const stroke of strokes) {
+      stroke.pointTimesMs = stroke.pointTimesMs.map((time) => time * ratio);
+    }
+    cursor = targetDurationMs;
+  }
+  return {
+    drawing,
+    durationMs: cursor,
+    pointCount: points.length,
+    strokes,
+  };
+}
+
+/** 指定時刻までに表示する点の数 */
+export function countReplayPoints(
+  timeline: ReplayTimeline,
+  timeMs: number,
+): number {
+  let count = 0;
+  for (const { pointTimesMs } of timeline.strokes) {
+    for (const time of pointTimesMs) {
+      if (time > timeMs) return count;
+      count += 1;
+    }
+  }
+  return count;
+}
+
+/**
+ * 描いた順で先頭から指定数の点までを表示した描画を返す
+ * 途中のストロークは点を切り詰め、まだ描いていないストロークは除く（レイヤー構成は保つ）
+ */
+export function getReplayDrawing(
+  timeline: ReplayTimeline,
+  pointCount: number,
+): Drawing {
+  const { drawing } = timeline;
+  if (pointCount >= timeline.pointCount) return drawing;
+
+  const revealed = drawing.layers.map((): Stroke[] => []);
+  let remaining = pointCount;
+  for (const { layerIndex, strokeIndex, pointTimesMs } of timeline.strokes) {
+    if (remaining <= 0) break;
+    const stroke = drawing.layers[layerIndex].strokes[strokeIndex];
+    revealed[layerIndex].push(
+      remaining >= pointTimesMs.length
+        ? stroke
+        : { ...stroke, points: stroke.points.slice(0, remaining) },
+    );
+    remaining -= pointTimesMs.length;
+  }
+  return {
+    ...drawing,
+    layers: drawing.layers.map((layer, i) => ({
+      ...layer,
+      strokes: revealed[i],
+    })),
+  };
+}
+
+/**
+ * リプレイを書き出し用のコマ列にする
+ * stepMsごとに描いた途中の描画をコマにし、最後に描き終えた絵をholdMsだけ見せる。
+ * 表示する点の数が変わらない間は1コマにまとめる。
+ *
+ * @throws stepMsが正の有限の値でない場合
+ */
+export function createReplayFrames(
+  timeline: ReplayTimeline,
+  { stepMs, holdMs = REPLAY_END_HOLD_MS }: { stepMs: number; holdMs?: number },
+): Frame[] {
+  if (!(stepMs > 0 && Number.isFinite(stepMs))) {
+    throw new Error(`stepMs must be a positive finite number, got ${stepMs}`);
+  }
+  const counts: { pointCount: number; durationMs: number }[] = [];
+  const push = (pointCount: number, durationMs: number) => {
+    const last = counts.at(-1);
+    if (last?.pointCount === pointCount) {
+      last.durationMs += durationMs;
+    } else {
+      counts.push({ pointCount, durationMs });
+    }
+  };
+  for (let time = 0; time < timeline.durationMs; time += stepMs) {
+    push(countReplayPoints(timeline, time), stepMs);
+  }
+  push(timeline.pointCount, holdMs);
+
+  return counts.map(({ pointCount, durationMs }, i) => ({
+    id: `replay-${i + 1}`,
+    drawing: getReplayDrawing(timeline, pointCount),
+    durationMs,
+  }));
+}
+
+/** 前の点からの間隔（負の値や長すぎる間隔は詰める） */
+function getGapMs(previous: Point | undefined, point: Point): number {
+  if (!previous) return 0;
+  const gap = point.t - previous.t;
+  if (!Number.isFinite(gap)) return 0;
+  return Math.max(0, Math.min(MAX_REPLAY_GAP_MS, gap));
+}
+
+/**
+ * 全レイヤーのストロークを描き始めの時刻順に並べる
+ * 同じレイヤー内は配列の順（描いた順）を保ち、同時刻なら下のレイヤーを先にする
+ */
+function orderStrokes(
+  drawing: Drawing,
+): { layerIndex: number; strokeIndex: number; stroke: Stroke }[] {
+  const nextIndices = drawing.layers.map(() => 0);
+  const ordered: { layerIndex: number; strokeIndex: number; stroke: Stroke }[] =
+    [];
+  while (true) {
+    let best: { layerIndex: number; startT: number } | null = null;
+    for (const [layerIndex, layer] of drawing.layers.entries()) {
+      const stroke = layer.strokes[nextIndices[layerIndex]];
+      if (!stroke) continue;
+      const startT = stroke.points[0]?.t ?? 0;
+      if (!best || startT < best.startT) best = { layerIndex, startT };
+    }
+    if (!best) return ordered;
+    const strokeIndex = nextIndices[best.layerIndex];
+    ordered.push({
+      layerIndex: best.layerIndex,
+      strokeIndex,
+      stroke: drawing.layers[best.layerIndex].strokes[strokeIndex],
+    });
+    nextIndices[best.layerIndex] += 1;
+  }
+}
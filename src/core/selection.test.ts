@@ -0,0 +1,178 @@
+import { createLayer } from "@/core/layers";
+import {
+  duplicateStrokes,
+  findStrokesInSelection,
+  getSelectionPolygon,
+  getStrokePointPixels,
+  getStrokesBounds,
+  isPixelInSelection,
+  removeStrokes,
+  translateStrokes,
+} from "@/core/selection";
+import type { Layer, Stroke } from "@/core/types";
+
+/** テスト用のストロークを生成する */
+function createStroke(id: string, points: { x: number; y: number }[]): Stroke {
+  return {
+    id,
+    kind: "draw",
+    brush: {
+      kind: "solid",
+      color: { kind: "palette", index: 0 },
+      width: 2,
+      opacity: 1,
+      variant: "penCircle",
+    },
+    points: points.map((p, i) => ({ ...p, t: i })),
+  };
+}
+
+/** 左上・右下・中央にストロークを持つレイヤー */
+function createTestLayer(): Layer {
+  return createLayer("layer", "レイヤー", [
+    createStroke("topLeft", [
+      { x: 1, y: 1 },
+      { x: 3, y: 2 },
+    ]),
+    createStroke("bottomRight", [{ x: 18, y: 18 }]),
+    createStroke("center", [
+      { x: 8, y: 10 },
+      { x: 10, y: 9 },
+    ]),
+  ]);
+}
+
+describe("selection", () => {
+  test("矩形は始点と終点から4隅の輪郭になり、端を含む", () => {
+    const shape = {
+      mode: "rect" as const,
+      points: [
+        { x: 5, y: 8 },
+        { x: 2, y: 3 },
+      ],
+    };
+
+    expect(getSelectionPolygon(shape)).toEqual([
+      { x: 5, y: 8 },
+      { x: 2, y: 8 },
+      { x: 2, y: 3 },
+      { x: 5, y: 3 },
+    ]);
+    expect(isPixelInSelection(shape, 2, 3)).toBe(true);
+    expect(isPixelInSelection(shape, 5, 8)).toBe(true);
+    expect(isPixelInSelection(shape, 6, 8)).toBe(false);
+  });
+
+  test("なげなわは囲んだ内側だけを含み、3点未満は何も含まない", () => {
+    const triangle = {
+      mode: "lasso" as const,
+      points: [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 0, y: 10 },
+      ],
+    };
+
+    expect(isPixelInSelection(triangle, 2, 2)).toBe(true);
+    expect(isPixelInSelection(triangle, 8, 8)).toBe(false);
+    expect(
+      isPixelInSelection(
+        { mode: "lasso", points: triangle.points.slice(0, 2) },
+        2,
+        0,
+      ),
+    ).toBe(false);
+  });
+
+  test("塗るピクセルが1つでも範囲に入るストロークを選ぶ", () => {
+    const layer = createTestLayer();
+
+    const ids = findStrokesInSelection(
+      layer,
+      {
+        mode: "rect",
+        points: [
+          { x: 0, y: 0 },
+          { x: 10, y: 10 },
+        ],
+      },
+      getStrokePointPixels,
+    );
+
+    expect(ids).toEqual(["topLeft", "center"]);
+  });
+
+  test("なげなわの外接矩形に入っても内側でなければ選ばない", () => {
+    const layer = createTestLayer();
+
+    const ids = findStrokesInSelection(
+      layer,
+      {
+        mode: "lasso",
+        points: [
+          { x: 20, y: 0 },
+          { x: 20, y: 20 },
+          { x: 0, y: 20 },
+        ],
+      },
+      getStrokePointPixels,
+    );
+
+    expect(ids).toEqual(["bottomRight"]);
+  });
+
+  test("選んだストロークが塗るピクセル全体を囲む矩形を求める", () => {
+    const layer = createTestLayer();
+
+    expect(
+      getStrokesBounds(
+        layer.strokes.filter((s) => s.id !== "bottomRight"),
+        getStrokePointPixels,
+      ),
+    ).toEqual({ x: 1, y: 1, width: 10, height: 10 });
+    expect(getStrokesBounds([], getStrokePointPixels)).toBeNull();
+  });
+
+  test("指定したストロークだけを平行移動し、時刻は変えない", () => {
+    const layer = createTestLayer();
+
+    const moved = translateStrokes(layer, ["topLeft"], 2, -1);
+
+    expect(moved.strokes[0].points).toEqual([
+      { x: 3, y: 0, t: 0 },
+      { x: 5, y: 1, t: 1 },
+    ]);
+    expect(moved.strokes[1]).toBe(layer.strokes[1]);
+    expect(translateStrokes(layer, ["topLeft"], 0, 0)).toBe(layer);
+  });
+
+  test("複製はずらしてレイヤーの一番上に元の順で重なる", () => {
+    const layer = createTestLayer();
+    let nextId = 0;
+
+    const result = duplicateStrokes(layer, ["center", "topLeft"], {
+      createId: () => `copy${nextId++}`,
+      dx: 4,
+      dy: 4,
+    });
+
+    expect(result.strokeIds).toEqual(["copy0", "copy1"]);
+    expect(result.layer.strokes.map((s) => s.id)).toEqual([
+      "topLeft",
+      "bottomRight",
+      "center",
+      "copy0",
+      "copy1",
+    ]);
+    expect(result.layer.strokes[3].points[0]).toMatchObject({ x: 5, y: 5 });
+    expect(result.layer.strokes[4].points[0]).toMatchObject({ x: 12, y: 14 });
+  });
+
+  test("指定したストロークを取り除く", () => {
+    const layer = createTestLayer();
+
+    expect(
+      removeStrokes(layer, ["topLeft", "center"]).strokes.map((s) => s.id),
+    ).toEqual(["bottomRight"]);
+  });
+});
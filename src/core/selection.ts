@@ -0,0 +1,189 @@
+import type { Layer, Point, Stroke } from "@/core/types";
+
+/** 選択範囲の囲み方（矩形/なげなわ） */
+export type SelectionMode = "rect" | "lasso";
+
+/** ドラッグでなぞった選択範囲（矩形は始点と終点、なげなわは囲んだ点列） */
+export type SelectionShape = {
+  mode: SelectionMode;
+  points: { x: number; y: number }[];
+};
+
+/** ピクセル単位の矩形（x, yは左上、幅・高さは1以上） */
+export type PixelRect = { x: number; y: number; width: number; height: number };
+
+/** ストロークが塗るピクセルを返す関数（当たり判定に使う） */
+export type StrokeFootprint = (stroke: Stroke) => { x: number; y: number }[];
+
+/**
+ * ストロークの点の位置だけを塗るピクセルとみなす
+ * 描画と同じ太さで判定できない場合の代わりに使う
+ */
+export const getStrokePointPixels: StrokeFootprint = (stroke) =>
+  stroke.points.map((point) => ({
+    x: Math.round(point.x),
+    y: Math.round(point.y),
+  }));
+
+/**
+ * 選択範囲の輪郭の多角形（矩形は4隅、なげなわは点列をそのまま閉じたもの）
+ */
+export function getSelectionPolygon(
+  shape: SelectionShape,
+): { x: number; y: number }[] {
+  if (shape.mode === "lasso") return shape.points;
+  const first = shape.points[0];
+  const last = shape.points[shape.points.length - 1];
+  if (!first || !last) return [];
+  return [
+    { x: first.x, y: first.y },
+    { x: last.x, y: first.y },
+    { x: last.x, y: last.y },
+    { x: first.x, y: last.y },
+  ];
+}
+
+/**
+ * ピクセルが選択範囲に入るか
+ * 矩形は端を含み、なげなわは偶奇規則で内側を判定する（3点未満は何も含まない）
+ */
+export function isPixelInSelection(
+  shape: SelectionShape,
+  x: number,
+  y: number,
+): boolean {
+  if (shape.mode === "rect") {
+    const [left, top, right, bottom] = getShapeExtent(shape);
+    return x >= left && x <= right && y >= top && y <= bottom;
+  }
+  const polygon = shape.points;
+  if (polygon.length < 3) return false;
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.y > y !== b.y > y &&
+      x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * 塗るピクセルが1つでも選択範囲に入るストロークのIDを、レイヤー内の順に返す
+ * 範囲の外接矩形から外れるピクセルは多角形の判定を省く
+ */
+export function findStrokesInSelection(
+  layer: Layer,
+  shape: SelectionShape,
+  getFootprint: StrokeFootprint,
+): string[] {
+  if (shape.points.length === 0) return [];
+  const [left, top, right, bottom] = getShapeExtent(shape);
+  return layer.strokes
+    .filter((stroke) =>
+      getFootprint(stroke).some(
+        ({ x, y }) =>
+          x >= left &&
+          x <= right &&
+          y >= top &&
+          y <= bottom &&
+          isPixelInSelection(shape, x, y),
+      ),
+    )
+    .map((stroke) => stroke.id);
+}
+
+/** ストロークが塗るピクセル全体を囲む矩形（何も塗らない場合はnull） */
+export function getStrokesBounds(
+  strokes: Stroke[],
+  getFootprint: StrokeFootprint,
+): PixelRect | null {
+  let left = Number.POSITIVE_INFINITY;
+  let top = Number.POSITIVE_INFINITY;
+  let right = Number.NEGATIVE_INFINITY;
+  let bottom = Number.NEGATIVE_INFINITY;
+  for (const stroke of strokes) {
+    for (const { x, y } of getFootprint(stroke)) {
+      left = Math.min(left, x);
+      top = Math.min(top, y);
+      right = Math.max(right, x);
+      bottom = Math.max(bottom, y);
+    }
+  }
+  if (left > right) return null;
+  return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+/** 指定したストロークの点をまとめて平行移動する（時刻は変えない） */
+export function translateStrokes(
+  layer: Layer,
+  strokeIds: readonly string[],
+  dx: number,
+  dy: number,
+): Layer {
+  if (dx === 0 && dy === 0) return layer;
+  const ids = new Set(strokeIds);
+  return {
+    ...layer,
+    strokes: layer.strokes.map((stroke) =>
+      ids.has(stroke.id)
+        ? { ...stroke, points: stroke.points.map((p) => movePoint(p, dx, dy)) }
+        : stroke,
+    ),
+  };
+}
+
+/**
+ * 指定したストロークを複製してレイヤーの一番上に重ねる
+ * 複製は元のレイヤー内の順を保ち、ずらして置く
+ *
+ * @returns 複製を加えたレイヤーと複製のID
+ */
+export function duplicateStrokes(
+  layer: Layer,
+  strokeIds: readonly string[],
+  { createId, dx, dy }: { createId: () => string; dx: number; dy: number },
+): { layer: Layer; strokeIds: string[] } {
+  const ids = new Set(strokeIds);
+  const copies = layer.strokes
+    .filter((stroke) => ids.has(stroke.id))
+    .map((stroke) => ({
+      ...stroke,
+      id: createId(),
+      points: stroke.points.map((p) => movePoint(p, dx, dy)),
+    }));
+  return {
+    layer: { ...layer, strokes: [...layer.strokes, ...copies] },
+    strokeIds: copies.map((stroke) => stroke.id),
+  };
+}
+
+/** 指定したストロークを取り除く */
+export function removeStrokes(
+  layer: Layer,
+  strokeIds: readonly string[],
+): Layer {
+  const ids = new Set(strokeIds);
+  return {
+    ...layer,
+    strokes: layer.strokes.filter((stroke) => !ids.has(stroke.id)),
+  };
+}
+
+/** 選択範囲の点を囲む範囲 [左, 上, 右, 下] */
+function getShapeExtent(
+  shape: SelectionShape,
+): [number, number, number, number] {
+  const xs = shape.points.map((p) => p.x);
+  const ys = shape.points.map((p) => p.y);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+}
+
+/** 点を平行移動する */
+function movePoint(point: Point, dx: number, dy: number): Point {
+  return { ...point, x: point.x + dx, y: point.y + dy };
+}
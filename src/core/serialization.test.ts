@@ -0,0 +1,404 @@
+import {
+  DEFAULT_ANIMATION_SETTINGS,
+  MAX_CYCLE_COUNT,
+  MIN_CYCLE_INTERVAL_MS,
+} from "@/core/animation";
+import { createFrame, DEFAULT_FRAME_ID } from "@/core/frames";
+import { createDrawing, createLayer } from "@/core/layers";
+import {
+  DRAWING_FILE_FORMAT,
+  DRAWING_FILE_VERSION,
+  type DrawingDocument,
+  DrawingFormatError,
+  deserializeDrawingDocument,
+  parseDrawingDocument,
+  serializeDrawingDocument,
+  stringifyDrawingDocument,
+} from "@/core/serialization";
+
+const document: DrawingDocument = {
+  frames: [
+    createFrame(
+      DEFAULT_FRAME_ID,
+      createDrawing(100, 80, [
+        {
+          id: "s1",
+          kind: "draw",
+          brush: {
+            kind: "solid",
+            color: { kind: "palette", index: 2 },
+            width: 4,
+            opacity: 1,
+            variant: "penSquare",
+          },
+          points: [
+            { x: 1, y: 2, t: 0 },
+            { x: 5, y: 6, t: 16 },
+          ],
+        },
+        {
+          id: "s2",
+          kind: "draw",
+          brush: {
+            kind: "pattern",
+            color: { kind: "fixed", color: "#123456" },
+            width: 8,
+            opacity: 1,
+            patternId: "check",
+            variant: "penCircle",
+          },
+          points: [{ x: 10, y: 10, t: 40 }],
+        },
+        {
+          id: "s3",
+          kind: "erase",
+          brush: {
+            kind: "solid",
+            color: { kind: "palette", index: 0 },
+            width: 12,
+            opacity: 1,
+            variant: "eraserLine",
+          },
+          points: [{ x: 3, y: 3, t: 80 }],
+        },
+      ]),
+    ),
+  ],
+  palette: ["#000000", "#ff0000", "#00ff00"],
+  backgroundColor: "#fdfbf7",
+  jitterConfig: { amplitude: 1.2, frequency: 0.008 },
+  animation: { cycleCount: 5, cycleIntervalMs: 150 },
+};
+
+/** エラーを捕捉して返す */
+function captureError(fn: () => unknown): DrawingFormatError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof DrawingFormatError) return error;
+    throw error;
+  }
+  throw new Error("DrawingFormatError was not thrown");
+}
+
+describe("serialization", () => {
+  test("保存形式にはformatとversionが含まれる", () => {
+    const serialized = serializeDrawingDocument(document);
+    expect(serialized.format).toBe(DRAWING_FILE_FORMAT);
+    expect(serialized.version).toBe(DRAWING_FILE_VERSION);
+  });
+
+  test("文字列化したドキュメントを同じ内容に復元できる", () => {
+    const restored = parseDrawingDocument(stringifyDrawingDocument(document));
+    expect(restored).toEqual(document);
+  });
+
+  test("非表示・ロック中を含む複数レイヤーを復元できる", () => {
+    const drawing = document.frames[0].drawing;
+    const layered: DrawingDocument = {
+      ...document,
+      frames: [
+        createFrame(DEFAULT_FRAME_ID, {
+          ...drawing,
+          layers: [
+            ...drawing.layers,
+            {
+              ...createLayer("layer-2", "下書き"),
+              visible: false,
+              locked: true,
+            },
+          ],
+        }),
+      ],
+    };
+
+    const restored = parseDrawingDocument(stringifyDrawingDocument(layered));
+
+    expect(restored).toEqual(layered);
+  });
+
+  test("表示時間の異なる複数コマを復元できる", () => {
+    const animated: DrawingDocument = {
+      ...document,
+      frames: [
+        ...document.frames,
+        createFrame("frame-2", createDrawing(100, 80), 500),
+      ],
+    };
+
+    const restored = parseDrawingDocument(stringifyDrawingDocument(animated));
+
+    expect(restored).toEqual(animated);
+  });
+
+  test("v1のストローク列はレイヤー1枚のコマに移行する", () => {
+    const { frames, ...rest } = serializeDrawingDocument(document);
+    const { layers, ...size } = frames[0].drawing;
+    const v1 = {
+      ...rest,
+      version: 1,
+      drawing: { ...size, strokes: layers[0].strokes },
+    };
+
+    const restored = deserializeDrawingDocument(v1);
+
+    expect(restored.frames).toEqual(document.frames);
+  });
+
+  test("v3以前は既定のアニメーション設定で読み込む", () => {
+    const { animation: _animation, ...rest } =
+      serializeDrawingDocument(document);
+
+    const restored = deserializeDrawingDocument({ ...rest, version: 3 });
+
+    expect(restored.animation).toEqual(DEFAULT_ANIMATION_SETTINGS);
+  });
+
+  test("範囲外のアニメーション設定は上下限に丸める", () => {
+    const serialized = serializeDrawingDocument({
+      ...document,
+      animation: { cycleCount: 100, cycleIntervalMs: 1 },
+    });
+
+    const restored = deserializeDrawingDocument(serialized);
+
+    expect(restored.animation).toEqual({
+      cycleCount: MAX_CYCLE_COUNT,
+      cycleIntervalMs: MIN_CYCLE_INTERVAL_MS,
+    });
+  });
+
+  test("v2の描画は1コマ目に移行する", () => {
+    const { frames, ...rest } = serializeDrawingDocument(document);
+    const v2 = { ...rest, version: 2, drawing: frames[0].drawing };
+
+    const restored = deserializeDrawingDocument(v2);
+
+    expect(restored.frames).toEqual(document.frames);
+  });
+
+  test("レイヤーIDの重複はinvalidValueになる", () => {
+    const serialized = JSON.parse(stringifyDrawingDocument(document));
+    const { drawing } = serialized.frames[0];
+    drawing.layers.push({ ...drawing.layers[0] });
+    const error = captureError(() => deserializeDrawingDocument(serialized));
+    expect(error.code).toBe("invalidValue");
+    expect(error.path).toBe("frames[0].drawing.layers[1].id");
+  });
+
+  test("塗りつぶしのストロークを範囲ごと復元できる", () => {
+    const drawing = document.frames[0].drawing;
+    const filled: DrawingDocument = {
+      ...document,
+      frames: [
+        createFrame(DEFAULT_FRAME_ID, {
+          ...drawing,
+          layers: [
+            createLayer("layer-1", "レイヤー1", [
+              {
+                id: "f1",
+                kind: "fill",
+                brush: {
+                  kind: "pattern",
+                  color: { kind: "palette", index: 1 },
+                  width: 1,
+                  opacity: 1,
+                  patternId: "check",
+                  variant: "penCircle",
+                },
+                points: [{ x: 20, y: 30, t: 120 }],
+                region: {
+                  top: -1,
+                  rows: [
+                    [-2, 3],
+                    [-4, 2, 1, 5],
+                  ],
+                },
+              },
+            ]),
+          ],
+        }),
+      ],
+    };
+
+    const restored = parseDrawingDocument(stringifyDrawingDocument(filled));
+
+    expect(restored).toEqual(filled);
+  });
+
+  test("塗りつぶしの範囲の長さが0以下ならinvalidValueになる", () => {
+    const serialized = JSON.parse(stringifyDrawingDocument(document));
+    serialized.frames[0].drawing.layers[0].strokes[0] = {
+      ...serialized.frames[0].drawing.layers[0].strokes[0],
+      kind: "fill",
+      region: { top: 0, rows: [[0, 0]] },
+    };
+    const error = captureError(() => deserializeDrawingDocument(serialized));
+    expect(error.code).toBe("invalidValue");
+    expect(error.path).toBe(
+      "frames[0].drawing.layers[0].strokes[0].region.rows[0][1]",
+    );
+  });
+
+  test("筆圧を使うストロークと点ごとに太さを持つストロークを復元できる", () => {
+    const drawing = document.frames[0].drawing;
+    const pressured: DrawingDocument = {
+      ...document,
+      frames: [
+        createFrame(DEFAULT_FRAME_ID, {
+          ...drawing,
+          layers: [
+            createLayer("layer-1", "レイヤー1", [
+              {
+                id: "p1",
+                kind: "draw",
+                brush: {
+                  kind: "solid",
+                  color: { kind: "palette", index: 1 },
+                  width: 6,
+                  opacity: 1,
+                  variant: "penCircle",
+                  pressure: true,
+                },
+                points: [
+                  { x: 1, y: 2, t: 0, pressure: 0.2, tiltX: -10, tiltY: 30 },
+                  { x: 5, y: 6, t: 16, pressure: 0.9, tiltX: 0, tiltY: 45 },
+                ],
+              },
+              {
+                id: "p2",
+                kind: "draw",
+                brush: {
+                  kind: "solid",
+                  color: { kind: "palette", index: 0 },
+                  width: 12,
+                  opacity: 1,
+                  variant: "brushTaper",
+                },
+                points: [
+                  { x: 1, y: 2, t: 0, width: 4 },
+                  { x: 9, y: 2, t: 16, width: 11 },
+                ],
+              },
+            ]),
+          ],
+        }),
+      ],
+    };
+
+    const restored = parseDrawingDocument(stringifyDrawingDocument(pressured));
+
+    expect(restored).toEqual(pressured);
+  });
+
+  test("点の太さが0以下ならinvalidValueになる", () => {
+    const serialized = JSON.parse(stringifyDrawingDocument(document));
+    serialized.frames[0].drawing.layers[0].strokes[0].brush.variant =
+      "brushInk";
+    serialized.frames[0].drawing.layers[0].strokes[0].points[1].width = 0;
+    const error = captureError(() => deserializeDrawingDocument(serialized));
+    expect(error.code).toBe("invalidValue");
+    expect(error.path).toBe(
+      "frames[0].drawing.layers[0].strokes[0].points[1].width",
+    );
+  });
+
+  test("0〜1の範囲外の筆圧はinvalidValueになる", () => {
+    const serialized = JSON.parse(stringifyDrawingDocument(document));
+    serialized.frames[0].drawing.layers[0].strokes[0].points[0].pressure = 1.5;
+    const error = captureError(() => deserializeDrawingDocument(serialized));
+    expect(error.code).toBe("invalidValue");
+    expect(error.path).toBe(
+      "frames[0].drawing.layers[0].strokes[0].points[0].pressure",
+    );
+  });
+
+  test("ブラシの太さが0以下や0〜1の範囲外の不透明度はinvalidValueになる", () => {
+    const cases = [
+      { field: "width", value: -2 },
+      { field: "width", value: 0 },
+      { field: "opacity", value: 1.5 },
+      { field: "opacity", value: -0.1 },
+    ];
+    for (const { field, value } of cases) {
+      const serialized = JSON.parse(stringifyDrawingDocument(document));
+      serialized.frames[0].drawing.layers[0].strokes[0].brush[field] = value;
+      const error = captureError(() => deserializeDrawingDocument(serialized));
+      expect(error.code).toBe("invalidValue");
+      expect(error.path).toBe(
+        `frames[0].drawing.layers[0].strokes[0].brush.${field}`,
+      );
+    }
+  });
+
+  test("不正なJSONはinvalidJsonになる", () => {
+    const error = captureError(() => parseDrawingDocument("{"));
+    expect(error.code).toBe("invalidJson");
+  });
+
+  test("別形式のデータはinvalidFormatになる", () => {
+    const error = captureError(() =>
+      deserializeDrawingDocument({ format: "other", version: 1 }),
+    );
+    expect(error.code).toBe("invalidFormat");
+  });
+
+  test("未来のバージョンはunsupportedVersionになる", () => {
+    const serialized = {
+      ...serializeDrawingDocument(document),
+      version: DRAWING_FILE_VERSION + 1,
+    };
+    const error = captureError(() => deserializeDrawingDocument(serialized));
+    expect(error.code).toBe("unsupportedVersion");
+  });
+
+  test("未知のパターンIDは位置付きのunknownPatternIdになる", () => {
+    const serialized = JSON.parse(stringifyDrawingDocument(document));
+    serialized.frames[0].drawing.layers[0].strokes[1].brush.patternId =
+      "sparkle";
+    const error = captureError(() => deserializeDrawingDocument(serialized));
+    expect(error.code).toBe("unknownPatternId");
+    expect(error.path).toBe(
+      "frames[0].drawing.layers[0].strokes[1].brush.patternId",
+    );
+  });
+
+  test("未知のブラシバリアントはunknownBrushVariantになる", () => {
+    const serialized = JSON.parse(stringifyDrawingDocument(document));
+    serialized.frames[0].drawing.layers[0].strokes[0].brush.variant = "penStar";
+    const error = captureError(() => deserializeDrawingDocument(serialized));
+    expect(error.code).toBe("unknownBrushVariant");
+    expect(error.path).toBe(
+      "frames[0].drawing.layers[0].strokes[0].brush.variant",
+    );
+  });
+
+  test("Objectのプロトタイプにある名前はブラシバリアントとして受け付けない", () => {
+    for (const variant of ["toString", "constructor", "__proto__"]) {
+      const serialized = JSON.parse(stringifyDrawingDocument(document));
+      serialized.frames[0].drawing.layers[0].strokes[0].brush.variant = variant;
+      const error = captureError(() => deserializeDrawingDocument(serialized));
+      expect(error.code).toBe("unknownBrushVariant");
+    }
+  });
+
+  test("未知やObjectのプロトタイプにある名前のストローク種別はinvalidValueになる", () => {
+    for (const kind of ["smudge", "constructor", "hasOwnProperty"]) {
+      const serialized = JSON.parse(stringifyDrawingDocument(document));
+      serialized.frames[0].drawing.layers[0].strokes[0].kind = kind;
+      const error = captureError(() => deserializeDrawingDocument(serialized));
+      expect(error.code).toBe("invalidValue");
+      expect(error.path).toBe("frames[0].drawing.layers[0].strokes[0].kind");
+    }
+  });
+
+  test("型の合わない値はinvalidValueになる", () => {
+    const serialized = JSON.parse(stringifyDrawingDocument(document));
+    serialized.frames[0].drawing.layers[0].strokes[0].points[1].x = "5";
+    const error = captureError(() => deserializeDrawingDocument(serialized));
+    expect(error.code).toBe("invalidValue");
+    expect(error.path).toBe(
+      "frames[0].drawing.layers[0].strokes[0].points[1].x",
+    );
+  });
+});
@@ -0,0 +1,539 @@
+import {
+  type AnimationSettings,
+  clampAnimationSettings,
+  DEFAULT_ANIMATION_SETTINGS,
+} from "@/core/animation";
+import {
+  clampFrameDuration,
+  createFrame,
+  DEFAULT_FRAME_ID,
+} from "@/core/frames";
+import type { JitterConfig } from "@/core/jitter";
+import { createDrawing } from "@/core/layers";
+import { isBrushPatternId } from "@/core/patterns";
+import type {
+  BrushColor,
+  BrushSettings,
+  BrushVariant,
+  Drawing,
+  FillRegion,
+  Frame,
+  Layer,
+  Point,
+  Stroke,
+  StrokeKind,
+} from "@/core/types";
+
+/** 保存ファイルの識別子 */
+export const DRAWING_FILE_FORMAT = "wiggly-zakomemo";
+/**
+ * 現在の保存形式バージョン
+ * v1: drawing.strokesのみ（読み込み時にレイヤー1枚へ移行する）
+ * v2: drawing.layers
+ * v3: frames（v2以前の描画は1コマ目として読み込む）
+ * v4: animation（v3以前は既定のアニメーション設定で読み込む）
+ */
+export const DRAWING_FILE_VERSION = 4;
+
+/** 描画データと、その見た目を決める設定をまとめたドキュメント */
+export type DrawingDocument = {
+  /** パラパラ漫画のコマ（1枚以上） */
+  frames: Frame[];
+  /** パレット配色（ストロークはインデックスで参照する） */
+  palette: string[];
+  backgroundColor: string;
+  jitterConfig: JitterConfig;
+  animation: AnimationSettings;
+};
+
+/** JSONとして保存する形式 */
+export type SerializedDrawingDocument = {
+  format: typeof DRAWING_FILE_FORMAT;
+  version: number;
+  palette: string[];
+  backgroundColor: string;
+  jitterConfig: JitterConfig;
+  animation: AnimationSettings;
+  frames: Frame[];
+};
+
+/** 読み込みエラーの種別 */
+export type DrawingFormatErrorCode =
+  | "invalidJson"
+  | "invalidFormat"
+  | "unsupportedVersion"
+  | "invalidValue"
+  | "unknownPatternId"
+  | "unknownBrushVariant";
+
+/**
+ * 保存データの読み込みエラー
+ * 呼び出し側で種別ごとに扱えるよう、codeと問題箇所のpathを持つ
+ */
+export class DrawingFormatError extends Error {
+  readonly code: DrawingFormatErrorCode;
+  /** 問題のある値の位置（例: frames[0].drawing.layers[0].strokes[3].brush.variant） */
+  readonly path: string;
+
+  constructor(code: DrawingFormatErrorCode, path: string, message: string) {
+    super(`${message} (${path})`);
+    this.name = "DrawingFormatError";
+    this.code = code;
+    this.path = path;
+  }
+}
+
+/** 既知のブラシバリアント（型と一致しない値は読み込み時に弾く） */
+const BRUSH_VARIANTS: Record<BrushVariant, true> = {
+  penCircle: true,
+  penSquare: true,
+  brushTaper: true,
+  brushInk: true,
+  eraserCircle: true,
+  eraserSquare: true,
+  eraserLine: true,
+};
+
+const STROKE_KINDS: Record<StrokeKind, true> = {
+  draw: true,
+  erase: true,
+  fill: true,
+};
+
+/** ドキュメントを保存形式に変換する */
+export function serializeDrawingDocument(
+  document: DrawingDocument,
+): SerializedDrawingDocument {
+  return {
+    format: DRAWING_FILE_FORMAT,
+    version: DRAWING_FILE_VERSION,
+    palette: [...document.palette],
+    backgroundColor: document.backgroundColor,
+    jitterConfig: { ...document.jitterConfig },
+    animation: { ...document.animation },
+    frames: document.frames,
+  };
+}
+
+/** ドキュメントをJSON文字列に変換する */
+export function stringifyDrawingDocument(document: DrawingDocument): string {
+  return JSON.stringify(serializeDrawingDocument(document));
+}
+
+/**
+ * JSON文字列からドキュメントを復元する
+ * @throws DrawingFormatError JSONとして不正、または形式に合わない場合
+ */
+export function parseDrawingDocument(text: string): DrawingDocument {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new DrawingFormatError("invalidJson", "$", "Invalid JSON");
+  }
+  return deserializeDrawingDocument(value);
+}
+
+/**
+ * 保存形式の値を検証してドキュメントに復元する
+ * @throws DrawingFormatError 形式に合わない場合
+ */
+export function deserializeDrawingDocument(value: unknown): DrawingDocument {
+  const root = expectRecord(value, "$");
+  if (root.format !== DRAWING_FILE_FORMAT) {
+    throw new DrawingFormatError(
+      "invalidFormat",
+      "format",
+      "Not a wiggly-zakomemo file",
+    );
+  }
+  const version = root.version;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 1 ||
+    version > DRAWING_FILE_VERSION
+  ) {
+    throw new DrawingFormatError(
+      "unsupportedVersion",
+      "version",
+      `Unsupported version: ${String(version)}`,
+    );
+  }
+
+  return {
+    palette: expectArray(root.palette, "palette").map((color, i) =>
+      expectString(color, `palette[${i}]`),
+    ),
+    backgroundColor: expectString(root.backgroundColor, "backgroundColor"),
+    jitterConfig: parseJitterConfig(root.jitterConfig, "jitterConfig"),
+    animation:
+      version < 4
+        ? { ...DEFAULT_ANIMATION_SETTINGS }
+        : parseAnimationSettings(root.animation, "animation"),
+    frames: parseFrames(root, version),
+  };
+}
+
+function parseJitterConfig(value: unknown, path: string): JitterConfig {
+  const record = expectRecord(value, path);
+  return {
+    amplitude: expectNumber(record.amplitude, `${path}.amplitude`),
+    frequency: expectNumber(record.frequency, `${path}.frequency`),
+  };
+}
+
+/** アニメーション設定を読み込む（範囲外の値は上下限に丸める） */
+function parseAnimationSettings(
+  value: unknown,
+  path: string,
+): AnimationSettings {
+  const record = expectRecord(value, path);
+  return clampAnimationSettings({
+    cycleCount: expectNumber(record.cycleCount, `${path}.cycleCount`),
+    cycleIntervalMs: expectNumber(
+      record.cycleIntervalMs,
+      `${path}.cycleIntervalMs`,
+    ),
+  });
+}
+
+/** コマ列を読み込む（v2以前は1枚の描画を1コマ目にする） */
+function parseFrames(root: Record<string, unknown>, version: number): Frame[] {
+  if (version === 1) {
+    return [
+      createFrame(DEFAULT_FRAME_ID, parseDrawingV1(root.drawing, "drawing")),
+    ];
+  }
+  if (version === 2) {
+    return [
+      createFrame(DEFAULT_FRAME_ID, parseDrawing(root.drawing, "drawing")),
+    ];
+  }
+
+  const frames = expectArray(root.frames, "frames").map((frame, i) =>
+    parseFrame(frame, `frames[${i}]`),
+  );
+  if (frames.length === 0) {
+    throw new DrawingFormatError(
+      "invalidValue",
+      "frames",
+      "At least one frame is required",
+    );
+  }
+  assertUniqueIds(frames, "frames");
+  return frames;
+}
+
+function parseFrame(value: unknown, path: string): Frame {
+  const record = expectRecord(value, path);
+  return {
+    id: expectString(record.id, `${path}.id`),
+    drawing: parseDrawing(record.drawing, `${path}.drawing`),
+    durationMs: clampFrameDuration(
+      expectNumber(record.durationMs, `${path}.durationMs`),
+    ),
+  };
+}
+
+function parseDrawing(value: unknown, path: string): Drawing {
+  const record = expectRecord(value, path);
+  const layers = expectArray(record.layers, `${path}.layers`).map((layer, i) =>
+    parseLayer(layer, `${path}.layers[${i}]`),
+  );
+  if (layers.length === 0) {
+    throw new DrawingFormatError(
+      "invalidValue",
+      `${path}.layers`,
+      "At least one layer is required",
+    );
+  }
+  assertUniqueIds(layers, `${path}.layers`);
+  return {
+    width: expectPositiveInteger(record.width, `${path}.width`),
+    height: expectPositiveInteger(record.height, `${path}.height`),
+    layers,
+  };
+}
+
+/** v1のストローク列をレイヤー1枚の描画として読み込む */
+function parseDrawingV1(value: unknown, path: string): Drawing {
+  const record = expectRecord(value, path);
+  return createDrawing(
+    expectPositiveInteger(record.width, `${path}.width`),
+    expectPositiveInteger(record.height, `${path}.height`),
+    expectArray(record.strokes, `${path}.strokes`).map((stroke, i) =>
+      parseStroke(stroke, `${path}.strokes[${i}]`),
+    ),
+  );
+}
+
+function parseLayer(value: unknown, path: string): Layer {
+  const record = expectRecord(value, path);
+  return {
+    id: expectString(record.id, `${path}.id`),
+    name: expectString(record.name, `${path}.name`),
+    visible: expectBoolean(record.visible, `${path}.visible`),
+    locked: expectBoolean(record.locked, `${path}.locked`),
+    strokes: expectArray(record.strokes, `${path}.strokes`).map((stroke, i) =>
+      parseStroke(stroke, `${path}.strokes[${i}]`),
+    ),
+  };
+}
+
+function parseStroke(value: unknown, path: string): Stroke {
+  const record = expectRecord(value, path);
+  const kind = record.kind;
+  if (typeof kind !== "string" || !Object.hasOwn(STROKE_KINDS, kind)) {
+    throw new DrawingFormatError(
+      "invalidValue",
+      `${path}.kind`,
+      `Unknown stroke kind: ${String(kind)}`,
+    );
+  }
+  const stroke: Stroke = {
+    id: expectString(record.id, `${path}.id`),
+    kind: kind as StrokeKind,
+    brush: parseBrush(record.brush, `${path}.brush`),
+    points: expectArray(record.points, `${path}.points`).map((point, i) =>
+      parsePoint(point, `${path}.points[${i}]`),
+    ),
+  };
+  if (kind !== "fill") return stroke;
+  // 塗りつぶしは最初の点を基準に範囲を置くので、点が1つ以上必要
+  if (stroke.points.length === 0) {
+    throw new DrawingFormatError(
+      "invalidValue",
+      `${path}.points`,
+      "Fill stroke requires a point",
+    );
+  }
+  return {
+    ...stroke,
+    region: parseFillRegion(record.region, `${path}.region`),
+  };
+}
+
+/** 塗りつぶしの範囲（各行は[左端, 長さ]の組の並びで、長さは1以上） */
+function parseFillRegion(value: unknown, path: string): FillRegion {
+  const record = expectRecord(value, path);
+  const top = expectNumber(record.top, `${path}.top`);
+  if (!Number.isInteger(top)) {
+    throw new DrawingFormatError(
+      "invalidValue",
+      `${path}.top`,
+      "Expected an integer",
+    );
+  }
+  const rows = expectArray(record.rows, `${path}.rows`).map((row, i) => {
+    const rowPath = `${path}.rows[${i}]`;
+    const runs = expectArray(row, rowPath);
+    if (runs.length % 2 !== 0) {
+      throw new DrawingFormatError(
+        "invalidValue",
+        rowPath,
+        "Expected pairs of left and length",
+      );
+    }
+    return runs.map((run, j) => {
+      const runPath = `${rowPath}[${j}]`;
+      const number = expectNumber(run, runPath);
+      if (!Number.isInteger(number) || (j % 2 === 1 && number < 1)) {
+        throw new DrawingFormatError(
+          "invalidValue",
+          runPath,
+          j % 2 === 1
+            ? "Run length must be a positive integer"
+            : "Expected an integer",
+        );
+      }
+      return number;
+    });
+  });
+  return { top, rows };
+}
+
+function parseBrush(value: unknown, path: string): BrushSettings {
+  const record = expectRecord(value, path);
+  const variant = record.variant;
+  if (typeof variant !== "string" || !Object.hasOwn(BRUSH_VARIANTS, variant)) {
+    throw new DrawingFormatError(
+      "unknownBrushVariant",
+      `${path}.variant`,
+      `Unknown brush variant: ${String(variant)}`,
+    );
+  }
+  const width = expectNumber(record.width, `${path}.width`);
+  if (width <= 0) {
+    throw new DrawingFormatError(
+      "invalidValue",
+      `${path}.width`,
+      "Width must be positive",
+    );
+  }
+  const opacity = expectNumber(record.opacity, `${path}.opacity`);
+  if (opacity < 0 || opacity > 1) {
+    throw new DrawingFormatError(
+      "invalidValue",
+      `${path}.opacity`,
+      "Opacity must be between 0 and 1",
+    );
+  }
+  const common = {
+    color: parseBrushColor(record.color, `${path}.color`),
+    width,
+    opacity,
+    variant: variant as BrushVariant,
+    // 筆圧を使うストロークにだけある
+    ...(record.pressure !== undefined
+      ? { pressure: expectBoolean(record.pressure, `${path}.pressure`) }
+      : {}),
+  };
+
+  if (record.kind === "solid") {
+    return { kind: "solid", ...common };
+  }
+  if (record.kind === "pattern") {
+    const patternId = record.patternId;
+    if (typeof patternId !== "string" || !isBrushPatternId(patternId)) {
+      throw new DrawingFormatError(
+        "unknownPatternId",
+        `${path}.patternId`,
+        `Unknown pattern id: ${String(patternId)}`,
+      );
+    }
+    return { kind: "pattern", ...common, patternId };
+  }
+  throw new DrawingFormatError(
+    "invalidValue",
+    `${path}.kind`,
+    `Unknown brush kind: ${String(record.kind)}`,
+  );
+}
+
+function parseBrushColor(value: unknown, path: string): BrushColor {
+  const record = expectRecord(value, path);
+  if (record.kind === "palette") {
+    const index = record.index;
+    if (typeof index !== "number" || !Number.isInteger(index) || index < 0) {
+      throw new DrawingFormatError(
+        "invalidValue",
+        `${path}.index`,
+        "Palette index must be a non-negative integer",
+      );
+    }
+    return { kind: "palette", index };
+  }
+  if (record.kind === "fixed") {
+    return {
+      kind: "fixed",
+      color: expectString(record.color, `${path}.color`),
+    };
+  }
+  throw new DrawingFormatError(
+    "invalidValue",
+    `${path}.kind`,
+    `Unknown color kind: ${String(record.kind)}`,
+  );
+}
+
+/** 描画ポイント（太さは点ごとに太さの変わるブラシ、筆圧と傾きはペンで描いた点にだけある） */
+function parsePoint(value: unknown, path: string): Point {
+  const record = expectRecord(value, path);
+  const point: Point = {
+    x: expectNumber(record.x, `${path}.x`),
+    y: expectNumber(record.y, `${path}.y`),
+    t: expectNumber(record.t, `${path}.t`),
+  };
+  if (record.width !== undefined) {
+    const width = expectNumber(record.width, `${path}.width`);
+    if (width <= 0) {
+      throw new DrawingFormatError(
+        "invalidValue",
+        `${path}.width`,
+        "Width must be positive",
+      );
+    }
+    point.width = width;
+  }
+  if (record.pressure !== undefined) {
+    const pressure = expectNumber(record.pressure, `${path}.pressure`);
+    if (pressure < 0 || pressure > 1) {
+      throw new DrawingFormatError(
+        "invalidValue",
+        `${path}.pressure`,
+        "Pressure must be between 0 and 1",
+      );
+    }
+    point.pressure = pressure;
+  }
+  if (record.tiltX !== undefined) {
+    point.tiltX = expectNumber(record.tiltX, `${path}.tiltX`);
+  }
+  if (record.tiltY !== undefined) {
+    point.tiltY = expectNumber(record.tiltY, `${path}.tiltY`);
+  }
+  return point;
+}
+
+/** IDの重複がないことを確かめる */
+function assertUniqueIds(items: { id: string }[], path: string): void {
+  const ids = new Set<string>();
+  items.forEach((item, i) => {
+    if (ids.has(item.id)) {
+      throw new DrawingFormatError(
+        "invalidValue",
+        `${path}[${i}].id`,
+        `Duplicate id: ${item.id}`,
+      );
+    }
+    ids.add(item.id);
+  });
+}
+
+function expectRecord(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new DrawingFormatError("invalidValue", path, "Expected an object");
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new DrawingFormatError("invalidValue", path, "Expected an array");
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string") {
+    throw new DrawingFormatError("invalidValue", path, "Expected a string");
+  }
+  return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new DrawingFormatError("invalidValue", path, "Expected a boolean");
+  }
+  return value;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new DrawingFormatError("invalidValue", path, "Expected a number");
+  }
+  return value;
+}
+
+function expectPositiveInteger(value: unknown, path: string): number {
+  const num = expectNumber(value, path);
+  if (!Number.isInteger(num) || num <= 0) {
+    throw new DrawingFormatError(
+      "invalidValue",
+      path,
+      "Expected a positive integer",
+    );
+  }
+  return num;
+}
@@ -0,0 +1,126 @@
+import {
+  constrainShapeEnd,
+  createShapePoints,
+  getEllipseOutline,
+} from "@/core/shapes";
+
+describe("shapes", () => {
+  describe("constrainShapeEnd", () => {
+    test("線は水平・垂直・45度に揃える", () => {
+      const start = { x: 10, y: 10 };
+      expect(constrainShapeEnd("line", start, { x: 20, y: 13 })).toEqual({
+        x: 20,
+        y: 10,
+      });
+      expect(constrainShapeEnd("line", start, { x: 8, y: 0 })).toEqual({
+        x: 10,
+        y: 0,
+      });
+      expect(constrainShapeEnd("line", start, { x: 0, y: 18 })).toEqual({
+        x: 0,
+        y: 20,
+      });
+    });
+
+    test("四角と楕円は長い方の辺に合わせて正方形にする", () => {
+      const start = { x: 10, y: 10 };
+      expect(constrainShapeEnd("rect", start, { x: 14, y: 2 })).toEqual({
+        x: 18,
+        y: 2,
+      });
+      expect(constrainShapeEnd("ellipse", start, { x: 10, y: 16 })).toEqual({
+        x: 16,
+        y: 16,
+      });
+    });
+  });
+
+  describe("createShapePoints", () => {
+    test("線は両端を残して間引いた点にする", () => {
+      const points = createShapePoints({
+        kind: "line",
+        start: { x: 0, y: 0 },
+        end: { x: 16, y: 0 },
+        filled: false,
+        width: 2,
+      });
+
+      expect(points).toEqual([0, 4, 8, 12, 16].map((x) => ({ x, y: 0 })));
+    });
+
+    test("四角の輪郭は4つの角を通って始点に戻る", () => {
+      const points = createShapePoints({
+        kind: "rect",
+        start: { x: 12, y: 9 },
+        end: { x: 2, y: 1 },
+        filled: false,
+        width: 2,
+      });
+
+      for (const corner of [
+        { x: 2, y: 1 },
+        { x: 12, y: 1 },
+        { x: 12, y: 9 },
+        { x: 2, y: 9 },
+      ]) {
+        expect(points).toContainEqual(corner);
+      }
+      expect(points[0]).toEqual(points[points.length - 1]);
+    });
+
+    test("塗る場合は太さの半分ずつ下げた行を往復する", () => {
+      const outline = createShapePoints({
+        kind: "rect",
+        start: { x: 0, y: 0 },
+        end: { x: 8, y: 8 },
+        filled: false,
+        width: 4,
+      });
+      const filled = createShapePoints({
+        kind: "rect",
+        start: { x: 0, y: 0 },
+        end: { x: 8, y: 8 },
+        filled: true,
+        width: 4,
+      });
+
+      expect(filled.slice(0, outline.length)).toEqual(outline);
+      expect(filled.slice(outline.length)).toEqual([
+        { x: 0, y: 2 },
+        { x: 4, y: 2 },
+        { x: 8, y: 2 },
+        { x: 8, y: 4 },
+        { x: 4, y: 4 },
+        { x: 0, y: 4 },
+        { x: 0, y: 6 },
+        { x: 4, y: 6 },
+        { x: 8, y: 6 },
+      ]);
+    });
+  });
+
+  describe("getEllipseOutline", () => {
+    test("矩形の上下左右の端に接し、左右対称に一周する", () => {
+      const outline = getEllipseOutline(0, 0, 9, 5);
+
+      expect(outline[0]).toEqual(outline[outline.length - 1]);
+      expect(Math.min(...outline.map((p) => p.x))).toBe(0);
+      expect(Math.max(...outline.map((p) => p.x))).toBe(9);
+      expect(Math.min(...outline.map((p) => p.y))).toBe(0);
+      expect(Math.max(...outline.map((p) => p.y))).toBe(5);
+      for (const { x, y } of outline) {
+        expect(outline).toContainEqual({ x: 9 - x, y });
+        expect(outline).toContainEqual({ x, y: 5 - y });
+      }
+    });
+
+    test("隣り合う点は上下左右斜めのいずれかでつながる", () => {
+      const outline = getEllipseOutline(3, 4, 20, 11);
+
+      outline.slice(1).forEach((point, i) => {
+        expect(Math.abs(point.x - outline[i].x)).toBeLessThanOrEqual(1);
+        expect(Math.abs(point.y - outline[i].y)).toBeLessThanOrEqual(1);
+      });
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { bresenhamLine } from "@/core/rasterization";
+
+/** 図形の種類 */
+export type ShapeKind = "line" | "rect" | "ellipse";
+
+/** ピクセル座標 */
+type PixelPoint = { x: number; y: number };
+
+/** 図形の点を作るための入力 */
+export type ShapeParams = {
+  kind: ShapeKind;
+  /** ドラッグを始めた位置 */
+  start: PixelPoint;
+  /** ドラッグ中の位置 */
+  end: PixelPoint;
+  /** 内側を塗るか（線では使わない） */
+  filled: boolean;
+  /** ブラシの太さ（塗る行の間隔に使う） */
+  width: number;
+};
+
+/**
+ * 図形の点の間隔（ピクセル）
+ * 手描きの点の間隔に近づけ、点ごとに揺らしても線が荒れすぎないようにする
+ */
+const SHAPE_POINT_SPACING = 4;
+
+/** 線を45度刻みに揃える境目（22.5度の傾き） */
+const CONSTRAIN_SLOPE = Math.tan(Math.PI / 8);
+
+/**
+ * Shiftで揃えた終点を返す
+ * 線は水平・垂直・45度に、四角と楕円は正方形と正円に揃える
+ */
+export function constrainShapeEnd(
+  kind: ShapeKind,
+  start: PixelPoint,
+  end: PixelPoint,
+): PixelPoint {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const size = Math.max(Math.abs(dx), Math.abs(dy));
+  const signX = dx < 0 ? -1 : 1;
+  const signY = dy < 0 ? -1 : 1;
+  if (kind === "line") {
+    if (Math.abs(dy) <= Math.abs(dx) * CONSTRAIN_SLOPE) {
+      return { x: end.x, y: start.y };
+    }
+    if (Math.abs(dx) <= Math.abs(dy) * CONSTRAIN_SLOPE) {
+      return { x: start.x, y: end.y };
+    }
+  }
+  return { x: start.x + signX * size, y: start.y + signY * size };
+}
+
+/**
+ * 図形をストロークの点の並びにする
+ * 輪郭はBresenhamで求めたピクセルを一定間隔で間引き、四角の角は必ず残す。
+ * 塗る場合は輪郭のあとに、太さの半分ずつ下げた行を往復してなぞる点を続ける
+ */
+export function createShapePoints({
+  kind,
+  start,
+  end,
+  filled,
+  width,
+}: ShapeParams): PixelPoint[] {
+  if (kind === "line") {
+    return samplePixels(bresenhamLine(start.x, start.y, end.x, end.y));
+  }
+
+  const left = Math.min(start.x, end.x);
+  const right = Math.max(start.x, end.x);
+  const top = Math.min(start.y, end.y);
+  const bottom = Math.max(start.y, end.y);
+
+  const ellipse =
+    kind === "ellipse" ? getEllipseOutline(left, top, right, bottom) : null;
+  let outline: PixelPoint[];
+  if (!ellipse) {
+    const corners = [
+      { x: left, y: top },
+      { x: right, y: top },
+      { x: right, y: bottom },
+      { x: left, y: bottom },
+      { x: left, y: top },
+    ];
+    outline = [corners[0]];
+    for (let i = 1; i < corners.length; i++) {
+      const edge = bresenhamLine(
+        corners[i - 1].x,
+        corners[i - 1].y,
+        corners[i].x,
+        corners[i].y,
+      );
+      outline.push(...samplePixels(edge).slice(1));
+    }
+  } else {
+    outline = samplePixels(ellipse);
+  }
+  const points = removeRepeatedPoints(outline);
+  if (!filled) return points;
+
+  const ellipseSpans = ellipse ? getRowSpans(ellipse) : null;
+  const rowStep = Math.max(1, Math.ceil(width / 2));
+  let leftToRight = true;
+  for (let y = top + rowStep; y < bottom; y += rowStep) {
+    const span = ellipseSpans ? ellipseSpans.get(y) : { left, right };
+    if (!span) continue;
+    const row = samplePixels(
+      Array.from({ length: span.right - span.left + 1 }, (_, i) => ({
+        x: span.left + i,
+        y,
+      })),
+    );
+    points.push(...(leftToRight ? row : row.reverse()));
+    leftToRight = !leftToRight;
+  }
+  return removeRepeatedPoints(points);
+}
+
+/**
+ * 矩形に内接する楕円の輪郭を、右端から時計回りに一周するピクセルの並びで返す
+ * 偶数の大きさでも左右上下が対称になる、矩形指定のBresenham楕円を使う
+ */
+export function getEllipseOutline(
+  left: number,
+  top: number,
+  right: number,
+  bottom: number,
+): PixelPoint[] {
+  const a = right - left;
+  const b = bottom - top;
+  const oddHeight = b & 1;
+  let x0 = left;
+  let x1 = right;
+  let y0 = top + ((b + 1) >> 1);
+  let y1 = y0 - oddHeight;
+  let dx = 4 * (1 - a) * b * b;
+  let dy = 4 * (oddHeight + 1) * a * a;
+  let err = dx + dy + oddHeight * a * a;
+
+  // 4つの象限を、それぞれ左右の端から上下の中央へ向かう順にたどる
+  const bottomRight: PixelPoint[] = [];
+  const bottomLeft: PixelPoint[] = [];
+  const topLeft: PixelPoint[] = [];
+  const topRight: PixelPoint[] = [];
+  do {
+    bottomRight.push({ x: x1, y: y0 });
+    bottomLeft.push({ x: x0, y: y0 });
+    topLeft.push({ x: x0, y: y1 });
+    topRight.push({ x: x1, y: y1 });
+    const e2 = 2 * err;
+    if (e2 <= dy) {
+      y0 += 1;
+      y1 -= 1;
+      dy += 8 * a * a;
+      err += dy;
+    }
+    if (e2 >= dx || 2 * err > dy) {
+      x0 += 1;
+      x1 -= 1;
+      dx += 8 * b * b;
+      err += dx;
+    }
+  } while (x0 <= x1);
+  // 幅が細い楕円は上下の端まで届く前に終わるため、縦に伸ばして閉じる
+  while (y0 - y1 <= b) {
+    bottomRight.push({ x: x1 + 1, y: y0 });
+    bottomLeft.push({ x: x0 - 1, y: y0 });
+    topLeft.push({ x: x0 - 1, y: y1 });
+    topRight.push({ x: x1 + 1, y: y1 });
+    y0 += 1;
+    y1 -= 1;
+  }
+
+  return removeRepeatedPoints([
+    ...bottomRight,
+    ...bottomLeft.reverse(),
+    ...topLeft,
+    ...topRight.reverse(),
+    bottomRight[0],
+  ]);
+}
+
+/** 並んだピクセルを、両端を残してほぼ等間隔に間引く */
+function samplePixels(pixels: PixelPoint[]): PixelPoint[] {
+  const segments = Math.round((pixels.length - 1) / SHAPE_POINT_SPACING);
+  if (segments < 1) {
+    return pixels.length > 1 ? [pixels[0], pixels[pixels.length - 1]] : pixels;
+  }
+  return Array.from(
+    { length: segments + 1 },
+    (_, i) => pixels[Math.round((i * (pixels.length - 1)) / segments)],
+  );
+}
+
+/** 連続して同じ位置にある点を1つにまとめる */
+function removeRepeatedPoints(points: PixelPoint[]): PixelPoint[] {
+  return points.filter(
+    (point, i) =>
+      i === 0 || point.x !== points[i - 1].x || point.y !== points[i - 1].y,
+  );
+}
+
+/** ピクセルの行ごとの左端と右端 */
+function getRowSpans(
+  pixels: PixelPoint[],
+): Map<number, { left: number; right: number }> {
+  const spans = new Map<number, { left: number; right: number }>();
+  for (const { x, y } of pixels) {
+    const span = spans.get(y);
+    spans.set(
+      y,
+      span
+        ? { left: Math.min(span.left, x), right: Math.max(span.right, x) }
+        : { left: x, right: x },
+    );
+  }
+  return spans;
+}
@@ -0,0 +1,79 @@
+import { computeJitter } from "@/core/jitter";
+import {
+  applyJitterToFillEdges,
+  applyJitterToStroke,
+} from "@/core/strokeJitter";
+import type { Point, Stroke } from "@/core/types";
+
+const jitterConfig = { amplitude: 3, frequency: 0.01 };
+
+/** テスト用のストロークを生成する */
+function createStroke(
+  points: Point[],
+  overrides: Partial<Stroke> = {},
+): Stroke {
+  return {
+    id: "s1",
+    kind: "draw",
+    brush: {
+      kind: "solid",
+      color: { kind: "palette", index: 0 },
+      width: 2,
+      opacity: 1,
+      variant: "penCircle",
+    },
+    points,
+    ...overrides,
+  };
+}
+
+/** x=5の縦線の右側（x=6〜9、y=0〜10）を塗った塗りつぶし */
+const outline = createStroke([
+  { x: 5, y: 0, t: 0 },
+  { x: 5, y: 10, t: 40 },
+]);
+const fill = createStroke([{ x: 6, y: 0, t: 100 }], {
+  id: "fill",
+  kind: "fill",
+  region: { top: 0, rows: Array.from({ length: 11 }, () => [0, 4]) },
+});
+
+describe("strokeJitter", () => {
+  test("塗りつぶしの点は揺らさず、点と同じ並びで返す", () => {
+    expect(
+      applyJitterToStroke({ stroke: fill, elapsedTimeMs: 0, jitterConfig }),
+    ).toEqual([{ x: 6, y: 0 }]);
+  });
+
+  test("塗りつぶしの端は隣り合う線と同じだけ横に揺れる", () => {
+    const elapsedTimeMs = 500;
+    const [top, bottom] = outline.points.map(
+      (point) => computeJitter(point, elapsedTimeMs, jitterConfig).dx,
+    );
+
+    const runs = applyJitterToFillEdges({
+      stroke: fill,
+      boundaryStrokes: [outline, fill],
+      elapsedTimeMs,
+      jitterConfig,
+    });
+
+    expect(runs).toHaveLength(11);
+    expect(runs[0].left).toBe(Math.round(6 + top));
+    expect(runs[5].left).toBe(Math.round(6 + (top + bottom) / 2));
+    expect(runs[10].left).toBe(Math.round(6 + bottom));
+    // 右側には線が無いので揺らさない
+    expect(runs.every((run) => run.right === 9)).toBe(true);
+  });
+
+  test("範囲の無い塗りつぶしは空になる", () => {
+    expect(
+      applyJitterToFillEdges({
+        stroke: { ...fill, region: undefined },
+        boundaryStrokes: [outline],
+        elapsedTimeMs: 0,
+        jitterConfig,
+      }),
+    ).toEqual([]);
+  });
+});
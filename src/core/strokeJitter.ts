@@ -1,7 +1,8 @@
-import type { JitterConfig } from "@/core/jitter";
+import { type FillRun, getFillRuns } from "@/core/fill";
+import type { JitterConfig, JitterOffset } from "@/core/jitter";
 import { computeJitter, computePatternJitter } from "@/core/jitter";
 import { snapToPixel } from "@/core/rasterization";
-import type { Stroke } from "@/core/types";
+import type { Point, Stroke } from "@/core/types";
 
 /**
  * ストロークのポイントにjitterを適用する際の引数
@@ -19,7 +20,7 @@ export type ApplyJitterToStrokeParams = {
  * ストロークのポイントにjitterを適用して、整数ピクセルにスナップ
  *
  * 再利用可能な関数（差分描画でも使用）。
- * 消しゴムの場合はjitterを適用しない。
+ * 消しゴムと塗りつぶしの場合はjitterを適用しない（塗りつぶしの端は applyJitterToFillEdges で揺らす）。
  *
  * @param params jitter適用のパラメータ
  * @returns jitter適用後の座標配列（整数ピクセルにスナップ済み）
@@ -28,25 +29,192 @@ export function applyJitterToStroke(
   params: ApplyJitterToStrokeParams,
 ): Array<{ x: number; y: number }> {
   const { stroke, elapsedTimeMs, jitterConfig } = params;
-  const isPattern = stroke.brush.kind === "pattern";
-  const isEraser = stroke.kind === "erase";
-
   return stroke.points.map((point) => {
-    let jitteredPoint: { x: number; y: number };
-    if (isEraser) {
-      // 消しゴム: jitterを適用しない（元の座標をそのまま使用）
-      jitteredPoint = { x: point.x, y: point.y };
-    } else if (isPattern) {
-      // パターン: 座標ベースのjitter（point.tを使わない）
-      // 同じ座標には同じjitterが適用され、別ストロークでもずれない
-      const jitter = computePatternJitter(point, elapsedTimeMs, jitterConfig);
-      jitteredPoint = { x: point.x + jitter.dx, y: point.y + jitter.dy };
-    } else {
-      // ペン: 点ごとのjitter（point.tを使う）
-      const jitter = computeJitter(point, elapsedTimeMs, jitterConfig);
-      jitteredPoint = { x: point.x + jitter.dx, y: point.y + jitter.dy };
-    }
+    const jitter = computeStrokePointJitter(
+      stroke,
+      point,
+      elapsedTimeMs,
+      jitterConfig,
+    );
     // ジッター適用後の座標を整数ピクセルにスナップ
-    return snapToPixel(jitteredPoint.x, jitteredPoint.y);
+    return snapToPixel(point.x + jitter.dx, point.y + jitter.dy);
   });
 }
+
+/**
+ * 塗りつぶしの端にjitterを適用する際の引数
+ */
+export type ApplyJitterToFillEdgesParams = ApplyJitterToStrokeParams & {
+  /** 範囲を囲んでいる線の候補（塗りつぶしのストロークは含まれていても無視する） */
+  boundaryStrokes: Stroke[];
+};
+
+/** 端の揺れを探すために、線分をまとめておく行数 */
+const BOUNDARY_BAND_HEIGHT = 16;
+
+/** 揺れを求めるための線分（点が1つの線は両端が同じ点） */
+type BoundarySegment = {
+  ax: number;
+  ay: number;
+  bx: number;
+  by: number;
+  /** 両端の点の横方向の揺れ */
+  aDx: number;
+  bDx: number;
+  /** 線分からこの距離までのピクセルはこの線で描かれうる */
+  reach: number;
+};
+
+/**
+ * 塗りつぶしの範囲の端に、隣り合う線と同じjitterを適用する
+ *
+ * 範囲そのものは動かさず、行ごとの連続の左端と右端だけを横に揺らす。
+ * 端のすぐ外側のピクセルに一番近い線分を探し、その両端の点の揺れを補間した分だけずらすので、
+ * 輪郭の線と一緒に動く。近くに線が無い端（描画範囲の端など）は揺らさない。
+ *
+ * @param params jitter適用のパラメータ
+ * @returns 揺らした連続（整数ピクセル。範囲が無い場合は空）
+ */
+export function applyJitterToFillEdges(
+  params: ApplyJitterToFillEdgesParams,
+): FillRun[] {
+  const { stroke, boundaryStrokes, elapsedTimeMs, jitterConfig } = params;
+  const [origin] = stroke.points;
+  if (!origin || !stroke.region) return [];
+  const runs = getFillRuns(stroke.region, origin);
+  if (runs.length === 0) return [];
+
+  const bands = collectBoundaryBands(
+    boundaryStrokes,
+    runs,
+    elapsedTimeMs,
+    jitterConfig,
+  );
+  return runs.map(({ y, left, right }) => ({
+    y,
+    left: Math.round(left + findBoundaryDx(bands, left - 1, y)),
+    right: Math.round(right + findBoundaryDx(bands, right + 1, y)),
+  }));
+}
+
+/** ストロークの1点に適用するjitter（消しゴムと塗りつぶしは揺らさない） */
+function computeStrokePointJitter(
+  stroke: Stroke,
+  point: Point,
+  elapsedTimeMs: number,
+  jitterConfig: JitterConfig,
+): JitterOffset {
+  if (stroke.kind === "erase" || stroke.kind === "fill") {
+    return { dx: 0, dy: 0 };
+  }
+  if (stroke.brush.kind === "pattern") {
+    // パターン: 座標ベースのjitter（point.tを使わない）
+    // 同じ座標には同じjitterが適用され、別ストロークでもずれない
+    return computePatternJitter(point, elapsedTimeMs, jitterConfig);
+  }
+  // ペン: 点ごとのjitter（point.tを使う）
+  return computeJitter(point, elapsedTimeMs, jitterConfig);
+}
+
+/**
+ * 範囲の近くを通る線分を、行の帯ごとに分けて集める
+ * 範囲から離れた線は端の揺れに関わらないので最初に除く
+ */
+function collectBoundaryBands(
+  strokes: Stroke[],
+  runs: FillRun[],
+  elapsedTimeMs: number,
+  jitterConfig: JitterConfig,
+): Map<number, BoundarySegment[]> {
+  let minX = Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY;
+  for (const run of runs) {
+    minX = Math.min(minX, run.left - 1);
+    maxX = Math.max(maxX, run.right + 1);
+  }
+  const minY = runs[0].y;
+  const maxY = runs[runs.length - 1].y;
+
+  const bands = new Map<number, BoundarySegment[]>();
+  for (const stroke of strokes) {
+    if (stroke.kind === "fill" || stroke.points.length === 0) continue;
+    const maxWidth = stroke.points.reduce(
+      (max, point) => Math.max(max, point.width ?? 0),
+      stroke.brush.width,
+    );
+    const reach = maxWidth / 2 + 1;
+    const offsets = stroke.points.map(
+      (point) =>
+        computeStrokePointJitter(stroke, point, elapsedTimeMs, jitterConfig).dx,
+    );
+    const count = Math.max(1, stroke.points.length - 1);
+    for (let i = 0; i < count; i++) {
+      const a = stroke.points[i];
+      const b = stroke.points[Math.min(i + 1, stroke.points.length - 1)];
+      const top = Math.min(a.y, b.y) - reach;
+      const bottom = Math.max(a.y, b.y) + reach;
+      if (
+        Math.max(a.x, b.x) + reach < minX ||
+        Math.min(a.x, b.x) - reach > maxX ||
+        bottom < minY ||
+        top > maxY
+      ) {
+        continue;
+      }
+      const segment: BoundarySegment = {
+        ax: a.x,
+        ay: a.y,
+        bx: b.x,
+        by: b.y,
+        aDx: offsets[i],
+        bDx: offsets[Math.min(i + 1, offsets.length - 1)],
+        reach,
+      };
+      const firstBand = Math.floor(Math.max(top, minY) / BOUNDARY_BAND_HEIGHT);
+      const lastBand = Math.floor(
+        Math.min(bottom, maxY) / BOUNDARY_BAND_HEIGHT,
+      );
+      for (let band = firstBand; band <= lastBand; band++) {
+        const segments = bands.get(band) ?? [];
+        segments.push(segment);
+        bands.set(band, segments);
+      }
+    }
+  }
+  return bands;
+}
+
+/** 指定のピクセルに一番近い線分の横方向の揺れ（届く線分が無ければ0） */
+function findBoundaryDx(
+  bands: Map<number, BoundarySegment[]>,
+  x: number,
+  y: number,
+): number {
+  const segments = bands.get(Math.floor(y / BOUNDARY_BAND_HEIGHT));
+  if (!segments) return 0;
+  let nearest = Number.POSITIVE_INFINITY;
+  let dx = 0;
+  for (const segment of segments) {
+    const vx = segment.bx - segment.ax;
+    const vy = segment.by - segment.ay;
+    const lengthSq = vx * vx + vy * vy;
+    const ratio =
+      lengthSq === 0
+        ? 0
+        : Math.min(
+            1,
+            Math.max(
+              0,
+              ((x - segment.ax) * vx + (y - segment.ay) * vy) / lengthSq,
+            ),
+          );
+    const distance = Math.hypot(
+      segment.ax + vx * ratio - x,
+      segment.ay + vy * ratio - y,
+    );
+    if (distance > segment.reach || distance >= nearest) continue;
+    nearest = distance;
+    dx = segment.aDx + (segment.bDx - segment.aDx) * ratio;
+  }
+  return dx;
+}
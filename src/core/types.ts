@@ -21,6 +21,8 @@ export type BrushColor =
 export type BrushVariant =
   | "penCircle"
   | "penSquare"
+  | "brushTaper"
+  | "brushInk"
   | "eraserCircle"
   | "eraserSquare"
   | "eraserLine";
@@ -32,6 +34,8 @@ export type SolidBrushSettings = {
   width: number;
   opacity: number;
   variant: BrushVariant;
+  /** 点ごとの筆圧で太さと濃さを変えるか（省略時は変えない） */
+  pressure?: boolean;
 };
 
 /** パターンブラシの設定 */
@@ -42,19 +46,40 @@ export type PatternBrushSettings = {
   opacity: number;
   patternId: BrushPatternId;
   variant: BrushVariant;
+  /** 点ごとの筆圧で太さと濃さを変えるか（省略時は変えない） */
+  pressure?: boolean;
 };
 
 /** ブラシ設定 */
 export type BrushSettings = SolidBrushSettings | PatternBrushSettings;
 
-/** ストローク種別 */
-export type StrokeKind = "draw" | "erase";
+/** ストローク種別（fillは点の代わりに塗りつぶしの範囲で塗る） */
+export type StrokeKind = "draw" | "erase" | "fill";
 
 /** 描画ポイント */
 export type Point = {
   x: number;
   y: number;
   t: number;
+  /** この点での太さ（点ごとに太さの変わるブラシのみ。省略時はブラシの太さ） */
+  width?: number;
+  /** 補正カーブを通した筆圧（0〜1。筆圧の無い入力では省略） */
+  pressure?: number;
+  /** ペンの傾き（度。PointerEventのtiltX/tiltYと同じ-90〜90） */
+  tiltX?: number;
+  tiltY?: number;
+};
+
+/**
+ * 塗りつぶしの範囲
+ * 行ごとの塗るピクセルの連続を、ストロークの最初の点（塗り始めた位置）からの相対位置で持つ。
+ * 点を動かせば範囲も一緒に動く
+ */
+export type FillRegion = {
+  /** 一番上の行の、最初の点からの相対位置 */
+  top: number;
+  /** 上の行から順に、その行の連続 [左端, 長さ, 左端, 長さ, ...]（左端は最初の点からの相対位置） */
+  rows: number[][];
 };
 
 /** 描画ストローク */
@@ -63,11 +88,32 @@ export type Stroke = {
   kind: StrokeKind;
   brush: BrushSettings;
   points: Point[];
+  /** 塗りつぶしの範囲（kindがfillの場合のみ） */
+  region?: FillRegion;
+};
+
+/** レイヤー（消しゴムは同じレイヤー内のストロークだけを消す） */
+export type Layer = {
+  id: string;
+  name: string;
+  /** 非表示のレイヤーは描画・出力しない */
+  visible: boolean;
+  /** ロック中のレイヤーには描き込めない */
+  locked: boolean;
+  strokes: Stroke[];
 };
 
-/** 描画データ */
+/** 描画データ（layersは下から上の順） */
 export type Drawing = {
   width: number;
   height: number;
-  strokes: Stroke[];
+  layers: Layer[];
+};
+
+/** パラパラ漫画の1コマ */
+export type Frame = {
+  id: string;
+  drawing: Drawing;
+  /** 表示時間（ミリ秒） */
+  durationMs: number;
 };
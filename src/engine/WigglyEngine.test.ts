@@ -1,3 +1,16 @@
+import { MIN_FRAME_DURATION_MS } from "@/core/frames";
+import {
+  createDrawing,
+  findLayer,
+  getAllStrokes,
+  getVisibleLayers,
+} from "@/core/layers";
+import {
+  BACKGROUND_INDEX,
+  type RasterColor,
+  type RasterImage,
+} from "@/core/rasterImport";
+import type { BrushColor, Drawing } from "@/core/types";
 import * as renderScheduler from "@/engine/renderScheduler";
 import { WigglyEngine } from "@/engine/WigglyEngine";
 import {
@@ -22,14 +35,24 @@ describe("WigglyEngine", () => {
     engine.pointerUp();
 
     const drawing = engine.getDrawing();
-    expect(drawing.strokes).toHaveLength(1);
-    expect(drawing.strokes[0].points).toHaveLength(2);
+    expect(getAllStrokes(drawing)).toHaveLength(1);
+    expect(getAllStrokes(drawing)[0].points).toHaveLength(2);
 
     const updateEvent = sound.events.find((e) => e.type === "update");
     expect(updateEvent?.info.length).toBeCloseTo(5);
     expect(updateEvent?.info.speed).toBeGreaterThan(0);
   });
 
+  test("表示中のcycle番号は起動からの経過時間とcycle間隔で決まる", () => {
+    const { engine, time } = createTestEngine();
+
+    expect(engine.getCycleIndex()).toBe(0);
+    time.set(250);
+    expect(engine.getCycleIndex()).toBe(2);
+    time.set(320);
+    expect(engine.getCycleIndex()).toBe(0);
+  });
+
   test("undo/redoで履歴を移動できる", () => {
     const { engine, time } = createTestEngine();
     engine.pointerDown(0, 0);
@@ -38,10 +61,10 @@ describe("WigglyEngine", () => {
     engine.pointerUp();
 
     engine.undo();
-    expect(engine.getDrawing().strokes).toHaveLength(0);
+    expect(getAllStrokes(engine.getDrawing())).toHaveLength(0);
 
     engine.redo();
-    expect(engine.getDrawing().strokes).toHaveLength(1);
+    expect(getAllStrokes(engine.getDrawing())).toHaveLength(1);
   });
 
   test("clearは履歴に追加されundoできる", () => {
@@ -52,10 +75,10 @@ describe("WigglyEngine", () => {
     engine.pointerUp();
 
     engine.clear();
-    expect(engine.getDrawing().strokes).toHaveLength(0);
+    expect(getAllStrokes(engine.getDrawing())).toHaveLength(0);
 
     engine.undo();
-    expect(engine.getDrawing().strokes).toHaveLength(1);
+    expect(getAllStrokes(engine.getDrawing())).toHaveLength(1);
   });
 
   test("レンダリングループでジッター適用済みポイントが描画される", () => {
@@ -103,6 +126,40 @@ describe("WigglyEngine", () => {
     invalidateSpy.mockRestore();
   });
 
+  test("アニメーション設定の変更をレンダラーと描画ループに反映する", () => {
+    class MockRendererWithAnimation extends MockRenderer {
+      setAnimationSettings = vi.fn();
+    }
+
+    const time = new MockTime();
+    const raf = new MockRaf();
+    const renderer = new MockRendererWithAnimation(
+      initialDrawing.width,
+      initialDrawing.height,
+    );
+    const engine = new WigglyEngine({
+      initialDrawing,
+      renderer,
+      time,
+      raf,
+      jitterConfig: { amplitude: 0, frequency: 1 },
+    });
+    const renderSpy = vi.spyOn(renderScheduler, "renderDrawingAtTime");
+    const animation = { cycleCount: 5, cycleIntervalMs: 60 };
+
+    engine.setAnimationSettings(animation);
+    engine.setAnimationSettings({ ...animation });
+    time.set(100);
+    raf.runFrame();
+
+    expect(renderer.setAnimationSettings).toHaveBeenCalledTimes(1);
+    expect(renderer.setAnimationSettings).toHaveBeenCalledWith(animation);
+    expect(renderSpy.mock.calls[0][0].cycleIntervalMs).toBe(60);
+
+    engine.destroy();
+    renderSpy.mockRestore();
+  });
+
   test("パレット変更でレンダラーとキャッシュを同期する", () => {
     class MockRendererWithPalette extends MockRenderer {
       setPaletteColors = vi.fn();
@@ -135,6 +192,73 @@ describe("WigglyEngine", () => {
     invalidateSpy.mockRestore();
   });
 
+  test("loadDrawingは描画を差し替えて履歴をリセットする", () => {
+    const { engine, time } = createTestEngine();
+    engine.pointerDown(0, 0);
+    time.set(5);
+    engine.pointerMove(3, 4);
+    engine.pointerUp();
+    const listener = vi.fn();
+    engine.setHistoryChangeListener(listener);
+    const revision = engine.getDrawingRevision();
+
+    const loaded = createDrawing(initialDrawing.width, initialDrawing.height);
+    engine.loadDrawing(loaded);
+
+    expect(engine.getDrawing()).toBe(loaded);
+    expect(engine.canUndo()).toBe(false);
+    expect(engine.canRedo()).toBe(false);
+    expect(engine.getDrawingRevision()).toBeGreaterThan(revision);
+    expect(listener).toHaveBeenCalled();
+  });
+
+  test("loadDrawingはレンダラーのキャッシュを無効化する", () => {
+    const { engine, renderer } = createTestEngine();
+    const cacheSpy = vi.spyOn(renderer, "invalidateRenderCache");
+    engine.loadDrawing(initialDrawing);
+    expect(cacheSpy).toHaveBeenCalled();
+  });
+
+  test("空のコマ列のloadFramesはエラーになり、編集中のコマを残す", () => {
+    const { engine } = createTestEngine();
+    const before = engine.getFrames();
+
+    expect(() => engine.loadFrames([])).toThrow("frames must not be empty");
+    expect(engine.getFrames()).toBe(before);
+    expect(engine.getDrawing()).toBe(initialDrawing);
+  });
+
+  test("描画中のloadDrawingはストロークを破棄する", () => {
+    const { engine, time, sound } = createTestEngine();
+    engine.pointerDown(0, 0);
+    time.set(5);
+    engine.pointerMove(3, 4);
+
+    engine.loadDrawing(initialDrawing);
+    engine.pointerMove(10, 10);
+    engine.pointerUp();
+
+    expect(getAllStrokes(engine.getDrawing())).toHaveLength(0);
+    expect(engine.canUndo()).toBe(false);
+    expect(sound.events.filter((e) => e.type === "end")).toHaveLength(1);
+  });
+
+  test("replaceDrawingは履歴に追加されundoできる", () => {
+    const { engine, time } = createTestEngine();
+    engine.pointerDown(0, 0);
+    time.set(5);
+    engine.pointerMove(3, 4);
+    engine.pointerUp();
+
+    engine.replaceDrawing(
+      createDrawing(initialDrawing.width, initialDrawing.height),
+    );
+    expect(getAllStrokes(engine.getDrawing())).toHaveLength(0);
+
+    engine.undo();
+    expect(getAllStrokes(engine.getDrawing())).toHaveLength(1);
+  });
+
   test("destroyでRAFループをキャンセルする", () => {
     const { engine, raf } = createTestEngine();
     const cancelSpy = vi.spyOn(raf, "cancel");
@@ -153,7 +277,7 @@ describe("WigglyEngine", () => {
     time.set(0);
     engine.pointerDown(10.7, 20.3);
     const drawing = engine.getDrawing();
-    const point = drawing.strokes[0].points[0];
+    const point = getAllStrokes(drawing)[0].points[0];
     expect(Number.isInteger(point.x)).toBe(true);
     expect(Number.isInteger(point.y)).toBe(true);
     expect(point.x).toBe(11);
@@ -165,8 +289,8 @@ describe("WigglyEngine", () => {
     engine.setBrushWidth(10.7);
     engine.pointerDown(0, 0);
     const drawing = engine.getDrawing();
-    expect(Number.isInteger(drawing.strokes[0].brush.width)).toBe(true);
-    expect(drawing.strokes[0].brush.width).toBe(11);
+    expect(Number.isInteger(getAllStrokes(drawing)[0].brush.width)).toBe(true);
+    expect(getAllStrokes(drawing)[0].brush.width).toBe(11);
   });
 
   test("小数座標の移動も整数にスナップされる", () => {
@@ -177,13 +301,840 @@ describe("WigglyEngine", () => {
     engine.pointerMove(10.6, 20.4);
     const drawing = engine.getDrawing();
     const lastPoint =
-      drawing.strokes[0].points[drawing.strokes[0].points.length - 1];
+      getAllStrokes(drawing)[0].points[
+        getAllStrokes(drawing)[0].points.length - 1
+      ];
     expect(Number.isInteger(lastPoint.x)).toBe(true);
     expect(Number.isInteger(lastPoint.y)).toBe(true);
     expect(lastPoint.x).toBe(11);
     expect(lastPoint.y).toBe(20);
   });
 
+  describe("レイヤー", () => {
+    test("addLayerは選択中のレイヤーの上に追加して選択する", () => {
+      const { engine } = createTestEngine();
+      const bottomId = engine.getActiveLayerId();
+
+      const topId = engine.addLayer();
+      engine.selectLayer(bottomId);
+      const middleId = engine.addLayer("中");
+
+      expect(engine.getDrawing().layers.map((l) => l.id)).toEqual([
+        bottomId,
+        middleId,
+        topId,
+      ]);
+      expect(engine.getActiveLayerId()).toBe(middleId);
+    });
+
+    test("ストロークは選択中のレイヤーに追加される", () => {
+      const { engine } = createTestEngine();
+      const bottomId = engine.getActiveLayerId();
+      const topId = engine.addLayer();
+
+      engine.pointerDown(1, 1);
+      engine.pointerUp();
+
+      expect(findLayer(engine.getDrawing(), topId)?.strokes).toHaveLength(1);
+      expect(findLayer(engine.getDrawing(), bottomId)?.strokes).toHaveLength(0);
+    });
+
+    test("ロック中・非表示のレイヤーには描き込めない", () => {
+      const { engine } = createTestEngine();
+      const layerId = engine.getActiveLayerId();
+
+      engine.setLayerLocked(layerId, true);
+      engine.pointerDown(1, 1);
+      engine.pointerUp();
+      engine.setLayerLocked(layerId, false);
+      engine.setLayerVisibility(layerId, false);
+      engine.pointerDown(1, 1);
+      engine.pointerUp();
+
+      expect(getAllStrokes(engine.getDrawing())).toHaveLength(0);
+    });
+
+    test("レイヤー操作はundo/redoでき、消えたレイヤーの選択は解除される", () => {
+      const { engine } = createTestEngine();
+      const bottomId = engine.getActiveLayerId();
+      const topId = engine.addLayer();
+      engine.moveLayer(topId, 0);
+
+      expect(engine.getDrawing().layers.map((l) => l.id)).toEqual([
+        topId,
+        bottomId,
+      ]);
+
+      engine.undo();
+      expect(engine.getDrawing().layers.map((l) => l.id)).toEqual([
+        bottomId,
+        topId,
+      ]);
+
+      engine.undo();
+      expect(engine.getDrawing().layers).toHaveLength(1);
+      expect(engine.getActiveLayerId()).toBe(bottomId);
+
+      engine.redo();
+      engine.removeLayer(topId);
+      expect(engine.getDrawing().layers.map((l) => l.id)).toEqual([bottomId]);
+    });
+
+    test("変化のないレイヤー操作は履歴に積まない", () => {
+      const { engine } = createTestEngine();
+      const layerId = engine.getActiveLayerId();
+
+      engine.removeLayer(layerId);
+      engine.setLayerVisibility(layerId, true);
+      engine.moveLayer(layerId, 3);
+
+      expect(engine.canUndo()).toBe(false);
+    });
+
+    test("importRasterLayerは画像を1枚のレイヤーの線として追加し、undoできる", () => {
+      const { engine } = createTestEngine();
+      const indices = new Int16Array(50 * 50).fill(BACKGROUND_INDEX);
+      indices.fill(2, 0, 3);
+
+      const layerId = engine.importRasterLayer({
+        width: 50,
+        height: 50,
+        indices,
+      });
+
+      const layer = findLayer(engine.getDrawing(), layerId);
+      expect(engine.getActiveLayerId()).toBe(layerId);
+      expect(layer?.strokes).toHaveLength(1);
+      expect(layer?.strokes[0].brush.color).toEqual({
+        kind: "palette",
+        index: 2,
+      });
+      engine.undo();
+      expect(engine.getDrawing().layers).toHaveLength(1);
+    });
+
+    test("下絵は表示用に一番下へ重ねるだけで、描画や履歴には含めない", () => {
+      const { engine, time, raf } = createTestEngine();
+      const renderSpy = vi.spyOn(renderScheduler, "renderDrawingAtTime");
+      const indices = new Int16Array(50 * 50).fill(0);
+
+      expect(() =>
+        engine.setReference({ width: 10, height: 10, indices }),
+      ).toThrow("raster size must be 50x50, got 10x10");
+      engine.setReference({ width: 50, height: 50, indices });
+      time.set(100);
+      raf.runFrame();
+
+      const [params] = renderSpy.mock.calls[0];
+      expect(params.drawing.layers.map((l) => l.id)).toEqual([
+        "reference",
+        ...engine.getDrawing().layers.map((l) => l.id),
+      ]);
+      expect(engine.hasReference()).toBe(true);
+      expect(engine.canUndo()).toBe(false);
+      expect(getAllStrokes(engine.getDrawing())).toHaveLength(0);
+
+      engine.setReference(null);
+      expect(engine.hasReference()).toBe(false);
+      renderSpy.mockRestore();
+    });
+  });
+
+  describe("コマ", () => {
+    test("addFrameは編集中のコマの後ろにレイヤー構成だけ引き継いだ白紙を追加する", () => {
+      const { engine } = createTestEngine();
+      const firstId = engine.getActiveFrameId();
+      engine.pointerDown(1, 1);
+      engine.pointerUp();
+
+      const secondId = engine.addFrame();
+      engine.pointerDown(2, 2);
+      engine.pointerUp();
+
+      const frames = engine.getFrames();
+      expect(frames.map((f) => f.id)).toEqual([firstId, secondId]);
+      expect(engine.getActiveFrameId()).toBe(secondId);
+      expect(frames[1].drawing.layers.map((l) => l.id)).toEqual(
+        frames[0].drawing.layers.map((l) => l.id),
+      );
+      expect(getAllStrokes(frames[0].drawing)).toHaveLength(1);
+      expect(getAllStrokes(frames[1].drawing)).toHaveLength(1);
+    });
+
+    test("コマ操作はundoでき、消えたコマの選択は隣のコマに移る", () => {
+      const { engine } = createTestEngine();
+      const firstId = engine.getActiveFrameId();
+      const copyId = engine.duplicateFrame(firstId);
+      engine.setFrameDuration(firstId, 10);
+
+      expect(engine.getFrames()[0].durationMs).toBe(MIN_FRAME_DURATION_MS);
+
+      engine.undo();
+      engine.undo();
+      expect(engine.getFrames().map((f) => f.id)).toEqual([firstId]);
+      expect(engine.getActiveFrameId()).toBe(firstId);
+
+      engine.redo();
+      engine.removeFrame(copyId ?? "");
+      expect(engine.getFrames().map((f) => f.id)).toEqual([firstId]);
+      expect(engine.getActiveFrameId()).toBe(firstId);
+    });
+
+    test("再生中は経過時間に応じたコマを描画し、描き込みを受け付けない", () => {
+      const { engine, time, raf } = createTestEngine();
+      const renderSpy = vi.spyOn(renderScheduler, "renderDrawingAtTime");
+      engine.pointerDown(1, 1);
+      engine.pointerUp();
+      engine.addFrame();
+      const [first, second] = engine.getFrames();
+
+      time.set(100);
+      engine.play();
+      engine.pointerDown(2, 2);
+      engine.pointerUp();
+      raf.runFrame();
+      time.set(100 + first.durationMs + 10);
+      raf.runFrame();
+
+      expect(engine.isPlaying()).toBe(true);
+      expect(getAllStrokes(engine.getDrawing())).toHaveLength(0);
+      expect(renderSpy.mock.calls.map(([params]) => params.drawing)).toEqual([
+        first.drawing,
+        second.drawing,
+      ]);
+      renderSpy.mockRestore();
+    });
+
+    test("リプレイ中は描いた順に途中までの描画を表示し、描き込みを受け付けない", () => {
+      const { engine, time, raf } = createTestEngine();
+      const renderSpy = vi.spyOn(renderScheduler, "renderDrawingAtTime");
+      time.set(0);
+      engine.pointerDown(1, 1);
+      time.set(100);
+      engine.pointerMove(10, 1);
+      engine.pointerUp();
+      time.set(200);
+      engine.pointerDown(1, 20);
+      engine.pointerUp();
+
+      time.set(1000);
+      engine.startReplay();
+      engine.pointerDown(30, 30);
+      engine.pointerUp();
+      raf.runFrame();
+      time.set(1150);
+      raf.runFrame();
+      engine.stopReplay();
+      time.set(1200);
+      raf.runFrame();
+
+      expect(engine.isReplaying()).toBe(false);
+      expect(getAllStrokes(engine.getDrawing())).toHaveLength(2);
+      expect(
+        renderSpy.mock.calls.map(([params]) =>
+          getAllStrokes(params.drawing).map((s) => s.points.length),
+        ),
+      ).toEqual([[1], [2], [2, 1]]);
+      // 表示する点が変わるたびに別の描画としてキャッシュを引かせる
+      const revisions = renderSpy.mock.calls.map(
+        ([params]) => params.drawingRevision,
+      );
+      expect(new Set(revisions).size).toBe(3);
+      renderSpy.mockRestore();
+    });
+
+    test("リプレイを始めると再生は止まる", () => {
+      const { engine } = createTestEngine();
+      engine.play();
+      engine.startReplay({ targetDurationMs: 5000 });
+
+      expect(engine.isPlaying()).toBe(false);
+      expect(engine.isReplaying()).toBe(true);
+
+      engine.play();
+      expect(engine.isReplaying()).toBe(false);
+    });
+
+    test("オニオンスキンは前後のコマを固定色のレイヤーとして下に重ねる", () => {
+      const { engine, time, raf } = createTestEngine();
+      const renderSpy = vi.spyOn(renderScheduler, "renderDrawingAtTime");
+      engine.pointerDown(1, 1);
+      engine.pointerUp();
+      engine.addFrame();
+      const activeLayerIds = engine.getDrawing().layers.map((l) => l.id);
+
+      engine.setOnionSkinEnabled(true);
+      time.set(100);
+      raf.runFrame();
+
+      const [params] = renderSpy.mock.calls[0];
+      expect(params.drawing.layers.map((l) => l.id)).toEqual([
+        ...activeLayerIds.map((id) => `onion-previous:${id}`),
+        ...activeLayerIds,
+      ]);
+      expect(getAllStrokes(params.drawing)[0].brush.color.kind).toBe("fixed");
+      renderSpy.mockRestore();
+    });
+  });
+
+  describe("選択", () => {
+    /** (x1,y1)から(x2,y2)まで線を引く */
+    function drawLine(
+      engine: WigglyEngine,
+      x1: number,
+      y1: number,
+      x2: number,
+      y2: number,
+    ): void {
+      engine.pointerDown(x1, y1);
+      engine.pointerMove(x2, y2);
+      engine.pointerUp();
+    }
+
+    /** 選択ツールでドラッグする */
+    function drag(
+      engine: WigglyEngine,
+      from: { x: number; y: number },
+      ...to: { x: number; y: number }[]
+    ): void {
+      engine.pointerDown(from.x, from.y);
+      for (const point of to) engine.pointerMove(point.x, point.y);
+      engine.pointerUp();
+    }
+
+    test("矩形で囲んだ範囲に掛かるストロークを選択する", () => {
+      const { engine } = createTestEngine();
+      drawLine(engine, 2, 2, 6, 2);
+      drawLine(engine, 30, 30, 40, 30);
+      const onChange = vi.fn();
+      engine.setSelectionChangeListener(onChange);
+
+      engine.setTool("select");
+      drag(engine, { x: 0, y: 0 }, { x: 4, y: 4 });
+
+      expect(engine.hasSelection()).toBe(true);
+      expect(engine.getSelection()).toEqual({
+        width: 50,
+        height: 50,
+        outline: null,
+        bounds: { x: 2, y: 2, width: 5, height: 1 },
+      });
+      expect(onChange).toHaveBeenCalled();
+    });
+
+    test("なげなわは囲んだ内側のストロークだけを選択する", () => {
+      const { engine } = createTestEngine();
+      drawLine(engine, 5, 5, 9, 5);
+      drawLine(engine, 14, 8, 18, 8);
+      engine.setTool("select");
+      engine.setSelectionMode("lasso");
+
+      engine.pointerDown(0, 0);
+      engine.pointerMove(20, 0);
+      engine.pointerMove(0, 20);
+      expect(engine.getSelection().outline).toEqual([
+        { x: 0, y: 0 },
+        { x: 20, y: 0 },
+        { x: 0, y: 20 },
+      ]);
+      engine.pointerUp();
+
+      expect(engine.getSelection().bounds).toEqual({
+        x: 5,
+        y: 5,
+        width: 5,
+        height: 1,
+      });
+    });
+
+    test("選択の中をドラッグすると動かせて、1回のundoで戻る", () => {
+      const { engine } = createTestEngine();
+      drawLine(engine, 2, 2, 6, 2);
+      engine.setTool("select");
+      drag(engine, { x: 0, y: 0 }, { x: 10, y: 10 });
+
+      drag(engine, { x: 3, y: 2 }, { x: 5, y: 4 }, { x: 13, y: 7 });
+
+      const [stroke] = getAllStrokes(engine.getDrawing());
+      expect(stroke.points.map(({ x, y }) => ({ x, y }))).toEqual([
+        { x: 12, y: 7 },
+        { x: 16, y: 7 },
+      ]);
+      expect(engine.getSelection().bounds).toMatchObject({ x: 12, y: 7 });
+
+      engine.undo();
+      expect(getAllStrokes(engine.getDrawing())[0].points[0]).toMatchObject({
+        x: 2,
+        y: 2,
+      });
+      engine.undo();
+      expect(getAllStrokes(engine.getDrawing())).toHaveLength(0);
+    });
+
+    test("複製は少しずらして重ね、複製の方を選択する", () => {
+      const { engine } = createTestEngine();
+      drawLine(engine, 2, 2, 6, 2);
+      engine.setTool("select");
+      drag(engine, { x: 0, y: 0 }, { x: 10, y: 10 });
+
+      engine.duplicateSelection();
+
+      const strokes = getAllStrokes(engine.getDrawing());
+      expect(strokes).toHaveLength(2);
+      expect(strokes[1].id).not.toBe(strokes[0].id);
+      expect(strokes[1].points[0]).toMatchObject({ x: 10, y: 10 });
+      expect(engine.getSelection().bounds).toMatchObject({ x: 10, y: 10 });
+
+      engine.undo();
+      expect(getAllStrokes(engine.getDrawing())).toHaveLength(1);
+      expect(engine.hasSelection()).toBe(false);
+    });
+
+    test("削除は選択中のストロークだけを消し、undoで戻る", () => {
+      const { engine } = createTestEngine();
+      drawLine(engine, 2, 2, 6, 2);
+      drawLine(engine, 30, 30, 40, 30);
+      engine.setTool("select");
+      drag(engine, { x: 0, y: 0 }, { x: 10, y: 10 });
+
+      engine.deleteSelection();
+
+      expect(engine.hasSelection()).toBe(false);
+      expect(
+        getAllStrokes(engine.getDrawing()).map((s) => s.points[0].x),
+      ).toEqual([30]);
+      engine.undo();
+      expect(getAllStrokes(engine.getDrawing())).toHaveLength(2);
+    });
+
+    test("全消去すると選択が外れ、消えたストロークを動かさない", () => {
+      const { engine } = createTestEngine();
+      drawLine(engine, 2, 2, 6, 2);
+      engine.setTool("select");
+      drag(engine, { x: 0, y: 0 }, { x: 10, y: 10 });
+      const onChange = vi.fn();
+      engine.setSelectionChangeListener(onChange);
+
+      engine.clear();
+
+      expect(engine.hasSelection()).toBe(false);
+      expect(onChange).toHaveBeenCalled();
+      engine.duplicateSelection();
+      engine.deleteSelection();
+      expect(getAllStrokes(engine.getDrawing())).toHaveLength(0);
+    });
+
+    test("範囲の外をなぞり直すと選択が外れ、他のツールに切り替えても外れる", () => {
+      const { engine } = createTestEngine();
+      drawLine(engine, 2, 2, 6, 2);
+      engine.setTool("select");
+      drag(engine, { x: 0, y: 0 }, { x: 10, y: 10 });
+
+      drag(engine, { x: 40, y: 40 }, { x: 45, y: 45 });
+      expect(engine.hasSelection()).toBe(false);
+
+      drag(engine, { x: 0, y: 0 }, { x: 10, y: 10 });
+      engine.setTool("pen");
+      expect(engine.hasSelection()).toBe(false);
+    });
+
+    test("選択ツールでは描き込まない", () => {
+      const { engine } = createTestEngine();
+      engine.setTool("select");
+
+      drag(engine, { x: 0, y: 0 }, { x: 10, y: 10 });
+
+      expect(getAllStrokes(engine.getDrawing())).toHaveLength(0);
+      expect(engine.canUndo()).toBe(false);
+    });
+  });
+
+  describe("塗りつぶし", () => {
+    /** x=10の縦線だけが黒い画面を返すレンダラー */
+    class MockRendererWithComposite extends MockRenderer {
+      renderComposite = vi.fn(() => {
+        const { width, height } = this.imageData;
+        const data = new Uint8ClampedArray(width * height * 4).fill(255);
+        for (let y = 0; y < height; y++) {
+          data.fill(0, (y * width + 10) * 4, (y * width + 10) * 4 + 3);
+        }
+        return { width, height, data };
+      });
+    }
+
+    /** 縦線の左側を塗れるエンジンを作る */
+    function createFillEngine() {
+      const renderer = new MockRendererWithComposite(
+        DEFAULT_TEST_DRAWING.width,
+        DEFAULT_TEST_DRAWING.height,
+      );
+      const engine = new WigglyEngine({
+        initialDrawing: DEFAULT_TEST_DRAWING,
+        renderer,
+        time: new MockTime(),
+        raf: new MockRaf(),
+        jitterConfig: { amplitude: 0, frequency: 1 },
+      });
+      return { engine, renderer };
+    }
+
+    test("押した位置とつながった範囲を塗りつぶしのストロークとして追加する", () => {
+      const { engine, renderer } = createFillEngine();
+      engine.setTool("fill");
+
+      engine.pointerDown(5, 5);
+      engine.pointerUp();
+
+      const [stroke] = getAllStrokes(engine.getDrawing());
+      expect(renderer.renderComposite).toHaveBeenCalledTimes(1);
+      expect(stroke.kind).toBe("fill");
+      expect(stroke.brush.kind).toBe("solid");
+      expect(stroke.points).toEqual([{ x: 5, y: 5, t: expect.any(Number) }]);
+      expect(stroke.region?.top).toBe(-5);
+      expect(stroke.region?.rows).toHaveLength(50);
+      expect(stroke.region?.rows[0]).toEqual([-5, 10]);
+      expect(engine.canUndo()).toBe(true);
+
+      engine.undo();
+      expect(getAllStrokes(engine.getDrawing())).toHaveLength(0);
+    });
+
+    test("パターンで塗る設定では選択中のパターンを使う", () => {
+      const { engine } = createFillEngine();
+      engine.setPattern("check");
+      engine.setFillWithPattern(true);
+      engine.setTool("fill");
+
+      engine.pointerDown(20, 20);
+
+      const [stroke] = getAllStrokes(engine.getDrawing());
+      expect(stroke.brush).toMatchObject({
+        kind: "pattern",
+        patternId: "check",
+      });
+    });
+
+    test("重ねた画面を返せないレンダラーでは何もしない", () => {
+      const { engine } = createTestEngine();
+      engine.setTool("fill");
+
+      engine.pointerDown(5, 5);
+      engine.pointerUp();
+
+      expect(getAllStrokes(engine.getDrawing())).toHaveLength(0);
+    });
+  });
+
+  describe("図形", () => {
+    test("ドラッグ中は始点から今の位置までの図形に描き直し、離すと1回の履歴に積む", () => {
+      const { engine } = createTestEngine();
+      engine.setTool("shape");
+      engine.setShapeKind("line");
+
+      engine.pointerDown(2, 2);
+      engine.pointerMove(30, 2);
+      engine.pointerMove(10, 2);
+
+      const [stroke] = getAllStrokes(engine.getDrawing());
+      expect(stroke.kind).toBe("draw");
+      expect(stroke.points.map(({ x, y }) => ({ x, y }))).toEqual([
+        { x: 2, y: 2 },
+        { x: 6, y: 2 },
+        { x: 10, y: 2 },
+      ]);
+      expect(engine.canUndo()).toBe(false);
+
+      engine.pointerUp();
+      expect(engine.canUndo()).toBe(true);
+      engine.undo();
+      expect(getAllStrokes(engine.getDrawing())).toHaveLength(0);
+    });
+
+    test("点の時刻はドラッグの間に並び順で割り振る", () => {
+      const { engine, time } = createTestEngine();
+      engine.setTool("shape");
+      engine.setShapeKind("rect");
+
+      engine.pointerDown(0, 0);
+      time.set(100);
+      engine.pointerMove(8, 8);
+
+      const times = getAllStrokes(engine.getDrawing())[0].points.map(
+        (point) => point.t,
+      );
+      expect(times[times.length - 1] - times[0]).toBe(100);
+      expect([...times].sort((a, b) => a - b)).toEqual(times);
+    });
+
+    test("Shiftを押している間は正方形に揃え、パターンでも描ける", () => {
+      const { engine } = createTestEngine();
+      engine.setTool("shape");
+      engine.setShapeKind("rect");
+      engine.setShapeWithPattern(true);
+
+      engine.pointerDown(0, 0);
+      engine.pointerMove(12, 4, { shift: true });
+      engine.pointerUp();
+
+      const [stroke] = getAllStrokes(engine.getDrawing());
+      expect(stroke.brush.kind).toBe("pattern");
+      expect(stroke.points).toContainEqual(
+        expect.objectContaining({ x: 12, y: 12 }),
+      );
+    });
+
+    test("点数が変わらない描き直しでもレンダラーのキャッシュを無効化する", () => {
+      const { engine, renderer } = createTestEngine();
+      engine.setTool("shape");
+      engine.setShapeKind("rect");
+
+      engine.pointerDown(10, 10);
+      engine.pointerMove(40, 30);
+      const before = getAllStrokes(engine.getDrawing())[0].points;
+      const cacheSpy = vi.spyOn(renderer, "invalidateRenderCache");
+      engine.pointerMove(41, 31);
+      const after = getAllStrokes(engine.getDrawing())[0].points;
+
+      // 矩形の輪郭は始点に戻るので、点数も最後の点も変わらない
+      expect(after).toHaveLength(before.length);
+      expect(after[after.length - 1]).toEqual(before[before.length - 1]);
+      expect(cacheSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe("スポイト", () => {
+    /** 背景を白で塗り、表示中のレイヤーの点を色番号をrに入れた色で重ねるレンダラー */
+    class MockRendererWithColorPick extends MockRenderer {
+      transparentBackground = false;
+      renderComposite = vi.fn((drawing: Drawing): RasterImage => {
+        const { width, height } = drawing;
+        const data = new Uint8ClampedArray(width * height * 4);
+        if (!this.transparentBackground) data.fill(255);
+        for (const layer of getVisibleLayers(drawing)) {
+          for (const stroke of layer.strokes) {
+            const { color } = stroke.brush;
+            const index = color.kind === "palette" ? color.index : 0;
+            for (const { x, y } of stroke.points) {
+              data.set([index, 0, 0, 255], (y * width + x) * 4);
+            }
+          }
+        }
+        return { width, height, data };
+      });
+      toBrushColor = vi.fn(
+        ({ r, g, b }: RasterColor): BrushColor =>
+          r === 255 && g === 255 && b === 255
+            ? { kind: "fixed", color: "#ffffff" }
+            : { kind: "palette", index: r },
+      );
+    }
+
+    /** 色を拾えるエンジンを作る */
+    function createColorPickEngine() {
+      const renderer = new MockRendererWithColorPick(
+        DEFAULT_TEST_DRAWING.width,
+        DEFAULT_TEST_DRAWING.height,
+      );
+      const engine = new WigglyEngine({
+        initialDrawing: DEFAULT_TEST_DRAWING,
+        renderer,
+        time: new MockTime(),
+        raf: new MockRaf(),
+        jitterConfig: { amplitude: 0, frequency: 1 },
+      });
+      return { engine, renderer };
+    }
+
+    /** 指定の色番号で1点を描く */
+    function drawDot(
+      engine: WigglyEngine,
+      index: number,
+      x: number,
+      y: number,
+    ): void {
+      engine.setBrushColor({ kind: "palette", index });
+      engine.pointerDown(x, y);
+      engine.pointerUp();
+    }
+
+    test("押した位置に見えている色をブラシ色にして通知し、描き込まない", () => {
+      const { engine, renderer } = createColorPickEngine();
+      drawDot(engine, 3, 10, 10);
+      engine.setBrushColor({ kind: "palette", index: 0 });
+      const onPick = vi.fn();
+      engine.setColorPickListener(onPick);
+      engine.setTool("eyedropper");
+
+      engine.pointerDown(10.2, 9.8);
+      engine.pointerUp();
+      engine.setTool("pen");
+      engine.pointerDown(30, 30);
+      engine.pointerUp();
+
+      expect(renderer.renderComposite).toHaveBeenCalledTimes(1);
+      expect(renderer.toBrushColor).toHaveBeenCalledWith({ r: 3, g: 0, b: 0 });
+      expect(onPick).toHaveBeenCalledWith({ kind: "palette", index: 3 });
+      const strokes = getAllStrokes(engine.getDrawing());
+      expect(strokes).toHaveLength(2);
+      expect(strokes[1].brush.color).toEqual({ kind: "palette", index: 3 });
+    });
+
+    test("ペンはAltを押している間だけ色を拾う", () => {
+      const { engine } = createColorPickEngine();
+      const onPick = vi.fn();
+      engine.setColorPickListener(onPick);
+
+      engine.pointerDown(10, 10, { alt: true });
+      engine.pointerUp();
+
+      expect(onPick).toHaveBeenCalledTimes(1);
+      expect(getAllStrokes(engine.getDrawing())).toHaveLength(0);
+    });
+
+    test("背景の位置では背景の色を拾う", () => {
+      const { engine } = createColorPickEngine();
+      drawDot(engine, 3, 10, 10);
+      const onPick = vi.fn();
+      engine.setColorPickListener(onPick);
+      engine.setTool("eyedropper");
+
+      engine.pointerDown(1, 1);
+
+      expect(onPick).toHaveBeenCalledWith({ kind: "fixed", color: "#ffffff" });
+    });
+
+    test("非表示のレイヤーの上では、その下に見えている色を拾う", () => {
+      const { engine } = createColorPickEngine();
+      const bottomId = engine.getActiveLayerId();
+      drawDot(engine, 3, 10, 10);
+      const topId = engine.addLayer();
+      drawDot(engine, 5, 10, 10);
+      const onPick = vi.fn();
+      engine.setColorPickListener(onPick);
+      engine.setTool("eyedropper");
+
+      engine.setLayerVisibility(topId, false);
+      engine.pointerDown(10, 10);
+      engine.pointerUp();
+      engine.setLayerVisibility(bottomId, false);
+      engine.pointerDown(10, 10);
+      engine.pointerUp();
+
+      expect(onPick.mock.calls).toEqual([
+        [{ kind: "palette", index: 3 }],
+        [{ kind: "fixed", color: "#ffffff" }],
+      ]);
+    });
+
+    test("背景が透明で何も描かれていない位置では色を変えない", () => {
+      const { engine, renderer } = createColorPickEngine();
+      renderer.transparentBackground = true;
+      const onPick = vi.fn();
+      engine.setColorPickListener(onPick);
+      engine.setTool("eyedropper");
+
+      engine.pointerDown(1, 1);
+
+      expect(onPick).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("筆圧", () => {
+    test("筆圧を使う設定では、補正カーブを通した筆圧と傾きを点に持つ", () => {
+      const { engine, time } = createTestEngine();
+      engine.setPressureEnabled(true);
+      engine.setPressureCurve(2);
+
+      time.set(0);
+      engine.pointerDown(5, 5, { pressure: 0.5, tiltX: 10, tiltY: -20 });
+      time.set(10);
+      engine.pointerMove(10, 5, { pressure: 1, tiltX: 0, tiltY: 0 });
+      engine.pointerUp();
+
+      const [stroke] = getAllStrokes(engine.getDrawing());
+      expect(stroke.brush.pressure).toBe(true);
+      expect(stroke.points).toEqual([
+        { x: 5, y: 5, t: 0, pressure: 0.25, tiltX: 10, tiltY: -20 },
+        { x: 10, y: 5, t: 10, pressure: 1, tiltX: 0, tiltY: 0 },
+      ]);
+    });
+
+    test("筆圧の無い入力や設定が無効の時は、筆圧を持たない線になる", () => {
+      const { engine } = createTestEngine();
+      engine.pointerDown(5, 5, { pressure: 0.5 });
+      engine.pointerUp();
+      engine.setPressureEnabled(true);
+      engine.pointerDown(20, 20);
+      engine.pointerUp();
+
+      for (const stroke of getAllStrokes(engine.getDrawing())) {
+        expect(stroke.brush.pressure).toBeUndefined();
+        expect(stroke.points[0].pressure).toBeUndefined();
+      }
+    });
+
+    test("消しゴムには筆圧を使わない", () => {
+      const { engine } = createTestEngine();
+      engine.setPressureEnabled(true);
+      engine.setTool("eraser");
+
+      engine.pointerDown(5, 5, { pressure: 0.5 });
+      engine.pointerUp();
+
+      const [stroke] = getAllStrokes(engine.getDrawing());
+      expect(stroke.brush.pressure).toBeUndefined();
+    });
+  });
+
+  describe("点ごとに太さの変わるブラシ", () => {
+    test("点ごとの太さを記録し、描いた部分の太さやブラシの太さは変えない", () => {
+      const { engine, time } = createTestEngine();
+      engine.setPenVariant("brushTaper");
+      engine.setBrushWidth(20);
+
+      time.set(0);
+      engine.pointerDown(5, 5);
+      time.set(100);
+      engine.pointerMove(10, 5);
+      time.set(300);
+      engine.pointerMove(12, 5);
+      engine.pointerUp();
+
+      const [stroke] = getAllStrokes(engine.getDrawing());
+      expect(stroke.brush.width).toBe(20);
+      expect(stroke.points.map((point) => point.width)).toEqual([
+        6,
+        expect.any(Number),
+        expect.any(Number),
+      ]);
+      const [first, second, third] = stroke.points.map(
+        (point) => point.width ?? 0,
+      );
+      expect(second).toBeGreaterThan(first);
+      expect(third).toBeGreaterThan(second);
+    });
+
+    test("丸ペンと図形の点は太さを持たない", () => {
+      const { engine, time } = createTestEngine();
+      time.set(0);
+      engine.pointerDown(5, 5);
+      time.set(100);
+      engine.pointerMove(10, 5);
+      engine.pointerUp();
+      engine.setPenVariant("brushInk");
+      engine.setTool("shape");
+      engine.pointerDown(20, 20);
+      engine.pointerMove(30, 20);
+      engine.pointerUp();
+
+      for (const stroke of getAllStrokes(engine.getDrawing())) {
+        for (const point of stroke.points) {
+          expect(point.width).toBeUndefined();
+        }
+      }
+    });
+  });
+
   describe("統合テスト（描画フロー全体）", () => {
     test("pointerDown → pointerMove → pointerUp → undo → redo の完全なフロー", () => {
       const { engine, time } = createTestEngine();
@@ -192,8 +1143,8 @@ describe("WigglyEngine", () => {
       time.set(0);
       engine.pointerDown(10, 10);
       let drawing = engine.getDrawing();
-      expect(drawing.strokes).toHaveLength(1);
-      expect(drawing.strokes[0].points).toHaveLength(1);
+      expect(getAllStrokes(drawing)).toHaveLength(1);
+      expect(getAllStrokes(drawing)[0].points).toHaveLength(1);
 
       // 2. ポイント追加（複数回）
       time.set(10);
@@ -201,23 +1152,23 @@ describe("WigglyEngine", () => {
       time.set(20);
       engine.pointerMove(30, 30);
       drawing = engine.getDrawing();
-      expect(drawing.strokes[0].points.length).toBeGreaterThan(1);
+      expect(getAllStrokes(drawing)[0].points.length).toBeGreaterThan(1);
 
       // 3. 描画終了
       time.set(30);
       engine.pointerUp();
       drawing = engine.getDrawing();
-      expect(drawing.strokes).toHaveLength(1);
+      expect(getAllStrokes(drawing)).toHaveLength(1);
 
       // 4. やり直し
       engine.undo();
       drawing = engine.getDrawing();
-      expect(drawing.strokes).toHaveLength(0);
+      expect(getAllStrokes(drawing)).toHaveLength(0);
 
       // 5. 進む
       engine.redo();
       drawing = engine.getDrawing();
-      expect(drawing.strokes).toHaveLength(1);
+      expect(getAllStrokes(drawing)).toHaveLength(1);
     });
 
     test("複数のストロークを描画 → undo → redo → clear のフロー", () => {
@@ -238,27 +1189,27 @@ describe("WigglyEngine", () => {
       engine.pointerUp();
 
       let drawing = engine.getDrawing();
-      expect(drawing.strokes).toHaveLength(2);
+      expect(getAllStrokes(drawing)).toHaveLength(2);
 
       // 3. やり直し（2番目のストロークが削除される）
       engine.undo();
       drawing = engine.getDrawing();
-      expect(drawing.strokes).toHaveLength(1);
+      expect(getAllStrokes(drawing)).toHaveLength(1);
 
       // 4. 進む（2番目のストロークが復元される）
       engine.redo();
       drawing = engine.getDrawing();
-      expect(drawing.strokes).toHaveLength(2);
+      expect(getAllStrokes(drawing)).toHaveLength(2);
 
       // 5. clear（すべてのストロークが削除される）
       engine.clear();
       drawing = engine.getDrawing();
-      expect(drawing.strokes).toHaveLength(0);
+      expect(getAllStrokes(drawing)).toHaveLength(0);
 
       // 6. やり直し（全消しが取り消される）
       engine.undo();
       drawing = engine.getDrawing();
-      expect(drawing.strokes).toHaveLength(2);
+      expect(getAllStrokes(drawing)).toHaveLength(2);
     });
 
     test("描画 → 背景色変更 → undo → redo のフロー", () => {
@@ -275,17 +1226,17 @@ describe("WigglyEngine", () => {
       engine.setBackgroundColor("#000000");
       // 背景色変更は履歴に影響しないため、ストロークは残る
       let drawing = engine.getDrawing();
-      expect(drawing.strokes).toHaveLength(1);
+      expect(getAllStrokes(drawing)).toHaveLength(1);
 
       // 3. やり直し（描画が取り消される）
       engine.undo();
       drawing = engine.getDrawing();
-      expect(drawing.strokes).toHaveLength(0);
+      expect(getAllStrokes(drawing)).toHaveLength(0);
 
       // 4. 進む（描画が復元される）
       engine.redo();
       drawing = engine.getDrawing();
-      expect(drawing.strokes).toHaveLength(1);
+      expect(getAllStrokes(drawing)).toHaveLength(1);
     });
   });
 
@@ -303,7 +1254,7 @@ describe("WigglyEngine", () => {
       }
 
       const drawing = engine.getDrawing();
-      expect(drawing.strokes).toHaveLength(100);
+      expect(getAllStrokes(drawing)).toHaveLength(100);
     });
 
     test("非常に長いストローク（多数のポイント）", () => {
@@ -321,8 +1272,8 @@ describe("WigglyEngine", () => {
       engine.pointerUp();
 
       const drawing = engine.getDrawing();
-      expect(drawing.strokes).toHaveLength(1);
-      expect(drawing.strokes[0].points.length).toBeGreaterThan(100);
+      expect(getAllStrokes(drawing)).toHaveLength(1);
+      expect(getAllStrokes(drawing)[0].points.length).toBeGreaterThan(100);
     });
 
     test("連続したundo/redo", () => {
@@ -343,7 +1294,7 @@ describe("WigglyEngine", () => {
       }
 
       let drawing = engine.getDrawing();
-      expect(drawing.strokes).toHaveLength(0);
+      expect(getAllStrokes(drawing)).toHaveLength(0);
 
       // 進むを5回
       for (let i = 0; i < 5; i++) {
@@ -351,7 +1302,7 @@ describe("WigglyEngine", () => {
       }
 
       drawing = engine.getDrawing();
-      expect(drawing.strokes).toHaveLength(5);
+      expect(getAllStrokes(drawing)).toHaveLength(5);
     });
   });
 });
@@ -1,4 +1,28 @@
-import { appendPoint, clearDrawing, startStroke } from "@/core/drawingLogic";
+import {
+  type AnimationSettings,
+  DEFAULT_ANIMATION_SETTINGS,
+} from "@/core/animation";
+import {
+  appendPoint,
+  clearDrawing,
+  startStroke,
+  updateStroke,
+} from "@/core/drawingLogic";
+import { floodFillRegion } from "@/core/fill";
+import {
+  addFrame,
+  clampFrameDuration,
+  createBlankDrawing,
+  createFrame,
+  createOnionSkinDrawing,
+  DEFAULT_FRAME_ID,
+  findFrameIndex,
+  getFrameIndexAtTime,
+  moveFrame,
+  type OnionSkinColors,
+  removeFrame,
+  updateFrame,
+} from "@/core/frames";
 import {
   createHistory,
   type History,
@@ -7,18 +31,63 @@ import {
   undoHistory,
 } from "@/core/history";
 import type { JitterConfig } from "@/core/jitter";
+import {
+  addLayer,
+  createLayer,
+  createLayerName,
+  findLayer,
+  moveLayer,
+  removeLayer,
+  updateLayer,
+} from "@/core/layers";
+import { applyPressureCurve, DEFAULT_PRESSURE_CURVE } from "@/core/pressure";
+import {
+  createRasterStrokes,
+  createReferenceLayer,
+  type QuantizedRaster,
+} from "@/core/rasterImport";
 import { snapBrushWidth, snapToPixel } from "@/core/rasterization";
+import {
+  countReplayPoints,
+  createReplayTimeline,
+  getReplayDrawing,
+  REPLAY_END_HOLD_MS,
+  type ReplayOptions,
+  type ReplayTimeline,
+} from "@/core/replay";
+import {
+  duplicateStrokes,
+  findStrokesInSelection,
+  getSelectionPolygon,
+  getStrokePointPixels,
+  getStrokesBounds,
+  type PixelRect,
+  removeStrokes,
+  type SelectionMode,
+  type SelectionShape,
+  translateStrokes,
+} from "@/core/selection";
+import {
+  constrainShapeEnd,
+  createShapePoints,
+  type ShapeKind,
+} from "@/core/shapes";
 import type {
   BrushColor,
   BrushPatternId,
   BrushSettings,
   Drawing,
+  Frame,
+  Layer,
+  Point,
+  Stroke,
   StrokeKind,
 } from "@/core/types";
 import type {
   DrawingRenderer,
   RafScheduler,
   StrokeSound,
+  StrokeSoundInfo,
   TimeProvider,
 } from "@/engine/ports";
 import {
@@ -27,10 +96,60 @@ import {
   renderDrawingAtTime,
 } from "@/engine/renderScheduler";
 import type { EraserVariant, PenVariant } from "@/engine/variants";
-import { defaultPenWidth, resolveWidthVariant } from "@/engine/variants";
+import {
+  defaultPenWidth,
+  hasDynamicWidth,
+  resolveWidthVariant,
+} from "@/engine/variants";
 
-/** ツール種別 */
-export type Tool = "pen" | "pattern" | "eraser";
+/** オニオンスキンの色（前のコマは青系、次のコマは赤系） */
+const ONION_SKIN_COLORS: OnionSkinColors = {
+  previous: "#9cc3ff",
+  next: "#ffb0b0",
+};
+
+/** なげなわで点を足す最小の移動距離（ピクセル） */
+const LASSO_MIN_DISTANCE = 1.5;
+/** 複製したストロークを元からずらす量（ピクセル） */
+const DUPLICATE_OFFSET = 8;
+
+/**
+ * ツール種別
+ * selectは描かずにストロークを選んで動かし、fillは押した位置とつながった同じ色の範囲を塗る。
+ * shapeはドラッグした範囲に線・四角・楕円を描き、eyedropperは押した位置の色をブラシ色にする
+ */
+export type Tool =
+  | "pen"
+  | "pattern"
+  | "eraser"
+  | "select"
+  | "fill"
+  | "shape"
+  | "eyedropper";
+
+/** ポインター操作の付加情報（一緒に押されているキーと、ペンの筆圧・傾き） */
+export type PointerInput = {
+  /** 図形を水平・垂直・45度や正方形・正円に揃える */
+  shift?: boolean;
+  /** ペンで押した時は描かずにスポイトとして色を拾う */
+  alt?: boolean;
+  /** ペンの筆圧（0〜1の補正前の値。筆圧の無い入力では省略） */
+  pressure?: number;
+  /** ペンの傾き（度） */
+  tiltX?: number;
+  tiltY?: number;
+};
+
+/** 選択範囲の表示に必要な情報 */
+export type SelectionOverlay = {
+  /** 描画の大きさ（表示の座標系） */
+  width: number;
+  height: number;
+  /** なぞっている途中の選択範囲の輪郭（なぞっていない場合はnull） */
+  outline: { x: number; y: number }[] | null;
+  /** 選択中のストロークを囲む矩形（選択が無い場合はnull） */
+  bounds: PixelRect | null;
+};
 
 /** WigglyEngineの初期化パラメータ */
 export type EngineOptions = {
@@ -40,6 +159,8 @@ export type EngineOptions = {
   raf: RafScheduler;
   sound?: StrokeSound;
   jitterConfig: JitterConfig;
+  /** 省略時は既定のアニメーション設定 */
+  animation?: AnimationSettings;
 };
 
 /**
@@ -47,12 +168,14 @@ export type EngineOptions = {
  * 描画の管理、履歴管理、レンダリングループを担当
  */
 export class WigglyEngine {
-  private history: History<Drawing>;
+  /** コマ列の履歴（描画・レイヤー・コマの操作をまとめてundoできる） */
+  private history: History<Frame[]>;
   private renderer: DrawingRenderer;
   private time: TimeProvider;
   private raf: RafScheduler;
   private sound?: StrokeSound;
   private jitterConfig: JitterConfig;
+  private animation: AnimationSettings;
   private drawingRevision = 0;
 
   private currentTool: Tool = "pen";
@@ -61,11 +184,74 @@ export class WigglyEngine {
   private penVariant: PenVariant = "penCircle";
   private eraserVariant: EraserVariant = "eraserCircle";
   private pendingPattern: BrushPatternId = "dot_sparse";
+  /** 筆圧のある入力で描く線に筆圧を使うか */
+  private pressureEnabled = false;
+  /** 筆圧の補正カーブ（指数） */
+  private pressureCurve = DEFAULT_PRESSURE_CURVE;
+  /** 編集中のコマID */
+  private activeFrameId = "";
+  /** 描き込み先のレイヤーID */
+  private activeLayerId = "";
+  private onionSkinEnabled = false;
+  /** オニオンスキン表示用の描画（コマ列と編集中のコマが変わるまで使い回す） */
+  private onionSkinCache: {
+    frames: Frame[];
+    frameId: string;
+    drawing: Drawing;
+  } | null = null;
+  /** 取り込んだ画像の下絵（表示用に一番下へ重ねる。無い場合はnull） */
+  private referenceLayer: Layer | null = null;
+  /** 下絵を重ねた表示用の描画（元の描画が変わるまで使い回す） */
+  private referenceCache: { base: Drawing; drawing: Drawing } | null = null;
+  /** 再生開始時刻（停止中はnull） */
+  private playbackStartedAt: number | null = null;
+  /** 再生中に最後に表示したコマID */
+  private playbackFrameId: string | null = null;
+  /** 描き順のリプレイ（停止中はnull） */
+  private replay: {
+    startedAt: number;
+    timeline: ReplayTimeline;
+    /** 最後に表示した点の数と描画（点の数が変わるまで使い回す） */
+    shown: { pointCount: number; drawing: Drawing } | null;
+  } | null = null;
+
+  /** 塗りつぶしをパターンで塗るか */
+  private fillWithPattern = false;
+  /** 図形ツールで描く図形 */
+  private shapeKind: ShapeKind = "line";
+  /** 図形の内側を塗るか */
+  private shapeFilled = false;
+  /** 図形をパターンで描くか */
+  private shapeWithPattern = false;
+  /** 描いている図形の始点（図形ツールでドラッグしていない間はnull） */
+  private shapeStart: { x: number; y: number; t: number } | null = null;
+  /** 選択ツールの囲み方 */
+  private selectionMode: SelectionMode = "rect";
+  /** 選択中のストローク（編集中のコマ・レイヤーのもの。無い場合はnull） */
+  private selection: {
+    frameId: string;
+    layerId: string;
+    strokeIds: string[];
+  } | null = null;
+  /** 選択ツールのドラッグ（範囲をなぞっている途中か、選択を動かしている途中） */
+  private selectionDrag:
+    | { kind: "shape"; shape: SelectionShape }
+    | {
+        kind: "move";
+        startX: number;
+        startY: number;
+        dx: number;
+        dy: number;
+        base: Drawing;
+      }
+    | null = null;
 
   private currentStrokeId: string | null = null;
+  /** 描画中のストロークの音に渡すツール */
+  private strokeTool: StrokeSoundInfo["tool"] = "pen";
   private strokeStartTime = 0;
   private strokeLength = 0;
-  private strokeStartDrawing: Drawing | null = null;
+  private strokeStartFrames: Frame[] | null = null;
 
   private loopId: number | null = null;
   private startedAt: number;
@@ -73,26 +259,58 @@ export class WigglyEngine {
   private minFrameIntervalMs = 1000 / 45; // 約45fps目安で間引き
 
   private onHistoryChange?: () => void;
+  private onSelectionChange?: () => void;
+  private onColorPick?: (color: BrushColor) => void;
 
   /** エンジンを初期化する */
   constructor(options: EngineOptions) {
-    this.history = createHistory(options.initialDrawing);
+    this.history = createHistory([
+      createFrame(DEFAULT_FRAME_ID, options.initialDrawing),
+    ]);
+    this.resolveSelection();
     this.renderer = options.renderer;
     this.time = options.time;
     this.raf = options.raf;
     this.sound = options.sound;
     this.jitterConfig = options.jitterConfig;
+    this.animation = options.animation ?? DEFAULT_ANIMATION_SETTINGS;
     this.startedAt = this.time.now();
 
     this.loop = this.loop.bind(this);
     this.loopId = this.raf.request(this.loop);
   }
 
-  /** 現在のツールを設定する */
+  /** 現在のツールを設定する（選択ツールから切り替えると選択を外す） */
   setTool(tool: Tool): void {
+    if (tool !== "select") this.clearSelection();
     this.currentTool = tool;
   }
 
+  /** 塗りつぶしをパターン（setPatternで選んだもの）で塗るかを設定する */
+  setFillWithPattern(enabled: boolean): void {
+    this.fillWithPattern = enabled;
+  }
+
+  /** 図形ツールで描く図形を設定する */
+  setShapeKind(kind: ShapeKind): void {
+    this.shapeKind = kind;
+  }
+
+  /** 図形の内側を塗るかを設定する（線では使わない） */
+  setShapeFilled(filled: boolean): void {
+    this.shapeFilled = filled;
+  }
+
+  /** 図形をパターン（setPatternで選んだもの）で描くかを設定する */
+  setShapeWithPattern(enabled: boolean): void {
+    this.shapeWithPattern = enabled;
+  }
+
+  /** 選択ツールの囲み方を設定する */
+  setSelectionMode(mode: SelectionMode): void {
+    this.selectionMode = mode;
+  }
+
   /** ブラシ色を設定する */
   setBrushColor(color: BrushColor): void {
     this.pendingColor = color;
@@ -122,6 +340,16 @@ export class WigglyEngine {
     this.penVariant = variant;
   }
 
+  /** 筆圧のある入力（ペン）で描く線に筆圧を使うかを設定する */
+  setPressureEnabled(enabled: boolean): void {
+    this.pressureEnabled = enabled;
+  }
+
+  /** 筆圧の補正カーブ（1で補正なし、小さいほど軽い筆圧で太く濃くなる）を設定する */
+  setPressureCurve(curve: number): void {
+    this.pressureCurve = curve;
+  }
+
   /** 消しゴムのバリアントを設定する */
   setEraserVariant(variant: EraserVariant): void {
     this.eraserVariant = variant;
@@ -162,6 +390,38 @@ export class WigglyEngine {
     this.lastRenderAt = 0;
   }
 
+  /**
+   * ぶるぶるのコマ数・間隔を変更し、即座に再レンダリングを実行
+   * レンダラーが対応していればcycleのバッファとキャッシュも作り直させる
+   */
+  setAnimationSettings(animation: AnimationSettings): void {
+    if (
+      animation.cycleCount === this.animation.cycleCount &&
+      animation.cycleIntervalMs === this.animation.cycleIntervalMs
+    ) {
+      return;
+    }
+    this.animation = animation;
+    if (
+      "setAnimationSettings" in this.renderer &&
+      typeof this.renderer.setAnimationSettings === "function"
+    ) {
+      this.renderer.setAnimationSettings(animation);
+    }
+    this.clearRendererCache();
+    this.lastRenderAt = 0;
+  }
+
+  /** 選択範囲の変更時の通知を設定する（なぞっている途中・動かしている途中も通知する） */
+  setSelectionChangeListener(listener: () => void): void {
+    this.onSelectionChange = listener;
+  }
+
+  /** スポイトで色を拾った時の通知を設定する（ブラシ色は設定済みの状態で呼ぶ） */
+  setColorPickListener(listener: (color: BrushColor) => void): void {
+    this.onColorPick = listener;
+  }
+
   /** 履歴変更時の通知を設定する */
   setHistoryChangeListener(listener: () => void): void {
     this.onHistoryChange = listener;
@@ -185,20 +445,147 @@ export class WigglyEngine {
     return this.history.future.length > 0;
   }
 
+  /** 選択中のレイヤーIDを取得する */
+  getActiveLayerId(): string {
+    return this.activeLayerId;
+  }
+
+  /** 描き込み先のレイヤーを選択する（存在しないIDは無視） */
+  selectLayer(layerId: string): void {
+    if (!findLayer(this.getDrawing(), layerId)) return;
+    this.activeLayerId = layerId;
+    this.resolveStrokeSelection();
+    this.onHistoryChange?.();
+  }
+
+  /**
+   * 選択中のレイヤーの上に新しいレイヤーを追加し、選択する
+   * @returns 追加したレイヤーのID
+   */
+  addLayer(name?: string): string {
+    return this.insertLayer((drawing, layerId) =>
+      createLayer(layerId, name ?? createLayerName(drawing)),
+    );
+  }
+
+  /**
+   * 取り込んだ画像をストロークにしたレイヤーを追加する
+   * 選択中のレイヤーの上に追加して選択する。手描きの線と同じように揺れ、undoできる
+   *
+   * @throws 画像の大きさが描画と違う場合
+   * @returns 追加したレイヤーID
+   */
+  importRasterLayer(raster: QuantizedRaster): string {
+    this.assertRasterSize(raster);
+    const strokes = createRasterStrokes(raster, {
+      idPrefix: this.createStrokeId(),
+    });
+    return this.insertLayer((drawing, layerId) =>
+      createLayer(layerId, createLayerName(drawing), strokes),
+    );
+  }
+
+  /**
+   * 取り込んだ画像を下絵として一番下に薄く重ねる（nullで外す）
+   * 表示するだけで、履歴・保存・書き出しには含めない
+   *
+   * @throws 画像の大きさが描画と違う場合
+   */
+  setReference(raster: QuantizedRaster | null): void {
+    if (raster) this.assertRasterSize(raster);
+    this.referenceLayer = raster ? createReferenceLayer(raster) : null;
+    this.referenceCache = null;
+    this.clearRendererCache();
+    this.bumpDrawingRevision();
+    this.lastRenderAt = 0;
+  }
+
+  /** 下絵を表示しているか */
+  hasReference(): boolean {
+    return this.referenceLayer !== null;
+  }
+
+  /** レイヤーを削除する（最後の1枚は削除しない） */
+  removeLayer(layerId: string): void {
+    this.commitLayerChange((drawing) => removeLayer(drawing, layerId));
+  }
+
+  /**
+   * レイヤーを指定位置へ移動する
+   * @param toIndex 移動先（0が最背面）
+   */
+  moveLayer(layerId: string, toIndex: number): void {
+    this.commitLayerChange((drawing) => moveLayer(drawing, layerId, toIndex));
+  }
+
+  /** レイヤーの表示/非表示を切り替える */
+  setLayerVisibility(layerId: string, visible: boolean): void {
+    this.updateLayerProperty(layerId, { visible });
+  }
+
+  /** レイヤーのロックを切り替える（ロック中は描き込み・全消去の対象外） */
+  setLayerLocked(layerId: string, locked: boolean): void {
+    this.updateLayerProperty(layerId, { locked });
+  }
+
+  /** レイヤー名を変更する */
+  renameLayer(layerId: string, name: string): void {
+    this.updateLayerProperty(layerId, { name });
+  }
+
   /** 描画開始（ポインターダウン） */
-  pointerDown(x: number, y: number): void {
+  pointerDown(x: number, y: number, input: PointerInput = {}): void {
+    // 再生中・リプレイ中は描き込まない
+    if (this.playbackStartedAt !== null || this.replay) return;
+    // 色を拾うだけなので、非表示・ロック中のレイヤーでも使える
+    if (
+      this.currentTool === "eyedropper" ||
+      (this.currentTool === "pen" && input.alt)
+    ) {
+      this.pickColorAt(x, y);
+      return;
+    }
+    const drawing = this.getDrawing();
+    // 非表示・ロック中のレイヤーには描き込まない
+    const layer = findLayer(drawing, this.activeLayerId);
+    if (!layer || !layer.visible || layer.locked) return;
+
     // 座標を整数ピクセルにスナップ
     const snapped = snapToPixel(x, y);
+    if (this.currentTool === "select") {
+      this.startSelectionDrag(snapped.x, snapped.y);
+      return;
+    }
+    if (this.currentTool === "fill") {
+      this.fillAt(snapped.x, snapped.y);
+      return;
+    }
     const now = this.time.now();
     const strokeId = this.createStrokeId();
-    const drawing = this.history.present;
-    this.strokeStartDrawing = drawing;
+    this.strokeStartFrames = this.history.present;
 
     const strokeKind: StrokeKind =
       this.currentTool === "eraser" ? "erase" : "draw";
-    const brushKind = this.currentTool === "pattern" ? "pattern" : "solid";
+    const brushKind =
+      this.currentTool === "pattern" ||
+      (this.currentTool === "shape" && this.shapeWithPattern)
+        ? "pattern"
+        : "solid";
+    // 図形はブラシに合わせてペンかパターンの音を鳴らす
+    this.strokeTool =
+      this.currentTool !== "shape"
+        ? this.currentTool
+        : brushKind === "pattern"
+          ? "pattern"
+          : "pen";
     const variant: PenVariant | EraserVariant =
       strokeKind === "erase" ? this.eraserVariant : this.penVariant;
+    // 筆圧は手描きの線にだけ使う（図形は形を崩さないよう一定の太さで描く）
+    const pressure =
+      this.pressureEnabled &&
+      input.pressure !== undefined &&
+      strokeKind === "draw" &&
+      this.currentTool !== "shape";
 
     const brush: BrushSettings =
       brushKind === "pattern"
@@ -209,6 +596,7 @@ export class WigglyEngine {
             opacity: 1,
             patternId: this.pendingPattern,
             variant,
+            ...(pressure ? { pressure } : {}),
           }
         : {
             kind: "solid",
@@ -216,19 +604,47 @@ export class WigglyEngine {
             width: this.pendingWidth,
             opacity: 1,
             variant,
+            ...(pressure ? { pressure } : {}),
           };
 
-    const updated = startStroke(drawing, strokeId, strokeKind, brush, {
-      x: snapped.x,
-      y: snapped.y,
-      t: now - this.startedAt,
-    });
+    const updated = startStroke(
+      drawing,
+      layer.id,
+      strokeId,
+      strokeKind,
+      brush,
+      this.withPenInput(
+        {
+          x: snapped.x,
+          y: snapped.y,
+          t: now - this.startedAt,
+          // 図形は形を崩さないよう一定の太さで描く
+          ...(this.currentTool !== "shape" && hasDynamicWidth(variant)
+            ? {
+                width: resolveWidthVariant(
+                  brush.width,
+                  variant,
+                  0,
+                  0,
+                  strokeKind,
+                ),
+              }
+            : {}),
+        },
+        brush,
+        input,
+      ),
+    );
 
-    this.history = { ...this.history, present: updated };
+    this.setPresentDrawing(updated);
     this.bumpDrawingRevision();
     this.currentStrokeId = strokeId;
     this.strokeStartTime = now;
     this.strokeLength = 0;
+    this.shapeStart =
+      this.currentTool === "shape"
+        ? { x: snapped.x, y: snapped.y, t: now - this.startedAt }
+        : null;
 
     // レンダラーがsetIsDrawingActiveメソッドを持っている場合、描画開始を通知
     if (
@@ -239,7 +655,7 @@ export class WigglyEngine {
     }
 
     this.sound?.onStrokeStart({
-      tool: this.currentTool,
+      tool: this.strokeTool,
       speed: 0,
       length: 0,
       timeSinceStart: 0,
@@ -247,15 +663,26 @@ export class WigglyEngine {
   }
 
   /** 描画中のポイント追加（ポインタームーブ） */
-  pointerMove(x: number, y: number): void {
+  pointerMove(x: number, y: number, input: PointerInput = {}): void {
+    if (this.selectionDrag) {
+      const snapped = snapToPixel(x, y);
+      this.updateSelectionDrag(snapped.x, snapped.y);
+      return;
+    }
     if (!this.currentStrokeId) return;
 
     // 座標を整数ピクセルにスナップ
     const snapped = snapToPixel(x, y);
+    if (this.shapeStart) {
+      this.updateShapeStroke(snapped.x, snapped.y, input.shift ?? false);
+      return;
+    }
     const now = this.time.now();
-    const drawing = this.history.present;
-    const strokes = drawing.strokes;
-    const lastStroke = strokes[strokes.length - 1];
+    const drawing = this.getDrawing();
+    const strokeId = this.currentStrokeId;
+    const lastStroke = findLayer(drawing, this.activeLayerId)?.strokes.find(
+      (stroke) => stroke.id === strokeId,
+    );
     if (!lastStroke) return;
 
     const lastPoint = lastStroke.points[lastStroke.points.length - 1];
@@ -266,40 +693,43 @@ export class WigglyEngine {
     const dist = Math.hypot(dx, dy);
     if (dist < 1.5) return;
 
-    const variant: PenVariant | EraserVariant =
-      lastStroke.kind === "erase" ? this.eraserVariant : this.penVariant;
-    const adjustedWidth = resolveWidthVariant(
-      lastStroke.brush.width,
-      variant,
-      dist,
-      now - this.strokeStartTime,
-      lastStroke.kind,
-    );
+    // 点ごとに太さの変わるブラシは、前の点からの速さと描き始めからの時間で太さを決める
+    const { variant } = lastStroke.brush;
+    const pointDt = now - this.startedAt - lastPoint.t;
+    const pointWidth = hasDynamicWidth(variant)
+      ? resolveWidthVariant(
+          lastStroke.brush.width,
+          variant,
+          pointDt > 0 ? dist / pointDt : 0,
+          now - this.strokeStartTime,
+          lastStroke.kind,
+        )
+      : undefined;
 
     this.strokeLength += dist;
     const dt = now - this.strokeStartTime;
     const speed = dt > 0 ? this.strokeLength / dt : 0;
 
-    const updated = appendPoint(drawing, this.currentStrokeId, {
-      x: snapped.x,
-      y: snapped.y,
-      t: now - this.startedAt,
-    });
-
-    const strokesWithWidth = updated.strokes.map((s) =>
-      s.id === this.currentStrokeId
-        ? { ...s, brush: { ...s.brush, width: adjustedWidth } }
-        : s,
+    const updated = appendPoint(
+      drawing,
+      strokeId,
+      this.withPenInput(
+        {
+          x: snapped.x,
+          y: snapped.y,
+          t: now - this.startedAt,
+          ...(pointWidth !== undefined ? { width: pointWidth } : {}),
+        },
+        lastStroke.brush,
+        input,
+      ),
     );
 
-    this.history = {
-      ...this.history,
-      present: { ...updated, strokes: strokesWithWidth },
-    };
+    this.setPresentDrawing(updated);
     this.bumpDrawingRevision();
 
     this.sound?.onStrokeUpdate({
-      tool: this.currentTool,
+      tool: this.strokeTool,
       speed,
       length: this.strokeLength,
       timeSinceStart: now - this.strokeStartTime,
@@ -308,23 +738,28 @@ export class WigglyEngine {
 
   /** 描画終了（ポインターアップ） */
   pointerUp(): void {
+    if (this.selectionDrag) {
+      this.finishSelectionDrag();
+      return;
+    }
     if (!this.currentStrokeId) return;
     const now = this.time.now();
 
     this.sound?.onStrokeEnd({
-      tool: this.currentTool,
+      tool: this.strokeTool,
       speed: 0,
       length: this.strokeLength,
       timeSinceStart: now - this.strokeStartTime,
     });
 
-    const base = this.strokeStartDrawing ?? this.history.present;
+    const base = this.strokeStartFrames ?? this.history.present;
     this.history = pushHistory(
       { ...this.history, present: base, future: [] },
       this.history.present,
     );
-    this.strokeStartDrawing = null;
+    this.strokeStartFrames = null;
     this.currentStrokeId = null;
+    this.shapeStart = null;
 
     // レンダラーがsetIsDrawingActiveメソッドを持っている場合、描画終了を通知
     if (
@@ -337,9 +772,65 @@ export class WigglyEngine {
     this.onHistoryChange?.();
   }
 
+  /** 選択中のストロークがあるか */
+  hasSelection(): boolean {
+    return this.selection !== null;
+  }
+
+  /** 選択範囲の表示に必要な情報を返す */
+  getSelection(): SelectionOverlay {
+    const { width, height } = this.getDrawing();
+    const outline =
+      this.selectionDrag?.kind === "shape"
+        ? getSelectionPolygon(this.selectionDrag.shape)
+        : null;
+    return { width, height, outline, bounds: this.getSelectionBounds() };
+  }
+
+  /**
+   * 選択中のストロークを複製して少しずらして重ね、複製の方を選択する
+   * 履歴に追加されundoできる
+   */
+  duplicateSelection(): void {
+    const selection = this.selection;
+    if (!selection) return;
+    let copyIds: string[] = [];
+    this.commitStrokeChange(selection.layerId, (layer) => {
+      const duplicated = duplicateStrokes(layer, selection.strokeIds, {
+        createId: () => this.createStrokeId(),
+        dx: DUPLICATE_OFFSET,
+        dy: DUPLICATE_OFFSET,
+      });
+      copyIds = duplicated.strokeIds;
+      return duplicated.layer;
+    });
+    this.selection = { ...selection, strokeIds: copyIds };
+    this.onSelectionChange?.();
+  }
+
+  /** 選択中のストロークを削除する（履歴に追加されundoできる） */
+  deleteSelection(): void {
+    const selection = this.selection;
+    if (!selection) return;
+    this.selection = null;
+    this.commitStrokeChange(selection.layerId, (layer) =>
+      removeStrokes(layer, selection.strokeIds),
+    );
+    this.onSelectionChange?.();
+  }
+
+  /** 選択を外す */
+  clearSelection(): void {
+    if (!this.selection && !this.selectionDrag) return;
+    this.abortStroke();
+    this.selection = null;
+    this.onSelectionChange?.();
+  }
+
   /** undoを実行する */
   undo(): void {
     this.history = undoHistory(this.history);
+    this.resolveSelection();
     // やり直し/進む時はキャッシュをクリア（全ストロークから再生成が必要）
     this.clearRendererCache();
     this.bumpDrawingRevision();
@@ -349,26 +840,242 @@ export class WigglyEngine {
   /** redoを実行する */
   redo(): void {
     this.history = redoHistory(this.history);
+    this.resolveSelection();
     // やり直し/進む時はキャッシュをクリア（全ストロークから再生成が必要）
     this.clearRendererCache();
     this.bumpDrawingRevision();
     this.onHistoryChange?.();
   }
 
-  /** 現在の描画データを取得する */
+  /** 編集中のコマの描画データを取得する */
   getDrawing(): Drawing {
+    return this.getActiveFrame().drawing;
+  }
+
+  /** 全コマを取得する */
+  getFrames(): Frame[] {
     return this.history.present;
   }
 
+  /** 編集中のコマIDを取得する */
+  getActiveFrameId(): string {
+    return this.activeFrameId;
+  }
+
+  /** 今表示しているぶるぶるのcycle番号（描画ループと同じ経過時間から求める） */
+  getCycleIndex(): number {
+    const { cycleCount, cycleIntervalMs } = this.animation;
+    const elapsed = this.time.now() - this.startedAt;
+    return Math.floor(elapsed / cycleIntervalMs) % cycleCount;
+  }
+
+  /** 編集するコマを選択する（存在しないIDは無視） */
+  selectFrame(frameId: string): void {
+    if (frameId === this.activeFrameId) return;
+    if (findFrameIndex(this.history.present, frameId) === -1) return;
+    this.abortStroke();
+    this.activeFrameId = frameId;
+    this.resolveSelection();
+    this.bumpDrawingRevision();
+    this.lastRenderAt = 0;
+    this.onHistoryChange?.();
+  }
+
+  /**
+   * 編集中のコマの後ろに白紙のコマを追加し、選択する
+   * レイヤー構成は編集中のコマから引き継ぐ
+   * @returns 追加したコマのID
+   */
+  addFrame(): string {
+    const frameId = this.createFrameId();
+    this.commitFrameChange((frames) => {
+      const active = this.getActiveFrame();
+      this.activeFrameId = frameId;
+      return addFrame(
+        frames,
+        createFrame(
+          frameId,
+          createBlankDrawing(active.drawing),
+          active.durationMs,
+        ),
+        findFrameIndex(frames, active.id) + 1,
+      );
+    });
+    return frameId;
+  }
+
+  /**
+   * コマを複製して直後に挿入し、選択する
+   * @returns 追加したコマのID（見つからない場合はnull）
+   */
+  duplicateFrame(frameId: string): string | null {
+    const index = findFrameIndex(this.history.present, frameId);
+    if (index === -1) return null;
+    const copyId = this.createFrameId();
+    this.commitFrameChange((frames) => {
+      const source = frames[index];
+      this.activeFrameId = copyId;
+      return addFrame(
+        frames,
+        createFrame(copyId, source.drawing, source.durationMs),
+        index + 1,
+      );
+    });
+    return copyId;
+  }
+
+  /** コマを削除する（最後の1枚は削除しない） */
+  removeFrame(frameId: string): void {
+    this.commitFrameChange((frames) => {
+      const index = findFrameIndex(frames, frameId);
+      const next = removeFrame(frames, frameId);
+      // 編集中のコマを消した場合は隣のコマを選ぶ
+      if (next !== frames && frameId === this.activeFrameId) {
+        this.activeFrameId = next[Math.max(0, index - 1)].id;
+      }
+      return next;
+    });
+  }
+
+  /**
+   * コマを指定位置へ移動する
+   * @param toIndex 移動先（0が先頭）
+   */
+  moveFrame(frameId: string, toIndex: number): void {
+    this.commitFrameChange((frames) => moveFrame(frames, frameId, toIndex));
+  }
+
+  /** コマの表示時間を設定する（上下限に丸める） */
+  setFrameDuration(frameId: string, durationMs: number): void {
+    const clamped = clampFrameDuration(durationMs);
+    this.commitFrameChange((frames) => {
+      const index = findFrameIndex(frames, frameId);
+      if (index === -1 || frames[index].durationMs === clamped) return frames;
+      return updateFrame(frames, frameId, (frame) => ({
+        ...frame,
+        durationMs: clamped,
+      }));
+    });
+  }
+
+  /** 前後のコマを薄く重ねて表示するか設定する */
+  setOnionSkinEnabled(enabled: boolean): void {
+    if (this.onionSkinEnabled === enabled) return;
+    this.onionSkinEnabled = enabled;
+    this.bumpDrawingRevision();
+    this.lastRenderAt = 0;
+  }
+
+  /** 全コマを表示時間どおりに繰り返し再生する（再生中は描き込めない） */
+  play(): void {
+    if (this.playbackStartedAt !== null) return;
+    this.stopReplay();
+    this.abortStroke();
+    this.playbackStartedAt = this.time.now();
+    this.playbackFrameId = null;
+    this.lastRenderAt = 0;
+  }
+
+  /** 再生を止めて編集中のコマの表示に戻す */
+  stop(): void {
+    if (this.playbackStartedAt === null) return;
+    this.playbackStartedAt = null;
+    this.playbackFrameId = null;
+    this.bumpDrawingRevision();
+    this.lastRenderAt = 0;
+  }
+
+  /** 再生中かどうか */
+  isPlaying(): boolean {
+    return this.playbackStartedAt !== null;
+  }
+
+  /**
+   * 編集中のコマを描いた順に少しずつ表示するリプレイを始める
+   * 開始時の描画を使い、描き終えたら少し見せてから最初に戻って止めるまで繰り返す。
+   * リプレイ中は描き込めない
+   *
+   * @throws targetDurationMsが1000〜60000の範囲外の場合
+   */
+  startReplay(options: ReplayOptions = {}): void {
+    const timeline = createReplayTimeline(this.getDrawing(), options);
+    this.stop();
+    this.abortStroke();
+    this.replay = { startedAt: this.time.now(), timeline, shown: null };
+    this.lastRenderAt = 0;
+  }
+
+  /** リプレイを止めて編集中のコマの表示に戻す */
+  stopReplay(): void {
+    if (!this.replay) return;
+    this.replay = null;
+    this.bumpDrawingRevision();
+    this.lastRenderAt = 0;
+  }
+
+  /** リプレイ中かどうか */
+  isReplaying(): boolean {
+    return this.replay !== null;
+  }
+
   /** 描画の版番号を取得する */
   getDrawingRevision(): number {
     return this.drawingRevision;
   }
 
-  /** 描画を全消去する */
+  /**
+   * 描画を1コマとして読み込み、履歴とレンダラーのキャッシュをリセットする
+   */
+  loadDrawing(drawing: Drawing): void {
+    this.loadFrames([createFrame(DEFAULT_FRAME_ID, drawing)]);
+  }
+
+  /**
+   * コマ列を読み込み、履歴とレンダラーのキャッシュをリセットする
+   * 保存データの復元など、別のメモに切り替える時に使う
+   *
+   * @throws コマ列が空の場合
+   */
+  loadFrames(frames: Frame[]): void {
+    if (frames.length === 0) {
+      throw new Error("frames must not be empty");
+    }
+    this.abortStroke();
+    this.stop();
+    this.stopReplay();
+    this.history = createHistory(frames);
+    this.activeFrameId = frames[0].id;
+    this.resolveSelection();
+    this.clearRendererCache();
+    this.bumpDrawingRevision();
+    this.lastRenderAt = 0;
+    this.onHistoryChange?.();
+  }
+
+  /**
+   * 編集中のコマの描画を差し替える（履歴に追加されundoできる）
+   */
+  replaceDrawing(drawing: Drawing): void {
+    this.abortStroke();
+    this.history = pushHistory(
+      this.history,
+      this.withActiveDrawing(this.history.present, drawing),
+    );
+    this.resolveSelection();
+    this.clearRendererCache();
+    this.bumpDrawingRevision();
+    this.lastRenderAt = 0;
+    this.onHistoryChange?.();
+  }
+
+  /** 編集中のコマを全消去する */
   clear(): void {
-    const cleared = clearDrawing(this.history.present);
-    this.history = pushHistory(this.history, cleared);
+    const cleared = clearDrawing(this.getDrawing());
+    this.history = pushHistory(
+      this.history,
+      this.withActiveDrawing(this.history.present, cleared),
+    );
+    this.resolveStrokeSelection();
     this.bumpDrawingRevision();
     this.onHistoryChange?.();
   }
@@ -390,11 +1097,12 @@ export class WigglyEngine {
 
     if (now - this.lastRenderAt >= this.minFrameIntervalMs) {
       renderDrawingAtTime({
-        drawing: this.history.present,
+        drawing: this.getDisplayDrawing(now),
         drawingRevision: this.drawingRevision,
         renderer: this.renderer,
         jitterConfig: this.jitterConfig,
         elapsedTimeMs: elapsed,
+        cycleIntervalMs: this.animation.cycleIntervalMs,
       });
       this.lastRenderAt = now;
     }
@@ -402,6 +1110,538 @@ export class WigglyEngine {
     this.loopId = this.raf.request(this.loop);
   }
 
+  /**
+   * 描画中のストロークや選択のドラッグを破棄し、開始前の状態に戻す
+   */
+  private abortStroke(): void {
+    if (this.selectionDrag) {
+      if (this.selectionDrag.kind === "move" && this.strokeStartFrames) {
+        this.history = { ...this.history, present: this.strokeStartFrames };
+      }
+      this.strokeStartFrames = null;
+      this.selectionDrag = null;
+      this.onSelectionChange?.();
+    }
+    if (!this.currentStrokeId) return;
+    this.sound?.onStrokeEnd({
+      tool: this.strokeTool,
+      speed: 0,
+      length: this.strokeLength,
+      timeSinceStart: this.time.now() - this.strokeStartTime,
+    });
+    if (this.strokeStartFrames) {
+      this.history = { ...this.history, present: this.strokeStartFrames };
+    }
+    this.strokeStartFrames = null;
+    this.currentStrokeId = null;
+    this.shapeStart = null;
+    if (
+      "setIsDrawingActive" in this.renderer &&
+      typeof this.renderer.setIsDrawingActive === "function"
+    ) {
+      this.renderer.setIsDrawingActive(false);
+    }
+  }
+
+  /** レイヤーの属性を更新して履歴に積む */
+  private updateLayerProperty(
+    layerId: string,
+    patch: Partial<Pick<Layer, "name" | "visible" | "locked">>,
+  ): void {
+    this.commitLayerChange((drawing) => {
+      const layer = findLayer(drawing, layerId);
+      const unchanged =
+        !layer ||
+        (Object.keys(patch) as (keyof typeof patch)[]).every(
+          (key) => layer[key] === patch[key],
+        );
+      if (unchanged) return drawing;
+      return updateLayer(drawing, layerId, (l) => ({ ...l, ...patch }));
+    });
+  }
+
+  /**
+   * レイヤー操作の結果を履歴に積む
+   * 合成結果が変わるため、差分ではなく全再生成させる
+   * @param update 変更がなければ同じDrawingを返す
+   */
+  private commitLayerChange(update: (drawing: Drawing) => Drawing): void {
+    this.commitFrameChange((frames) => {
+      const drawing = this.getDrawing();
+      const updated = update(drawing);
+      return updated === drawing
+        ? frames
+        : this.withActiveDrawing(frames, updated);
+    });
+  }
+
+  /**
+   * コマ操作の結果を履歴に積む
+   * @param update 変更がなければ同じ配列を返す
+   */
+  private commitFrameChange(update: (frames: Frame[]) => Frame[]): void {
+    this.abortStroke();
+    const previousFrameId = this.activeFrameId;
+    const updated = update(this.history.present);
+    if (updated === this.history.present) {
+      this.activeFrameId = previousFrameId;
+      return;
+    }
+    this.history = pushHistory(this.history, updated);
+    this.resolveSelection();
+    this.clearRendererCache();
+    this.bumpDrawingRevision();
+    this.lastRenderAt = 0;
+    this.onHistoryChange?.();
+  }
+
+  /**
+   * 選択中のコマ・レイヤーが存在しなければ選び直す
+   * コマは先頭、レイヤーは最前面を選ぶ。undoや読み込みで構成が変わった時に使う
+   */
+  private resolveSelection(): void {
+    const frames = this.history.present;
+    if (findFrameIndex(frames, this.activeFrameId) === -1) {
+      this.activeFrameId = frames[0]?.id ?? "";
+    }
+    const drawing = this.getDrawing();
+    if (!findLayer(drawing, this.activeLayerId)) {
+      this.activeLayerId = drawing.layers[drawing.layers.length - 1]?.id ?? "";
+    }
+    this.resolveStrokeSelection();
+  }
+
+  /**
+   * 選択中のストロークのうち残っているものだけを選択し直す
+   * 別のコマ・レイヤーに切り替えた場合や、残っていない場合は選択を外す
+   */
+  private resolveStrokeSelection(): void {
+    const selection = this.selection;
+    if (!selection) return;
+    const layer =
+      selection.frameId === this.activeFrameId &&
+      selection.layerId === this.activeLayerId
+        ? findLayer(this.getDrawing(), selection.layerId)
+        : null;
+    const remaining = new Set(layer?.strokes.map((stroke) => stroke.id));
+    const strokeIds = selection.strokeIds.filter((id) => remaining.has(id));
+    this.selection = strokeIds.length > 0 ? { ...selection, strokeIds } : null;
+    // 残っていても位置が変わっていることがあるので通知する
+    this.onSelectionChange?.();
+  }
+
+  /** ストロークが塗るピクセル（レンダラーが求められなければ点の位置） */
+  private getStrokeFootprint(stroke: Stroke): { x: number; y: number }[] {
+    if (
+      "getStrokeFootprint" in this.renderer &&
+      typeof this.renderer.getStrokeFootprint === "function"
+    ) {
+      return this.renderer.getStrokeFootprint(stroke);
+    }
+    return getStrokePointPixels(stroke);
+  }
+
+  /** 選択中のストロークを囲む矩形（選択が無い場合はnull） */
+  private getSelectionBounds(): PixelRect | null {
+    const selection = this.selection;
+    if (!selection) return null;
+    const ids = new Set(selection.strokeIds);
+    const strokes =
+      findLayer(this.getDrawing(), selection.layerId)?.strokes.filter(
+        (stroke) => ids.has(stroke.id),
+      ) ?? [];
+    return getStrokesBounds(strokes, (stroke) =>
+      this.getStrokeFootprint(stroke),
+    );
+  }
+
+  /**
+   * 選択ツールのドラッグを始める
+   * 選択中のストロークを囲む矩形の中なら動かし、外なら選択を外して範囲をなぞり始める
+   */
+  private startSelectionDrag(x: number, y: number): void {
+    const bounds = this.getSelectionBounds();
+    if (
+      bounds &&
+      x >= bounds.x &&
+      x < bounds.x + bounds.width &&
+      y >= bounds.y &&
+      y < bounds.y + bounds.height
+    ) {
+      this.strokeStartFrames = this.history.present;
+      this.selectionDrag = {
+        kind: "move",
+        startX: x,
+        startY: y,
+        dx: 0,
+        dy: 0,
+        base: this.getDrawing(),
+      };
+    } else {
+      this.selection = null;
+      this.selectionDrag = {
+        kind: "shape",
+        shape: { mode: this.selectionMode, points: [{ x, y }] },
+      };
+    }
+    this.onSelectionChange?.();
+  }
+
+  /** 選択範囲をなぞる、または選択中のストロークを動かす */
+  private updateSelectionDrag(x: number, y: number): void {
+    const drag = this.selectionDrag;
+    if (!drag) return;
+    if (drag.kind === "shape") {
+      const { points } = drag.shape;
+      if (drag.shape.mode === "rect") {
+        drag.shape = { ...drag.shape, points: [points[0], { x, y }] };
+      } else {
+        const last = points[points.length - 1];
+        if (Math.hypot(x - last.x, y - last.y) < LASSO_MIN_DISTANCE) return;
+        drag.shape = { ...drag.shape, points: [...points, { x, y }] };
+      }
+      this.onSelectionChange?.();
+      return;
+    }
+
+    const selection = this.selection;
+    const dx = x - drag.startX;
+    const dy = y - drag.startY;
+    if (!selection || (dx === drag.dx && dy === drag.dy)) return;
+    this.selectionDrag = { ...drag, dx, dy };
+    this.setPresentDrawing(
+      updateLayer(drag.base, selection.layerId, (layer) =>
+        translateStrokes(layer, selection.strokeIds, dx, dy),
+      ),
+    );
+    this.bumpDrawingRevision();
+    this.onSelectionChange?.();
+  }
+
+  /**
+   * 選択ツールのドラッグを終える
+   * なぞった範囲に掛かるストロークを選択するか、動かした結果を履歴に積む
+   */
+  private finishSelectionDrag(): void {
+    const drag = this.selectionDrag;
+    this.selectionDrag = null;
+    if (drag?.kind === "shape") {
+      const layer = findLayer(this.getDrawing(), this.activeLayerId);
+      const strokeIds = layer
+        ? findStrokesInSelection(layer, drag.shape, (stroke) =>
+            this.getStrokeFootprint(stroke),
+          )
+        : [];
+      this.selection =
+        layer && strokeIds.length > 0
+          ? { frameId: this.activeFrameId, layerId: layer.id, strokeIds }
+          : null;
+    } else if (drag?.kind === "move" && this.strokeStartFrames) {
+      if (drag.dx !== 0 || drag.dy !== 0) {
+        this.history = pushHistory(
+          { ...this.history, present: this.strokeStartFrames, future: [] },
+          this.history.present,
+        );
+        this.onHistoryChange?.();
+      }
+    }
+    this.strokeStartFrames = null;
+    this.onSelectionChange?.();
+  }
+
+  /** 筆圧を使うストロークの点に、補正カーブを通した筆圧と傾きを付ける */
+  private withPenInput(
+    point: Point,
+    brush: BrushSettings,
+    input: PointerInput,
+  ): Point {
+    if (!brush.pressure || input.pressure === undefined) return point;
+    return {
+      ...point,
+      pressure: applyPressureCurve(input.pressure, this.pressureCurve),
+      ...(input.tiltX !== undefined && input.tiltY !== undefined
+        ? { tiltX: input.tiltX, tiltY: input.tiltY }
+        : {}),
+    };
+  }
+
+  /**
+   * 押した位置に見えている色をブラシ色にする
+   * 塗りつぶしと同じく、表示中のレイヤーを背景の上に揺れなしで重ねたピクセルから読む。
+   * レンダラーが重ねたピクセルや色を返せない場合や、背景が透明で何も描かれていない位置では何もしない
+   */
+  private pickColorAt(x: number, y: number): void {
+    if (
+      !("renderComposite" in this.renderer) ||
+      typeof this.renderer.renderComposite !== "function" ||
+      !("toBrushColor" in this.renderer) ||
+      typeof this.renderer.toBrushColor !== "function"
+    ) {
+      return;
+    }
+    const snapped = snapToPixel(x, y);
+    const composite = this.renderer.renderComposite(this.getDrawing());
+    if (
+      snapped.x < 0 ||
+      snapped.y < 0 ||
+      snapped.x >= composite.width ||
+      snapped.y >= composite.height
+    ) {
+      return;
+    }
+    const offset = (snapped.y * composite.width + snapped.x) * 4;
+    const { data } = composite;
+    if (data[offset + 3] === 0) return;
+    const color = this.renderer.toBrushColor({
+      r: data[offset],
+      g: data[offset + 1],
+      b: data[offset + 2],
+    });
+    this.pendingColor = color;
+    this.onColorPick?.(color);
+  }
+
+  /**
+   * 描いている図形のストロークを、始点から指定位置までの図形の点に置き換える
+   * 点の時刻はドラッグを始めてからの時間を並び順に割り振り、リプレイで描いた順に現れるようにする
+   */
+  private updateShapeStroke(x: number, y: number, constrain: boolean): void {
+    const start = this.shapeStart;
+    const strokeId = this.currentStrokeId;
+    if (!start || !strokeId) return;
+    const now = this.time.now();
+    const end = constrain
+      ? constrainShapeEnd(this.shapeKind, start, { x, y })
+      : { x, y };
+    const endT = now - this.startedAt;
+    const shape = createShapePoints({
+      kind: this.shapeKind,
+      start,
+      end,
+      filled: this.shapeFilled,
+      width: this.pendingWidth,
+    });
+    const points = shape.map((point, i) => ({
+      ...point,
+      t:
+        shape.length > 1
+          ? start.t + ((endT - start.t) * i) / (shape.length - 1)
+          : start.t,
+    }));
+
+    this.setPresentDrawing(
+      updateStroke(this.getDrawing(), strokeId, (stroke) => ({
+        ...stroke,
+        points,
+      })),
+    );
+    // 点を丸ごと作り直すため、点数も最後の点も変わらないことがある（矩形は始点に戻る）。
+    // 差分描画では検出できないので、キャッシュを捨てて描き直させる
+    this.clearRendererCache();
+    this.bumpDrawingRevision();
+
+    this.strokeLength = Math.hypot(end.x - start.x, end.y - start.y);
+    this.sound?.onStrokeUpdate({
+      tool: this.strokeTool,
+      speed: 0,
+      length: this.strokeLength,
+      timeSinceStart: now - this.strokeStartTime,
+    });
+  }
+
+  /**
+   * 表示中のレイヤーを揺れなしで重ね、押した位置と同じ色でつながった範囲を塗りつぶす
+   * 範囲は塗りつぶしのストロークとして選択中のレイヤーに追加し、履歴に積む。
+   * レンダラーが重ねたピクセルを返せない場合は何もしない
+   */
+  private fillAt(x: number, y: number): void {
+    if (
+      !("renderComposite" in this.renderer) ||
+      typeof this.renderer.renderComposite !== "function"
+    ) {
+      return;
+    }
+    const composite = this.renderer.renderComposite(this.getDrawing());
+    const region = floodFillRegion(composite, x, y);
+    if (!region) return;
+    const color = this.pendingColor;
+    const stroke: Stroke = {
+      id: this.createStrokeId(),
+      kind: "fill",
+      brush: this.fillWithPattern
+        ? {
+            kind: "pattern",
+            color,
+            width: 1,
+            opacity: 1,
+            patternId: this.pendingPattern,
+            variant: this.penVariant,
+          }
+        : {
+            kind: "solid",
+            color,
+            width: 1,
+            opacity: 1,
+            variant: this.penVariant,
+          },
+      points: [{ x, y, t: this.time.now() - this.startedAt }],
+      region,
+    };
+    this.commitStrokeChange(this.activeLayerId, (layer) => ({
+      ...layer,
+      strokes: [...layer.strokes, stroke],
+    }));
+  }
+
+  /**
+   * レイヤー内のストロークの変更を履歴に積む
+   * 合成済みのキャッシュは捨てず、差分の判定（追加・削除・移動の検出）に任せる
+   */
+  private commitStrokeChange(
+    layerId: string,
+    update: (layer: Layer) => Layer,
+  ): void {
+    this.abortStroke();
+    this.history = pushHistory(
+      this.history,
+      this.withActiveDrawing(
+        this.history.present,
+        updateLayer(this.getDrawing(), layerId, update),
+      ),
+    );
+    this.bumpDrawingRevision();
+    this.lastRenderAt = 0;
+    this.onHistoryChange?.();
+  }
+
+  /** 編集中のコマを取得する */
+  private getActiveFrame(): Frame {
+    const frames = this.history.present;
+    return frames[findFrameIndex(frames, this.activeFrameId)] ?? frames[0];
+  }
+
+  /** 編集中のコマの描画を差し替えたコマ列を返す */
+  private withActiveDrawing(frames: Frame[], drawing: Drawing): Frame[] {
+    return updateFrame(frames, this.activeFrameId, (frame) => ({
+      ...frame,
+      drawing,
+    }));
+  }
+
+  /**
+   * 選択中のレイヤーの上にレイヤーを追加して選択する
+   * @returns 追加したレイヤーID
+   */
+  private insertLayer(
+    create: (drawing: Drawing, layerId: string) => Layer,
+  ): string {
+    const layerId = this.createLayerId();
+    this.commitLayerChange((drawing) => {
+      const activeIndex = drawing.layers.findIndex(
+        (l) => l.id === this.activeLayerId,
+      );
+      const index =
+        activeIndex === -1 ? drawing.layers.length : activeIndex + 1;
+      this.activeLayerId = layerId;
+      return addLayer(drawing, create(drawing, layerId), index);
+    });
+    return layerId;
+  }
+
+  /**
+   * 取り込んだ画像の大きさが描画と同じか確かめる
+   *
+   * @throws 大きさが違う場合
+   */
+  private assertRasterSize(raster: QuantizedRaster): void {
+    const { width, height } = this.getDrawing();
+    if (raster.width !== width || raster.height !== height) {
+      throw new Error(
+        `raster size must be ${width}x${height}, got ${raster.width}x${raster.height}`,
+      );
+    }
+  }
+
+  /** 描画中の変更を履歴に積まずに反映する */
+  private setPresentDrawing(drawing: Drawing): void {
+    this.history = {
+      ...this.history,
+      present: this.withActiveDrawing(this.history.present, drawing),
+    };
+  }
+
+  /**
+   * 画面に表示する描画を返す
+   * リプレイ中は描いた途中の描画、再生中は経過時間に応じたコマ、
+   * 編集中はオニオンスキンと下絵を重ねたコマを返す
+   */
+  private getDisplayDrawing(now: number): Drawing {
+    const frames = this.history.present;
+    if (this.replay) {
+      const { startedAt, timeline } = this.replay;
+      const elapsed =
+        (now - startedAt) % (timeline.durationMs + REPLAY_END_HOLD_MS);
+      const pointCount = countReplayPoints(timeline, elapsed);
+      if (this.replay.shown?.pointCount !== pointCount) {
+        // 点が増えたら別の描画としてキャッシュを引かせる
+        this.replay.shown = {
+          pointCount,
+          drawing: getReplayDrawing(timeline, pointCount),
+        };
+        this.bumpDrawingRevision();
+      }
+      return this.replay.shown.drawing;
+    }
+    if (this.playbackStartedAt !== null) {
+      const frame =
+        frames[getFrameIndexAtTime(frames, now - this.playbackStartedAt)];
+      // コマが切り替わったら別の描画としてキャッシュを引かせる
+      if (frame.id !== this.playbackFrameId) {
+        this.playbackFrameId = frame.id;
+        this.bumpDrawingRevision();
+      }
+      return frame.drawing;
+    }
+
+    if (!this.onionSkinEnabled || frames.length < 2) {
+      return this.withReference(this.getDrawing());
+    }
+    const cache = this.onionSkinCache;
+    if (cache?.frames === frames && cache.frameId === this.activeFrameId) {
+      return this.withReference(cache.drawing);
+    }
+    const drawing = createOnionSkinDrawing(
+      frames,
+      findFrameIndex(frames, this.activeFrameId),
+      ONION_SKIN_COLORS,
+    );
+    this.onionSkinCache = { frames, frameId: this.activeFrameId, drawing };
+    return this.withReference(drawing);
+  }
+
+  /** 下絵があれば一番下に重ねた描画を返す */
+  private withReference(drawing: Drawing): Drawing {
+    if (!this.referenceLayer) return drawing;
+    const cache = this.referenceCache;
+    if (cache?.base === drawing) return cache.drawing;
+    const withReference = {
+      ...drawing,
+      layers: [this.referenceLayer, ...drawing.layers],
+    };
+    this.referenceCache = { base: drawing, drawing: withReference };
+    return withReference;
+  }
+
+  /** ユニークなレイヤーIDを生成する */
+  private createLayerId(): string {
+    return `layer-${this.createStrokeId()}`;
+  }
+
+  /** ユニークなコマIDを生成する */
+  private createFrameId(): string {
+    return `frame-${this.createStrokeId()}`;
+  }
+
   /**
    * ユニークなストロークIDを生成する
    * crypto.randomUUIDが使えない場合はランダム文字列を使用する
@@ -0,0 +1,206 @@
+import { BODY_PRESETS } from "@/config/presets";
+import { DEFAULT_ANIMATION_SETTINGS } from "@/core/animation";
+import { createFrame, DEFAULT_FRAME_ID } from "@/core/frames";
+import { createDrawing } from "@/core/layers";
+import {
+  AUTOSAVE_KEY,
+  type AutosaveSnapshot,
+  DrawingAutosave,
+} from "@/engine/autosave";
+import { DEFAULT_TEST_DRAWING } from "@/testUtils/engineMocks";
+import { MemoryDrawingStorage } from "@/testUtils/storageMocks";
+
+const DELAY_MS = 500;
+
+/** テスト用のスナップショットを生成する */
+function createSnapshot(strokeCount = 0): AutosaveSnapshot {
+  return {
+    document: {
+      frames: [
+        createFrame(
+          DEFAULT_FRAME_ID,
+          createDrawing(
+            DEFAULT_TEST_DRAWING.width,
+            DEFAULT_TEST_DRAWING.height,
+            Array.from({ length: strokeCount }, (_, i) => ({
+              id: `s${i}`,
+              kind: "draw" as const,
+              brush: {
+                kind: "solid" as const,
+                color: { kind: "palette" as const, index: 1 },
+                width: 4,
+                opacity: 1,
+                variant: "penCircle" as const,
+              },
+              points: [{ x: i, y: i, t: i * 10 }],
+            })),
+          ),
+        ),
+      ],
+      palette: ["#000000", "#ff0000"],
+      backgroundColor: "#ffffff",
+      jitterConfig: { amplitude: 1, frequency: 0.01 },
+      animation: { ...DEFAULT_ANIMATION_SETTINGS },
+    },
+    editor: {
+      activeDocumentId: "doc1",
+      selectedPaletteName: "スタンダード",
+      customPalette: ["#111111", "#222222"],
+      customBackgroundColor: "#eeeeee",
+      bodyColor: BODY_PRESETS[1].body,
+    },
+  };
+}
+
+describe("DrawingAutosave", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("scheduleは連続した変更をまとめて1回だけ保存する", async () => {
+    const storage = new MemoryDrawingStorage();
+    const autosave = new DrawingAutosave({
+      storage,
+      getSnapshot: () => createSnapshot(1),
+      delayMs: DELAY_MS,
+    });
+
+    autosave.schedule();
+    autosave.schedule();
+    autosave.schedule();
+    expect(storage.saveCount).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(DELAY_MS);
+    expect(storage.saveCount).toBe(1);
+    expect(storage.entries.has(AUTOSAVE_KEY)).toBe(true);
+  });
+
+  test("flushは保留中の保存を待たずに保存する", async () => {
+    const storage = new MemoryDrawingStorage();
+    const autosave = new DrawingAutosave({
+      storage,
+      getSnapshot: () => createSnapshot(1),
+      delayMs: DELAY_MS,
+    });
+
+    autosave.schedule();
+    await autosave.flush();
+    expect(storage.saveCount).toBe(1);
+
+    // 保留中だった保存は取り消されている
+    await vi.advanceTimersByTimeAsync(DELAY_MS);
+    expect(storage.saveCount).toBe(1);
+  });
+
+  test("保存した描画とエディタ状態を復元できる", async () => {
+    const storage = new MemoryDrawingStorage();
+    const snapshot = createSnapshot(3);
+    const autosave = new DrawingAutosave({
+      storage,
+      getSnapshot: () => snapshot,
+    });
+
+    await autosave.flush();
+    const restored = await autosave.restore();
+
+    expect(restored?.document).toEqual(snapshot.document);
+    expect(restored?.editor).toEqual(snapshot.editor);
+    expect(typeof restored?.savedAt).toBe("number");
+  });
+
+  test("activeDocumentIdのない古いデータはnullとして復元する", async () => {
+    const storage = new MemoryDrawingStorage();
+    const autosave = new DrawingAutosave({
+      storage,
+      getSnapshot: () => createSnapshot(1),
+    });
+    await autosave.flush();
+    const record = storage.entries.get(AUTOSAVE_KEY) as {
+      editor: Record<string, unknown>;
+    };
+    delete record.editor.activeDocumentId;
+
+    const restored = await autosave.restore();
+
+    expect(restored?.editor.activeDocumentId).toBeNull();
+  });
+
+  test("保存データがなければnullを返す", async () => {
+    const autosave = new DrawingAutosave({
+      storage: new MemoryDrawingStorage(),
+      getSnapshot: () => createSnapshot(),
+    });
+    expect(await autosave.restore()).toBeNull();
+  });
+
+  test("壊れた保存データはエラーを通知してnullを返す", async () => {
+    const storage = new MemoryDrawingStorage();
+    await storage.save(AUTOSAVE_KEY, { version: 1, savedAt: 0, document: {} });
+    const onError = vi.fn();
+    const autosave = new DrawingAutosave({
+      storage,
+      getSnapshot: () => createSnapshot(),
+      onError,
+    });
+
+    expect(await autosave.restore()).toBeNull();
+    expect(onError).toHaveBeenCalled();
+  });
+
+  test("本体カラーのキーが欠けた保存データはエラーを通知してnullを返す", async () => {
+    const { bezel: _bezel, ...partialBody } = BODY_PRESETS[1].body;
+    for (const bodyColor of [{}, partialBody, { ...partialBody, bezel: 1 }]) {
+      const storage = new MemoryDrawingStorage();
+      const onError = vi.fn();
+      const autosave = new DrawingAutosave({
+        storage,
+        getSnapshot: () => createSnapshot(1),
+        onError,
+      });
+      await autosave.flush();
+      const record = storage.entries.get(AUTOSAVE_KEY) as {
+        editor: Record<string, unknown>;
+      };
+      record.editor.bodyColor = bodyColor;
+
+      expect(await autosave.restore()).toBeNull();
+      expect(onError).toHaveBeenCalled();
+    }
+  });
+
+  test("discardで保存データと保留中の保存を破棄する", async () => {
+    const storage = new MemoryDrawingStorage();
+    const autosave = new DrawingAutosave({
+      storage,
+      getSnapshot: () => createSnapshot(1),
+      delayMs: DELAY_MS,
+    });
+    await autosave.flush();
+
+    autosave.schedule();
+    await autosave.discard();
+    await vi.advanceTimersByTimeAsync(DELAY_MS);
+
+    expect(storage.entries.has(AUTOSAVE_KEY)).toBe(false);
+    expect(await autosave.restore()).toBeNull();
+  });
+
+  test("ストレージの書き込み失敗はonErrorに通知される", async () => {
+    const storage = new MemoryDrawingStorage();
+    const failure = new Error("quota exceeded");
+    vi.spyOn(storage, "save").mockRejectedValue(failure);
+    const onError = vi.fn();
+    const autosave = new DrawingAutosave({
+      storage,
+      getSnapshot: () => createSnapshot(1),
+      onError,
+    });
+
+    await autosave.flush();
+    expect(onError).toHaveBeenCalledWith(failure);
+  });
+});
@@ -0,0 +1,223 @@
+import type { BodyColor } from "@/config/presets";
+import {
+  type DrawingDocument,
+  deserializeDrawingDocument,
+  type SerializedDrawingDocument,
+  serializeDrawingDocument,
+} from "@/core/serialization";
+import type { DrawingStorage } from "@/engine/ports";
+import { type DebouncedFunction, debounce } from "@/lib/debounce";
+
+/** 自動保存レコードのストレージキー */
+export const AUTOSAVE_KEY = "autosave";
+/** 描画が落ち着いてから保存するまでの待ち時間(ms) */
+const DEFAULT_AUTOSAVE_DELAY_MS = 1000;
+/** 自動保存レコードの形式バージョン */
+const AUTOSAVE_RECORD_VERSION = 1;
+
+/** 描画以外に復元するエディタの状態 */
+export type EditorStateSnapshot = {
+  /** 編集中のメモのID（ライブラリ未保存ならnull） */
+  activeDocumentId: string | null;
+  selectedPaletteName: string | null;
+  customPalette: string[];
+  customBackgroundColor: string;
+  bodyColor: BodyColor;
+};
+
+/** 自動保存の対象となる状態一式 */
+export type AutosaveSnapshot = {
+  document: DrawingDocument;
+  editor: EditorStateSnapshot;
+};
+
+/** 復元した自動保存データ */
+export type RestoredAutosave = AutosaveSnapshot & {
+  /** 保存時刻（UNIXミリ秒） */
+  savedAt: number;
+};
+
+/** ストレージに書き込むレコード */
+type AutosaveRecord = {
+  version: number;
+  savedAt: number;
+  document: SerializedDrawingDocument;
+  editor: EditorStateSnapshot;
+};
+
+/** DrawingAutosaveの初期化オプション */
+export type DrawingAutosaveOptions = {
+  storage: DrawingStorage;
+  /** 保存時点の状態を返す */
+  getSnapshot: () => AutosaveSnapshot;
+  key?: string;
+  delayMs?: number;
+  /** 保存・復元に失敗した時の通知（省略時はconsole.error） */
+  onError?: (error: unknown) => void;
+};
+
+/**
+ * 描画とエディタ状態をストレージへ自動保存する
+ * 変更通知はdebounceしてまとめ、タブが隠れる時などはflushで即時保存する
+ */
+export class DrawingAutosave {
+  private storage: DrawingStorage;
+  private getSnapshot: () => AutosaveSnapshot;
+  private key: string;
+  private onError: (error: unknown) => void;
+  private debouncedSave: DebouncedFunction<[]>;
+
+  constructor(options: DrawingAutosaveOptions) {
+    this.storage = options.storage;
+    this.getSnapshot = options.getSnapshot;
+    this.key = options.key ?? AUTOSAVE_KEY;
+    this.onError =
+      options.onError ??
+      ((error) => console.error("[DrawingAutosave] failed:", error));
+    this.debouncedSave = debounce(() => {
+      void this.save();
+    }, options.delayMs ?? DEFAULT_AUTOSAVE_DELAY_MS);
+  }
+
+  /** 変更を通知し、一定時間後に保存する */
+  schedule(): void {
+    this.debouncedSave();
+  }
+
+  /** 保留中の保存を待たずに今すぐ保存する */
+  async flush(): Promise<void> {
+    this.debouncedSave.cancel();
+    await this.save();
+  }
+
+  /** 保留中の保存を取り消す */
+  cancel(): void {
+    this.debouncedSave.cancel();
+  }
+
+  /**
+   * 保存済みのデータを読み込む
+   * データがない、または壊れている場合はnullを返す
+   */
+  async restore(): Promise<RestoredAutosave | null> {
+    let value: unknown;
+    try {
+      value = await this.storage.load(this.key);
+    } catch (error) {
+      this.onError(error);
+      return null;
+    }
+    if (value === null || value === undefined) return null;
+
+    try {
+      return parseAutosaveRecord(value);
+    } catch (error) {
+      this.onError(error);
+      return null;
+    }
+  }
+
+  /** 保存済みのデータを破棄する */
+  async discard(): Promise<void> {
+    this.debouncedSave.cancel();
+    try {
+      await this.storage.remove(this.key);
+    } catch (error) {
+      this.onError(error);
+    }
+  }
+
+  private async save(): Promise<void> {
+    const snapshot = this.getSnapshot();
+    const record: AutosaveRecord = {
+      version: AUTOSAVE_RECORD_VERSION,
+      savedAt: Date.now(),
+      document: serializeDrawingDocument(snapshot.document),
+      editor: snapshot.editor,
+    };
+    try {
+      await this.storage.save(this.key, record);
+    } catch (error) {
+      this.onError(error);
+    }
+  }
+}
+
+/**
+ * ストレージの値を検証して自動保存データに変換する
+ * @throws Error 形式が合わない場合
+ */
+function parseAutosaveRecord(value: unknown): RestoredAutosave {
+  if (typeof value !== "object" || value === null) {
+    throw new Error("Autosave record must be an object");
+  }
+  const record = value as Partial<AutosaveRecord>;
+  if (record.version !== AUTOSAVE_RECORD_VERSION) {
+    throw new Error(`Unsupported autosave version: ${String(record.version)}`);
+  }
+  if (typeof record.savedAt !== "number") {
+    throw new Error("Autosave record has no savedAt");
+  }
+  return {
+    savedAt: record.savedAt,
+    document: deserializeDrawingDocument(record.document),
+    editor: parseEditorState(record.editor),
+  };
+}
+
+/** 本体カラーに必要なキー（揃っていない保存データは弾く） */
+const BODY_COLOR_KEYS: Record<keyof BodyColor, true> = {
+  bg: true,
+  border: true,
+  bezel: true,
+  bezelBorder: true,
+  button: true,
+  buttonBorder: true,
+  buttonText: true,
+  hingeFrom: true,
+  hingeVia: true,
+  hingeTo: true,
+  hingeBorder: true,
+};
+
+function parseEditorState(value: unknown): EditorStateSnapshot {
+  if (typeof value !== "object" || value === null) {
+    throw new Error("Autosave editor state must be an object");
+  }
+  const editor = value as Record<string, unknown>;
+  const { selectedPaletteName, customPalette, customBackgroundColor } = editor;
+  // ギャラリー導入前のデータにはactiveDocumentIdがない
+  const activeDocumentId = editor.activeDocumentId ?? null;
+  if (activeDocumentId !== null && typeof activeDocumentId !== "string") {
+    throw new Error("Invalid activeDocumentId");
+  }
+  if (selectedPaletteName !== null && typeof selectedPaletteName !== "string") {
+    throw new Error("Invalid selectedPaletteName");
+  }
+  if (
+    !Array.isArray(customPalette) ||
+    !customPalette.every((color) => typeof color === "string")
+  ) {
+    throw new Error("Invalid customPalette");
+  }
+  if (typeof customBackgroundColor !== "string") {
+    throw new Error("Invalid customBackgroundColor");
+  }
+  const bodyColor = editor.bodyColor;
+  if (
+    typeof bodyColor !== "object" ||
+    bodyColor === null ||
+    !Object.keys(BODY_COLOR_KEYS).every(
+      (key) => typeof (bodyColor as Record<string, unknown>)[key] === "string",
+    )
+  ) {
+    throw new Error("Invalid bodyColor");
+  }
+  return {
+    activeDocumentId,
+    selectedPaletteName,
+    customPalette,
+    customBackgroundColor,
+    bodyColor: bodyColor as BodyColor,
+  };
+}
@@ -0,0 +1,164 @@
+import { DEFAULT_ANIMATION_SETTINGS } from "@/core/animation";
+import { createFrame, DEFAULT_FRAME_ID } from "@/core/frames";
+import { createDrawing } from "@/core/layers";
+import type { DrawingDocument } from "@/core/serialization";
+import { DrawingLibrary, LIBRARY_INDEX_KEY } from "@/engine/drawingLibrary";
+import { DEFAULT_TEST_DRAWING } from "@/testUtils/engineMocks";
+import { MemoryDrawingStorage } from "@/testUtils/storageMocks";
+
+/** テスト用のメモを生成する */
+function createDocument(strokeCount = 0): DrawingDocument {
+  return {
+    frames: [
+      createFrame(
+        DEFAULT_FRAME_ID,
+        createDrawing(
+          DEFAULT_TEST_DRAWING.width,
+          DEFAULT_TEST_DRAWING.height,
+          Array.from({ length: strokeCount }, (_, i) => ({
+            id: `s${i}`,
+            kind: "draw" as const,
+            brush: {
+              kind: "solid" as const,
+              color: { kind: "palette" as const, index: 0 },
+              width: 4,
+              opacity: 1,
+              variant: "penCircle" as const,
+            },
+            points: [{ x: i, y: i, t: i * 10 }],
+          })),
+        ),
+      ),
+    ],
+    palette: ["#000000", "#ff0000"],
+    backgroundColor: "#ffffff",
+    jitterConfig: { amplitude: 1, frequency: 0.01 },
+    animation: { ...DEFAULT_ANIMATION_SETTINGS },
+  };
+}
+
+/** 連番IDと進む時計を使うライブラリを生成する */
+function createLibrary(storage = new MemoryDrawingStorage()) {
+  let nextId = 1;
+  let time = 1000;
+  const library = new DrawingLibrary({
+    storage,
+    createId: () => `doc${nextId++}`,
+    now: () => {
+      time += 1;
+      return time;
+    },
+  });
+  return { library, storage };
+}
+
+describe("DrawingLibrary", () => {
+  test("作成したメモを一覧に新しい順で返し、本体を読み込める", async () => {
+    const { library } = createLibrary();
+    const first = await library.create(createDocument(1));
+    const second = await library.create(createDocument(2), "ねこ");
+
+    const list = await library.list();
+    expect(list.map((doc) => doc.id)).toEqual([second.id, first.id]);
+    expect(first.name).toBe("メモ1");
+    expect(second.name).toBe("ねこ");
+
+    const entry = await library.load(second.id);
+    expect(entry?.document).toEqual(createDocument(2));
+  });
+
+  test("saveで本体と更新時刻を更新する", async () => {
+    const { library } = createLibrary();
+    const created = await library.create(createDocument(0));
+
+    const saved = await library.save(created.id, createDocument(3));
+
+    expect(saved.updatedAt).toBeGreaterThan(created.updatedAt);
+    expect(saved.createdAt).toBe(created.createdAt);
+    const entry = await library.load(created.id);
+    expect(entry?.document.frames[0].drawing.layers[0].strokes).toHaveLength(3);
+  });
+
+  test("commitはIDがあれば上書きし、無ければ白紙以外を新しいメモにする", async () => {
+    const { library } = createLibrary();
+
+    expect(await library.commit(null, createDocument(0))).toBeNull();
+    expect(await library.list()).toEqual([]);
+
+    const created = await library.commit(null, createDocument(1));
+    expect(created?.id).toBe("doc1");
+    const saved = await library.commit("doc1", createDocument(0));
+    expect(saved?.id).toBe("doc1");
+    const entry = await library.load("doc1");
+    expect(entry?.document).toEqual(createDocument(0));
+  });
+
+  test("共有リンクを開く前に、メモ帳のメモへの未保存の編集をcommitで残す", async () => {
+    const { library } = createLibrary();
+    const active = await library.create(createDocument(1));
+    // 自動保存にだけ残っている編集（ストロークを足した状態）
+    const edited = createDocument(3);
+
+    await library.commit(active.id, edited);
+    const shared = await library.create(createDocument(2));
+
+    expect((await library.list()).map((doc) => doc.id)).toEqual([
+      shared.id,
+      active.id,
+    ]);
+    const entry = await library.load(active.id);
+    expect(entry?.document).toEqual(edited);
+  });
+
+  test("duplicateは本体をコピーした別のメモを作る", async () => {
+    const { library } = createLibrary();
+    const source = await library.create(createDocument(2), "いぬ");
+
+    const copy = await library.duplicate(source.id);
+
+    expect(copy.id).not.toBe(source.id);
+    expect(copy.name).toBe("いぬのコピー");
+    const entry = await library.load(copy.id);
+    expect(entry?.document).toEqual(createDocument(2));
+  });
+
+  test("renameは空白を除き、空なら既定名にする", async () => {
+    const { library } = createLibrary();
+    const created = await library.create(createDocument());
+
+    expect((await library.rename(created.id, "  とり  ")).name).toBe("とり");
+    expect((await library.rename(created.id, "   ")).name).toBe("メモ");
+    expect((await library.list())[0].name).toBe("メモ");
+  });
+
+  test("removeで一覧と本体を削除する", async () => {
+    const { library, storage } = createLibrary();
+    const created = await library.create(createDocument(1));
+
+    await library.remove(created.id);
+
+    expect(await library.list()).toEqual([]);
+    expect(await library.load(created.id)).toBeNull();
+    expect(storage.entries.size).toBe(1);
+    expect(storage.entries.has(LIBRARY_INDEX_KEY)).toBe(true);
+  });
+
+  test("存在しないメモの保存はエラーになる", async () => {
+    const { library } = createLibrary();
+    await expect(library.save("missing", createDocument())).rejects.toThrow(
+      "Drawing not found",
+    );
+  });
+
+  test("並行した操作でもインデックスの更新を取りこぼさない", async () => {
+    const { library } = createLibrary();
+
+    await Promise.all([
+      library.create(createDocument()),
+      library.create(createDocument()),
+      library.create(createDocument()),
+    ]);
+
+    expect(await library.list()).toHaveLength(3);
+  });
+});
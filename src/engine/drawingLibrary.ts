@@ -0,0 +1,298 @@
+import { countFrameStrokes } from "@/core/frames";
+import {
+  type DrawingDocument,
+  deserializeDrawingDocument,
+  type SerializedDrawingDocument,
+  serializeDrawingDocument,
+} from "@/core/serialization";
+import type { DrawingStorage } from "@/engine/ports";
+
+/** メモ一覧（インデックス）のストレージキー */
+export const LIBRARY_INDEX_KEY = "library";
+/** 各メモ本体のストレージキーの接頭辞 */
+const DOCUMENT_KEY_PREFIX = "document:";
+/** ライブラリレコードの形式バージョン */
+const LIBRARY_RECORD_VERSION = 1;
+/** 名前を省略した時の既定名 */
+const DEFAULT_DOCUMENT_NAME = "メモ";
+/** 名前の最大文字数 */
+const MAX_DOCUMENT_NAME_LENGTH = 32;
+
+/** 保存済みメモの概要（一覧表示用） */
+export type DrawingSummary = {
+  id: string;
+  name: string;
+  /** 作成時刻（UNIXミリ秒） */
+  createdAt: number;
+  /** 最終更新時刻（UNIXミリ秒） */
+  updatedAt: number;
+};
+
+/** 保存済みメモの概要と本体 */
+export type DrawingEntry = DrawingSummary & {
+  document: DrawingDocument;
+};
+
+/** インデックスのレコード */
+type LibraryIndexRecord = {
+  version: number;
+  documents: DrawingSummary[];
+};
+
+/** メモ本体のレコード */
+type DocumentRecord = {
+  version: number;
+  document: SerializedDrawingDocument;
+};
+
+/** DrawingLibraryの初期化オプション */
+export type DrawingLibraryOptions = {
+  storage: DrawingStorage;
+  /** ID生成（省略時はcrypto.randomUUID） */
+  createId?: () => string;
+  /** 現在時刻（省略時はDate.now） */
+  now?: () => number;
+};
+
+/**
+ * 複数のメモをストレージに保存・管理する
+ * 一覧はインデックスレコードにまとめ、本体はメモごとに別キーで保存する
+ */
+export class DrawingLibrary {
+  private storage: DrawingStorage;
+  private createId: () => string;
+  private now: () => number;
+  /** インデックスの読み書きが競合しないよう操作を直列化する */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: DrawingLibraryOptions) {
+    this.storage = options.storage;
+    this.createId = options.createId ?? (() => crypto.randomUUID());
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  /** 保存済みメモの一覧を新しい順に返す */
+  list(): Promise<DrawingSummary[]> {
+    return this.enqueue(async () => {
+      const documents = await this.readIndex();
+      return [...documents].sort((a, b) => b.updatedAt - a.updatedAt);
+    });
+  }
+
+  /**
+   * メモを読み込む
+   * @returns 存在しない場合はnull
+   * @throws Error 保存データが壊れている場合
+   */
+  load(id: string): Promise<DrawingEntry | null> {
+    return this.enqueue(async () => {
+      const summary = (await this.readIndex()).find((doc) => doc.id === id);
+      if (!summary) return null;
+      const record = await this.storage.load(documentKey(id));
+      if (record === null) return null;
+      return { ...summary, document: parseDocumentRecord(record) };
+    });
+  }
+
+  /** 新しいメモとして保存する */
+  create(document: DrawingDocument, name?: string): Promise<DrawingSummary> {
+    return this.enqueue(async () => {
+      const documents = await this.readIndex();
+      const timestamp = this.now();
+      const summary: DrawingSummary = {
+        id: this.createId(),
+        name: normalizeName(
+          name ?? `${DEFAULT_DOCUMENT_NAME}${documents.length + 1}`,
+        ),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      await this.writeDocument(summary.id, document);
+      await this.writeIndex([...documents, summary]);
+      return summary;
+    });
+  }
+
+  /**
+   * 既存のメモを上書き保存する
+   * @throws Error 指定のメモが存在しない場合
+   */
+  save(id: string, document: DrawingDocument): Promise<DrawingSummary> {
+    return this.enqueue(async () => {
+      const documents = await this.readIndex();
+      const summary = { ...findSummary(documents, id), updatedAt: this.now() };
+      await this.writeDocument(id, document);
+      await this.writeIndex(replaceSummary(documents, summary));
+      return summary;
+    });
+  }
+
+  /**
+   * 編集中のメモを保存する
+   * IDがあれば上書きし、無ければ白紙でない場合だけ新しいメモとして作る
+   * @returns 保存したメモの概要（白紙で保存しなかった場合はnull）
+   * @throws Error 指定のメモが存在しない場合
+   */
+  async commit(
+    id: string | null,
+    document: DrawingDocument,
+  ): Promise<DrawingSummary | null> {
+    if (id !== null) return this.save(id, document);
+    if (countFrameStrokes(document.frames) === 0) return null;
+    return this.create(document);
+  }
+
+  /**
+   * メモを複製する
+   * @throws Error 指定のメモが存在しない場合
+   */
+  duplicate(id: string): Promise<DrawingSummary> {
+    return this.enqueue(async () => {
+      const documents = await this.readIndex();
+      const source = findSummary(documents, id);
+      const record = await this.storage.load(documentKey(id));
+      if (record === null) {
+        throw new Error(`Drawing not found: ${id}`);
+      }
+      const timestamp = this.now();
+      const summary: DrawingSummary = {
+        id: this.createId(),
+        name: normalizeName(`${source.name}のコピー`),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      await this.writeDocument(summary.id, parseDocumentRecord(record));
+      await this.writeIndex([...documents, summary]);
+      return summary;
+    });
+  }
+
+  /**
+   * メモの名前を変更する
+   * @throws Error 指定のメモが存在しない場合
+   */
+  rename(id: string, name: string): Promise<DrawingSummary> {
+    return this.enqueue(async () => {
+      const documents = await this.readIndex();
+      const summary = {
+        ...findSummary(documents, id),
+        name: normalizeName(name),
+      };
+      await this.writeIndex(replaceSummary(documents, summary));
+      return summary;
+    });
+  }
+
+  /** メモを削除する（存在しない場合は何もしない） */
+  remove(id: string): Promise<void> {
+    return this.enqueue(async () => {
+      const documents = await this.readIndex();
+      await this.writeIndex(documents.filter((doc) => doc.id !== id));
+      await this.storage.remove(documentKey(id));
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    // 失敗しても後続の操作は続けられるようにする
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async readIndex(): Promise<DrawingSummary[]> {
+    const value = await this.storage.load(LIBRARY_INDEX_KEY);
+    if (value === null) return [];
+    return parseIndexRecord(value);
+  }
+
+  private async writeIndex(documents: DrawingSummary[]): Promise<void> {
+    const record: LibraryIndexRecord = {
+      version: LIBRARY_RECORD_VERSION,
+      documents,
+    };
+    await this.storage.save(LIBRARY_INDEX_KEY, record);
+  }
+
+  private async writeDocument(
+    id: string,
+    document: DrawingDocument,
+  ): Promise<void> {
+    const record: DocumentRecord = {
+      version: LIBRARY_RECORD_VERSION,
+      document: serializeDrawingDocument(document),
+    };
+    await this.storage.save(documentKey(id), record);
+  }
+}
+
+function documentKey(id: string): string {
+  return `${DOCUMENT_KEY_PREFIX}${id}`;
+}
+
+/** 前後の空白を除き、空なら既定名にする */
+function normalizeName(name: string): string {
+  const trimmed = name.trim().slice(0, MAX_DOCUMENT_NAME_LENGTH);
+  return trimmed === "" ? DEFAULT_DOCUMENT_NAME : trimmed;
+}
+
+function findSummary(documents: DrawingSummary[], id: string): DrawingSummary {
+  const summary = documents.find((doc) => doc.id === id);
+  if (!summary) {
+    throw new Error(`Drawing not found: ${id}`);
+  }
+  return summary;
+}
+
+function replaceSummary(
+  documents: DrawingSummary[],
+  summary: DrawingSummary,
+): DrawingSummary[] {
+  return documents.map((doc) => (doc.id === summary.id ? summary : doc));
+}
+
+/**
+ * インデックスを検証する
+ * @throws Error 形式が合わない場合
+ */
+function parseIndexRecord(value: unknown): DrawingSummary[] {
+  if (typeof value !== "object" || value === null) {
+    throw new Error("Library index must be an object");
+  }
+  const record = value as Partial<LibraryIndexRecord>;
+  if (record.version !== LIBRARY_RECORD_VERSION) {
+    throw new Error(`Unsupported library version: ${String(record.version)}`);
+  }
+  if (!Array.isArray(record.documents)) {
+    throw new Error("Library index has no documents");
+  }
+  return record.documents.map((doc: unknown) => {
+    if (typeof doc !== "object" || doc === null) {
+      throw new Error("Library entry must be an object");
+    }
+    const { id, name, createdAt, updatedAt } = doc as Record<string, unknown>;
+    if (
+      typeof id !== "string" ||
+      typeof name !== "string" ||
+      typeof createdAt !== "number" ||
+      typeof updatedAt !== "number"
+    ) {
+      throw new Error("Invalid library entry");
+    }
+    return { id, name, createdAt, updatedAt };
+  });
+}
+
+/**
+ * メモ本体のレコードを検証して変換する
+ * @throws Error 形式が合わない場合
+ */
+function parseDocumentRecord(value: unknown): DrawingDocument {
+  if (typeof value !== "object" || value === null) {
+    throw new Error("Drawing record must be an object");
+  }
+  const record = value as Partial<DocumentRecord>;
+  if (record.version !== LIBRARY_RECORD_VERSION) {
+    throw new Error(`Unsupported drawing version: ${String(record.version)}`);
+  }
+  return deserializeDrawingDocument(record.document);
+}
@@ -1,5 +1,8 @@
+import type { AnimationSettings } from "@/core/animation";
+import type { FillRun } from "@/core/fill";
 import type { JitterConfig } from "@/core/jitter";
-import type { Drawing, Stroke } from "@/core/types";
+import type { RasterColor, RasterImage } from "@/core/rasterImport";
+import type { BrushColor, Drawing, Stroke } from "@/core/types";
 
 /**
  * 描画レンダラーのインターフェース
@@ -10,6 +13,8 @@ export interface DrawingRenderer {
     stroke: Stroke;
     jitteredPoints: { x: number; y: number }[];
     elapsedTimeMs: number;
+    /** 端を揺らした塗りつぶしの範囲（kindがfillの場合のみ。省略時は揺らさない） */
+    fillRuns?: FillRun[];
   }): void;
   /** 描画キャッシュを無効化する */
   invalidateRenderCache(): void;
@@ -22,6 +27,57 @@ export interface PaletteRenderer {
   setPaletteColors(palette: string[]): void;
 }
 
+/**
+ * ぶるぶるのコマ数・間隔の変更を受け取れるレンダラー
+ */
+export interface AnimationRenderer {
+  setAnimationSettings(settings: AnimationSettings): void;
+}
+
+/** 0〜255のRGB */
+export type RgbColor = { r: number; g: number; b: number };
+
+/**
+ * 出力に使う色（パレットと背景色）を返せるレンダラー
+ */
+export interface ColorTableRenderer {
+  getColorTable(): RgbColor[];
+}
+
+/**
+ * レイヤー単位で描画を合成できるレンダラー
+ * beginLayerからendLayerまでのストロークを別バッファに描き、endLayerで重ねる
+ */
+export interface LayerRenderer {
+  beginLayer(): void;
+  endLayer(): void;
+}
+
+/**
+ * ストロークが塗るピクセルを返せるレンダラー
+ * 選択の当たり判定を描画と同じ太さ・形で行うために使う
+ */
+export interface StrokeFootprintRenderer {
+  getStrokeFootprint(stroke: Stroke): { x: number; y: number }[];
+}
+
+/**
+ * 画面の色をブラシ色に戻せるレンダラー
+ * スポイトで、renderCompositeで重ねたピクセルの色をブラシ色に戻すために使う
+ */
+export interface ColorPickRenderer {
+  /** パレットに同じ色があればその色番号、無ければ固定色にする */
+  toBrushColor(rgb: RasterColor): BrushColor;
+}
+
+/**
+ * 表示中のレイヤーを揺れなしで重ねたピクセルを返せるレンダラー
+ * 塗りつぶしの範囲を、見えている色の境目で求めるために使う
+ */
+export interface CompositeRenderer {
+  renderComposite(drawing: Drawing): RasterImage;
+}
+
 /**
  * cycle Bitmap取得の引数
  */
@@ -49,13 +105,64 @@ export interface RafScheduler {
 }
 
 /**
- * GIFエンコーダーのインターフェース
+ * アニメーション画像（GIF/APNG/WebP）エンコーダーのインターフェース
  */
-export interface GifEncoder {
+export interface AnimationEncoder {
   begin(width: number, height: number, fps: number): void;
-  addFrame(imageData: ImageData): void;
+  /** delayMsを省略した場合はbeginのfpsから求めた間隔で表示する */
+  addFrame(imageData: ImageData, delayMs?: number): void;
   finish(): Promise<Blob>;
-  setBackgroundColor(backgroundColor: string): void;
+}
+
+/**
+ * 使う色が分かっている場合に固定の色表で符号化できるエンコーダー
+ * beginより前に呼ぶ
+ */
+export interface ColorTableEncoder {
+  setColorTable(colors: RgbColor[]): void;
+}
+
+/**
+ * 画像に編集用のドキュメントを埋め込めるエンコーダー
+ * 書き出した画像を取り込んで線のまま編集し直せるようにする。finishより前に呼ぶ
+ */
+export interface DocumentMetadataEncoder {
+  setDocumentMetadata(text: string): void;
+}
+
+/** 圧縮済みの動画フレーム */
+export type VideoChunk = {
+  data: Uint8Array;
+  timestampMs: number;
+  keyFrame: boolean;
+};
+
+/**
+ * 動画のフレームを圧縮するエンコーダー（WebCodecsなどの実装を差し替えられるようにする）
+ * コンテナへの格納は呼び出し側が行う
+ */
+export interface VideoChunkEncoder {
+  /** WebMに書くコーデックID（例: "V_VP8"） */
+  readonly codecId: string;
+  begin(width: number, height: number, fps: number): void;
+  /** 不透明なフレームを渡す。keyFrameがtrueなら単独で復号できるフレームにする */
+  encodeFrame(
+    imageData: ImageData,
+    timestampMs: number,
+    keyFrame: boolean,
+  ): void;
+  /** すべてのフレームの圧縮を待ち、時刻順のチャンクを返す */
+  finish(): Promise<VideoChunk[]>;
+}
+
+/**
+ * 描画データを永続化するストレージのインターフェース
+ * 値はJSON互換のプレーンなオブジェクトとして扱う
+ */
+export interface DrawingStorage {
+  load(key: string): Promise<unknown | null>;
+  save(key: string, value: unknown): Promise<void>;
+  remove(key: string): Promise<void>;
 }
 
 /**
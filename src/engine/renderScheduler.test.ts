@@ -1,5 +1,6 @@
+import { createDrawing, createLayer } from "@/core/layers";
 import type { Drawing, Stroke } from "@/core/types";
-import type { DrawingRenderer } from "@/engine/ports";
+import type { DrawingRenderer, GetCycleBitmapParams } from "@/engine/ports";
 import {
   invalidatePendingRequests,
   invalidateRendererCache,
@@ -75,27 +76,23 @@ function createCycleRenderer(): CycleRendererStub {
 
 describe("renderDrawingAtTime", () => {
   test("キャンバスをクリアし各ストロークをジッター付きで描画する", () => {
-    const drawing: Drawing = {
-      width: 200,
-      height: 100,
-      strokes: [
-        {
-          id: "s1",
-          kind: "draw",
-          brush: {
-            kind: "solid",
-            color: { kind: "palette", index: 0 },
-            width: 4,
-            opacity: 1,
-            variant: "penCircle",
-          },
-          points: [
-            { x: 0, y: 0, t: 0 },
-            { x: 10, y: 0, t: 10 },
-          ],
+    const drawing: Drawing = createDrawing(200, 100, [
+      {
+        id: "s1",
+        kind: "draw",
+        brush: {
+          kind: "solid",
+          color: { kind: "palette", index: 0 },
+          width: 4,
+          opacity: 1,
+          variant: "penCircle",
         },
-      ],
-    };
+        points: [
+          { x: 0, y: 0, t: 0 },
+          { x: 10, y: 0, t: 10 },
+        ],
+      },
+    ]);
 
     const renderer = new MockRenderer();
     renderDrawingAtTime({
@@ -104,37 +101,36 @@ describe("renderDrawingAtTime", () => {
       renderer,
       jitterConfig: { amplitude: 1, frequency: 0.01 },
       elapsedTimeMs: 100,
+      cycleIntervalMs: 100,
     });
 
     expect(renderer.clears).toEqual([{ width: 200, height: 100 }]);
     expect(renderer.strokes).toHaveLength(1);
     const rendered = renderer.strokes[0];
-    expect(rendered.jittered[0].x).not.toBe(drawing.strokes[0].points[0].x);
+    expect(rendered.jittered[0].x).not.toBe(
+      drawing.layers[0].strokes[0].points[0].x,
+    );
     expect(rendered.time).toBe(100);
   });
 
   test("ジッター適用後の座標は整数にスナップされる", () => {
-    const drawing: Drawing = {
-      width: 200,
-      height: 100,
-      strokes: [
-        {
-          id: "s1",
-          kind: "draw",
-          brush: {
-            kind: "solid",
-            color: { kind: "palette", index: 0 },
-            width: 4,
-            opacity: 1,
-            variant: "penCircle",
-          },
-          points: [
-            { x: 0, y: 0, t: 0 },
-            { x: 10, y: 10, t: 10 },
-          ],
+    const drawing: Drawing = createDrawing(200, 100, [
+      {
+        id: "s1",
+        kind: "draw",
+        brush: {
+          kind: "solid",
+          color: { kind: "palette", index: 0 },
+          width: 4,
+          opacity: 1,
+          variant: "penCircle",
         },
-      ],
-    };
+        points: [
+          { x: 0, y: 0, t: 0 },
+          { x: 10, y: 10, t: 10 },
+        ],
+      },
+    ]);
 
     const renderer = new MockRenderer();
     renderDrawingAtTime({
@@ -143,6 +139,7 @@ describe("renderDrawingAtTime", () => {
       renderer,
       jitterConfig: { amplitude: 1, frequency: 0.01 },
       elapsedTimeMs: 100,
+      cycleIntervalMs: 100,
     });
 
     const rendered = renderer.strokes[0];
@@ -154,28 +151,24 @@ describe("renderDrawingAtTime", () => {
   });
 
   test("パターンストロークでも座標は整数にスナップされる", () => {
-    const drawing: Drawing = {
-      width: 200,
-      height: 100,
-      strokes: [
-        {
-          id: "s1",
-          kind: "draw",
-          brush: {
-            kind: "pattern",
-            color: { kind: "palette", index: 0 },
-            width: 4,
-            opacity: 1,
-            patternId: "dot_sparse",
-            variant: "penCircle",
-          },
-          points: [
-            { x: 0, y: 0, t: 0 },
-            { x: 10, y: 10, t: 10 },
-          ],
+    const drawing: Drawing = createDrawing(200, 100, [
+      {
+        id: "s1",
+        kind: "draw",
+        brush: {
+          kind: "pattern",
+          color: { kind: "palette", index: 0 },
+          width: 4,
+          opacity: 1,
+          patternId: "dot_sparse",
+          variant: "penCircle",
         },
-      ],
-    };
+        points: [
+          { x: 0, y: 0, t: 0 },
+          { x: 10, y: 10, t: 10 },
+        ],
+      },
+    ]);
 
     const renderer = new MockRenderer();
     renderDrawingAtTime({
@@ -184,6 +177,7 @@ describe("renderDrawingAtTime", () => {
       renderer,
       jitterConfig: { amplitude: 1, frequency: 0.01 },
       elapsedTimeMs: 100,
+      cycleIntervalMs: 100,
     });
 
     const rendered = renderer.strokes[0];
@@ -194,8 +188,54 @@ describe("renderDrawingAtTime", () => {
     });
   });
 
+  test("複数レイヤーは表示中のものだけレイヤー単位で描画する", () => {
+    const stroke = (id: string): Stroke => ({
+      id,
+      kind: "erase",
+      brush: {
+        kind: "solid",
+        color: { kind: "palette", index: 0 },
+        width: 4,
+        opacity: 1,
+        variant: "eraserCircle",
+      },
+      points: [{ x: 0, y: 0, t: 0 }],
+    });
+    const drawing: Drawing = {
+      width: 10,
+      height: 10,
+      layers: [
+        createLayer("a", "A", [stroke("a1")]),
+        { ...createLayer("b", "B", [stroke("b1")]), visible: false },
+        createLayer("c", "C", [stroke("c1")]),
+      ],
+    };
+    const events: string[] = [];
+    const renderer = new MockRenderer();
+    const layerRenderer = Object.assign(renderer, {
+      beginLayer: () => events.push("begin"),
+      endLayer: () => events.push("end"),
+    });
+    const originalRenderStroke = renderer.renderStroke.bind(renderer);
+    layerRenderer.renderStroke = (params) => {
+      events.push(params.stroke.id);
+      originalRenderStroke(params);
+    };
+
+    renderDrawingAtTime({
+      drawing,
+      drawingRevision: 0,
+      renderer: layerRenderer,
+      jitterConfig: { amplitude: 0, frequency: 1 },
+      elapsedTimeMs: 0,
+      cycleIntervalMs: 100,
+    });
+
+    expect(events).toEqual(["begin", "a1", "end", "begin", "c1", "end"]);
+  });
+
   test("invalidatePendingRequestsで古い描画リクエストを破棄する", async () => {
-    const drawing: Drawing = { width: 10, height: 10, strokes: [] };
+    const drawing: Drawing = createDrawing(10, 10);
     const renderer = createCycleRenderer();
     renderer.flushFromBitmap = vi.fn();
     const bitmap = { width: 1, height: 1, close: vi.fn() } as ImageBitmap;
@@ -206,6 +246,7 @@ describe("renderDrawingAtTime", () => {
       renderer,
       jitterConfig: { amplitude: 0, frequency: 1 },
       elapsedTimeMs: 0,
+      cycleIntervalMs: 100,
     });
 
     invalidatePendingRequests(renderer);
@@ -217,7 +258,7 @@ describe("renderDrawingAtTime", () => {
   });
 
   test("invalidateRendererCacheでキャッシュと保留中リクエストを無効化する", async () => {
-    const drawing: Drawing = { width: 10, height: 10, strokes: [] };
+    const drawing: Drawing = createDrawing(10, 10);
     const renderer = createCycleRenderer();
     renderer.flushFromBitmap = vi.fn();
     renderer.invalidateRenderCache = vi.fn();
@@ -229,6 +270,7 @@ describe("renderDrawingAtTime", () => {
       renderer,
       jitterConfig: { amplitude: 0, frequency: 1 },
       elapsedTimeMs: 0,
+      cycleIntervalMs: 100,
     });
 
     invalidateRendererCache(renderer);
@@ -241,7 +283,7 @@ describe("renderDrawingAtTime", () => {
   });
 
   test("レンダラー単位でリクエストIDが分離される", async () => {
-    const drawing: Drawing = { width: 10, height: 10, strokes: [] };
+    const drawing: Drawing = createDrawing(10, 10);
     const rendererA = createCycleRenderer();
     const rendererB = createCycleRenderer();
     rendererA.flushFromBitmap = vi.fn();
@@ -255,6 +297,7 @@ describe("renderDrawingAtTime", () => {
       renderer: rendererA,
       jitterConfig: { amplitude: 0, frequency: 1 },
       elapsedTimeMs: 0,
+      cycleIntervalMs: 100,
     });
     renderDrawingAtTime({
       drawing,
@@ -262,6 +305,7 @@ describe("renderDrawingAtTime", () => {
       renderer: rendererB,
       jitterConfig: { amplitude: 0, frequency: 1 },
       elapsedTimeMs: 0,
+      cycleIntervalMs: 100,
     });
 
     invalidatePendingRequests(rendererA);
@@ -274,4 +318,34 @@ describe("renderDrawingAtTime", () => {
     expect(bitmapA.close).toHaveBeenCalled();
     expect(bitmapB.close).toHaveBeenCalled();
   });
+
+  test("cycleはcycleIntervalMsごとに切り替わり、cycle数で一巡する", () => {
+    const drawing: Drawing = createDrawing(10, 10);
+    const getCycleBitmap = vi.fn(
+      (_params: GetCycleBitmapParams) => new Promise<ImageBitmap>(() => {}),
+    );
+    const renderer = {
+      clear: () => {},
+      renderStroke: () => {},
+      invalidateRenderCache: () => {},
+      getCycleCount: () => 4,
+      getCycleBitmap,
+      flushFromBitmap: () => {},
+    };
+
+    for (const elapsedTimeMs of [0, 149, 150, 450, 600]) {
+      renderDrawingAtTime({
+        drawing,
+        drawingRevision: 1,
+        renderer,
+        jitterConfig: { amplitude: 0, frequency: 1 },
+        elapsedTimeMs,
+        cycleIntervalMs: 150,
+      });
+    }
+
+    expect(
+      getCycleBitmap.mock.calls.map(([params]) => params.cycleIndex),
+    ).toEqual([0, 0, 1, 3, 0]);
+  });
 });
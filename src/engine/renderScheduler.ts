@@ -1,8 +1,15 @@
 import type { JitterConfig } from "@/core/jitter";
-import { applyJitterToStroke } from "@/core/strokeJitter";
+import { getVisibleLayers } from "@/core/layers";
+import {
+  applyJitterToFillEdges,
+  applyJitterToStroke,
+} from "@/core/strokeJitter";
 import type { Drawing } from "@/core/types";
-import type { DrawingRenderer, GetCycleBitmapParams } from "@/engine/ports";
-import { CYCLE_INTERVAL_MS } from "@/engine/renderingConstants";
+import type {
+  DrawingRenderer,
+  GetCycleBitmapParams,
+  LayerRenderer,
+} from "@/engine/ports";
 
 interface CycleBitmapRenderer extends DrawingRenderer {
   /** 取得したImageBitmapのcloseは呼び出し側が行う */
@@ -27,6 +34,20 @@ function isCycleBitmapRenderer(
   );
 }
 
+/**
+ * レンダラーがレイヤー合成をサポートしているか判定する
+ */
+function isLayerRenderer(
+  renderer: DrawingRenderer,
+): renderer is DrawingRenderer & LayerRenderer {
+  return (
+    "beginLayer" in renderer &&
+    typeof renderer.beginLayer === "function" &&
+    "endLayer" in renderer &&
+    typeof renderer.endLayer === "function"
+  );
+}
+
 /**
  * 描画を時間に応じてレンダリングする際の引数
  */
@@ -41,12 +62,14 @@ export type RenderDrawingAtTimeParams = {
   jitterConfig: JitterConfig;
   /** 経過時間（ミリ秒） */
   elapsedTimeMs: number;
+  /** 揺れのコマを切り替える間隔（ミリ秒） */
+  cycleIntervalMs: number;
 };
 
 /**
  * パターンブラシと通常ブラシで異なるジッター計算を使用して描画をレンダリング
  *
- * 3cycle固定、ImageBitmapキャッシュを使用。
+ * cycle数はレンダラー、切り替え間隔はcycleIntervalMsに従い、ImageBitmapキャッシュを使用。
  * レンダラーがImageBitmapキャッシュをサポートしている場合は、
  * キャッシュから取得または生成したImageBitmapを使用して描画する。
  * サポートしていない場合、またはエラーが発生した場合は、
@@ -98,16 +121,20 @@ export function invalidateRendererCache(renderer: DrawingRenderer): void {
  * ImageBitmapキャッシュ対応の場合は非同期で取得し、最新リクエストのみ描画する。
  */
 export function renderDrawingAtTime(params: RenderDrawingAtTimeParams): void {
-  const { drawing, drawingRevision, renderer, jitterConfig, elapsedTimeMs } =
-    params;
+  const {
+    drawing,
+    drawingRevision,
+    renderer,
+    jitterConfig,
+    elapsedTimeMs,
+    cycleIntervalMs,
+  } = params;
   // ImageBitmapキャッシュを使用する場合は、getCycleBitmapを使用
   if (isCycleBitmapRenderer(renderer)) {
     const cycleCount = renderer.getCycleCount();
-    // cycleCount分を周期的に切り替える
-    // アニメーション速度: 10fps（100ms/フレーム）で固定
-    // cycleCount分で1サイクルになる
+    // cycleIntervalMsごとにcycleを切り替え、cycleCount分で1サイクルになる
     const currentCycleIndex = Math.floor(
-      (elapsedTimeMs / CYCLE_INTERVAL_MS) % cycleCount,
+      (elapsedTimeMs / cycleIntervalMs) % cycleCount,
     );
 
     // リクエストIDを更新（最新のリクエストを追跡）
@@ -160,13 +187,7 @@ export function renderDrawingAtTime(params: RenderDrawingAtTimeParams): void {
               } catch (retryErr) {
                 console.error("Failed to flush bitmap after retry:", retryErr);
                 // 最終的なフォールバック
-                renderDrawingAtTimeFallback({
-                  drawing,
-                  drawingRevision,
-                  renderer,
-                  jitterConfig,
-                  elapsedTimeMs,
-                });
+                renderDrawingAtTimeFallback(params);
               } finally {
                 newBitmap.close();
               }
@@ -180,13 +201,7 @@ export function renderDrawingAtTime(params: RenderDrawingAtTimeParams): void {
                 retryErr,
               );
               // 最終的なフォールバック
-              renderDrawingAtTimeFallback({
-                drawing,
-                drawingRevision,
-                renderer,
-                jitterConfig,
-                elapsedTimeMs,
-              });
+              renderDrawingAtTimeFallback(params);
             });
         } finally {
           bitmap.close();
@@ -199,25 +214,13 @@ export function renderDrawingAtTime(params: RenderDrawingAtTimeParams): void {
         }
         console.error("Failed to get cycle bitmap:", err);
         // フォールバック: 通常の描画
-        renderDrawingAtTimeFallback({
-          drawing,
-          drawingRevision,
-          renderer,
-          jitterConfig,
-          elapsedTimeMs,
-        });
+        renderDrawingAtTimeFallback(params);
       });
     return;
   }
 
   // フォールバック: 通常の描画（ImageBitmapキャッシュがない場合）
-  renderDrawingAtTimeFallback({
-    drawing,
-    drawingRevision,
-    renderer,
-    jitterConfig,
-    elapsedTimeMs,
-  });
+  renderDrawingAtTimeFallback(params);
 }
 
 /**
@@ -231,6 +234,8 @@ export function renderDrawingAtTime(params: RenderDrawingAtTimeParams): void {
  * `renderer.clear()`によりキャッシュは無効化されるが、
  * 新しいキャッシュは作成されない（通常の描画パスのため）。
  * 次回`getCycleBitmap`が呼ばれた際は、全ストロークから再生成される。
+ * 表示中のレイヤーが複数ある場合、レイヤー合成に対応したレンダラーでは
+ * レイヤーごとに描画して重ねる（消しゴムが下のレイヤーを消さないようにするため）。
  *
  * @param params 描画パラメータ
  */
@@ -238,17 +243,33 @@ function renderDrawingAtTimeFallback(params: RenderDrawingAtTimeParams): void {
   const { drawing, renderer, jitterConfig, elapsedTimeMs } = params;
   renderer.clear(drawing.width, drawing.height);
 
-  for (const stroke of drawing.strokes) {
-    const jittered = applyJitterToStroke({
-      stroke,
-      elapsedTimeMs,
-      jitterConfig,
-    });
-    renderer.renderStroke({
-      stroke,
-      jitteredPoints: jittered,
-      elapsedTimeMs,
-    });
+  const visibleLayers = getVisibleLayers(drawing);
+  const composite = visibleLayers.length > 1 && isLayerRenderer(renderer);
+  const visibleStrokes = visibleLayers.flatMap((layer) => layer.strokes);
+  for (const layer of visibleLayers) {
+    if (composite) renderer.beginLayer();
+    for (const stroke of layer.strokes) {
+      const jittered = applyJitterToStroke({
+        stroke,
+        elapsedTimeMs,
+        jitterConfig,
+      });
+      renderer.renderStroke({
+        stroke,
+        jitteredPoints: jittered,
+        elapsedTimeMs,
+        fillRuns:
+          stroke.kind === "fill"
+            ? applyJitterToFillEdges({
+                stroke,
+                boundaryStrokes: visibleStrokes,
+                elapsedTimeMs,
+                jitterConfig,
+              })
+            : undefined,
+      });
+    }
+    if (composite) renderer.endLayer();
   }
 
   // ImageDataベースの実装では、フレームごとに1回描画
@@ -1,7 +0,0 @@
-/**
- * jitter アニメーションの cycle 関連定数
- */
-/** キャッシュ枚数とアニメーション品質のバランスを優先 */
-export const CYCLE_COUNT = 3;
-/** 100ms = 10fps相当で揺れが視認できる設定 */
-export const CYCLE_INTERVAL_MS = 100;
@@ -0,0 +1,35 @@
+import { hasDynamicWidth, resolveWidthVariant } from "@/engine/variants";
+
+describe("variants", () => {
+  test("丸・四角ペンと消しゴムはベース幅のまま", () => {
+    expect(resolveWidthVariant(16, "penCircle", 2, 500, "draw")).toBe(16);
+    expect(resolveWidthVariant(16, "penSquare", 0, 0, "draw")).toBe(16);
+    expect(resolveWidthVariant(12, "eraserLine", 2, 500, "erase")).toBe(12);
+    expect(hasDynamicWidth("penCircle")).toBe(false);
+  });
+
+  test("入り抜き筆は細く入って太くなり、速いほど細い", () => {
+    const start = resolveWidthVariant(20, "brushTaper", 0, 0, "draw");
+    const settled = resolveWidthVariant(20, "brushTaper", 0, 1000, "draw");
+    const fast = resolveWidthVariant(20, "brushTaper", 1, 1000, "draw");
+
+    expect(start).toBe(6);
+    expect(settled).toBe(20);
+    expect(fast).toBeLessThan(settled);
+    expect(hasDynamicWidth("brushTaper")).toBe(true);
+  });
+
+  test("墨は遅いほど太く、描き続けるとかすれて細くなる", () => {
+    const slow = resolveWidthVariant(20, "brushInk", 0, 0, "draw");
+    const fast = resolveWidthVariant(20, "brushInk", 1, 0, "draw");
+    const faded = resolveWidthVariant(20, "brushInk", 0, 5000, "draw");
+
+    expect(slow).toBeGreaterThan(20);
+    expect(fast).toBeLessThan(20);
+    expect(faded).toBeLessThan(slow);
+  });
+
+  test("太さは1ピクセルより細くならない", () => {
+    expect(resolveWidthVariant(1, "brushTaper", 10, 0, "draw")).toBe(1);
+  });
+});
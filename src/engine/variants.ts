@@ -1,5 +1,7 @@
+import type { StrokeKind } from "@/core/types";
+
 /** ペンのバリアント種別 */
-export type PenVariant = "penCircle" | "penSquare";
+export type PenVariant = "penCircle" | "penSquare" | "brushTaper" | "brushInk";
 /** 消しゴムのバリアント種別 */
 export type EraserVariant = "eraserCircle" | "eraserSquare" | "eraserLine";
 
@@ -7,6 +9,8 @@ export type EraserVariant = "eraserCircle" | "eraserSquare" | "eraserLine";
 export const defaultPenWidth: Record<PenVariant, number> = {
   penCircle: 16,
   penSquare: 16,
+  brushTaper: 16,
+  brushInk: 12,
 };
 
 /** 消しゴムのデフォルト幅 */
@@ -16,17 +20,52 @@ export const defaultEraserWidth: Record<EraserVariant, number> = {
   eraserLine: 14,
 };
 
+/** 入り抜き筆が描き始めから元の太さになるまでの時間（ms） */
+const TAPER_IN_MS = 200;
+/** 入り抜き筆の描き始めの太さの割合 */
+const TAPER_START_RATIO = 0.3;
+/** 墨のかすれ始めから一番細くなるまでの時間（ms） */
+const INK_FADE_MS = 2000;
+/** 墨がかすれきった時の太さの割合 */
+const INK_FADE_RATIO = 0.6;
+
+/** 点ごとに太さが変わるバリアントか（点に太さを持たせる） */
+export function hasDynamicWidth(variant: PenVariant | EraserVariant): boolean {
+  return variant === "brushTaper" || variant === "brushInk";
+}
+
 /**
- * バリアントに応じた幅を返す
+ * バリアントに応じた点の太さを返す（整数、1以上）
  *
- * 現在の実装ではベース幅をそのまま返す（将来的に拡張可能）
+ * - brushTaper: 描き始めは細く入り、速く動かすほど細くなる（払いで抜ける）
+ * - brushInk: ゆっくり動かすほど墨が溜まって太くなり、描き続けるとかすれて細くなる
+ * - それ以外: ベース幅のまま
+ * @param speed 前の点からの速さ（px/ms）
+ * @param timeSinceStart 描き始めからの時間（ms）
  */
 export function resolveWidthVariant(
   base: number,
-  _variant: PenVariant | EraserVariant,
-  _dist: number,
-  _timeSinceStart: number,
-  _strokeKind: "draw" | "erase",
+  variant: PenVariant | EraserVariant,
+  speed: number,
+  timeSinceStart: number,
+  strokeKind: StrokeKind,
 ): number {
-  return base;
+  if (strokeKind !== "draw") return base;
+  switch (variant) {
+    case "brushTaper": {
+      const taperIn =
+        TAPER_START_RATIO +
+        (1 - TAPER_START_RATIO) * Math.min(1, timeSinceStart / TAPER_IN_MS);
+      const speedRatio = 1 / (1 + speed * 1.5);
+      return Math.max(1, Math.round(base * taperIn * speedRatio));
+    }
+    case "brushInk": {
+      const pooling = 0.6 + 0.6 / (1 + speed * 4);
+      const fade =
+        1 - (1 - INK_FADE_RATIO) * Math.min(1, timeSinceStart / INK_FADE_MS);
+      return Math.max(1, Math.round(base * pooling * fade));
+    }
+    default:
+      return base;
+  }
 }
@@ -0,0 +1,144 @@
+import { inflateSync } from "node:zlib";
+import { ApngEncoder } from "@/infra/ApngEncoder";
+import {
+  createImageData,
+  parsePngChunks,
+  readBlob,
+} from "@/testUtils/imageHelpers";
+
+/** 圧縮データを展開し、Subフィルタを戻してRGBAにする */
+function decodePixels(
+  compressed: Uint8Array,
+  width: number,
+  height: number,
+): number[][] {
+  const raw = inflateSync(compressed);
+  const stride = width * 4;
+  const pixels: number[][] = [];
+  for (let y = 0; y < height; y++) {
+    const row = raw.subarray(y * (stride + 1), (y + 1) * (stride + 1));
+    expect(row[0]).toBe(1);
+    const out = new Uint8Array(stride);
+    for (let x = 0; x < stride; x++) {
+      out[x] = (row[1 + x] + (x >= 4 ? out[x - 4] : 0)) & 0xff;
+    }
+    for (let x = 0; x < width; x++) {
+      pixels.push(Array.from(out.subarray(x * 4, x * 4 + 4)));
+    }
+  }
+  return pixels;
+}
+
+/** APNGを展開してフレームごとの表示時間とピクセルを取り出す */
+async function decodeApng(blob: Blob) {
+  const bytes = await readBlob(blob);
+  expect(Array.from(bytes.subarray(0, 8))).toEqual([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  ]);
+  const chunks = parsePngChunks(bytes);
+  const header = new DataView(chunks[0].data.buffer, chunks[0].data.byteOffset);
+  const width = header.getUint32(0);
+  const height = header.getUint32(4);
+  const control = chunks.find((chunk) => chunk.type === "acTL");
+  const frames: { delayMs: number; pixels: number[][] }[] = [];
+  const sequences: number[] = [];
+  let delayMs = 0;
+  for (const chunk of chunks) {
+    const view = new DataView(chunk.data.buffer, chunk.data.byteOffset);
+    if (chunk.type === "fcTL") {
+      sequences.push(view.getUint32(0));
+      delayMs = (view.getUint16(20) / view.getUint16(22)) * 1000;
+    } else if (chunk.type === "IDAT") {
+      frames.push({
+        delayMs,
+        pixels: decodePixels(chunk.data, width, height),
+      });
+    } else if (chunk.type === "fdAT") {
+      sequences.push(view.getUint32(0));
+      frames.push({
+        delayMs,
+        pixels: decodePixels(chunk.data.subarray(4), width, height),
+      });
+    }
+  }
+  return {
+    types: chunks.map((chunk) => chunk.type),
+    chunks,
+    width,
+    height,
+    numFrames: control
+      ? new DataView(control.data.buffer, control.data.byteOffset).getUint32(0)
+      : 0,
+    sequences,
+    frames,
+  };
+}
+
+describe("ApngEncoder", () => {
+  test("フレーム数・表示時間・ピクセルの色をそのまま保存する", async () => {
+    const first = [
+      [0x12, 0x34, 0x56, 255],
+      [0xfe, 0xdc, 0xba, 255],
+      [0, 0, 0, 0],
+      [0x80, 0x40, 0x20, 128],
+    ];
+    const second = [
+      [1, 2, 3, 255],
+      [1, 2, 3, 255],
+      [250, 251, 252, 255],
+      [7, 8, 9, 10],
+    ];
+    const encoder = new ApngEncoder();
+    encoder.begin(2, 2, 10);
+    encoder.addFrame(createImageData(2, 2, first), 150);
+    encoder.addFrame(createImageData(2, 2, second));
+
+    const blob = await encoder.finish();
+    expect(blob.type).toBe("image/png");
+    const apng = await decodeApng(blob);
+
+    expect(apng.types).toEqual([
+      "IHDR",
+      "acTL",
+      "fcTL",
+      "IDAT",
+      "fcTL",
+      "fdAT",
+      "IEND",
+    ]);
+    expect(apng.numFrames).toBe(2);
+    expect(apng.sequences).toEqual([0, 1, 2]);
+    expect(apng.frames.map((frame) => frame.delayMs)).toEqual([150, 100]);
+    expect(apng.frames[0].pixels).toEqual(first);
+    expect(apng.frames[1].pixels).toEqual(second);
+    // IENDのCRCは固定値になる
+    expect(apng.chunks.at(-1)?.crc).toBe(0xae426082);
+  });
+
+  test("繰り返しの多い大きな画像も正しく圧縮・展開できる", async () => {
+    const width = 64;
+    const height = 48;
+    const pixels = Array.from({ length: width * height }, (_, i) =>
+      i % width === i / width || i % 7 === 0
+        ? [10, 20, 30, 255]
+        : [255, 255, 240, 255],
+    );
+    const encoder = new ApngEncoder();
+    encoder.begin(width, height, 10);
+    encoder.addFrame(createImageData(width, height, pixels));
+
+    const blob = await encoder.finish();
+    const apng = await decodeApng(blob);
+
+    expect(apng.frames[0].pixels).toEqual(pixels);
+    expect(blob.size).toBeLessThan(width * height * 4);
+  });
+
+  test("大きさの違うフレームは受け付けない", () => {
+    const encoder = new ApngEncoder();
+    encoder.begin(2, 2, 10);
+    expect(() =>
+      encoder.addFrame(createImageData(1, 1, [[0, 0, 0, 255]])),
+    ).toThrow();
+  });
+});
@@ -0,0 +1,104 @@
+import type { AnimationEncoder, DocumentMetadataEncoder } from "@/engine/ports";
+import { createPngDocumentChunk } from "@/infra/documentMetadata";
+import {
+  compressPixels,
+  createChunk,
+  createHeaderChunk,
+  PNG_SIGNATURE,
+} from "@/infra/png";
+
+/** 圧縮済みのフレーム */
+type EncodedFrame = {
+  compressed: Uint8Array;
+  delayMs: number;
+};
+
+/**
+ * アニメーションPNG（APNG）エンコーダー
+ * RGBAをそのまま可逆で保存するため、パレットの色も透明もずれない
+ * ドキュメントが渡された場合はiTXtチャンクとして埋め込む
+ */
+export class ApngEncoder implements AnimationEncoder, DocumentMetadataEncoder {
+  private width = 0;
+  private height = 0;
+  private delayMs = 0;
+  private frames: EncodedFrame[] = [];
+  /** 埋め込むドキュメントのJSON（無ければnull） */
+  private documentMetadata: string | null = null;
+
+  setDocumentMetadata(text: string): void {
+    this.documentMetadata = text;
+  }
+
+  begin(width: number, height: number, fps: number): void {
+    this.width = width;
+    this.height = height;
+    this.delayMs = Math.round(1000 / fps);
+    this.frames = [];
+  }
+
+  addFrame(imageData: ImageData, delayMs?: number): void {
+    if (imageData.width !== this.width || imageData.height !== this.height) {
+      throw new Error("Frame size does not match the animation size");
+    }
+    this.frames.push({
+      compressed: compressPixels(imageData),
+      delayMs: delayMs ?? this.delayMs,
+    });
+  }
+
+  async finish(): Promise<Blob> {
+    if (this.frames.length === 0) {
+      throw new Error("APNG needs at least one frame");
+    }
+    const chunks: Uint8Array[] = [Uint8Array.from(PNG_SIGNATURE)];
+
+    chunks.push(createHeaderChunk(this.width, this.height));
+
+    const control = new Uint8Array(8);
+    const controlView = new DataView(control.buffer);
+    controlView.setUint32(0, this.frames.length);
+    controlView.setUint32(4, 0); // 無限ループ
+    chunks.push(createChunk("acTL", control));
+
+    let sequence = 0;
+    for (const [index, frame] of this.frames.entries()) {
+      chunks.push(
+        createChunk("fcTL", this.createFrameControl(sequence, frame)),
+      );
+      sequence += 1;
+      if (index === 0) {
+        // 先頭フレームはアニメ非対応のビューアでも表示される静止画を兼ねる
+        chunks.push(createChunk("IDAT", frame.compressed));
+      } else {
+        const data = new Uint8Array(4 + frame.compressed.length);
+        new DataView(data.buffer).setUint32(0, sequence);
+        data.set(frame.compressed, 4);
+        chunks.push(createChunk("fdAT", data));
+        sequence += 1;
+      }
+    }
+    if (this.documentMetadata !== null) {
+      chunks.push(createPngDocumentChunk(this.documentMetadata));
+    }
+    chunks.push(createChunk("IEND", new Uint8Array(0)));
+
+    return new Blob(chunks as BlobPart[], { type: "image/png" });
+  }
+
+  /** 全面を置き換えるフレーム制御チャンクのデータ */
+  private createFrameControl(sequence: number, frame: EncodedFrame) {
+    const data = new Uint8Array(26);
+    const view = new DataView(data.buffer);
+    view.setUint32(0, sequence);
+    view.setUint32(4, this.width);
+    view.setUint32(8, this.height);
+    view.setUint32(12, 0); // x offset
+    view.setUint32(16, 0); // y offset
+    view.setUint16(20, frame.delayMs);
+    view.setUint16(22, 1000);
+    data[24] = 0; // dispose_op: NONE
+    data[25] = 0; // blend_op: SOURCE（前のフレームと混ぜずに置き換える）
+    return data;
+  }
+}
@@ -0,0 +1,269 @@
+import { GifEncGifEncoder } from "@/infra/GifEncGifEncoder";
+import { createImageData, readBlob } from "@/testUtils/imageHelpers";
+
+/** GIFのLZW圧縮データを色番号の列に戻す */
+function decodeLzw(
+  data: Uint8Array,
+  minCodeSize: number,
+  pixelCount: number,
+): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let dictionary: number[][] = [];
+  const reset = () => {
+    dictionary = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+  };
+  reset();
+
+  const output: number[] = [];
+  let previous: number[] | null = null;
+  let bitPosition = 0;
+  while (output.length < pixelCount) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++) {
+      const bit = (data[bitPosition >> 3] >> (bitPosition & 7)) & 1;
+      code |= bit << i;
+      bitPosition++;
+    }
+    if (code === clearCode) {
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === endCode) break;
+    let entry: number[];
+    if (code < dictionary.length) {
+      entry = dictionary[code];
+      if (previous) dictionary.push([...previous, entry[0]]);
+    } else {
+      if (!previous) throw new Error("invalid LZW code");
+      entry = [...previous, previous[0]];
+      dictionary.push(entry);
+    }
+    output.push(...entry);
+    previous = entry;
+    if (dictionary.length === 1 << codeSize && codeSize < 12) codeSize++;
+  }
+  return output;
+}
+
+type GifFrame = {
+  delayMs: number;
+  transparentIndex: number | null;
+  dispose: number;
+  localTable: number[][] | null;
+  indices: number[];
+};
+
+/** GIFを展開して色表とフレームごとの色番号を取り出す */
+async function decodeGif(blob: Blob) {
+  const bytes = await readBlob(blob);
+  const view = new DataView(bytes.buffer);
+  expect(String.fromCharCode(...bytes.subarray(0, 6))).toBe("GIF89a");
+  const width = view.getUint16(6, true);
+  const height = view.getUint16(8, true);
+  const readTable = (offset: number, packed: number) =>
+    Array.from({ length: 1 << ((packed & 7) + 1) }, (_, i) =>
+      Array.from(bytes.subarray(offset + i * 3, offset + i * 3 + 3)),
+    );
+  const skipSubBlocks = (start: number) => {
+    let offset = start;
+    while (bytes[offset] !== 0) offset += bytes[offset] + 1;
+    return offset + 1;
+  };
+
+  let offset = 13;
+  const globalTable = bytes[10] & 0x80 ? readTable(offset, bytes[10]) : null;
+  offset += globalTable ? globalTable.length * 3 : 0;
+
+  const frames: GifFrame[] = [];
+  let control = {
+    delayMs: 0,
+    transparentIndex: null as number | null,
+    dispose: 0,
+  };
+  while (bytes[offset] !== 0x3b) {
+    if (bytes[offset] === 0x21 && bytes[offset + 1] === 0xf9) {
+      const packed = bytes[offset + 3];
+      control = {
+        delayMs: view.getUint16(offset + 4, true) * 10,
+        transparentIndex: packed & 1 ? bytes[offset + 6] : null,
+        dispose: (packed >> 2) & 7,
+      };
+      offset += 8;
+    } else if (bytes[offset] === 0x21) {
+      offset = skipSubBlocks(offset + 2);
+    } else if (bytes[offset] === 0x2c) {
+      const packed = bytes[offset + 9];
+      offset += 10;
+      const localTable = packed & 0x80 ? readTable(offset, packed) : null;
+      offset += localTable ? localTable.length * 3 : 0;
+      const minCodeSize = bytes[offset];
+      const end = skipSubBlocks(offset + 1);
+      const chunks: number[] = [];
+      for (let i = offset + 1; i < end - 1; i += bytes[i] + 1) {
+        chunks.push(...bytes.subarray(i + 1, i + 1 + bytes[i]));
+      }
+      frames.push({
+        ...control,
+        localTable,
+        indices: decodeLzw(
+          Uint8Array.from(chunks),
+          minCodeSize,
+          width * height,
+        ),
+      });
+      offset = end;
+    } else {
+      throw new Error(`unexpected block ${bytes[offset]}`);
+    }
+  }
+
+  // 透明の色番号は下のフレームを残して重ねていく（何も無いピクセルは空配列）
+  let screen: number[][] = Array.from({ length: width * height }, () => []);
+  const composited = frames.map((frame) => {
+    const table = frame.localTable ?? globalTable ?? [];
+    const current = screen.map((pixel, i) =>
+      frame.indices[i] === frame.transparentIndex
+        ? pixel
+        : table[frame.indices[i]],
+    );
+    // 廃棄方法2は次のフレームの前に透明へ戻す
+    screen = frame.dispose === 2 ? current.map(() => []) : current;
+    return current;
+  });
+  return { globalTable, frames, composited };
+}
+
+const RED = [230, 20, 40];
+const GREEN = [10, 200, 90];
+const BACKGROUND = [250, 248, 240];
+const TRANSPARENT = [0, 0, 0, 0];
+
+/** RGBの並びを不透明なRGBAのピクセル列にする */
+function createPixels(colors: number[][]): number[][] {
+  return colors.map((rgb) => [...rgb, 255]);
+}
+
+describe("GifEncGifEncoder", () => {
+  test("色表を渡すと減色せずに色を割り当て、前フレームと同じピクセルを透明にする", async () => {
+    const first = [
+      RED,
+      GREEN,
+      BACKGROUND,
+      BACKGROUND,
+      RED,
+      RED,
+      BACKGROUND,
+      GREEN,
+    ];
+    const second = [RED, RED, BACKGROUND, GREEN, RED, RED, BACKGROUND, GREEN];
+    const encoder = new GifEncGifEncoder();
+    encoder.setColorTable(
+      [RED, GREEN, BACKGROUND].map(([r, g, b]) => ({ r, g, b })),
+    );
+    encoder.begin(4, 2, 10);
+    encoder.addFrame(createImageData(4, 2, createPixels(first)), 150);
+    encoder.addFrame(createImageData(4, 2, createPixels(second)));
+
+    const gif = await decodeGif(await encoder.finish());
+
+    expect(gif.globalTable?.slice(0, 3)).toEqual([RED, GREEN, BACKGROUND]);
+    expect(gif.frames.map((frame) => frame.localTable)).toEqual([null, null]);
+    expect(gif.frames.map((frame) => frame.delayMs)).toEqual([150, 100]);
+    expect(gif.frames[0].transparentIndex).toBeNull();
+    expect(gif.frames[1].transparentIndex).toBe(3);
+    // 前のフレームを残したまま重ねる
+    expect(gif.frames.map((frame) => frame.dispose)).toEqual([1, 1]);
+    // 変わった2ピクセル以外は透明
+    expect(gif.frames[1].indices).toEqual([3, 0, 3, 1, 3, 3, 3, 3]);
+    expect(gif.composited).toEqual([first, second]);
+  });
+
+  test("色表に無い色を含むフレームだけ減色して局所色表で書く", async () => {
+    const other = [12, 34, 56];
+    const encoder = new GifEncGifEncoder();
+    encoder.setColorTable([RED, BACKGROUND].map(([r, g, b]) => ({ r, g, b })));
+    encoder.begin(2, 1, 10);
+    encoder.addFrame(createImageData(2, 1, createPixels([RED, BACKGROUND])));
+    encoder.addFrame(createImageData(2, 1, createPixels([other, BACKGROUND])));
+    encoder.addFrame(createImageData(2, 1, createPixels([RED, RED])));
+
+    const gif = await decodeGif(await encoder.finish());
+
+    expect(gif.frames[0].localTable).toBeNull();
+    expect(gif.frames[1].localTable).not.toBeNull();
+    // 減色したフレームの直後は差分を取らずに全ピクセルを書く
+    expect(gif.frames[2].localTable).toBeNull();
+    expect(gif.frames[2].transparentIndex).toBeNull();
+    expect(gif.composited[2]).toEqual([RED, RED]);
+  });
+
+  test("背景を透明にすると透明なピクセルを透明の色番号で書き、フレームごとに消す", async () => {
+    const encoder = new GifEncGifEncoder();
+    encoder.setBackgroundColor("rgb(250, 248, 240)");
+    encoder.setTransparentBackground(true);
+    encoder.setColorTable([RED, GREEN].map(([r, g, b]) => ({ r, g, b })));
+    encoder.begin(4, 1, 10);
+    encoder.addFrame(
+      createImageData(4, 1, [
+        [...RED, 255],
+        TRANSPARENT,
+        [...GREEN, 255],
+        TRANSPARENT,
+      ]),
+    );
+    encoder.addFrame(
+      createImageData(4, 1, [
+        TRANSPARENT,
+        [...RED, 255],
+        [...GREEN, 255],
+        [...GREEN, 255],
+      ]),
+    );
+
+    const gif = await decodeGif(await encoder.finish());
+
+    expect(gif.globalTable?.slice(0, 2)).toEqual([RED, GREEN]);
+    expect(gif.frames.map((frame) => frame.transparentIndex)).toEqual([2, 2]);
+    expect(gif.frames.map((frame) => frame.dispose)).toEqual([2, 2]);
+    // 前のフレームの色が残らず、透明だったピクセルは透明のまま
+    expect(gif.composited).toEqual([
+      [RED, [], GREEN, []],
+      [[], RED, GREEN, GREEN],
+    ]);
+  });
+
+  test("背景を透明にして減色する場合も透明なピクセルは透明になる", async () => {
+    const encoder = new GifEncGifEncoder();
+    encoder.setTransparentBackground(true);
+    encoder.begin(2, 1, 10);
+    encoder.addFrame(createImageData(2, 1, [[...RED, 255], TRANSPARENT]));
+
+    const gif = await decodeGif(await encoder.finish());
+
+    expect(gif.frames[0].transparentIndex).not.toBeNull();
+    expect(gif.composited[0][0]).toHaveLength(3);
+    expect(gif.composited[0][1]).toEqual([]);
+  });
+
+  test("固定色が256色を超える場合は従来どおり減色する", async () => {
+    const encoder = new GifEncGifEncoder();
+    encoder.setColorTable(
+      Array.from({ length: 300 }, (_, i) => ({ r: i & 0xff, g: i >> 8, b: 0 })),
+    );
+    encoder.begin(2, 1, 10);
+    encoder.addFrame(createImageData(2, 1, createPixels([RED, BACKGROUND])));
+    encoder.addFrame(createImageData(2, 1, createPixels([RED, BACKGROUND])));
+
+    const gif = await decodeGif(await encoder.finish());
+
+    expect(gif.frames[1].localTable).not.toBeNull();
+    expect(gif.frames.map((frame) => frame.transparentIndex)).toEqual([
+      null,
+      null,
+    ]);
+  });
+});
@@ -1,12 +1,37 @@
 import { applyPalette, GIFEncoder, quantize } from "gifenc";
-import type { GifEncoder } from "@/engine/ports";
+import type {
+  AnimationEncoder,
+  ColorTableEncoder,
+  DocumentMetadataEncoder,
+  RgbColor,
+} from "@/engine/ports";
 import { parseColorToRgb } from "@/infra/colorUtil";
+import { createGifDocumentExtension } from "@/infra/documentMetadata";
+
+/** GIFの色表に入る最大色数 */
+const MAX_GIF_COLORS = 256;
+/** 廃棄方法: 表示したまま次のフレームを重ねる */
+const DISPOSE_KEEP = 1;
+/** 廃棄方法: 次のフレームの前に透明に戻す */
+const DISPOSE_RESTORE_BACKGROUND = 2;
+/** GIFは1bitの透明しか持てないため、これ未満のアルファを透明として扱う */
+const TRANSPARENT_ALPHA_THRESHOLD = 128;
+
+/** RGBを1つの整数にまとめたキー */
+function toRgbKey(r: number, g: number, b: number): number {
+  return (r << 16) | (g << 8) | b;
+}
 
 /**
  * gifencライブラリを使用したGIFエンコーダー実装
  * 透明ピクセルを背景色でフラット化して色ズレを抑制
+ * 色表が渡された場合は減色せずに色を割り当て、前フレームと同じピクセルを透明にして容量を抑える
+ * 背景を透明にする場合は透明ピクセルに透明の色番号を使い、フレームごとに画面を消して重ねる
+ * ドキュメントが渡された場合は終端の前にアプリケーション拡張として埋め込む
  */
-export class GifEncGifEncoder implements GifEncoder {
+export class GifEncGifEncoder
+  implements AnimationEncoder, ColorTableEncoder, DocumentMetadataEncoder
+{
   private encoder = GIFEncoder();
   private delayMs = 0;
   private backgroundColor: { r: number; g: number; b: number; a: number } = {
@@ -15,12 +40,56 @@ export class GifEncGifEncoder implements GifEncoder {
     b: 255,
     a: 1,
   };
+  /** 固定の色表（未設定または256色を超える場合はnullで、フレームごとに減色する） */
+  private colorTable: number[][] | null = null;
+  private colorIndices = new Map<number, number>();
+  /** 透明なピクセルを背景色でフラット化せずに透明のまま書くか */
+  private transparentBackground = false;
+  /** 前フレームと同じピクセルや透明なピクセルに使う色番号（色表に空きが無い場合はnull） */
+  private transparentIndex: number | null = null;
+  /** 書き込み済みのグローバル色表が固定の色表か（未書き込みならnull） */
+  private globalTableIsFixed: boolean | null = null;
+  /** 直前に表示したピクセル（差分の比較用。減色したフレームの後はnull） */
+  private previousPixels: Uint8Array | null = null;
+  /** 埋め込むドキュメントのJSON（無ければnull） */
+  private documentMetadata: string | null = null;
 
   setBackgroundColor(backgroundColor: string): void {
     const rgb = parseColorToRgb(backgroundColor);
     this.backgroundColor = { r: rgb.r, g: rgb.g, b: rgb.b, a: rgb.a };
   }
 
+  /** 背景を透明にするか（beginより前に呼ぶ） */
+  setTransparentBackground(transparentBackground: boolean): void {
+    this.transparentBackground = transparentBackground;
+  }
+
+  setColorTable(colors: RgbColor[]): void {
+    const unique = new Map<number, number[]>();
+    for (const { r, g, b } of colors) {
+      unique.set(toRgbKey(r, g, b), [r, g, b]);
+    }
+    if (unique.size > MAX_GIF_COLORS) {
+      this.colorTable = null;
+      this.colorIndices = new Map();
+      this.transparentIndex = null;
+      return;
+    }
+    this.colorTable = [...unique.values()];
+    this.colorIndices = new Map(
+      [...unique.keys()].map((key, index) => [key, index]),
+    );
+    this.transparentIndex = unique.size < MAX_GIF_COLORS ? unique.size : null;
+    if (this.transparentIndex !== null) {
+      // 透明用の色番号も色表の範囲に収める（色そのものは使われない）
+      this.colorTable.push([0, 0, 0]);
+    }
+  }
+
+  setDocumentMetadata(text: string): void {
+    this.documentMetadata = text;
+  }
+
   begin(width: number, height: number, fps: number): void {
     this.delayMs = Math.round(1000 / fps);
     // このgifencはautoモードで最初のフレーム時にヘッダを書き込む
@@ -29,16 +98,114 @@ export class GifEncGifEncoder implements GifEncoder {
     void height;
   }
 
-  addFrame(imageData: ImageData): void {
-    const { data, width, height } = imageData;
+  addFrame(imageData: ImageData, delayMs?: number): void {
+    const { width, height } = imageData;
+    const flattened = this.flatten(imageData);
+    const delay = delayMs ?? this.delayMs;
 
-    // 透明を背景色でフラット化して色ズレを抑える
+    const index = this.colorTable ? this.mapToColorTable(flattened) : null;
+    if (!this.colorTable || !index) {
+      // 色表に無い色があればこのフレームだけ従来どおり減色する
+      this.writeQuantizedFrame(flattened, width, height, delay);
+      return;
+    }
+
+    const previous = this.previousPixels;
+    const transparentIndex = this.transparentIndex;
+    // 透明な背景では透明の色番号を「前フレームのまま」に使えないため差分を取らない
+    if (previous && transparentIndex !== null && !this.transparentBackground) {
+      for (let i = 0; i < index.length; i++) {
+        const p = i * 4;
+        if (
+          flattened[p] === previous[p] &&
+          flattened[p + 1] === previous[p + 1] &&
+          flattened[p + 2] === previous[p + 2]
+        ) {
+          index[i] = transparentIndex;
+        }
+      }
+    }
+
+    // 最初のフレームで固定の色表をグローバル色表として書き、以降は省略する
+    const palette = this.globalTableIsFixed ? undefined : this.colorTable;
+    this.globalTableIsFixed ??= true;
+    this.previousPixels =
+      transparentIndex !== null && !this.transparentBackground
+        ? flattened
+        : null;
+    this.encoder.writeFrame(index, width, height, {
+      palette,
+      delay,
+      transparent:
+        transparentIndex !== null &&
+        (this.transparentBackground || previous !== null),
+      transparentIndex: transparentIndex ?? 0,
+      dispose: this.transparentBackground
+        ? DISPOSE_RESTORE_BACKGROUND
+        : DISPOSE_KEEP,
+    });
+  }
+
+  async finish(): Promise<Blob> {
+    if (this.documentMetadata !== null) {
+      this.encoder.stream.writeBytes(
+        createGifDocumentExtension(this.documentMetadata),
+      );
+    }
+    this.encoder.finish();
+    const bytes = this.encoder.bytes();
+    return new Blob([bytes], { type: "image/gif" });
+  }
+
+  /** フレームを減色して局所色表で書く */
+  private writeQuantizedFrame(
+    flattened: Uint8Array,
+    width: number,
+    height: number,
+    delay: number,
+  ): void {
+    const format = this.transparentBackground ? "rgba4444" : "rgb565";
+    const palette: number[][] = quantize(flattened, 256, {
+      format,
+      oneBitAlpha: this.transparentBackground,
+    });
+    const quantized = applyPalette(flattened, palette, format);
+    this.globalTableIsFixed ??= false;
+    this.previousPixels = null;
+    if (this.transparentBackground) {
+      // 透明なピクセルがあれば減色結果にアルファ0の色が含まれる
+      this.encoder.writeFrame(quantized, width, height, {
+        palette,
+        delay,
+        transparent: true,
+        transparentIndex: palette.findIndex((color) => color[3] === 0),
+        dispose: DISPOSE_RESTORE_BACKGROUND,
+      });
+      return;
+    }
+    this.encoder.writeFrame(quantized, width, height, {
+      palette,
+      delay,
+      transparent: false,
+      ...(this.colorTable ? { dispose: DISPOSE_KEEP } : {}),
+    });
+  }
+
+  /**
+   * 透明を背景色でフラット化して色ズレを抑える
+   * 背景を透明にする場合は、アルファが閾値未満のピクセルをアルファ0のまま残す
+   */
+  private flatten(imageData: ImageData): Uint8Array {
+    const { data } = imageData;
     const flattened = new Uint8Array(data.length);
     for (let i = 0; i < data.length; i += 4) {
       const r = data[i] ?? 0;
       const g = data[i + 1] ?? 0;
       const b = data[i + 2] ?? 0;
       const a = data[i + 3] ?? 255;
+      if (this.transparentBackground && a < TRANSPARENT_ALPHA_THRESHOLD) {
+        continue;
+      }
       const alpha = a / 255;
       flattened[i] = Math.round(
         r * alpha + this.backgroundColor.r * (1 - alpha),
@@ -51,22 +218,26 @@ export class GifEncGifEncoder implements GifEncoder {
       );
       flattened[i + 3] = 255;
     }
-
-    const palette = quantize(flattened, 256, {
-      format: "rgb565",
-    });
-    const index = applyPalette(flattened, palette, "rgb565");
-
-    this.encoder.writeFrame(index, width, height, {
-      palette,
-      delay: this.delayMs,
-      transparent: false,
-    });
+    return flattened;
   }
 
-  async finish(): Promise<Blob> {
-    this.encoder.finish();
-    const bytes = this.encoder.bytes();
-    return new Blob([bytes], { type: "image/gif" });
+  /** 色表の番号に置き換える（色表に無い色があればnull） */
+  private mapToColorTable(flattened: Uint8Array): Uint8Array | null {
+    const index = new Uint8Array(flattened.length / 4);
+    for (let i = 0; i < index.length; i++) {
+      const p = i * 4;
+      if (flattened[p + 3] === 0) {
+        // 透明のピクセルは色表に空きが無ければ書けない
+        if (this.transparentIndex === null) return null;
+        index[i] = this.transparentIndex;
+        continue;
+      }
+      const colorIndex = this.colorIndices.get(
+        toRgbKey(flattened[p], flattened[p + 1], flattened[p + 2]),
+      );
+      if (colorIndex === undefined) return null;
+      index[i] = colorIndex;
+    }
+    return index;
   }
 }
@@ -0,0 +1,73 @@
+import type { DrawingStorage } from "@/engine/ports";
+
+/** データベース名 */
+const DB_NAME = "wiggly-zakomemo";
+/** スキーマのバージョン（object storeを増やす時に上げる） */
+const DB_VERSION = 1;
+/** 描画データを格納するobject store */
+const STORE_NAME = "drawings";
+
+/**
+ * IndexedDBを使ったDrawingStorage実装
+ * 接続は初回アクセス時に開き、以降は使い回す
+ */
+export class IndexedDbDrawingStorage implements DrawingStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /** 保存済みの値を返す（なければnull） */
+  async load(key: string): Promise<unknown | null> {
+    const value = await this.request("readonly", (store) => store.get(key));
+    return value ?? null;
+  }
+
+  /** 値を保存する（既存の値は上書き） */
+  async save(key: string, value: unknown): Promise<void> {
+    await this.request("readwrite", (store) => store.put(value, key));
+  }
+
+  /** 値を削除する */
+  async remove(key: string): Promise<void> {
+    await this.request("readwrite", (store) => store.delete(key));
+  }
+
+  /** トランザクションを開いてリクエストを1件実行する */
+  private async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const db = await this.open();
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      // 書き込みはcommit完了まで待つ（タブが閉じられる直前の保存に備える）
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /** データベース接続を開く */
+  private open(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+    if (typeof indexedDB === "undefined") {
+      return Promise.reject(new Error("IndexedDB is not available"));
+    }
+
+    this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error: unknown) => {
+      // 失敗した接続は破棄し、次回アクセスで再試行する
+      this.dbPromise = null;
+      throw error;
+    });
+    return this.dbPromise;
+  }
+}
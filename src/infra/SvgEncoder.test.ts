@@ -0,0 +1,148 @@
+import { SvgEncoder } from "@/infra/SvgEncoder";
+import { createImageData, readBlobText } from "@/testUtils/imageHelpers";
+
+/** 塗りの属性をRGBAにする */
+function toRgba(element: Element): number[] {
+  const hex = element.getAttribute("fill")?.slice(1) ?? "000000";
+  const opacity = Number(element.getAttribute("fill-opacity") ?? "1");
+  return [
+    Number.parseInt(hex.slice(0, 2), 16),
+    Number.parseInt(hex.slice(2, 4), 16),
+    Number.parseInt(hex.slice(4, 6), 16),
+    Math.round(opacity * 255),
+  ];
+}
+
+/** グループ内の背景とパスの矩形を塗ってピクセル列に戻す（何も無いピクセルは透明） */
+function rasterize(group: Element, width: number, height: number) {
+  const pixels: number[][] = Array.from({ length: width * height }, () => [
+    0, 0, 0, 0,
+  ]);
+  const fill = (x: number, y: number, w: number, h: number, rgba: number[]) => {
+    for (let dy = 0; dy < h; dy++) {
+      for (let dx = 0; dx < w; dx++) {
+        pixels[(y + dy) * width + x + dx] = rgba;
+      }
+    }
+  };
+  let rectCount = 0;
+  for (const element of Array.from(group.children)) {
+    if (element.tagName === "rect") {
+      fill(0, 0, width, height, toRgba(element));
+    } else if (element.tagName === "path") {
+      const d = element.getAttribute("d") ?? "";
+      expect(d).toMatch(/^(M\d+ \d+h\d+v\d+h-\d+z)+$/);
+      for (const match of d.matchAll(/M(\d+) (\d+)h(\d+)v(\d+)/g)) {
+        const [x, y, w, h] = match.slice(1).map(Number);
+        fill(x, y, w, h, toRgba(element));
+        rectCount++;
+      }
+    }
+  }
+  return { pixels, rectCount };
+}
+
+/** SVGを読み込んでルートとフレームごとのグループを取り出す */
+async function parseSvg(blob: Blob) {
+  const text = await readBlobText(blob);
+  const doc = new DOMParser().parseFromString(text, "image/svg+xml");
+  const svg = doc.documentElement;
+  return { svg, groups: Array.from(svg.children) };
+}
+
+const INK = [10, 20, 30, 255];
+const RED = [230, 20, 40, 255];
+const PAPER = [250, 248, 240, 255];
+const CLEAR = [0, 0, 0, 0];
+
+describe("SvgEncoder", () => {
+  test("各フレームを色ごとのパスにし、ピクセルを正確に再現する", async () => {
+    const first = [
+      [INK, INK, PAPER, PAPER],
+      [INK, INK, PAPER, RED],
+      [PAPER, PAPER, PAPER, RED],
+    ].flat();
+    const second = [
+      [CLEAR, INK, INK, CLEAR],
+      [CLEAR, [0, 0, 255, 128], CLEAR, CLEAR],
+      [CLEAR, CLEAR, CLEAR, CLEAR],
+    ].flat();
+    const encoder = new SvgEncoder();
+    encoder.begin(4, 3, 10);
+    encoder.addFrame(createImageData(4, 3, first));
+    encoder.addFrame(createImageData(4, 3, second));
+
+    const blob = await encoder.finish();
+    expect(blob.type).toBe("image/svg+xml");
+    const { svg, groups } = await parseSvg(blob);
+
+    expect(svg.getAttribute("viewBox")).toBe("0 0 4 3");
+    expect(svg.getAttribute("shape-rendering")).toBe("crispEdges");
+    expect(groups).toHaveLength(2);
+    const firstFrame = rasterize(groups[0], 4, 3);
+    expect(firstFrame.pixels).toEqual(first);
+    // 不透明なフレームは最多の色を背景の矩形にし、残りの2×2と1×2は1つずつの矩形にまとめる
+    expect(groups[0].querySelectorAll("rect")).toHaveLength(1);
+    expect(firstFrame.rectCount).toBe(2);
+    // 透明なピクセルは何も書かない
+    const secondFrame = rasterize(groups[1], 4, 3);
+    expect(secondFrame.pixels).toEqual(second);
+    expect(groups[1].querySelectorAll("rect")).toHaveLength(0);
+  });
+
+  test("フレームの表示時間どおりにdisplayを切り替えて繰り返す", async () => {
+    const pixel = createImageData(1, 1, [INK]);
+    const encoder = new SvgEncoder();
+    encoder.begin(1, 1, 10);
+    encoder.addFrame(pixel, 100);
+    encoder.addFrame(pixel, 200);
+    encoder.addFrame(pixel, 100);
+
+    const { groups } = await parseSvg(await encoder.finish());
+    const animations = groups.map((group) => {
+      const animate = group.querySelector("animate");
+      return {
+        display: group.getAttribute("display"),
+        values: animate?.getAttribute("values"),
+        keyTimes: animate?.getAttribute("keyTimes"),
+        dur: animate?.getAttribute("dur"),
+        calcMode: animate?.getAttribute("calcMode"),
+      };
+    });
+
+    expect(animations).toEqual([
+      {
+        display: null,
+        values: "inline;none",
+        keyTimes: "0;0.25",
+        dur: "400ms",
+        calcMode: "discrete",
+      },
+      {
+        display: "none",
+        values: "none;inline;none",
+        keyTimes: "0;0.25;0.75",
+        dur: "400ms",
+        calcMode: "discrete",
+      },
+      {
+        display: "none",
+        values: "none;inline",
+        keyTimes: "0;0.75",
+        dur: "400ms",
+        calcMode: "discrete",
+      },
+    ]);
+  });
+
+  test("1フレームだけならアニメーションを付けない", async () => {
+    const encoder = new SvgEncoder();
+    encoder.begin(1, 1, 10);
+    encoder.addFrame(createImageData(1, 1, [RED]));
+
+    const { groups } = await parseSvg(await encoder.finish());
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].querySelector("animate")).toBeNull();
+  });
+});
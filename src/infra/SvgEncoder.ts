@@ -0,0 +1,196 @@
+import type { AnimationEncoder } from "@/engine/ports";
+
+/** 同じ色が続く横の区間を縦にも伸ばした矩形 */
+type Rect = { x: number; y: number; width: number; height: number };
+
+/** 1フレーム分のSVG要素と表示時間 */
+type EncodedFrame = {
+  body: string;
+  delayMs: number;
+};
+
+/** RGBAを1つの数値にまとめたキー（ビット演算は符号が付くため掛け算で詰める） */
+function toRgbaKey(r: number, g: number, b: number, a: number): number {
+  return a * 0x1000000 + r * 0x10000 + g * 0x100 + b;
+}
+
+/** キーから塗りの属性を作る（半透明は不透明度として分ける） */
+function toFillAttributes(key: number): string {
+  const alpha = Math.floor(key / 0x1000000);
+  const rgb = (key % 0x1000000).toString(16).padStart(6, "0");
+  const opacity =
+    alpha < 255 ? ` fill-opacity="${formatNumber(alpha / 255)}"` : "";
+  return `fill="#${rgb}"${opacity}`;
+}
+
+/** 小数の桁を抑えて属性値にする */
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(4)));
+}
+
+/**
+ * 画像を色ごとの矩形に分ける
+ * 行ごとに同じ色の連続（ランレングス）を取り、真上の行に同じ位置・幅の区間があれば縦に伸ばす
+ */
+function collectRects(
+  imageData: ImageData,
+  skipKey: number | null,
+): Map<number, Rect[]> {
+  const { data, width, height } = imageData;
+  const rectsByColor = new Map<number, Rect[]>();
+  let active = new Map<string, Rect>();
+  for (let y = 0; y < height; y++) {
+    const nextActive = new Map<string, Rect>();
+    let x = 0;
+    while (x < width) {
+      const i = (y * width + x) * 4;
+      const key = toRgbaKey(data[i], data[i + 1], data[i + 2], data[i + 3]);
+      let end = x + 1;
+      while (end < width) {
+        const j = (y * width + end) * 4;
+        if (toRgbaKey(data[j], data[j + 1], data[j + 2], data[j + 3]) !== key) {
+          break;
+        }
+        end++;
+      }
+      // 透明なピクセルと背景として塗ったピクセルは書かない
+      if (data[i + 3] !== 0 && key !== skipKey) {
+        const runKey = `${x}:${end - x}:${key}`;
+        const above = active.get(runKey);
+        if (above) {
+          above.height += 1;
+          nextActive.set(runKey, above);
+        } else {
+          const rect = { x, y, width: end - x, height: 1 };
+          const rects = rectsByColor.get(key);
+          if (rects) rects.push(rect);
+          else rectsByColor.set(key, [rect]);
+          nextActive.set(runKey, rect);
+        }
+      }
+      x = end;
+    }
+    active = nextActive;
+  }
+  return rectsByColor;
+}
+
+/** 不透明な画像で最も多い色（透明なピクセルがあれば背景で覆えないのでnull） */
+function findBackgroundKey(imageData: ImageData): number | null {
+  const { data } = imageData;
+  const counts = new Map<number, number>();
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] !== 255) return null;
+    const key = toRgbaKey(data[i], data[i + 1], data[i + 2], 255);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  let best: number | null = null;
+  let bestCount = 0;
+  for (const [key, count] of counts) {
+    if (count > bestCount) {
+      best = key;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/** 1フレームを背景の矩形と色ごとのパスにする */
+function encodeFrameBody(imageData: ImageData): string {
+  const backgroundKey = findBackgroundKey(imageData);
+  const parts: string[] = [];
+  if (backgroundKey !== null) {
+    parts.push(
+      `<rect width="${imageData.width}" height="${imageData.height}" ${toFillAttributes(backgroundKey)}/>`,
+    );
+  }
+  for (const [key, rects] of collectRects(imageData, backgroundKey)) {
+    const d = rects
+      .map(
+        ({ x, y, width, height }) => `M${x} ${y}h${width}v${height}h-${width}z`,
+      )
+      .join("");
+    parts.push(`<path ${toFillAttributes(key)} d="${d}"/>`);
+  }
+  return parts.join("");
+}
+
+/**
+ * ピクセル画のSVGエンコーダー
+ * 各フレームを色ごとの矩形のパスにし、SMILでフレームを表示時間どおりに切り替える
+ * shape-rendering="crispEdges"で、どの倍率で表示してもピクセルの境界がぼやけない
+ */
+export class SvgEncoder implements AnimationEncoder {
+  private width = 0;
+  private height = 0;
+  private delayMs = 0;
+  private frames: EncodedFrame[] = [];
+
+  begin(width: number, height: number, fps: number): void {
+    this.width = width;
+    this.height = height;
+    this.delayMs = Math.round(1000 / fps);
+    this.frames = [];
+  }
+
+  addFrame(imageData: ImageData, delayMs?: number): void {
+    if (imageData.width !== this.width || imageData.height !== this.height) {
+      throw new Error("Frame size does not match the animation size");
+    }
+    this.frames.push({
+      body: encodeFrameBody(imageData),
+      delayMs: delayMs ?? this.delayMs,
+    });
+  }
+
+  async finish(): Promise<Blob> {
+    if (this.frames.length === 0) {
+      throw new Error("SVG needs at least one frame");
+    }
+    const totalMs = this.frames.reduce((sum, frame) => sum + frame.delayMs, 0);
+    let startMs = 0;
+    const groups = this.frames.map((frame, index) => {
+      const endMs = startMs + frame.delayMs;
+      const group = this.createGroup(frame, index, startMs, endMs, totalMs);
+      startMs = endMs;
+      return group;
+    });
+    const svg = [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.width}" height="${this.height}" viewBox="0 0 ${this.width} ${this.height}" shape-rendering="crispEdges">`,
+      ...groups,
+      "</svg>",
+    ].join("\n");
+    return new Blob([svg], { type: "image/svg+xml" });
+  }
+
+  /**
+   * 1フレーム分のグループ
+   * 表示する区間だけdisplayをinlineにするdiscreteなアニメーションを付け、全体を繰り返す
+   */
+  private createGroup(
+    frame: EncodedFrame,
+    index: number,
+    startMs: number,
+    endMs: number,
+    totalMs: number,
+  ): string {
+    if (this.frames.length === 1) {
+      return `<g>${frame.body}</g>`;
+    }
+    const values: string[] = [];
+    const keyTimes: number[] = [];
+    if (startMs > 0) {
+      values.push("none");
+      keyTimes.push(0);
+    }
+    values.push("inline");
+    keyTimes.push(startMs / totalMs);
+    if (endMs < totalMs) {
+      values.push("none");
+      keyTimes.push(endMs / totalMs);
+    }
+    const animate = `<animate attributeName="display" values="${values.join(";")}" keyTimes="${keyTimes.map(formatNumber).join(";")}" dur="${totalMs}ms" calcMode="discrete" repeatCount="indefinite"/>`;
+    const display = index === 0 ? "" : ' display="none"';
+    return `<g${display}>${animate}${frame.body}</g>`;
+  }
+}
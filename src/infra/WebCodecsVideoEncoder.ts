@@ -0,0 +1,89 @@
+import type { VideoChunk, VideoChunkEncoder } from "@/engine/ports";
+
+/** WebCodecsに渡すコーデック文字列 */
+const CODEC = "vp8";
+/** ピクセル画は細部が多いので、画素数に対して高めのビットレートにする */
+const BITS_PER_PIXEL_PER_FRAME = 0.5;
+
+/** WebCodecsのVideoEncoderが使える環境か */
+export function isWebCodecsVideoSupported(): boolean {
+  return (
+    typeof VideoEncoder !== "undefined" && typeof VideoFrame !== "undefined"
+  );
+}
+
+/**
+ * WebCodecs（VideoEncoder）でVP8に圧縮するエンコーダー
+ * 圧縮は非同期に進むため、finishでflushを待ってからチャンクを返す
+ */
+export class WebCodecsVideoEncoder implements VideoChunkEncoder {
+  readonly codecId = "V_VP8";
+  private encoder: VideoEncoder | null = null;
+  private chunks: VideoChunk[] = [];
+  private error: Error | null = null;
+
+  begin(width: number, height: number, fps: number): void {
+    if (!isWebCodecsVideoSupported()) {
+      throw new Error("WebCodecs VideoEncoder is not supported");
+    }
+    this.chunks = [];
+    this.error = null;
+    this.encoder = new VideoEncoder({
+      output: (chunk) => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        this.chunks.push({
+          data,
+          timestampMs: chunk.timestamp / 1000,
+          keyFrame: chunk.type === "key",
+        });
+      },
+      error: (error) => {
+        this.error = error;
+      },
+    });
+    this.encoder.configure({
+      codec: CODEC,
+      width,
+      height,
+      framerate: fps,
+      bitrate: Math.round(width * height * fps * BITS_PER_PIXEL_PER_FRAME),
+    });
+  }
+
+  encodeFrame(
+    imageData: ImageData,
+    timestampMs: number,
+    keyFrame: boolean,
+  ): void {
+    if (!this.encoder) {
+      throw new Error("VideoEncoder is not started. Call begin() first.");
+    }
+    const frame = new VideoFrame(imageData.data, {
+      format: "RGBA",
+      codedWidth: imageData.width,
+      codedHeight: imageData.height,
+      // WebCodecsの時刻はマイクロ秒
+      timestamp: Math.round(timestampMs * 1000),
+    });
+    try {
+      this.encoder.encode(frame, { keyFrame });
+    } finally {
+      frame.close();
+    }
+  }
+
+  async finish(): Promise<VideoChunk[]> {
+    if (!this.encoder) {
+      throw new Error("VideoEncoder is not started. Call begin() first.");
+    }
+    try {
+      await this.encoder.flush();
+    } finally {
+      this.encoder.close();
+      this.encoder = null;
+    }
+    if (this.error) throw this.error;
+    return [...this.chunks].sort((a, b) => a.timestampMs - b.timestampMs);
+  }
+}
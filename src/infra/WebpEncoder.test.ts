@@ -0,0 +1,239 @@
+import { WebpEncoder } from "@/infra/WebpEncoder";
+import {
+  createImageData,
+  parseRiffChunks,
+  readBlob,
+} from "@/testUtils/imageHelpers";
+
+function getUint24(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+}
+
+/** 下位ビットから読むビット列 */
+class BitReader {
+  private position = 0;
+  constructor(private bytes: Uint8Array) {}
+
+  readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const bit = (this.bytes[this.position >> 3] >> (this.position & 7)) & 1;
+      value |= bit << i;
+      this.position++;
+    }
+    return value;
+  }
+}
+
+/** 符号長から作った正準ハフマン符号の表 */
+type HuffmanTable = { single: number | null; codes: Map<string, number> };
+
+function buildTable(lengths: number[]): HuffmanTable {
+  const used = lengths.flatMap((length, symbol) =>
+    length > 0 ? [symbol] : [],
+  );
+  if (used.length === 1) return { single: used[0], codes: new Map() };
+  const codes = new Map<string, number>();
+  let code = 0;
+  for (let length = 1; length <= 15; length++) {
+    for (const [symbol, symbolLength] of lengths.entries()) {
+      if (symbolLength === length) {
+        codes.set(`${length}:${code}`, symbol);
+        code++;
+      }
+    }
+    code <<= 1;
+  }
+  return { single: null, codes };
+}
+
+function readSymbol(reader: BitReader, table: HuffmanTable): number {
+  if (table.single !== null) return table.single;
+  let code = 0;
+  for (let length = 1; length <= 15; length++) {
+    code = (code << 1) | reader.readBits(1);
+    const symbol = table.codes.get(`${length}:${code}`);
+    if (symbol !== undefined) return symbol;
+  }
+  throw new Error("invalid huffman code");
+}
+
+const CODE_LENGTH_ORDER = [
+  17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15,
+];
+
+function readHuffmanCode(reader: BitReader, alphabetSize: number) {
+  const lengths = new Array<number>(alphabetSize).fill(0);
+  if (reader.readBits(1)) {
+    const numSymbols = reader.readBits(1) + 1;
+    const first = reader.readBits(reader.readBits(1) ? 8 : 1);
+    lengths[first] = 1;
+    if (numSymbols === 2) lengths[reader.readBits(8)] = 1;
+    return buildTable(lengths);
+  }
+  const codeLengthLengths = new Array<number>(19).fill(0);
+  const numCodes = reader.readBits(4) + 4;
+  for (let i = 0; i < numCodes; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+  }
+  const codeLengthTable = buildTable(codeLengthLengths);
+  expect(reader.readBits(1)).toBe(0);
+  for (let symbol = 0; symbol < alphabetSize; symbol++) {
+    const length = readSymbol(reader, codeLengthTable);
+    expect(length).toBeLessThan(16);
+    lengths[symbol] = length;
+  }
+  return buildTable(lengths);
+}
+
+function readPrefixedValue(reader: BitReader, prefix: number): number {
+  if (prefix < 4) return prefix + 1;
+  const extraBits = (prefix - 2) >> 1;
+  const offset = (2 + (prefix & 1)) << extraBits;
+  return offset + reader.readBits(extraBits) + 1;
+}
+
+/** テスト用のVP8Lデコーダー（このエンコーダーが使う機能だけに対応） */
+function decodeVp8l(bytes: Uint8Array) {
+  const reader = new BitReader(bytes);
+  expect(reader.readBits(8)).toBe(0x2f);
+  const width = reader.readBits(14) + 1;
+  const height = reader.readBits(14) + 1;
+  reader.readBits(1);
+  expect(reader.readBits(3)).toBe(0);
+  expect(reader.readBits(1)).toBe(0);
+  expect(reader.readBits(1)).toBe(0);
+  expect(reader.readBits(1)).toBe(0);
+
+  const green = readHuffmanCode(reader, 280);
+  const red = readHuffmanCode(reader, 256);
+  const blue = readHuffmanCode(reader, 256);
+  const alpha = readHuffmanCode(reader, 256);
+  const distance = readHuffmanCode(reader, 40);
+
+  const pixels: number[][] = [];
+  while (pixels.length < width * height) {
+    const g = readSymbol(reader, green);
+    if (g < 256) {
+      const r = readSymbol(reader, red);
+      const b = readSymbol(reader, blue);
+      const a = readSymbol(reader, alpha);
+      pixels.push([r, g, b, a]);
+      continue;
+    }
+    const length = readPrefixedValue(reader, g - 256);
+    const distanceCode = readPrefixedValue(
+      reader,
+      readSymbol(reader, distance),
+    );
+    const offset =
+      distanceCode > 120
+        ? distanceCode - 120
+        : distanceCode === 1
+          ? width
+          : distanceCode === 2
+            ? 1
+            : Number.NaN;
+    expect(offset).toBeGreaterThan(0);
+    for (let i = 0; i < length; i++) {
+      pixels.push(pixels[pixels.length - offset]);
+    }
+  }
+  return { width, height, pixels };
+}
+
+/** アニメーションWebPを展開してフレームごとの表示時間とピクセルを取り出す */
+async function decodeWebp(blob: Blob) {
+  const bytes = await readBlob(blob);
+  expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe("RIFF");
+  expect(new DataView(bytes.buffer).getUint32(4, true)).toBe(bytes.length - 8);
+  expect(String.fromCharCode(...bytes.subarray(8, 12))).toBe("WEBP");
+  const chunks = parseRiffChunks(bytes.subarray(12));
+  const header = chunks[0].data;
+  return {
+    types: chunks.map((chunk) => chunk.type),
+    flags: header[0],
+    width: getUint24(header, 4) + 1,
+    height: getUint24(header, 7) + 1,
+    frames: chunks
+      .filter((chunk) => chunk.type === "ANMF")
+      .map(({ data }) => {
+        const [image] = parseRiffChunks(data.subarray(16));
+        expect(image.type).toBe("VP8L");
+        const decoded = decodeVp8l(image.data);
+        expect(decoded.width).toBe(getUint24(data, 6) + 1);
+        expect(decoded.height).toBe(getUint24(data, 9) + 1);
+        return {
+          delayMs: getUint24(data, 12),
+          noBlend: (data[15] & 0x02) !== 0,
+          pixels: decoded.pixels,
+        };
+      }),
+  };
+}
+
+describe("WebpEncoder", () => {
+  test("フレーム数・表示時間・ピクセルの色をそのまま保存する", async () => {
+    const first = [
+      [0x12, 0x34, 0x56, 255],
+      [0xfe, 0xdc, 0xba, 255],
+      [0, 0, 0, 0],
+      [0x80, 0x40, 0x20, 128],
+      [0x12, 0x34, 0x56, 255],
+      [3, 1, 4, 255],
+    ];
+    const second = [
+      [1, 2, 3, 255],
+      [1, 2, 3, 255],
+      [1, 2, 3, 255],
+      [1, 2, 3, 255],
+      [250, 251, 252, 255],
+      [1, 2, 3, 255],
+    ];
+    const encoder = new WebpEncoder();
+    encoder.begin(3, 2, 10);
+    encoder.addFrame(createImageData(3, 2, first), 150);
+    encoder.addFrame(createImageData(3, 2, second));
+
+    const blob = await encoder.finish();
+    expect(blob.type).toBe("image/webp");
+    const webp = await decodeWebp(blob);
+
+    expect(webp.types).toEqual(["VP8X", "ANIM", "ANMF", "ANMF"]);
+    expect(webp.flags).toBe(0x12);
+    expect(webp.width).toBe(3);
+    expect(webp.height).toBe(2);
+    expect(webp.frames.map((frame) => frame.delayMs)).toEqual([150, 100]);
+    expect(webp.frames.every((frame) => frame.noBlend)).toBe(true);
+    expect(webp.frames[0].pixels).toEqual(first);
+    expect(webp.frames[1].pixels).toEqual(second);
+  });
+
+  test("色数の多い画像や繰り返しの多い画像も正しく復元できる", async () => {
+    const width = 64;
+    const height = 48;
+    const gradient = Array.from({ length: width * height }, (_, i) => [
+      i & 0xff,
+      (i * 7) & 0xff,
+      (i * 13) & 0xff,
+      255,
+    ]);
+    const lines = Array.from({ length: width * height }, (_, i) =>
+      i % width === Math.floor(i / width) || i % 97 === 0
+        ? [10, 20, 30, 255]
+        : [255, 255, 240, 255],
+    );
+    const encoder = new WebpEncoder();
+    encoder.begin(width, height, 10);
+    encoder.addFrame(createImageData(width, height, gradient));
+    encoder.addFrame(createImageData(width, height, lines));
+
+    const blob = await encoder.finish();
+    const webp = await decodeWebp(blob);
+
+    // 不透明なフレームだけならアルファのフラグは立てない
+    expect(webp.flags).toBe(0x02);
+    expect(webp.frames[0].pixels).toEqual(gradient);
+    expect(webp.frames[1].pixels).toEqual(lines);
+  });
+});
@@ -0,0 +1,108 @@
+import type { AnimationEncoder } from "@/engine/ports";
+import { encodeVp8l } from "@/infra/vp8l";
+
+/** VP8Xチャンクのフラグ */
+const VP8X_FLAG_ALPHA = 0x10;
+const VP8X_FLAG_ANIMATION = 0x02;
+/** ANMFのフラグ: 前のフレームと混ぜずに置き換える */
+const ANMF_FLAG_NO_BLEND = 0x02;
+
+/** 符号化済みのフレーム */
+type EncodedFrame = {
+  bitstream: Uint8Array;
+  delayMs: number;
+  hasAlpha: boolean;
+};
+
+/** 24ビットのリトルエンディアン整数を書き込む */
+function setUint24(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >> 8) & 0xff;
+  bytes[offset + 2] = (value >> 16) & 0xff;
+}
+
+/** 種別・長さ・データ（奇数長は1バイト詰める）からなるRIFFチャンクを組み立てる */
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  for (let i = 0; i < 4; i++) chunk[i] = type.charCodeAt(i);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+/** いずれかのピクセルが半透明か */
+function hasTransparency(imageData: ImageData): boolean {
+  const { data } = imageData;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 255) return true;
+  }
+  return false;
+}
+
+/**
+ * アニメーションWebPエンコーダー
+ * 各フレームを可逆圧縮（VP8L）で保存するため、パレットの色も透明もずれない
+ */
+export class WebpEncoder implements AnimationEncoder {
+  private width = 0;
+  private height = 0;
+  private delayMs = 0;
+  private frames: EncodedFrame[] = [];
+
+  begin(width: number, height: number, fps: number): void {
+    this.width = width;
+    this.height = height;
+    this.delayMs = Math.round(1000 / fps);
+    this.frames = [];
+  }
+
+  addFrame(imageData: ImageData, delayMs?: number): void {
+    if (imageData.width !== this.width || imageData.height !== this.height) {
+      throw new Error("Frame size does not match the animation size");
+    }
+    this.frames.push({
+      bitstream: encodeVp8l(imageData),
+      delayMs: delayMs ?? this.delayMs,
+      hasAlpha: hasTransparency(imageData),
+    });
+  }
+
+  async finish(): Promise<Blob> {
+    if (this.frames.length === 0) {
+      throw new Error("WebP needs at least one frame");
+    }
+    const chunks: Uint8Array[] = [];
+
+    const header = new Uint8Array(10);
+    header[0] = VP8X_FLAG_ANIMATION;
+    if (this.frames.some((frame) => frame.hasAlpha)) {
+      header[0] |= VP8X_FLAG_ALPHA;
+    }
+    setUint24(header, 4, this.width - 1);
+    setUint24(header, 7, this.height - 1);
+    chunks.push(createChunk("VP8X", header));
+
+    // 背景色は透明（BGRA）、ループ回数0は無限ループ
+    chunks.push(createChunk("ANIM", new Uint8Array(6)));
+
+    for (const frame of this.frames) {
+      const image = createChunk("VP8L", frame.bitstream);
+      const data = new Uint8Array(16 + image.length);
+      // フレーム位置(0, 0)は初期値のまま
+      setUint24(data, 6, this.width - 1);
+      setUint24(data, 9, this.height - 1);
+      setUint24(data, 12, frame.delayMs);
+      data[15] = ANMF_FLAG_NO_BLEND;
+      data.set(image, 16);
+      chunks.push(createChunk("ANMF", data));
+    }
+
+    const bodyLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const riff = new Uint8Array(12);
+    riff.set([0x52, 0x49, 0x46, 0x46]); // "RIFF"
+    new DataView(riff.buffer).setUint32(4, 4 + bodyLength, true);
+    riff.set([0x57, 0x45, 0x42, 0x50], 8); // "WEBP"
+
+    return new Blob([riff, ...chunks] as BlobPart[], { type: "image/webp" });
+  }
+}
@@ -0,0 +1,67 @@
+import { assertNever } from "@/core/assertNever";
+import type { AnimationEncoder } from "@/engine/ports";
+import { ApngEncoder } from "@/infra/ApngEncoder";
+import { GifEncGifEncoder } from "@/infra/GifEncGifEncoder";
+import { SvgEncoder } from "@/infra/SvgEncoder";
+import { WebpEncoder } from "@/infra/WebpEncoder";
+
+/** 書き出せるアニメーション画像の形式 */
+export type AnimationFormat = "gif" | "apng" | "webp" | "svg";
+
+/** 形式ごとの表示名・拡張子・MIMEタイプ */
+export type AnimationFormatInfo = {
+  format: AnimationFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+};
+
+/** 選択肢として並べる順の形式一覧 */
+export const ANIMATION_FORMATS: readonly AnimationFormatInfo[] = [
+  { format: "gif", label: "GIF", extension: "gif", mimeType: "image/gif" },
+  { format: "apng", label: "APNG", extension: "png", mimeType: "image/png" },
+  { format: "webp", label: "WebP", extension: "webp", mimeType: "image/webp" },
+  { format: "svg", label: "SVG", extension: "svg", mimeType: "image/svg+xml" },
+];
+
+export const DEFAULT_ANIMATION_FORMAT: AnimationFormat = "gif";
+
+/** 形式の情報を取得する */
+export function getAnimationFormatInfo(
+  format: AnimationFormat,
+): AnimationFormatInfo {
+  return (
+    ANIMATION_FORMATS.find((info) => info.format === format) ??
+    ANIMATION_FORMATS[0]
+  );
+}
+
+/**
+ * 形式に合ったエンコーダーを作る
+ * GIFは256色に減色するため、半透明を背景色でフラット化してから渡す
+ * 背景を透明にする場合、APNG/WebP/SVGはアルファをそのまま保存し、GIFは透明の色番号で書く
+ */
+export function createAnimationEncoder(
+  format: AnimationFormat,
+  {
+    backgroundColor,
+    transparentBackground = false,
+  }: { backgroundColor: string; transparentBackground?: boolean },
+): AnimationEncoder {
+  switch (format) {
+    case "apng":
+      return new ApngEncoder();
+    case "webp":
+      return new WebpEncoder();
+    case "svg":
+      return new SvgEncoder();
+    case "gif": {
+      const encoder = new GifEncGifEncoder();
+      encoder.setBackgroundColor(backgroundColor);
+      encoder.setTransparentBackground(transparentBackground);
+      return encoder;
+    }
+    default:
+      return assertNever(format);
+  }
+}
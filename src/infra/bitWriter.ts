@@ -0,0 +1,45 @@
+/** 下位ビットから詰めていくビット列の書き込み */
+export class BitWriter {
+  private bytes = new Uint8Array(1024);
+  private length = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  writeBits(value: number, count: number): void {
+    this.bitBuffer |= value << this.bitCount;
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      this.pushByte(this.bitBuffer & 0xff);
+      this.bitBuffer >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  /** ハフマン符号は上位ビットから書く決まり（deflate・VP8L共通）なので反転して詰める */
+  writeCode(code: number, count: number): void {
+    let reversed = 0;
+    for (let i = 0; i < count; i++) {
+      reversed = (reversed << 1) | ((code >> i) & 1);
+    }
+    this.writeBits(reversed, count);
+  }
+
+  pushByte(value: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value;
+  }
+
+  /** 端数ビットを0で埋めて書き出す */
+  flush(): Uint8Array {
+    if (this.bitCount > 0) {
+      this.pushByte(this.bitBuffer & 0xff);
+      this.bitBuffer = 0;
+      this.bitCount = 0;
+    }
+    return this.bytes.subarray(0, this.length);
+  }
+}
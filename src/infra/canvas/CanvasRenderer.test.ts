@@ -1,7 +1,8 @@
 import { beforeEach, describe, expect, test, vi } from "vitest";
+import { DEFAULT_ANIMATION_SETTINGS } from "@/core/animation";
 import type { JitterConfig } from "@/core/jitter";
+import { createDrawing } from "@/core/layers";
 import type { Drawing, Stroke } from "@/core/types";
-import { CYCLE_COUNT } from "@/engine/renderingConstants";
 import { CanvasRenderer } from "@/infra/canvas/CanvasRenderer";
 
 /** テスト用のキャンバスを生成する */
@@ -14,11 +15,7 @@ function createTestCanvas(): HTMLCanvasElement {
 
 /** テスト用のDrawingを生成する */
 function createTestDrawing(strokes: Stroke[] = []): Drawing {
-  return {
-    width: 100,
-    height: 100,
-    strokes,
-  };
+  return createDrawing(100, 100, strokes);
 }
 
 /** テスト用のストロークを生成する */
@@ -147,7 +144,7 @@ describe("CanvasRenderer (cycle bitmap cache)", () => {
       renderer.getCycleBitmap({
         drawing,
         drawingRevision: 1,
-        cycleIndex: CYCLE_COUNT,
+        cycleIndex: DEFAULT_ANIMATION_SETTINGS.cycleCount,
         jitterConfig: defaultJitterConfig,
         elapsedTimeMs: 0,
       }),
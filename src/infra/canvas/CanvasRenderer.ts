@@ -1,35 +1,73 @@
+import {
+  type AnimationSettings,
+  DEFAULT_ANIMATION_SETTINGS,
+} from "@/core/animation";
+import type { FillRun } from "@/core/fill";
 import type { JitterConfig } from "@/core/jitter";
-import type { Drawing, Stroke } from "@/core/types";
+import { getVisibleLayers } from "@/core/layers";
+import type { RasterColor, RasterImage } from "@/core/rasterImport";
+import { applyJitterToStroke } from "@/core/strokeJitter";
+import type { BrushColor, Drawing, Layer, Stroke } from "@/core/types";
 import type {
+  AnimationRenderer,
+  ColorPickRenderer,
+  ColorTableRenderer,
+  CompositeRenderer,
   DrawingRenderer,
   GetCycleBitmapParams,
+  LayerRenderer,
   PaletteRenderer,
+  RgbColor,
+  StrokeFootprintRenderer,
 } from "@/engine/ports";
-import { CYCLE_COUNT, CYCLE_INTERVAL_MS } from "@/engine/renderingConstants";
 import { CycleBitmapCache } from "@/infra/canvas/CycleBitmapCache";
 import { FrameBuilder } from "@/infra/canvas/FrameBuilder";
 import { ImageDataBuffer } from "@/infra/canvas/ImageDataBuffer";
 import { StrokeChangeTracker } from "@/infra/canvas/StrokeChangeTracker";
-import { renderStroke } from "@/infra/canvas/strokeRendering";
+import {
+  getStrokeFootprint,
+  renderStroke,
+} from "@/infra/canvas/strokeRendering";
 import type { CanvasRendererOptions, FrameKey } from "@/infra/canvas/types";
+import { findBrushColor, parseColorToRgb } from "@/infra/colorUtil";
 
 /** undo/redoの体感を優先しつつメモリを抑えるための保持数 */
 const MAX_DRAWING_CACHE_ENTRIES = 6;
-/** LRUに保持するImageBitmap数（cycle枚数込み） */
-const MAX_BITMAP_CACHE_ENTRIES = MAX_DRAWING_CACHE_ENTRIES * CYCLE_COUNT;
 
 /**
  * ImageBitmapのcycleキャッシュを使うCanvasレンダラー。
  * キャッシュ参照の制御を行い、実描画は各ヘルパーに委譲する。
  */
-export class CanvasRenderer implements DrawingRenderer, PaletteRenderer {
+export class CanvasRenderer
+  implements
+    DrawingRenderer,
+    PaletteRenderer,
+    LayerRenderer,
+    AnimationRenderer,
+    ColorTableRenderer,
+    StrokeFootprintRenderer,
+    CompositeRenderer,
+    ColorPickRenderer
+{
   private ctx: CanvasRenderingContext2D;
+  private backgroundColor: string;
+  /** 背景を透明にするか（表示用とcycleごとのバッファに反映する） */
+  private transparentBackground: boolean;
   private displayBuffer: ImageDataBuffer;
+  /** beginLayer〜endLayerの間にストロークを描く透明バッファ */
+  private layerBuffer: ImageDataBuffer;
+  /** renderStrokeの描画先 */
+  private activeBuffer: ImageDataBuffer;
   private cycleBuffers: ImageDataBuffer[];
+  private cycleLayerBuffers: ImageDataBuffer[];
+  /** renderCompositeで揺れなしの描画を重ねるバッファ（表示用とは分ける） */
+  private compositeBuffer: ImageDataBuffer;
+  private compositeLayerBuffer: ImageDataBuffer;
   private frameBuilders: FrameBuilder[];
   private cycleCache: CycleBitmapCache;
   private renderCacheEpoch = 0;
-  private cycleIntervalMs = CYCLE_INTERVAL_MS;
+  private cycleCount: number;
+  private cycleIntervalMs: number;
   private paletteColors: string[];
   /** Drawing参照に安定IDを付け、undo/redoで同じ状態を再利用できるようにする */
   private drawingIds = new WeakMap<Drawing, number>();
@@ -37,32 +75,73 @@ export class CanvasRenderer implements DrawingRenderer, PaletteRenderer {
 
   constructor(options: CanvasRendererOptions) {
     this.ctx = options.ctx;
+    this.transparentBackground = options.transparentBackground ?? false;
     this.displayBuffer = new ImageDataBuffer({
       ctx: options.ctx,
       backgroundColor: options.backgroundColor,
+      transparent: this.transparentBackground,
     });
-    this.cycleBuffers = Array.from(
-      { length: CYCLE_COUNT },
-      () =>
-        new ImageDataBuffer({
-          ctx: options.ctx,
-          backgroundColor: options.backgroundColor,
-        }),
-    );
-    this.frameBuilders = this.cycleBuffers.map(
-      (buffer) => new FrameBuilder({ buffer }),
-    );
-    this.cycleCache = new CycleBitmapCache({
-      cycleCount: CYCLE_COUNT,
-      createTracker: () => new StrokeChangeTracker(),
-      maxEntries: MAX_BITMAP_CACHE_ENTRIES,
+    this.layerBuffer = new ImageDataBuffer({
+      ctx: options.ctx,
+      backgroundColor: options.backgroundColor,
+      transparent: true,
     });
+    this.compositeBuffer = new ImageDataBuffer({
+      ctx: options.ctx,
+      backgroundColor: options.backgroundColor,
+      transparent: this.transparentBackground,
+    });
+    this.compositeLayerBuffer = new ImageDataBuffer({
+      ctx: options.ctx,
+      backgroundColor: options.backgroundColor,
+      transparent: true,
+    });
+    this.activeBuffer = this.displayBuffer;
+    this.backgroundColor = options.backgroundColor;
+    const animation = options.animation ?? DEFAULT_ANIMATION_SETTINGS;
+    this.cycleCount = animation.cycleCount;
+    this.cycleIntervalMs = animation.cycleIntervalMs;
+    this.cycleBuffers = this.createCycleBuffers({
+      transparent: this.transparentBackground,
+    });
+    this.cycleLayerBuffers = this.createCycleBuffers({ transparent: true });
+    this.frameBuilders = this.createFrameBuilders();
+    this.cycleCache = this.createCycleCache();
     this.paletteColors = [...options.paletteColors];
   }
 
+  /**
+   * ぶるぶるのコマ数・間隔を変更する
+   * コマ数が変わった場合はcycleごとのバッファとキャッシュを作り直す
+   */
+  setAnimationSettings(settings: AnimationSettings): void {
+    if (
+      settings.cycleCount === this.cycleCount &&
+      settings.cycleIntervalMs === this.cycleIntervalMs
+    ) {
+      return;
+    }
+    if (settings.cycleCount !== this.cycleCount) {
+      this.cycleCache.resetAll();
+      this.cycleCount = settings.cycleCount;
+      this.cycleBuffers = this.createCycleBuffers({
+        transparent: this.transparentBackground,
+      });
+      this.cycleLayerBuffers = this.createCycleBuffers({ transparent: true });
+      this.frameBuilders = this.createFrameBuilders();
+      this.cycleCache = this.createCycleCache();
+    }
+    this.cycleIntervalMs = settings.cycleIntervalMs;
+    this.invalidateCache();
+  }
+
   setBackgroundColor(backgroundColor: string): void {
+    this.backgroundColor = backgroundColor;
     this.displayBuffer.setBackgroundColor({ backgroundColor });
-    for (const buffer of this.cycleBuffers) {
+    this.layerBuffer.setBackgroundColor({ backgroundColor });
+    this.compositeBuffer.setBackgroundColor({ backgroundColor });
+    this.compositeLayerBuffer.setBackgroundColor({ backgroundColor });
+    for (const buffer of [...this.cycleBuffers, ...this.cycleLayerBuffers]) {
       buffer.setBackgroundColor({ backgroundColor });
     }
     this.invalidateCache();
@@ -70,6 +149,7 @@ export class CanvasRenderer implements DrawingRenderer, PaletteRenderer {
 
   clear(width: number, height: number): void {
     this.displayBuffer.clear({ width, height });
+    this.activeBuffer = this.displayBuffer;
     this.invalidateCache();
   }
 
@@ -81,21 +161,93 @@ export class CanvasRenderer implements DrawingRenderer, PaletteRenderer {
     this.paletteColors = [...palette];
   }
 
+  /** ストロークが揺れなしで塗るピクセル */
+  getStrokeFootprint(stroke: Stroke): { x: number; y: number }[] {
+    return getStrokeFootprint(stroke);
+  }
+
+  /** 色をパレットの色番号（無ければ固定色）に戻す */
+  toBrushColor(rgb: RasterColor): BrushColor {
+    return findBrushColor({ rgb, palette: this.paletteColors });
+  }
+
+  /**
+   * 表示中のレイヤーを揺れなしで重ねたピクセル
+   * 表示用のバッファには触れないため、描画中の画面はそのまま残る
+   */
+  renderComposite(drawing: Drawing): RasterImage {
+    const size = { width: drawing.width, height: drawing.height };
+    this.compositeBuffer.clear(size);
+    for (const layer of getVisibleLayers(drawing)) {
+      this.renderLayerWithoutJitter(layer, size);
+      this.compositeBuffer.compositeFrom(this.compositeLayerBuffer);
+    }
+    return this.compositeBuffer.getImageData();
+  }
+
+  /** 1レイヤー分のストロークを揺れなしで透明なバッファに描く */
+  private renderLayerWithoutJitter(
+    layer: Layer,
+    size: { width: number; height: number },
+  ): void {
+    this.compositeLayerBuffer.clear(size);
+    for (const stroke of layer.strokes) {
+      renderStroke({
+        context: this.compositeLayerBuffer,
+        palette: this.paletteColors,
+        stroke,
+        jitteredPoints: applyJitterToStroke({
+          stroke,
+          elapsedTimeMs: 0,
+          jitterConfig: { amplitude: 0, frequency: 1 },
+        }),
+        elapsedTimeMs: 0,
+      });
+    }
+  }
+
+  /**
+   * パレットの各色と背景色（固定色のストロークは含まない）
+   * 背景が透明な場合は背景色を含めない
+   */
+  getColorTable(): RgbColor[] {
+    const colors = this.paletteColors.map((color) => {
+      const rgb = parseColorToRgb(color);
+      return { r: rgb.r, g: rgb.g, b: rgb.b };
+    });
+    if (this.transparentBackground) return colors;
+    const { r, g, b } = this.displayBuffer.getBackgroundColorRgba();
+    return [...colors, { r, g, b }];
+  }
+
+  beginLayer(): void {
+    this.layerBuffer.clear(this.displayBuffer.getSize());
+    this.activeBuffer = this.layerBuffer;
+  }
+
+  endLayer(): void {
+    this.displayBuffer.compositeFrom(this.layerBuffer);
+    this.activeBuffer = this.displayBuffer;
+  }
+
   renderStroke({
     stroke,
     jitteredPoints,
     elapsedTimeMs,
+    fillRuns,
   }: {
     stroke: Stroke;
     jitteredPoints: { x: number; y: number }[];
     elapsedTimeMs: number;
+    fillRuns?: FillRun[];
   }): void {
     renderStroke({
-      context: this.displayBuffer,
+      context: this.activeBuffer,
       palette: this.paletteColors,
       stroke,
       jitteredPoints,
       elapsedTimeMs,
+      fillRuns,
     });
   }
 
@@ -127,7 +279,7 @@ export class CanvasRenderer implements DrawingRenderer, PaletteRenderer {
   }
 
   getCycleCount(): number {
-    return CYCLE_COUNT;
+    return this.cycleCount;
   }
 
   /**
@@ -198,6 +350,8 @@ export class CanvasRenderer implements DrawingRenderer, PaletteRenderer {
       }
 
       const renderCacheEpoch = this.renderCacheEpoch;
+      // 生成中にコマ数が変わってキャッシュが作り直されても、元のキャッシュの登録を外す
+      const cycleCache = this.cycleCache;
       const buildPromise = this.buildAndCommitCycleBitmap({
         key,
         cacheKey,
@@ -208,10 +362,10 @@ export class CanvasRenderer implements DrawingRenderer, PaletteRenderer {
         frameBuilder,
         renderCacheEpoch,
       }).finally(() => {
-        this.cycleCache.clearInFlight({ cycleIndex });
+        cycleCache.clearInFlight({ cycleIndex });
       });
 
-      this.cycleCache.setInFlight({ key, promise: buildPromise });
+      cycleCache.setInFlight({ key, promise: buildPromise });
 
       const bitmap = await buildPromise;
       return await this.cloneBitmap({ bitmap });
@@ -326,13 +480,46 @@ export class CanvasRenderer implements DrawingRenderer, PaletteRenderer {
   }
 
   private assertCycleIndex({ cycleIndex }: { cycleIndex: number }): void {
-    if (cycleIndex < 0 || cycleIndex >= CYCLE_COUNT) {
+    if (cycleIndex < 0 || cycleIndex >= this.cycleCount) {
       throw new Error(
-        `cycleIndex must be between 0 and ${CYCLE_COUNT - 1}, got ${cycleIndex}`,
+        `cycleIndex must be between 0 and ${this.cycleCount - 1}, got ${cycleIndex}`,
       );
     }
   }
 
+  /** cycleごとの描画先バッファを生成する */
+  private createCycleBuffers({
+    transparent,
+  }: {
+    transparent: boolean;
+  }): ImageDataBuffer[] {
+    return Array.from(
+      { length: this.cycleCount },
+      () =>
+        new ImageDataBuffer({
+          ctx: this.ctx,
+          backgroundColor: this.backgroundColor,
+          transparent,
+        }),
+    );
+  }
+
+  private createFrameBuilders(): FrameBuilder[] {
+    return this.cycleBuffers.map(
+      (buffer, i) =>
+        new FrameBuilder({ buffer, layerBuffer: this.cycleLayerBuffers[i] }),
+    );
+  }
+
+  private createCycleCache(): CycleBitmapCache {
+    return new CycleBitmapCache({
+      cycleCount: this.cycleCount,
+      createTracker: () => new StrokeChangeTracker(),
+      // LRUに保持するImageBitmap数（cycle枚数込み）
+      maxEntries: MAX_DRAWING_CACHE_ENTRIES * this.cycleCount,
+    });
+  }
+
   private getJitterKey({
     jitterConfig,
   }: {
@@ -1,4 +1,5 @@
 import { describe, expect, test, vi } from "vitest";
+import { createDrawing } from "@/core/layers";
 import type { Drawing, Stroke } from "@/core/types";
 import { CycleBitmapCache } from "@/infra/canvas/CycleBitmapCache";
 import { StrokeChangeTracker } from "@/infra/canvas/StrokeChangeTracker";
@@ -32,12 +33,8 @@ function createStroke(
 }
 
 /** テスト用のDrawingを生成する */
-function createDrawing(strokes: Stroke[]): Drawing {
-  return {
-    width: 100,
-    height: 100,
-    strokes,
-  };
+function createTestDrawing(strokes: Stroke[]): Drawing {
+  return createDrawing(100, 100, strokes);
 }
 
 describe("CycleBitmapCache", () => {
@@ -146,7 +143,9 @@ describe("CycleBitmapCache", () => {
       createTracker: () => new StrokeChangeTracker(),
       maxEntries: 6,
     });
-    const drawing = createDrawing([createStroke("s1", [{ x: 1, y: 1, t: 0 }])]);
+    const drawing = createTestDrawing([
+      createStroke("s1", [{ x: 1, y: 1, t: 0 }]),
+    ]);
     const tracker = cache.getTracker({ cycleIndex: 0 });
     tracker.sync({ drawing });
 
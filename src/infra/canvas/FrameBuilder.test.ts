@@ -1,5 +1,6 @@
-import { describe, expect, test, vi } from "vitest";
+import { beforeEach, describe, expect, test, vi } from "vitest";
 import type { JitterConfig } from "@/core/jitter";
+import { createDrawing, createLayer } from "@/core/layers";
 import type { Drawing, Stroke } from "@/core/types";
 import { FrameBuilder } from "@/infra/canvas/FrameBuilder";
 import type { ImageDataBuffer } from "@/infra/canvas/ImageDataBuffer";
@@ -9,7 +10,40 @@ vi.mock("@/infra/canvas/strokeRendering", () => ({
   renderStroke: vi.fn(),
 }));
 
+/** テスト用のストロークを生成する */
+function createStroke(id: string): Stroke {
+  return {
+    id,
+    kind: "draw",
+    brush: {
+      kind: "solid",
+      color: { kind: "palette", index: 0 },
+      width: 2,
+      opacity: 1,
+      variant: "penCircle",
+    },
+    points: [{ x: 0, y: 0, t: 0 }],
+  };
+}
+
+/** 呼び出しを記録するバッファモックを生成する */
+function createBufferMock() {
+  return {
+    clear: vi.fn(),
+    compositeFrom: vi.fn(),
+    createBitmap: vi.fn(async () => ({
+      width: 1,
+      height: 1,
+      close: () => {},
+    })),
+  };
+}
+
 describe("FrameBuilder", () => {
+  beforeEach(() => {
+    vi.mocked(renderStroke).mockClear();
+  });
+
   test("差分描画では新規ポイントのみのストロークを渡す", async () => {
     const buffer = {
       loadFromBitmap: vi.fn(),
@@ -20,7 +54,9 @@ describe("FrameBuilder", () => {
       })),
     } as unknown as ImageDataBuffer;
 
-    const frameBuilder = new FrameBuilder({ buffer });
+    const layerBuffer = {} as ImageDataBuffer;
+
+    const frameBuilder = new FrameBuilder({ buffer, layerBuffer });
 
     const stroke: Stroke = {
       id: "s1",
@@ -39,11 +75,7 @@ describe("FrameBuilder", () => {
       ],
     };
 
-    const drawing: Drawing = {
-      width: 10,
-      height: 10,
-      strokes: [stroke],
-    };
+    const drawing: Drawing = createDrawing(10, 10, [stroke]);
 
     const jitterConfig: JitterConfig = { amplitude: 0, frequency: 1 };
     const baseBitmap = {
@@ -69,4 +101,58 @@ describe("FrameBuilder", () => {
     expect(usedStroke.points.length).toBe(jitteredPoints.length);
     expect(usedStroke.points.length).toBe(2);
   });
+
+  test("複数レイヤーは表示中のものだけレイヤーバッファに描いて重ねる", async () => {
+    const buffer = createBufferMock();
+    const layerBuffer = createBufferMock();
+    const frameBuilder = new FrameBuilder({
+      buffer: buffer as unknown as ImageDataBuffer,
+      layerBuffer: layerBuffer as unknown as ImageDataBuffer,
+    });
+    const drawing: Drawing = {
+      width: 10,
+      height: 10,
+      layers: [
+        createLayer("a", "A", [createStroke("a1")]),
+        { ...createLayer("b", "B", [createStroke("b1")]), visible: false },
+        createLayer("c", "C", [createStroke("c1")]),
+      ],
+    };
+
+    await frameBuilder.buildFromScratch({
+      drawing,
+      cycleElapsedTimeMs: 0,
+      jitterConfig: { amplitude: 0, frequency: 1 },
+      palette: ["#000000"],
+    });
+
+    expect(layerBuffer.clear).toHaveBeenCalledTimes(2);
+    expect(buffer.compositeFrom).toHaveBeenCalledTimes(2);
+    const calls = vi.mocked(renderStroke).mock.calls;
+    expect(calls.map(([params]) => params.stroke.id)).toEqual(["a1", "c1"]);
+    expect(
+      calls.every(([params]) => params.context === (layerBuffer as unknown)),
+    ).toBe(true);
+  });
+
+  test("表示中のレイヤーが1枚なら合成せずに直接描く", async () => {
+    const buffer = createBufferMock();
+    const layerBuffer = createBufferMock();
+    const frameBuilder = new FrameBuilder({
+      buffer: buffer as unknown as ImageDataBuffer,
+      layerBuffer: layerBuffer as unknown as ImageDataBuffer,
+    });
+
+    await frameBuilder.buildFromScratch({
+      drawing: createDrawing(10, 10, [createStroke("s1")]),
+      cycleElapsedTimeMs: 0,
+      jitterConfig: { amplitude: 0, frequency: 1 },
+      palette: ["#000000"],
+    });
+
+    expect(buffer.compositeFrom).not.toHaveBeenCalled();
+    expect(vi.mocked(renderStroke).mock.calls[0][0].context).toBe(
+      buffer as unknown,
+    );
+  });
 });
@@ -1,5 +1,9 @@
 import type { JitterConfig } from "@/core/jitter";
-import { applyJitterToStroke } from "@/core/strokeJitter";
+import { getVisibleLayers } from "@/core/layers";
+import {
+  applyJitterToFillEdges,
+  applyJitterToStroke,
+} from "@/core/strokeJitter";
 import type { Drawing, Stroke } from "@/core/types";
 import type { ImageDataBuffer } from "@/infra/canvas/ImageDataBuffer";
 import { renderStroke } from "@/infra/canvas/strokeRendering";
@@ -27,13 +31,22 @@ export type BuildWithDiffParams = {
 /**
  * DrawingからImageBitmapを生成する。
  * 共有のImageDataバッファを使い、全再生成と差分描画に対応する。
+ * 表示中のレイヤーが複数ある場合は、透明なレイヤーバッファに1枚ずつ描いて重ねる。
  */
 export class FrameBuilder {
   private buffer: ImageDataBuffer;
+  private layerBuffer: ImageDataBuffer;
 
-  /** バッファを受け取って初期化する */
-  constructor({ buffer }: { buffer: ImageDataBuffer }) {
+  /** バッファを受け取って初期化する（layerBufferは透明なもの） */
+  constructor({
+    buffer,
+    layerBuffer,
+  }: {
+    buffer: ImageDataBuffer;
+    layerBuffer: ImageDataBuffer;
+  }) {
     this.buffer = buffer;
+    this.layerBuffer = layerBuffer;
   }
 
   /** 指定のcycle時間でフレームを全再生成する */
@@ -43,21 +56,34 @@ export class FrameBuilder {
     jitterConfig,
     palette,
   }: BuildFromScratchParams): Promise<ImageBitmap> {
-    this.buffer.clear({ width: drawing.width, height: drawing.height });
+    const size = { width: drawing.width, height: drawing.height };
+    this.buffer.clear(size);
 
-    for (const stroke of drawing.strokes) {
-      const jittered = applyJitterToStroke({
-        stroke,
-        elapsedTimeMs: cycleElapsedTimeMs,
-        jitterConfig,
-      });
-      renderStroke({
+    const visibleLayers = getVisibleLayers(drawing);
+    const visibleStrokes = visibleLayers.flatMap((layer) => layer.strokes);
+    // 1枚だけなら背景の上に直接描いても結果は同じため、合成を省く
+    if (visibleLayers.length === 1) {
+      this.renderStrokes({
         context: this.buffer,
+        strokes: visibleLayers[0].strokes,
+        visibleStrokes,
+        cycleElapsedTimeMs,
+        jitterConfig,
         palette,
-        stroke,
-        jitteredPoints: jittered,
-        elapsedTimeMs: cycleElapsedTimeMs,
       });
+    } else {
+      for (const layer of visibleLayers) {
+        this.layerBuffer.clear(size);
+        this.renderStrokes({
+          context: this.layerBuffer,
+          strokes: layer.strokes,
+          visibleStrokes,
+          cycleElapsedTimeMs,
+          jitterConfig,
+          palette,
+        });
+        this.buffer.compositeFrom(this.layerBuffer);
+      }
     }
 
     return await this.buffer.createBitmap();
@@ -79,20 +105,16 @@ export class FrameBuilder {
       height: drawing.height,
     });
 
-    for (const stroke of newStrokes) {
-      const jittered = applyJitterToStroke({
-        stroke,
-        elapsedTimeMs: cycleElapsedTimeMs,
-        jitterConfig,
-      });
-      renderStroke({
-        context: this.buffer,
-        palette,
-        stroke,
-        jitteredPoints: jittered,
-        elapsedTimeMs: cycleElapsedTimeMs,
-      });
-    }
+    this.renderStrokes({
+      context: this.buffer,
+      strokes: newStrokes,
+      visibleStrokes: getVisibleLayers(drawing).flatMap(
+        (layer) => layer.strokes,
+      ),
+      cycleElapsedTimeMs,
+      jitterConfig,
+      palette,
+    });
 
     for (const { stroke, cachedPointCount } of strokesWithNewPoints) {
       const startIndex = Math.max(0, cachedPointCount - 1);
@@ -119,4 +141,48 @@ export class FrameBuilder {
 
     return await this.buffer.createBitmap();
   }
+
+  /**
+   * ストロークを順に描画する
+   * 塗りつぶしの端は、表示中の全ストロークから囲んでいる線を探して同じだけ揺らす
+   */
+  private renderStrokes({
+    context,
+    strokes,
+    visibleStrokes,
+    cycleElapsedTimeMs,
+    jitterConfig,
+    palette,
+  }: {
+    context: ImageDataBuffer;
+    strokes: Stroke[];
+    visibleStrokes: Stroke[];
+    cycleElapsedTimeMs: number;
+    jitterConfig: JitterConfig;
+    palette: string[];
+  }): void {
+    for (const stroke of strokes) {
+      const jittered = applyJitterToStroke({
+        stroke,
+        elapsedTimeMs: cycleElapsedTimeMs,
+        jitterConfig,
+      });
+      renderStroke({
+        context,
+        palette,
+        stroke,
+        jitteredPoints: jittered,
+        elapsedTimeMs: cycleElapsedTimeMs,
+        fillRuns:
+          stroke.kind === "fill"
+            ? applyJitterToFillEdges({
+                stroke,
+                boundaryStrokes: visibleStrokes,
+                elapsedTimeMs: cycleElapsedTimeMs,
+                jitterConfig,
+              })
+            : undefined,
+      });
+    }
+  }
 }
@@ -1,13 +1,16 @@
 import { describe, expect, test, vi } from "vitest";
 import { ImageDataBuffer } from "@/infra/canvas/ImageDataBuffer";
 
-function createBuffer(backgroundColor: string): ImageDataBuffer {
+function createBuffer(
+  backgroundColor: string,
+  transparent = false,
+): ImageDataBuffer {
   const canvas = document.createElement("canvas");
   const ctx = canvas.getContext("2d");
   if (!ctx) {
     throw new Error("2D context is not available");
   }
-  return new ImageDataBuffer({ ctx, backgroundColor });
+  return new ImageDataBuffer({ ctx, backgroundColor, transparent });
 }
 
 function getPixel(
@@ -71,6 +74,27 @@ describe("ImageDataBuffer", () => {
     });
   });
 
+  test("透明バッファは背景のアルファを0にする", () => {
+    const buffer = createBuffer("#112233", true);
+
+    buffer.clear({ width: 1, height: 1 });
+
+    expect(getPixel(buffer, 0, 0).a).toBe(0);
+  });
+
+  test("compositeFromは不透明なピクセルだけを上書きする", () => {
+    const base = createBuffer("#ffffff");
+    base.clear({ width: 2, height: 1 });
+    const layer = createBuffer("#ffffff", true);
+    layer.clear({ width: 2, height: 1 });
+    layer.setPixel({ x: 1, y: 0, r: 10, g: 20, b: 30, a: 255 });
+
+    base.compositeFrom(layer);
+
+    expect(getPixel(base, 0, 0)).toEqual({ r: 255, g: 255, b: 255, a: 255 });
+    expect(getPixel(base, 1, 0)).toEqual({ r: 10, g: 20, b: 30, a: 255 });
+  });
+
   test("createBitmapはcreateImageBitmapに委譲する", async () => {
     const buffer = createBuffer("#ffffff");
     buffer.clear({ width: 2, height: 2 });
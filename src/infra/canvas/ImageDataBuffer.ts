@@ -4,6 +4,11 @@ import { parseColorToRgb } from "@/infra/colorUtil";
 export type ImageDataBufferOptions = {
   ctx: CanvasRenderingContext2D;
   backgroundColor: string;
+  /**
+   * 背景を透明にする（レイヤー単位の描画用）
+   * 消しゴムは背景色で塗るため、透明なバッファでは下のレイヤーが見えるようになる
+   */
+  transparent?: boolean;
 };
 
 /** 1ピクセル書き込みの入力 */
@@ -23,6 +28,7 @@ export type SetPixelParams = {
 export class ImageDataBuffer {
   private ctx: CanvasRenderingContext2D;
   private backgroundColorRgba: { r: number; g: number; b: number; a: number };
+  private transparent: boolean;
   private lastWidth = 0;
   private lastHeight = 0;
   private imageData: ImageData | null = null;
@@ -31,14 +37,19 @@ export class ImageDataBuffer {
   private offscreenCtx: CanvasRenderingContext2D | null = null;
 
   /** バッファを初期化する */
-  constructor({ ctx, backgroundColor }: ImageDataBufferOptions) {
+  constructor({
+    ctx,
+    backgroundColor,
+    transparent = false,
+  }: ImageDataBufferOptions) {
     this.ctx = ctx;
-    this.backgroundColorRgba = parseColorToRgb(backgroundColor);
+    this.transparent = transparent;
+    this.backgroundColorRgba = this.resolveBackground(backgroundColor);
   }
 
   /** 背景色を更新し、初期化済みならバッファを再塗りつぶしする */
   setBackgroundColor({ backgroundColor }: { backgroundColor: string }): void {
-    this.backgroundColorRgba = parseColorToRgb(backgroundColor);
+    this.backgroundColorRgba = this.resolveBackground(backgroundColor);
     if (this.imageData) {
       this.clear({ width: this.lastWidth, height: this.lastHeight });
     }
@@ -98,6 +109,36 @@ export class ImageDataBuffer {
     this.data[index + 3] = a;
   }
 
+  /**
+   * 同じサイズのバッファを上に重ねる（source-over合成）
+   * 透明なピクセルは下の内容をそのまま残す
+   */
+  compositeFrom(source: ImageDataBuffer): void {
+    const src = source.data;
+    const dst = this.data;
+    if (!src || !dst || src.length !== dst.length) return;
+
+    for (let i = 0; i < src.length; i += 4) {
+      const alpha = src[i + 3];
+      if (alpha === 0) continue;
+      if (alpha === 255) {
+        dst[i] = src[i];
+        dst[i + 1] = src[i + 1];
+        dst[i + 2] = src[i + 2];
+        dst[i + 3] = 255;
+        continue;
+      }
+      const srcA = alpha / 255;
+      const dstA = dst[i + 3] / 255;
+      const outA = srcA + dstA * (1 - srcA);
+      for (let c = 0; c < 3; c++) {
+        dst[i + c] =
+          (src[i + c] * srcA + dst[i + c] * dstA * (1 - srcA)) / outA;
+      }
+      dst[i + 3] = outA * 255;
+    }
+  }
+
   /** ImageBitmapからImageDataを読み込む */
   loadFromBitmap({
     bitmap,
@@ -154,6 +195,17 @@ export class ImageDataBuffer {
     return await createImageBitmap(this.offscreenCanvas);
   }
 
+  /** 背景色をRGBAに変換する（透明バッファはアルファ0にする） */
+  private resolveBackground(backgroundColor: string): {
+    r: number;
+    g: number;
+    b: number;
+    a: number;
+  } {
+    const rgba = parseColorToRgb(backgroundColor);
+    return this.transparent ? { ...rgba, a: 0 } : rgba;
+  }
+
   /** ImageDataとオフスクリーンを初期化する */
   private initializeImageData({
     width,
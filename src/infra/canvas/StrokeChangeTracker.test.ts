@@ -1,15 +1,17 @@
 import { describe, expect, test } from "vitest";
-import type { Drawing, Stroke } from "@/core/types";
+import { createLayer } from "@/core/layers";
+import type { Drawing, Layer, Stroke } from "@/core/types";
 import { StrokeChangeTracker } from "@/infra/canvas/StrokeChangeTracker";
 
 /** テスト用のストロークを生成する */
 function createStroke(
   id: string,
   points: Array<{ x: number; y: number; t: number }>,
+  kind: Stroke["kind"] = "draw",
 ): Stroke {
   return {
     id,
-    kind: "draw",
+    kind,
     brush: {
       kind: "solid",
       color: { kind: "palette", index: 0 },
@@ -23,10 +25,15 @@ function createStroke(
 
 /** テスト用のDrawingを生成する */
 function createDrawing(strokes: Stroke[]): Drawing {
+  return createLayeredDrawing([createLayer("layer-1", "レイヤー1", strokes)]);
+}
+
+/** テスト用の複数レイヤーのDrawingを生成する */
+function createLayeredDrawing(layers: Layer[]): Drawing {
   return {
     width: 100,
     height: 100,
-    strokes,
+    layers,
   };
 }
 
@@ -99,4 +106,140 @@ describe("StrokeChangeTracker", () => {
 
     expect(diff.mode).toBe("scratch");
   });
+
+  test("描画済みの点を動かしたストロークは全再生成扱いになる", () => {
+    const tracker = new StrokeChangeTracker();
+    const points = [
+      { x: 1, y: 1, t: 0 },
+      { x: 4, y: 1, t: 16 },
+    ];
+    tracker.sync({ drawing: createDrawing([createStroke("s1", points)]) });
+
+    const moved = createDrawing([
+      createStroke(
+        "s1",
+        points.map((p) => ({ ...p, x: p.x + 3 })),
+      ),
+    ]);
+
+    expect(tracker.diff({ drawing: moved })).toEqual({
+      mode: "scratch",
+      reason: "modified",
+    });
+  });
+
+  test("最前面レイヤーへの描き込みは差分として検出される", () => {
+    const tracker = new StrokeChangeTracker();
+    const bottom = createLayer("bottom", "下", [
+      createStroke("b1", [{ x: 1, y: 1, t: 0 }]),
+    ]);
+    const top = createLayer("top", "上");
+    tracker.sync({ drawing: createLayeredDrawing([bottom, top]) });
+
+    const updated = createLayeredDrawing([
+      bottom,
+      { ...top, strokes: [createStroke("t1", [{ x: 2, y: 2, t: 0 }])] },
+    ]);
+
+    const diff = tracker.diff({ drawing: updated });
+
+    expect(diff.mode).toBe("diff");
+    if (diff.mode === "diff") {
+      expect(diff.newStrokes.map((stroke) => stroke.id)).toEqual(["t1"]);
+    }
+  });
+
+  test("下のレイヤーへの描き込みは全再生成扱いになる", () => {
+    const tracker = new StrokeChangeTracker();
+    const bottom = createLayer("bottom", "下");
+    const top = createLayer("top", "上", [
+      createStroke("t1", [{ x: 1, y: 1, t: 0 }]),
+    ]);
+    tracker.sync({ drawing: createLayeredDrawing([bottom, top]) });
+
+    const updated = createLayeredDrawing([
+      { ...bottom, strokes: [createStroke("b1", [{ x: 2, y: 2, t: 0 }])] },
+      top,
+    ]);
+
+    expect(tracker.diff({ drawing: updated })).toEqual({
+      mode: "scratch",
+      reason: "belowTopLayer",
+    });
+  });
+
+  test("下にレイヤーがある時の消しゴムは全再生成扱いになる", () => {
+    const tracker = new StrokeChangeTracker();
+    const bottom = createLayer("bottom", "下", [
+      createStroke("b1", [{ x: 1, y: 1, t: 0 }]),
+    ]);
+    const top = createLayer("top", "上");
+    tracker.sync({ drawing: createLayeredDrawing([bottom, top]) });
+
+    const updated = createLayeredDrawing([
+      bottom,
+      {
+        ...top,
+        strokes: [createStroke("e1", [{ x: 1, y: 1, t: 0 }], "erase")],
+      },
+    ]);
+
+    expect(tracker.diff({ drawing: updated })).toEqual({
+      mode: "scratch",
+      reason: "eraseOverLayers",
+    });
+  });
+
+  test("描画済みの塗りつぶしがある時の線の追加は全再生成扱いになる", () => {
+    const tracker = new StrokeChangeTracker();
+    const fill = createStroke("f1", [{ x: 5, y: 5, t: 0 }], "fill");
+    tracker.sync({ drawing: createDrawing([fill]) });
+
+    const drawn = createDrawing([
+      fill,
+      createStroke("s1", [{ x: 1, y: 1, t: 10 }]),
+    ]);
+    const erased = createDrawing([
+      fill,
+      createStroke("e1", [{ x: 1, y: 1, t: 10 }], "erase"),
+    ]);
+
+    expect(tracker.diff({ drawing: drawn })).toEqual({
+      mode: "scratch",
+      reason: "fillEdges",
+    });
+    expect(tracker.diff({ drawing: erased })).toEqual({
+      mode: "scratch",
+      reason: "fillEdges",
+    });
+  });
+
+  test("塗りつぶしを足すだけなら差分として検出される", () => {
+    const tracker = new StrokeChangeTracker();
+    const fill = createStroke("f1", [{ x: 5, y: 5, t: 0 }], "fill");
+    tracker.sync({ drawing: createDrawing([fill]) });
+
+    const added = createStroke("f2", [{ x: 50, y: 50, t: 10 }], "fill");
+    const diff = tracker.diff({ drawing: createDrawing([fill, added]) });
+
+    expect(diff).toEqual({
+      mode: "diff",
+      newStrokes: [added],
+      strokesWithNewPoints: [],
+    });
+  });
+
+  test("レイヤーの表示切り替えは全再生成扱いになる", () => {
+    const tracker = new StrokeChangeTracker();
+    const bottom = createLayer("bottom", "下");
+    const top = createLayer("top", "上");
+    tracker.sync({ drawing: createLayeredDrawing([bottom, top]) });
+
+    const hidden = createLayeredDrawing([bottom, { ...top, visible: false }]);
+
+    expect(tracker.diff({ drawing: hidden })).toEqual({
+      mode: "scratch",
+      reason: "layersChanged",
+    });
+  });
 });
@@ -1,4 +1,5 @@
-import type { Drawing, Stroke } from "@/core/types";
+import { getVisibleLayers } from "@/core/layers";
+import type { Drawing, Layer, Stroke } from "@/core/types";
 import type { StrokeWithNewPoints } from "@/infra/canvas/types";
 
 /** ストローク差分の判定結果 */
@@ -10,47 +11,99 @@ export type StrokeDiff =
     }
   | {
       mode: "scratch";
-      reason: "uninitialized" | "removed" | "reordered";
+      reason:
+        | "uninitialized"
+        | "removed"
+        | "reordered"
+        | "modified"
+        | "layersChanged"
+        | "belowTopLayer"
+        | "eraseOverLayers"
+        | "fillEdges";
     };
 
+/** 描画済みのストロークの点（数と最後の点の位置） */
+type TrackedPoints = {
+  count: number;
+  lastX: number;
+  lastY: number;
+};
+
+/** 表示中レイヤーごとの追跡状態 */
+type TrackedLayer = {
+  id: string;
+  strokeOrder: string[];
+};
+
 /**
- * ストローク順とポイント数を追跡し、差分更新が安全か判定する。
+ * 表示中レイヤーのストローク順とポイント数を追跡し、差分更新が安全か判定する。
+ * 差分は合成済みのフレームに上描きするため、最前面のレイヤーへの描き込みのみ対象にする。
+ * 描画済みの点が置き換わったストローク（選択して動かした場合など）は作り直させる。
+ * 描画済みの塗りつぶしがある時に線が変わった場合も、塗りつぶしの端を揺らし直すため作り直させる。
  */
 export class StrokeChangeTracker {
-  private strokeOrder: string[] | null = null;
-  private strokePointCounts: Map<string, number> = new Map();
+  private layers: TrackedLayer[] | null = null;
+  private strokePoints: Map<string, TrackedPoints> = new Map();
 
   /**
    * 現在のDrawingと追跡状態を比較する。
    * 差分情報か、差分が危険な場合の理由を返す。
    */
   diff({ drawing }: { drawing: Drawing }): StrokeDiff {
-    if (!this.strokeOrder) {
+    if (!this.layers) {
       return { mode: "scratch", reason: "uninitialized" };
     }
 
-    const currentIds = drawing.strokes.map((stroke) => stroke.id);
-    if (currentIds.length < this.strokeOrder.length) {
-      return { mode: "scratch", reason: "removed" };
+    const visibleLayers = getVisibleLayers(drawing);
+    if (
+      visibleLayers.length !== this.layers.length ||
+      visibleLayers.some((layer, i) => layer.id !== this.layers?.[i].id)
+    ) {
+      return { mode: "scratch", reason: "layersChanged" };
     }
 
-    for (let i = 0; i < this.strokeOrder.length; i++) {
-      if (currentIds[i] !== this.strokeOrder[i]) {
-        return { mode: "scratch", reason: "reordered" };
+    const newStrokes: Stroke[] = [];
+    const strokesWithNewPoints: StrokeWithNewPoints[] = [];
+    const topIndex = visibleLayers.length - 1;
+
+    for (let i = 0; i < visibleLayers.length; i++) {
+      const layerDiff = this.diffLayer(visibleLayers[i], this.layers[i]);
+      if (layerDiff.mode === "scratch") return layerDiff;
+      const changed =
+        layerDiff.newStrokes.length > 0 ||
+        layerDiff.strokesWithNewPoints.length > 0;
+      if (!changed) continue;
+      // 下のレイヤーの変更は上のレイヤーに隠れるべき部分まで描いてしまう
+      if (i !== topIndex) {
+        return { mode: "scratch", reason: "belowTopLayer" };
       }
+      newStrokes.push(...layerDiff.newStrokes);
+      strokesWithNewPoints.push(...layerDiff.strokesWithNewPoints);
     }
 
-    const newStrokes = drawing.strokes.slice(this.strokeOrder.length);
-    const strokesWithNewPoints: StrokeWithNewPoints[] = [];
+    // 消しゴムは背景色で塗るため、下にレイヤーがあると透けるべき部分を塗りつぶしてしまう
+    if (
+      visibleLayers.length > 1 &&
+      (newStrokes.some((stroke) => stroke.kind === "erase") ||
+        strokesWithNewPoints.some(({ stroke }) => stroke.kind === "erase"))
+    ) {
+      return { mode: "scratch", reason: "eraseOverLayers" };
+    }
 
-    for (const stroke of drawing.strokes.slice(0, this.strokeOrder.length)) {
-      const cachedCount = this.strokePointCounts.get(stroke.id) ?? 0;
-      if (stroke.points.length > cachedCount) {
-        strokesWithNewPoints.push({
-          stroke,
-          cachedPointCount: cachedCount,
-        });
-      }
+    // 塗りつぶしの端は近くの線と同じだけ揺らすため、線が増えると描画済みの塗りつぶしの端も変わる
+    const outlineChanged =
+      newStrokes.some((stroke) => stroke.kind !== "fill") ||
+      strokesWithNewPoints.some(({ stroke }) => stroke.kind !== "fill");
+    if (
+      outlineChanged &&
+      visibleLayers.some((layer) =>
+        layer.strokes.some(
+          (stroke) =>
+            stroke.kind === "fill" && this.strokePoints.has(stroke.id),
+        ),
+      )
+    ) {
+      return { mode: "scratch", reason: "fillEdges" };
     }
 
     return {
@@ -62,16 +115,71 @@ export class StrokeChangeTracker {
 
   /** 描画成功後に現在のDrawingへ追跡状態を同期する */
   sync({ drawing }: { drawing: Drawing }): void {
-    this.strokeOrder = drawing.strokes.map((stroke) => stroke.id);
-    this.strokePointCounts.clear();
-    for (const stroke of drawing.strokes) {
-      this.strokePointCounts.set(stroke.id, stroke.points.length);
+    const visibleLayers = getVisibleLayers(drawing);
+    this.layers = visibleLayers.map((layer) => ({
+      id: layer.id,
+      strokeOrder: layer.strokes.map((stroke) => stroke.id),
+    }));
+    this.strokePoints.clear();
+    for (const layer of visibleLayers) {
+      for (const stroke of layer.strokes) {
+        const last = stroke.points[stroke.points.length - 1];
+        this.strokePoints.set(stroke.id, {
+          count: stroke.points.length,
+          lastX: last?.x ?? 0,
+          lastY: last?.y ?? 0,
+        });
+      }
     }
   }
 
   /** 追跡状態をクリアする */
   reset(): void {
-    this.strokeOrder = null;
-    this.strokePointCounts.clear();
+    this.layers = null;
+    this.strokePoints.clear();
+  }
+
+  /** 1レイヤー分のストローク差分を求める */
+  private diffLayer(layer: Layer, tracked: TrackedLayer): StrokeDiff {
+    const currentIds = layer.strokes.map((stroke) => stroke.id);
+    if (currentIds.length < tracked.strokeOrder.length) {
+      return { mode: "scratch", reason: "removed" };
+    }
+
+    for (let i = 0; i < tracked.strokeOrder.length; i++) {
+      if (currentIds[i] !== tracked.strokeOrder[i]) {
+        return { mode: "scratch", reason: "reordered" };
+      }
+    }
+
+    const newStrokes = layer.strokes.slice(tracked.strokeOrder.length);
+    const strokesWithNewPoints: StrokeWithNewPoints[] = [];
+
+    for (const stroke of layer.strokes.slice(0, tracked.strokeOrder.length)) {
+      const cached = this.strokePoints.get(stroke.id);
+      const cachedCount = cached?.count ?? 0;
+      // 点は追記しかされないので、描画済みの最後の点の位置が変わっていれば動かされている
+      const last = stroke.points[cachedCount - 1];
+      if (
+        stroke.points.length < cachedCount ||
+        (cached &&
+          cachedCount > 0 &&
+          (last.x !== cached.lastX || last.y !== cached.lastY))
+      ) {
+        return { mode: "scratch", reason: "modified" };
+      }
+      if (stroke.points.length > cachedCount) {
+        strokesWithNewPoints.push({
+          stroke,
+          cachedPointCount: cachedCount,
+        });
+      }
+    }
+
+    return {
+      mode: "diff",
+      newStrokes,
+      strokesWithNewPoints,
+    };
   }
 }
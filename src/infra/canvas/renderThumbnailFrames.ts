@@ -0,0 +1,72 @@
+import type { DrawingDocument } from "@/core/serialization";
+import { CanvasRenderer } from "@/infra/canvas/CanvasRenderer";
+
+/** renderThumbnailFramesの入力 */
+export type RenderThumbnailFramesOptions = {
+  drawingDocument: DrawingDocument;
+  /** サムネイルの最大幅（元サイズより大きくはしない） */
+  maxWidth: number;
+};
+
+/**
+ * メモの先頭のコマのcycle分のフレームを縮小したImageBitmapとして生成する。
+ * 返却したImageBitmapは呼び出し側がcloseする。
+ */
+export async function renderThumbnailFrames({
+  drawingDocument,
+  maxWidth,
+}: RenderThumbnailFramesOptions): Promise<ImageBitmap[]> {
+  const {
+    frames: documentFrames,
+    palette,
+    backgroundColor,
+    jitterConfig,
+    animation,
+  } = drawingDocument;
+  const { drawing } = documentFrames[0];
+  const scale = Math.min(1, maxWidth / drawing.width);
+  const width = Math.max(1, Math.round(drawing.width * scale));
+  const height = Math.max(1, Math.round(drawing.height * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = drawing.width;
+  canvas.height = drawing.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("2D context not available");
+
+  // メモごとに設定が違うため、表示用とは別のレンダラーで描く
+  const renderer = new CanvasRenderer({
+    ctx,
+    backgroundColor,
+    paletteColors: palette,
+    animation,
+  });
+
+  const frames: ImageBitmap[] = [];
+  try {
+    for (let i = 0; i < renderer.getCycleCount(); i += 1) {
+      const bitmap = await renderer.getCycleBitmap({
+        drawing,
+        drawingRevision: 0,
+        cycleIndex: i,
+        jitterConfig,
+        elapsedTimeMs: i * animation.cycleIntervalMs,
+      });
+      try {
+        frames.push(
+          await createImageBitmap(bitmap, {
+            resizeWidth: width,
+            resizeHeight: height,
+            resizeQuality: "pixelated",
+          }),
+        );
+      } finally {
+        bitmap.close();
+      }
+    }
+  } catch (error) {
+    for (const frame of frames) frame.close();
+    throw error;
+  }
+  return frames;
+}
@@ -1,7 +1,10 @@
 import { describe, expect, test } from "vitest";
 import type { BrushColor, BrushVariant, Stroke } from "@/core/types";
 import { ImageDataBuffer } from "@/infra/canvas/ImageDataBuffer";
-import { renderStroke } from "@/infra/canvas/strokeRendering";
+import {
+  getStrokeFootprint,
+  renderStroke,
+} from "@/infra/canvas/strokeRendering";
 
 /** テスト用のImageDataBufferを生成する */
 function createBuffer(backgroundColor: string): ImageDataBuffer {
@@ -252,3 +255,62 @@ describe("renderStroke", () => {
     });
   });
 });
+
+describe("getStrokeFootprint", () => {
+  test("点ごとに太さを持つ線は点の太さを補間して塗る", () => {
+    const stroke: Stroke = {
+      id: "s-taper",
+      kind: "draw",
+      brush: {
+        kind: "solid",
+        color: { kind: "palette", index: 0 },
+        width: 16,
+        opacity: 1,
+        variant: "brushTaper",
+      },
+      points: [
+        { x: 10, y: 10, t: 0, width: 1 },
+        { x: 30, y: 10, t: 16, width: 9 },
+      ],
+    };
+
+    const footprint = getStrokeFootprint(stroke);
+    /** 指定の列で塗るピクセルの数 */
+    const columnHeight = (x: number) =>
+      footprint.filter((pixel) => pixel.x === x).length;
+
+    expect(columnHeight(10)).toBe(1);
+    expect(columnHeight(20)).toBeGreaterThan(1);
+    expect(columnHeight(20)).toBeLessThan(columnHeight(30));
+  });
+
+  test("筆圧を使う線は筆圧の弱い点ほど細い", () => {
+    const stroke: Stroke = {
+      id: "s-pressure",
+      kind: "draw",
+      brush: {
+        kind: "solid",
+        color: { kind: "palette", index: 0 },
+        width: 9,
+        opacity: 1,
+        variant: "penSquare",
+        pressure: true,
+      },
+      points: [
+        { x: 10, y: 10, t: 0, pressure: 0 },
+        { x: 30, y: 10, t: 16, pressure: 1 },
+      ],
+    };
+
+    const footprint = getStrokeFootprint(stroke);
+    /** 指定の列で塗るピクセルの数 */
+    const columnHeight = (x: number) =>
+      footprint.filter((pixel) => pixel.x === x).length;
+
+    expect(columnHeight(10)).toBeLessThan(columnHeight(30));
+    expect(columnHeight(30)).toBe(9);
+    expect(new Set(footprint.map(({ x, y }) => `${x},${y}`)).size).toBe(
+      footprint.length,
+    );
+  });
+});
@@ -4,17 +4,22 @@
  */
 
 import { assertNever } from "@/core/assertNever";
-import { getPatternDefinition } from "@/core/patterns";
+import { type FillRun, getFillRuns } from "@/core/fill";
+import { getPatternDefinition, isDitheredPixel } from "@/core/patterns";
 import type { PatternTile } from "@/core/patternTypes";
+import { getPressureDensity, getPressureWidth } from "@/core/pressure";
 import {
   bresenhamLine,
   calculateStampedLinePixels,
   calculateThickLinePixels,
+  calculateVariableStampedLinePixels,
   getCirclePixelOffsets,
+  getCircleStampOffsets,
   getLineStampOffsets,
   getSquareStampOffsets,
+  type StampOffsets,
 } from "@/core/rasterization";
-import type { BrushVariant, Stroke } from "@/core/types";
+import type { BrushVariant, Stroke, StrokeKind } from "@/core/types";
 import type { ImageDataBuffer } from "@/infra/canvas/ImageDataBuffer";
 import { parseColorToRgb, resolveBrushColor } from "@/infra/colorUtil";
 
@@ -27,6 +32,8 @@ export type StrokeRenderingContext = ImageDataBuffer;
  * ピクセル単位でストロークを描画
  * ソリッド/消しゴムはBresenhamアルゴリズムでピクセル単位描画
  * パターンはピクセル単位で実装
+ * 塗りつぶしは揺らした端の間を行ごとに塗る（パターンならタイルで塗る）
+ * 筆圧を使う線や点ごとに太さを持つ線は点ごとの太さで塗る（筆圧の濃さは網掛けで表す）
  * すべてImageDataに書き込む（Canvas APIは呼ばない）
  */
 export function renderStroke({
@@ -35,15 +42,28 @@ export function renderStroke({
   stroke,
   jitteredPoints,
   elapsedTimeMs: _elapsedTimeMs,
+  fillRuns,
 }: {
   context: StrokeRenderingContext;
   palette: string[];
   stroke: Stroke;
   jitteredPoints: { x: number; y: number }[];
   elapsedTimeMs: number;
+  /** 端を揺らした塗りつぶしの範囲（省略時は揺らさずに塗る） */
+  fillRuns?: FillRun[];
 }): void {
   if (jitteredPoints.length === 0 || !context.hasImageData()) return;
 
+  if (stroke.kind === "fill") {
+    renderFillStroke(context, palette, stroke, fillRuns);
+    return;
+  }
+
+  if (hasVariableWidth(stroke)) {
+    renderVariableWidthStroke(context, palette, stroke, jitteredPoints);
+    return;
+  }
+
   // パターンの場合はピクセル単位描画
   if (stroke.brush.kind === "pattern") {
     renderPatternStroke(context, palette, stroke, jitteredPoints);
@@ -54,6 +74,65 @@ export function renderStroke({
   renderSolidStroke(context, palette, stroke, jitteredPoints);
 }
 
+/**
+ * 揺れなしで描いた場合にストロークが塗るピクセル（選択の当たり判定用）
+ * 描画と同じスタンプ・太さで求める。パターンはタイルで透ける部分も含めた領域全体を返す
+ */
+export function getStrokeFootprint(
+  stroke: Stroke,
+): Array<{ x: number; y: number }> {
+  const { points } = stroke;
+  if (points.length === 0) return [];
+  if (stroke.kind === "fill") {
+    return stroke.region
+      ? buildRunPixels(getFillRuns(stroke.region, points[0]))
+      : [];
+  }
+  if (hasVariableWidth(stroke)) {
+    return resolveVariableWidthAreaPixels(stroke, points);
+  }
+  const brushWidth = Math.round(stroke.brush.width);
+  const variant = stroke.brush.variant as BrushVariant;
+
+  if (stroke.brush.kind === "pattern") {
+    return resolvePatternAreaPixels({
+      jitteredPoints: points,
+      brushWidth,
+      useSquareStamp: variant === "penSquare",
+    });
+  }
+
+  const eraserStampVariant = resolveEraserStampVariant({
+    strokeKind: stroke.kind,
+    variant,
+  });
+  if (eraserStampVariant) {
+    return calculateStampedLinePixels(
+      buildCenterPixels(points),
+      resolveEraserStamp({ variant: eraserStampVariant, width: brushWidth }),
+    );
+  }
+  if (stroke.kind === "draw" && variant === "penSquare") {
+    return calculateStampedLinePixels(
+      buildCenterPixels(points),
+      getSquareStampOffsets(brushWidth),
+    );
+  }
+  if (points.length === 1) {
+    const x = Math.round(points[0].x);
+    const y = Math.round(points[0].y);
+    if (brushWidth === 1) return [{ x, y }];
+    return getCirclePixelOffsets(brushWidth / 2).map(({ dx, dy }) => ({
+      x: x + dx,
+      y: y + dy,
+    }));
+  }
+  if (brushWidth > 1) {
+    return calculateThickLinePixels(buildCenterPixels(points), brushWidth);
+  }
+  return buildCenterPixels(points);
+}
+
 /**
  * ソリッド/消しゴムをピクセル単位で描画（ImageDataに書き込む）
  */
@@ -170,6 +249,165 @@ function renderSolidStroke(
   }
 }
 
+/**
+ * 塗りつぶしをピクセル単位で描画（ImageDataに書き込む）
+ * fillRunsは範囲の連続と同じ並びで、端を揺らしたもの。
+ * 描画範囲の端に接する連続は、揺れで隙間が開かないよう端まで塗る
+ */
+function renderFillStroke(
+  context: StrokeRenderingContext,
+  palette: string[],
+  stroke: Stroke,
+  fillRuns: FillRun[] | undefined,
+): void {
+  if (!stroke.region) return;
+  const { width } = context.getSize();
+  const runs = getFillRuns(stroke.region, stroke.points[0]);
+  const jitteredRuns: FillRun[] = runs.map((run, i) => {
+    const left = fillRuns?.[i]?.left ?? run.left;
+    const right = fillRuns?.[i]?.right ?? run.right;
+    return {
+      y: run.y,
+      left: run.left <= 0 ? run.left : Math.min(left, right),
+      right: run.right >= width - 1 ? run.right : Math.max(left, right),
+    };
+  });
+  const areaPixels = buildRunPixels(jitteredRuns);
+
+  const color = parseColorToRgb(
+    resolveBrushColor({ color: stroke.brush.color, palette }),
+  );
+  if (stroke.brush.kind === "pattern") {
+    // 塗りつぶしは太さを持たないため、近傍を探さずタイルのまま塗る
+    applyPatternToArea(
+      context,
+      areaPixels,
+      getPatternDefinition(stroke.brush.patternId).tile,
+      color.r,
+      color.g,
+      color.b,
+      0,
+    );
+    return;
+  }
+  const a = stroke.brush.opacity * 255;
+  for (const { x, y } of areaPixels) {
+    context.setPixel({ x, y, r: color.r, g: color.g, b: color.b, a });
+  }
+}
+
+/**
+ * 点ごとに太さの変わる線か
+ * 筆圧を使う線と、点に太さを持つブラシ（入り抜き筆・墨）の線
+ */
+function hasVariableWidth(stroke: Stroke): boolean {
+  return (
+    stroke.kind === "draw" &&
+    (stroke.brush.pressure === true ||
+      stroke.points.some((point) => point.width !== undefined))
+  );
+}
+
+/**
+ * 点ごとに太さの変わる線をピクセル単位で描画（ImageDataに書き込む）
+ * 筆圧を使う線の網掛けは揺れに合わせて動かさず、描画の座標に固定したタイルで決める
+ */
+function renderVariableWidthStroke(
+  context: StrokeRenderingContext,
+  palette: string[],
+  stroke: Stroke,
+  jitteredPoints: { x: number; y: number }[],
+): void {
+  const { brush } = stroke;
+  const pixels = resolveVariableWidthAreaPixels(stroke, jitteredPoints);
+  const areaPixels = brush.pressure
+    ? pixels.filter(({ x, y, value }) =>
+        isDitheredPixel(getPressureDensity(value, brush.variant), x, y),
+      )
+    : pixels;
+  const color = parseColorToRgb(
+    resolveBrushColor({ color: brush.color, palette }),
+  );
+  if (brush.kind === "pattern") {
+    applyPatternToArea(
+      context,
+      areaPixels,
+      getPatternDefinition(brush.patternId).tile,
+      color.r,
+      color.g,
+      color.b,
+      Math.round(brush.width),
+    );
+    return;
+  }
+  const a = brush.opacity * 255;
+  for (const { x, y } of areaPixels) {
+    context.setPixel({ x, y, r: color.r, g: color.g, b: color.b, a });
+  }
+}
+
+/**
+ * 点ごとに太さの変わる線の描画領域を、ピクセルごとの筆圧つきで求める
+ * 点の間は前後の点の太さと筆圧を補間したスタンプを中心線に沿って置く。
+ * 太さの無い点はブラシの太さ、筆圧の無い点（筆圧を使わない線も）は最大の筆圧として扱う
+ */
+function resolveVariableWidthAreaPixels(
+  stroke: Stroke,
+  jitteredPoints: { x: number; y: number }[],
+): Array<{ x: number; y: number; value: number }> {
+  const { brush } = stroke;
+  const useSquareStamp = brush.variant === "penSquare";
+  const centers: Array<{
+    x: number;
+    y: number;
+    stamp: StampOffsets;
+    value: number;
+  }> = [];
+  const addCenter = (x: number, y: number, width: number, pressure: number) => {
+    const stampWidth = brush.pressure
+      ? getPressureWidth(width, pressure, brush.variant)
+      : Math.max(1, Math.round(width));
+    centers.push({
+      x,
+      y,
+      stamp:
+        useSquareStamp || stampWidth === 1
+          ? getSquareStampOffsets(stampWidth)
+          : getCircleStampOffsets(stampWidth / 2),
+      value: pressure,
+    });
+  };
+  const getWidth = (i: number) => stroke.points[i]?.width ?? brush.width;
+  const getPressure = (i: number) =>
+    brush.pressure ? (stroke.points[i]?.pressure ?? 1) : 1;
+
+  for (let i = 0; i < jitteredPoints.length; i++) {
+    const x = Math.round(jitteredPoints[i].x);
+    const y = Math.round(jitteredPoints[i].y);
+    if (i === 0) {
+      addCenter(x, y, getWidth(0), getPressure(0));
+      continue;
+    }
+    const prev = jitteredPoints[i - 1];
+    const prevWidth = getWidth(i - 1);
+    const prevPressure = getPressure(i - 1);
+    const width = getWidth(i);
+    const pressure = getPressure(i);
+    const linePixels = bresenhamLine(prev.x, prev.y, x, y);
+    for (let j = 1; j < linePixels.length; j++) {
+      const ratio = j / (linePixels.length - 1);
+      addCenter(
+        linePixels[j].x,
+        linePixels[j].y,
+        prevWidth + (width - prevWidth) * ratio,
+        prevPressure + (pressure - prevPressure) * ratio,
+      );
+    }
+  }
+
+  return calculateVariableStampedLinePixels(centers);
+}
+
 /**
  * 1ピクセルをImageDataに書き込む（太い線の場合は拡大）
  */
@@ -196,6 +434,13 @@ function drawPixelToImageData(
   }
 }
 
+/** 行ごとの連続を、塗るピクセルの並びにする */
+function buildRunPixels(runs: FillRun[]): Array<{ x: number; y: number }> {
+  return runs.flatMap(({ y, left, right }) =>
+    Array.from({ length: right - left + 1 }, (_, i) => ({ x: left + i, y })),
+  );
+}
+
 function buildCenterPixels(
   jitteredPoints: { x: number; y: number }[],
 ): Array<{ x: number; y: number }> {
@@ -247,7 +492,7 @@ function resolveEraserStampVariant({
   strokeKind,
   variant,
 }: {
-  strokeKind: "draw" | "erase";
+  strokeKind: StrokeKind;
   variant: BrushVariant;
 }): "eraserLine" | "eraserSquare" | null {
   if (strokeKind !== "erase") {
@@ -261,6 +506,8 @@ function resolveEraserStampVariant({
     case "eraserCircle":
     case "penCircle":
     case "penSquare":
+    case "brushTaper":
+    case "brushInk":
       return null;
     default:
       return assertNever(variant);
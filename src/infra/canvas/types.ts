@@ -1,3 +1,4 @@
+import type { AnimationSettings } from "@/core/animation";
 import type { Stroke } from "@/core/types";
 
 /**
@@ -10,6 +11,13 @@ export interface CanvasRendererOptions {
   backgroundColor: string;
   /** パレット色（6色想定） */
   paletteColors: string[];
+  /** ぶるぶるのコマ数・間隔（省略時は既定値） */
+  animation?: AnimationSettings;
+  /**
+   * 背景を塗らずに透明にする（書き出し用）
+   * 消しゴムで消した部分も透明になる
+   */
+  transparentBackground?: boolean;
 }
 
 /**
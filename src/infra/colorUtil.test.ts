@@ -1,5 +1,7 @@
 import { describe, expect, it } from "vitest";
 import {
+  findBrushColor,
+  formatRgbHex,
   parseColorToRgb,
   resolveBrushColor,
   resolveCssVariable,
@@ -70,4 +72,27 @@ describe("colorUtil", () => {
       ).toBe("#123456");
     });
   });
+
+  describe("formatRgbHex", () => {
+    it("should format RGB as a 6-digit hex color", () => {
+      expect(formatRgbHex({ r: 18, g: 52, b: 6 })).toBe("#123406");
+    });
+  });
+
+  describe("findBrushColor", () => {
+    it("should return the first matching palette index", () => {
+      const palette = ["#000000", "#ff0000", "#f00"];
+      expect(findBrushColor({ rgb: { r: 255, g: 0, b: 0 }, palette })).toEqual({
+        kind: "palette",
+        index: 1,
+      });
+    });
+
+    it("should return a fixed color when the palette has no match", () => {
+      const palette = ["#000000"];
+      expect(findBrushColor({ rgb: { r: 18, g: 52, b: 86 }, palette })).toEqual(
+        { kind: "fixed", color: "#123456" },
+      );
+    });
+  });
 });
@@ -66,3 +66,37 @@ export function parseColorToRgb(color: string): {
   // パースに失敗した場合は黒を返す
   return { r: 0, g: 0, b: 0, a: 1 };
 }
+
+/** RGBを6桁のhex形式のCSS色にする */
+export function formatRgbHex({
+  r,
+  g,
+  b,
+}: {
+  r: number;
+  g: number;
+  b: number;
+}): string {
+  return `#${[r, g, b].map((v) => v.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * RGBをブラシ色に戻す
+ * パレットに同じ色があればその色番号（複数あれば先頭）、無ければ固定色にする
+ * @param rgb 対象の色
+ * @param palette パレット配色
+ */
+export function findBrushColor({
+  rgb,
+  palette,
+}: {
+  rgb: { r: number; g: number; b: number };
+  palette: string[];
+}): BrushColor {
+  const index = palette.findIndex((color) => {
+    const { r, g, b } = parseColorToRgb(color);
+    return r === rgb.r && g === rgb.g && b === rgb.b;
+  });
+  if (index >= 0) return { kind: "palette", index };
+  return { kind: "fixed", color: formatRgbHex(rgb) };
+}
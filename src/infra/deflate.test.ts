@@ -0,0 +1,43 @@
+import { deflateSync } from "node:zlib";
+import { zlibDeflate, zlibInflate } from "@/infra/deflate";
+
+/** 繰り返しと雑音が混ざったテスト用のバイト列 */
+function createSample(length: number): Uint8Array {
+  const data = new Uint8Array(length);
+  let seed = 1;
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    data[i] = i % 7 === 0 ? seed & 0xff : (i >> 4) & 0xff;
+  }
+  return data;
+}
+
+describe("deflate", () => {
+  test("自前で圧縮したデータを展開すると元に戻る", () => {
+    const data = createSample(70_000);
+
+    expect(zlibInflate(zlibDeflate(data))).toEqual(data);
+    expect(zlibInflate(zlibDeflate(new Uint8Array(0)))).toEqual(
+      new Uint8Array(0),
+    );
+  });
+
+  test("動的ハフマン符号や非圧縮のブロックも展開できる", () => {
+    const data = createSample(5000);
+
+    expect(zlibInflate(Uint8Array.from(deflateSync(data)))).toEqual(data);
+    expect(
+      zlibInflate(Uint8Array.from(deflateSync(data, { level: 0 }))),
+    ).toEqual(data);
+  });
+
+  test("壊れたデータは展開しない", () => {
+    const compressed = zlibDeflate(createSample(100));
+    compressed[compressed.length - 1] ^= 1;
+
+    expect(() => zlibInflate(compressed)).toThrow("checksum");
+    expect(() => zlibInflate(Uint8Array.from([1, 2, 3]))).toThrow(
+      "Invalid zlib header",
+    );
+  });
+});
@@ -0,0 +1,372 @@
+import { BitWriter } from "@/infra/bitWriter";
+
+/*
+ * zlib形式（RFC 1950/1951）の圧縮と展開
+ * 圧縮は固定ハフマン符号とハッシュチェーンによるLZ77だけの簡易実装で、
+ * 展開は全種類のブロックを読める。CompressionStreamが無い環境でも同期的に使える
+ */
+
+/** LZ77の参照窓の大きさ */
+const WINDOW_SIZE = 32768;
+/** 一致の最短長・最長長 */
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+/** ハッシュチェーンをたどる上限（圧縮率と速度の折り合い） */
+const MAX_CHAIN = 64;
+const HASH_BITS = 15;
+const HASH_SIZE = 1 << HASH_BITS;
+
+/** 長さ符号257〜285の基準値と追加ビット数 */
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+];
+/** 距離符号0〜29の基準値と追加ビット数 */
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+];
+
+/** 固定ハフマン符号でリテラル/長さ記号を書く */
+function writeLiteralLength(writer: BitWriter, symbol: number): void {
+  if (symbol < 144) {
+    writer.writeCode(0x30 + symbol, 8);
+  } else if (symbol < 256) {
+    writer.writeCode(0x190 + symbol - 144, 9);
+  } else if (symbol < 280) {
+    writer.writeCode(symbol - 256, 7);
+  } else {
+    writer.writeCode(0xc0 + symbol - 280, 8);
+  }
+}
+
+/** 一致（長さ・距離）を書く */
+function writeMatch(writer: BitWriter, length: number, distance: number): void {
+  let lengthCode = LENGTH_BASE.length - 1;
+  while (LENGTH_BASE[lengthCode] > length) lengthCode--;
+  writeLiteralLength(writer, 257 + lengthCode);
+  writer.writeBits(length - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+
+  let distanceCode = DISTANCE_BASE.length - 1;
+  while (DISTANCE_BASE[distanceCode] > distance) distanceCode--;
+  writer.writeCode(distanceCode, 5);
+  writer.writeBits(
+    distance - DISTANCE_BASE[distanceCode],
+    DISTANCE_EXTRA[distanceCode],
+  );
+}
+
+/** 3バイトから求めるハッシュ値 */
+function hashAt(data: Uint8Array, i: number): number {
+  return ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & (HASH_SIZE - 1);
+}
+
+/** zlibのチェックサム */
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * バイト列をzlib形式で圧縮する
+ * @param data 圧縮するバイト列
+ */
+export function zlibDeflate(data: Uint8Array): Uint8Array {
+  const writer = new BitWriter();
+  // CMF=0x78（deflate・32KB窓）、FLG=0x01（チェック値を満たす最小値）
+  writer.pushByte(0x78);
+  writer.pushByte(0x01);
+  // 最終ブロック・固定ハフマン符号
+  writer.writeBits(1, 1);
+  writer.writeBits(1, 2);
+
+  const head = new Int32Array(HASH_SIZE).fill(-1);
+  const prev = new Int32Array(WINDOW_SIZE);
+  const insert = (i: number) => {
+    const hash = hashAt(data, i);
+    prev[i % WINDOW_SIZE] = head[hash];
+    head[hash] = i;
+  };
+
+  let i = 0;
+  while (i < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+    if (i + MIN_MATCH <= data.length) {
+      const maxLength = Math.min(MAX_MATCH, data.length - i);
+      let candidate = head[hashAt(data, i)];
+      let chain = MAX_CHAIN;
+      while (candidate >= 0 && i - candidate <= WINDOW_SIZE && chain-- > 0) {
+        let length = 0;
+        while (
+          length < maxLength &&
+          data[candidate + length] === data[i + length]
+        ) {
+          length++;
+        }
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = i - candidate;
+          if (length === maxLength) break;
+        }
+        candidate = prev[candidate % WINDOW_SIZE];
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(writer, bestLength, bestDistance);
+      const end = i + bestLength;
+      for (; i < end; i++) {
+        if (i + MIN_MATCH <= data.length) insert(i);
+      }
+    } else {
+      writeLiteralLength(writer, data[i]);
+      if (i + MIN_MATCH <= data.length) insert(i);
+      i++;
+    }
+  }
+  writeLiteralLength(writer, 256);
+
+  const checksum = adler32(data);
+  const bytes = writer.flush();
+  const result = new Uint8Array(bytes.length + 4);
+  result.set(bytes);
+  new DataView(result.buffer).setUint32(bytes.length, checksum);
+  return result;
+}
+
+/** 動的ハフマン符号で符号長を書く順番 */
+const CODE_LENGTH_ORDER = [
+  16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15,
+];
+
+/** 符号長ごとの記号の数と、符号順に並べた記号 */
+type HuffmanTable = { counts: Uint16Array; symbols: Uint16Array };
+
+/** 符号長の列から復号表を作る（RFC 1951 3.2.2の正規ハフマン符号） */
+function buildHuffmanTable(lengths: ArrayLike<number>): HuffmanTable {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+  const offsets = new Uint16Array(16);
+  for (let length = 1; length < 16; length++) {
+    offsets[length] = offsets[length - 1] + counts[length - 1];
+  }
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i] !== 0) symbols[offsets[lengths[i]]++] = i;
+  }
+  return { counts, symbols };
+}
+
+/** 固定ハフマン符号のリテラル/長さ・距離の復号表 */
+function buildFixedTables(): [HuffmanTable, HuffmanTable] {
+  const lengths = new Uint8Array(288);
+  lengths.fill(8, 0, 144);
+  lengths.fill(9, 144, 256);
+  lengths.fill(7, 256, 280);
+  lengths.fill(8, 280, 288);
+  return [
+    buildHuffmanTable(lengths),
+    buildHuffmanTable(new Uint8Array(30).fill(5)),
+  ];
+}
+
+/** 下位ビットから読むビット列の読み込み（deflateの並び） */
+class BitReader {
+  private position = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  readBits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.position >= this.data.length) {
+        throw new Error("Unexpected end of deflate data");
+      }
+      this.bitBuffer |= this.data[this.position++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  /** 上位ビットから詰められた符号を1ビットずつ読んで記号に戻す */
+  readSymbol({ counts, symbols }: HuffmanTable): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length < 16; length++) {
+      code |= this.readBits(1);
+      const count = counts[length];
+      if (code - first < count) return symbols[index + code - first];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error("Invalid Huffman code");
+  }
+
+  /** バイト境界まで読み飛ばし、次の位置を返す */
+  alignToByte(): number {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+    return this.position;
+  }
+
+  skipBytes(count: number): void {
+    this.position += count;
+  }
+}
+
+/** 動的ハフマン符号のブロックの先頭から、リテラル/長さ・距離の復号表を読む */
+function readDynamicTables(reader: BitReader): [HuffmanTable, HuffmanTable] {
+  const literalCount = reader.readBits(5) + 257;
+  const distanceCount = reader.readBits(5) + 1;
+  const codeLengthCount = reader.readBits(4) + 4;
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+  }
+  const codeLengthTable = buildHuffmanTable(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  let i = 0;
+  while (i < lengths.length) {
+    const symbol = reader.readSymbol(codeLengthTable);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+    let repeat: number;
+    let value = 0;
+    if (symbol === 16) {
+      if (i === 0) throw new Error("Invalid code length repeat");
+      value = lengths[i - 1];
+      repeat = 3 + reader.readBits(2);
+    } else if (symbol === 17) {
+      repeat = 3 + reader.readBits(3);
+    } else {
+      repeat = 11 + reader.readBits(7);
+    }
+    if (i + repeat > lengths.length) {
+      throw new Error("Invalid code length repeat");
+    }
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+  return [
+    buildHuffmanTable(lengths.subarray(0, literalCount)),
+    buildHuffmanTable(lengths.subarray(literalCount)),
+  ];
+}
+
+/**
+ * zlib形式のバイト列を展開する
+ * @throws 形式が壊れている、またはチェックサムが合わない場合
+ */
+export function zlibInflate(data: Uint8Array): Uint8Array {
+  if (
+    data.length < 6 ||
+    (data[0] & 0x0f) !== 8 ||
+    ((data[0] << 8) | data[1]) % 31 !== 0
+  ) {
+    throw new Error("Invalid zlib header");
+  }
+  const reader = new BitReader(data.subarray(2));
+  let output = new Uint8Array(Math.max(1024, data.length * 4));
+  let length = 0;
+  const ensure = (extra: number) => {
+    if (length + extra <= output.length) return;
+    const grown = new Uint8Array(Math.max(output.length * 2, length + extra));
+    grown.set(output.subarray(0, length));
+    output = grown;
+  };
+
+  let isFinal = false;
+  while (!isFinal) {
+    isFinal = reader.readBits(1) === 1;
+    const type = reader.readBits(2);
+    if (type === 0) {
+      // 非圧縮ブロック: バイト境界からLEN・NLENに続けて生のデータ
+      const start = reader.alignToByte() + 2;
+      const view = data.subarray(start);
+      if (view.length < 4) throw new Error("Unexpected end of deflate data");
+      const size = view[0] | (view[1] << 8);
+      if ((size ^ (view[2] | (view[3] << 8))) !== 0xffff) {
+        throw new Error("Invalid stored block length");
+      }
+      if (view.length < 4 + size) {
+        throw new Error("Unexpected end of deflate data");
+      }
+      ensure(size);
+      output.set(view.subarray(4, 4 + size), length);
+      length += size;
+      reader.skipBytes(4 + size);
+      continue;
+    }
+    if (type === 3) throw new Error("Invalid deflate block type");
+
+    const [literalTable, distanceTable] =
+      type === 1 ? buildFixedTables() : readDynamicTables(reader);
+    while (true) {
+      const symbol = reader.readSymbol(literalTable);
+      if (symbol < 256) {
+        ensure(1);
+        output[length++] = symbol;
+        continue;
+      }
+      if (symbol === 256) break;
+      const lengthCode = symbol - 257;
+      if (lengthCode >= LENGTH_BASE.length) {
+        throw new Error("Invalid length code");
+      }
+      const matchLength =
+        LENGTH_BASE[lengthCode] + reader.readBits(LENGTH_EXTRA[lengthCode]);
+      const distanceCode = reader.readSymbol(distanceTable);
+      if (distanceCode >= DISTANCE_BASE.length) {
+        throw new Error("Invalid distance code");
+      }
+      const distance =
+        DISTANCE_BASE[distanceCode] +
+        reader.readBits(DISTANCE_EXTRA[distanceCode]);
+      if (distance > length) throw new Error("Invalid match distance");
+      ensure(matchLength);
+      for (let i = 0; i < matchLength; i++) {
+        output[length] = output[length - distance];
+        length++;
+      }
+    }
+  }
+
+  const result = output.slice(0, length);
+  const checksumStart = reader.alignToByte() + 2;
+  if (checksumStart + 4 > data.length) {
+    throw new Error("Unexpected end of zlib data");
+  }
+  const checksum = new DataView(
+    data.buffer,
+    data.byteOffset + checksumStart,
+    4,
+  ).getUint32(0);
+  if (checksum !== adler32(result)) {
+    throw new Error("zlib checksum mismatch");
+  }
+  return result;
+}
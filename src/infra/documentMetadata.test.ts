@@ -0,0 +1,72 @@
+import { ApngEncoder } from "@/infra/ApngEncoder";
+import {
+  createPngDocumentChunk,
+  readEmbeddedDocumentText,
+} from "@/infra/documentMetadata";
+import { GifEncGifEncoder } from "@/infra/GifEncGifEncoder";
+import { encodePng } from "@/infra/png";
+import { readBlob } from "@/testUtils/imageHelpers";
+
+/** 1x1の不透明なImageData相当 */
+const PIXEL = {
+  width: 1,
+  height: 1,
+  data: new Uint8ClampedArray([200, 40, 40, 255]),
+} as unknown as ImageData;
+
+/** サブブロックやチャンクをまたぐ長さの、日本語を含むJSON */
+const TEXT = JSON.stringify({
+  name: "レイヤー",
+  points: Array.from({ length: 100 }, (_, i) => i),
+});
+
+describe("documentMetadata", () => {
+  test("GIFのアプリケーション拡張に埋め込んだドキュメントを読み戻せる", async () => {
+    const encoder = new GifEncGifEncoder();
+    encoder.setColorTable([{ r: 200, g: 40, b: 40 }]);
+    encoder.setDocumentMetadata(TEXT);
+    encoder.begin(1, 1, 10);
+    encoder.addFrame(PIXEL);
+    encoder.addFrame(PIXEL);
+    const bytes = await readBlob(await encoder.finish());
+
+    expect(new TextEncoder().encode(TEXT).length).toBeGreaterThan(255);
+    expect(readEmbeddedDocumentText(bytes)).toBe(TEXT);
+    expect(bytes.at(-1)).toBe(0x3b);
+  });
+
+  test("APNGのiTXtチャンクに埋め込んだドキュメントを読み戻せる", async () => {
+    const encoder = new ApngEncoder();
+    encoder.setDocumentMetadata(TEXT);
+    encoder.begin(1, 1, 10);
+    encoder.addFrame(PIXEL);
+    const bytes = await readBlob(await encoder.finish());
+
+    expect(readEmbeddedDocumentText(bytes)).toBe(TEXT);
+  });
+
+  test("埋め込みの無い画像や別のキーワードのテキストはnullを返す", async () => {
+    const gif = new GifEncGifEncoder();
+    gif.begin(1, 1, 10);
+    gif.addFrame(PIXEL);
+
+    expect(readEmbeddedDocumentText(await readBlob(await gif.finish()))).toBe(
+      null,
+    );
+    expect(readEmbeddedDocumentText(encodePng(PIXEL))).toBe(null);
+    expect(readEmbeddedDocumentText(new TextEncoder().encode(TEXT))).toBe(null);
+
+    // 他のアプリが書いたiTXt（キーワード違い）は読まない
+    const png = encodePng(PIXEL);
+    const chunk = createPngDocumentChunk(TEXT);
+    chunk[8] = "W".charCodeAt(0);
+    const withOtherText = new Uint8Array(png.length + chunk.length);
+    withOtherText.set(png.subarray(0, png.length - 12));
+    withOtherText.set(chunk, png.length - 12);
+    withOtherText.set(
+      png.subarray(png.length - 12),
+      png.length - 12 + chunk.length,
+    );
+    expect(readEmbeddedDocumentText(withOtherText)).toBe(null);
+  });
+});
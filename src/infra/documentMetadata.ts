@@ -0,0 +1,163 @@
+import {
+  DRAWING_FILE_FORMAT,
+  type DrawingDocument,
+  parseDrawingDocument,
+} from "@/core/serialization";
+import { createChunk, PNG_SIGNATURE } from "@/infra/png";
+
+/** GIFのアプリケーション拡張に書く識別子（8文字） */
+const GIF_APPLICATION_ID = "ZAKOMEMO";
+/** GIFのアプリケーション拡張に書く認証コード（3文字、形式の版として使う） */
+const GIF_APPLICATION_CODE = "1.0";
+/** GIFのサブブロックの最大長 */
+const GIF_SUB_BLOCK_SIZE = 255;
+/** PNGのテキストチャンクのキーワード */
+const PNG_TEXT_KEYWORD = DRAWING_FILE_FORMAT;
+/** GIFファイルの先頭3バイト */
+const GIF_SIGNATURE = "GIF";
+
+/**
+ * ドキュメントのJSONを入れたGIFのアプリケーション拡張ブロック
+ * UTF-8のJSONを255バイトずつのサブブロックに分けて書く
+ */
+export function createGifDocumentExtension(text: string): Uint8Array {
+  const data = new TextEncoder().encode(text);
+  const blockCount = Math.ceil(data.length / GIF_SUB_BLOCK_SIZE);
+  const bytes = new Uint8Array(14 + data.length + blockCount + 1);
+  bytes.set([0x21, 0xff, 11]);
+  bytes.set(encodeAscii(GIF_APPLICATION_ID + GIF_APPLICATION_CODE), 3);
+  let offset = 14;
+  for (let start = 0; start < data.length; start += GIF_SUB_BLOCK_SIZE) {
+    const block = data.subarray(start, start + GIF_SUB_BLOCK_SIZE);
+    bytes[offset] = block.length;
+    bytes.set(block, offset + 1);
+    offset += block.length + 1;
+  }
+  bytes[offset] = 0; // ブロック終端
+  return bytes;
+}
+
+/**
+ * ドキュメントのJSONを入れたPNGのiTXtチャンク（非圧縮のUTF-8）
+ * tEXtはLatin-1しか書けないため、日本語のレイヤー名などを含められるiTXtを使う
+ */
+export function createPngDocumentChunk(text: string): Uint8Array {
+  const keyword = encodeAscii(PNG_TEXT_KEYWORD);
+  const body = new TextEncoder().encode(text);
+  // キーワード\0・圧縮フラグ・圧縮方式・言語タグ\0・翻訳キーワード\0・本文
+  const data = new Uint8Array(keyword.length + 5 + body.length);
+  data.set(keyword);
+  data.set(body, keyword.length + 5);
+  return createChunk("iTXt", data);
+}
+
+/**
+ * GIF/PNGに埋め込まれたドキュメントのJSONを取り出す
+ * @returns 埋め込みが無い場合、またはGIF/PNGでない場合はnull
+ */
+export function readEmbeddedDocumentText(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, PNG_SIGNATURE)) return readPngDocumentText(bytes);
+  if (startsWith(bytes, encodeAscii(GIF_SIGNATURE))) {
+    return readGifDocumentText(bytes);
+  }
+  return null;
+}
+
+/**
+ * 画像ファイルに埋め込まれたドキュメントを読み込む
+ * @returns 埋め込みが無い場合はnull
+ * @throws DrawingFormatError 埋め込まれたドキュメントが壊れている場合
+ */
+export async function readEmbeddedDocument(
+  blob: Blob,
+): Promise<DrawingDocument | null> {
+  const text = readEmbeddedDocumentText(
+    new Uint8Array(await blob.arrayBuffer()),
+  );
+  return text === null ? null : parseDrawingDocument(text);
+}
+
+/** PNGのチャンクを順に見て、キーワードが一致するiTXtの本文を返す */
+function readPngDocumentText(bytes: Uint8Array): string | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const keyword = encodeAscii(PNG_TEXT_KEYWORD);
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === "IEND") return null;
+    if (
+      type === "iTXt" &&
+      startsWith(data, keyword) &&
+      data[keyword.length] === 0 &&
+      data[keyword.length + 1] === 0 // 圧縮していないものだけ読む
+    ) {
+      // 言語タグと翻訳キーワードの終端を飛ばす
+      const languageEnd = data.indexOf(0, keyword.length + 3);
+      const translatedEnd = data.indexOf(0, languageEnd + 1);
+      if (languageEnd === -1 || translatedEnd === -1) return null;
+      return new TextDecoder().decode(data.subarray(translatedEnd + 1));
+    }
+    offset += 12 + length;
+  }
+  return null;
+}
+
+/** GIFのブロックを順に見て、識別子が一致するアプリケーション拡張の中身を返す */
+function readGifDocumentText(bytes: Uint8Array): string | null {
+  const identifier = encodeAscii(GIF_APPLICATION_ID + GIF_APPLICATION_CODE);
+  const readTableSize = (packed: number) =>
+    packed & 0x80 ? 3 * (1 << ((packed & 7) + 1)) : 0;
+  /** サブブロックの並びを読み、終端の次の位置と中身を返す */
+  const readSubBlocks = (start: number) => {
+    const blocks: Uint8Array[] = [];
+    let offset = start;
+    while (offset < bytes.length && bytes[offset] !== 0) {
+      blocks.push(bytes.subarray(offset + 1, offset + 1 + bytes[offset]));
+      offset += bytes[offset] + 1;
+    }
+    return { end: offset + 1, blocks };
+  };
+
+  let offset = 13 + readTableSize(bytes[10]);
+  while (offset < bytes.length && bytes[offset] !== 0x3b) {
+    if (bytes[offset] === 0x21) {
+      const label = bytes[offset + 1];
+      const { end, blocks } = readSubBlocks(offset + 2);
+      if (label === 0xff && blocks[0] && startsWith(blocks[0], identifier)) {
+        const data = new Uint8Array(
+          blocks.slice(1).reduce((sum, block) => sum + block.length, 0),
+        );
+        let position = 0;
+        for (const block of blocks.slice(1)) {
+          data.set(block, position);
+          position += block.length;
+        }
+        return new TextDecoder().decode(data);
+      }
+      offset = end;
+    } else if (bytes[offset] === 0x2c) {
+      // 画像記述子・局所色表・LZW最小符号長を飛ばして画素データを読み飛ばす
+      offset += 10 + readTableSize(bytes[offset + 9]) + 1;
+      offset = readSubBlocks(offset).end;
+    } else {
+      return null;
+    }
+  }
+  return null;
+}
+
+/** ASCII文字列をバイト列にする */
+function encodeAscii(text: string): Uint8Array {
+  return Uint8Array.from(text, (char) => char.charCodeAt(0));
+}
+
+/** バイト列が指定の並びで始まるか */
+function startsWith(bytes: Uint8Array, prefix: ArrayLike<number>): boolean {
+  if (bytes.length < prefix.length) return false;
+  for (let i = 0; i < prefix.length; i++) {
+    if (bytes[i] !== prefix[i]) return false;
+  }
+  return true;
+}
@@ -0,0 +1,448 @@
+import { DEFAULT_ANIMATION_SETTINGS } from "@/core/animation";
+import { createFrame, DEFAULT_FRAME_DURATION_MS } from "@/core/frames";
+import { createDrawing } from "@/core/layers";
+import type { Drawing, Stroke } from "@/core/types";
+import type { AnimationEncoder, DrawingRenderer } from "@/engine/ports";
+import { exportDrawingAnimation } from "@/infra/exportAnimation";
+
+const { cycleCount, cycleIntervalMs } = DEFAULT_ANIMATION_SETTINGS;
+
+/** 出力テスト用のレンダラー */
+class MockRenderer implements DrawingRenderer {
+  clears: { width: number; height: number }[] = [];
+  renders: Array<{ stroke: Stroke; time: number }> = [];
+  constructor(
+    private width: number,
+    private height: number,
+  ) {}
+
+  clear(width: number, height: number): void {
+    this.clears.push({ width, height });
+  }
+
+  renderStroke({
+    stroke,
+    jitteredPoints: _jitteredPoints,
+    elapsedTimeMs,
+  }: {
+    stroke: Stroke;
+    jitteredPoints: { x: number; y: number }[];
+    elapsedTimeMs: number;
+  }): void {
+    this.renders.push({ stroke, time: elapsedTimeMs });
+  }
+
+  invalidateRenderCache(): void {
+    // モック用の空実装
+  }
+
+  getImageData(): ImageData {
+    return {
+      width: this.width,
+      height: this.height,
+      data: new Uint8ClampedArray(this.width * this.height * 4),
+    } as unknown as ImageData;
+  }
+}
+
+/** エンコーダーのテスト用モック */
+class MockAnimationEncoder implements AnimationEncoder {
+  frames: ImageData[] = [];
+  delays: Array<number | undefined> = [];
+  beginArgs: { width: number; height: number; fps: number } | null = null;
+  begin(width: number, height: number, fps: number): void {
+    this.beginArgs = { width, height, fps };
+  }
+  addFrame(imageData: ImageData, delayMs?: number): void {
+    this.frames.push(imageData);
+    this.delays.push(delayMs);
+  }
+  async finish(): Promise<Blob> {
+    return new Blob(["animation"]);
+  }
+}
+
+/** cycleBitmap取得を検証するためのレンダラー */
+class MockCycleRenderer implements DrawingRenderer {
+  revisions: number[] = [];
+  cycleIndices: number[] = [];
+  closeSpy = vi.fn();
+  constructor(
+    private width: number,
+    private height: number,
+  ) {}
+
+  clear(_width: number, _height: number): void {
+    // モック用の空実装
+  }
+
+  renderStroke({
+    stroke: _stroke,
+    jitteredPoints: _jitteredPoints,
+    elapsedTimeMs: _elapsedTimeMs,
+  }: {
+    stroke: Stroke;
+    jitteredPoints: { x: number; y: number }[];
+    elapsedTimeMs: number;
+  }): void {
+    // モック用の空実装
+  }
+
+  invalidateRenderCache(): void {
+    // モック用の空実装
+  }
+
+  getCycleCount(): number {
+    return cycleCount;
+  }
+
+  async getCycleBitmap(params: {
+    drawingRevision: number;
+    cycleIndex: number;
+  }): Promise<ImageBitmap> {
+    this.revisions.push(params.drawingRevision);
+    this.cycleIndices.push(params.cycleIndex);
+    const canvas = document.createElement("canvas");
+    canvas.width = this.width;
+    canvas.height = this.height;
+    const bitmap = canvas as unknown as ImageBitmap;
+    (bitmap as { close: () => void }).close = this.closeSpy;
+    return bitmap;
+  }
+}
+
+const drawing: Drawing = createDrawing(20, 20, [
+  {
+    id: "s1",
+    kind: "draw",
+    brush: {
+      kind: "solid",
+      color: { kind: "palette", index: 0 },
+      width: 2,
+      opacity: 1,
+      variant: "penCircle",
+    },
+    points: [
+      { x: 0, y: 0, t: 0 },
+      { x: 10, y: 0, t: 10 },
+    ],
+  },
+]);
+
+describe("exportDrawingAnimation", () => {
+  test("フレームを描画しエンコーダーに渡す", async () => {
+    const renderer = new MockRenderer(drawing.width, drawing.height);
+    const encoder = new MockAnimationEncoder();
+
+    const blob = await exportDrawingAnimation({
+      frames: [createFrame("f1", drawing, cycleCount * cycleIntervalMs)],
+      drawingRevision: 0,
+      renderer,
+      encoder,
+      jitterConfig: { amplitude: 0, frequency: 1 },
+      animation: DEFAULT_ANIMATION_SETTINGS,
+    });
+
+    const fps = Math.round(1000 / cycleIntervalMs);
+    expect(encoder.beginArgs).toEqual({ width: 20, height: 20, fps });
+    expect(encoder.frames).toHaveLength(cycleCount);
+    expect(blob).toBeInstanceOf(Blob);
+  });
+
+  test("ドキュメントのコマ数・間隔でフレームを積む", async () => {
+    const renderer = new MockRenderer(drawing.width, drawing.height);
+    const encoder = new MockAnimationEncoder();
+
+    await exportDrawingAnimation({
+      frames: [createFrame("f1", drawing, 250)],
+      drawingRevision: 0,
+      renderer,
+      encoder,
+      jitterConfig: { amplitude: 0, frequency: 1 },
+      animation: { cycleCount: 2, cycleIntervalMs: 50 },
+    });
+
+    // 5枚では継ぎ目で揺れが飛ぶので、cycle数の倍数になるまで繰り返す
+    expect(encoder.beginArgs?.fps).toBe(20);
+    expect(encoder.delays).toEqual(Array(10).fill(50));
+    expect(renderer.renders.map((r) => r.time)).toEqual([
+      0, 50, 0, 50, 0, 50, 0, 50, 0, 50,
+    ]);
+  });
+
+  test("既定の表示時間と揺れ設定でもすべてのcycleを書き出す", async () => {
+    const renderer = new MockRenderer(drawing.width, drawing.height);
+    const encoder = new MockAnimationEncoder();
+
+    await exportDrawingAnimation({
+      frames: [createFrame("f1", drawing, DEFAULT_FRAME_DURATION_MS)],
+      drawingRevision: 0,
+      renderer,
+      encoder,
+      jitterConfig: { amplitude: 0, frequency: 1 },
+      animation: DEFAULT_ANIMATION_SETTINGS,
+    });
+
+    expect(encoder.frames.length % cycleCount).toBe(0);
+    expect(encoder.delays).toEqual(Array(6).fill(cycleIntervalMs));
+    expect(renderer.renders.map((r) => r.time / cycleIntervalMs)).toEqual([
+      0, 1, 2, 0, 1, 2,
+    ]);
+  });
+
+  test("埋め込みに対応したエンコーダーにはドキュメントを渡す", async () => {
+    const renderer = new MockRenderer(drawing.width, drawing.height);
+    const encoder = Object.assign(new MockAnimationEncoder(), {
+      setDocumentMetadata: vi.fn(),
+    });
+
+    await exportDrawingAnimation({
+      frames: [createFrame("f1", drawing, 50)],
+      drawingRevision: 0,
+      renderer,
+      encoder,
+      jitterConfig: { amplitude: 0, frequency: 1 },
+      animation: { cycleCount: 1, cycleIntervalMs: 50 },
+      documentMetadata: "{}",
+    });
+
+    expect(encoder.setDocumentMetadata).toHaveBeenCalledWith("{}");
+  });
+
+  test("中止するとそれ以降のフレームを積まずにAbortErrorで終わる", async () => {
+    const renderer = new MockRenderer(drawing.width, drawing.height);
+    const encoder = new MockAnimationEncoder();
+    const finish = vi.spyOn(encoder, "finish");
+    const controller = new AbortController();
+    vi.spyOn(encoder, "addFrame").mockImplementation(() => {
+      controller.abort();
+    });
+
+    await expect(
+      exportDrawingAnimation({
+        frames: [createFrame("f1", drawing, 250)],
+        drawingRevision: 0,
+        renderer,
+        encoder,
+        jitterConfig: { amplitude: 0, frequency: 1 },
+        animation: { cycleCount: 2, cycleIntervalMs: 50 },
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow(expect.objectContaining({ name: "AbortError" }));
+
+    expect(encoder.addFrame).toHaveBeenCalledTimes(1);
+    expect(finish).not.toHaveBeenCalled();
+  });
+
+  test("getCycleBitmapにdrawingRevisionが渡される", async () => {
+    const renderer = new MockCycleRenderer(drawing.width, drawing.height);
+    const encoder = new MockAnimationEncoder();
+
+    await exportDrawingAnimation({
+      frames: [createFrame("f1", drawing, cycleCount * cycleIntervalMs)],
+      drawingRevision: 42,
+      renderer,
+      encoder,
+      jitterConfig: { amplitude: 0, frequency: 1 },
+      animation: DEFAULT_ANIMATION_SETTINGS,
+    });
+
+    expect(renderer.revisions).toEqual([42, 42, 42]);
+    expect(encoder.frames).toHaveLength(cycleCount);
+    expect(renderer.closeSpy).toHaveBeenCalledTimes(cycleCount);
+  });
+
+  test("コマごとに表示時間分のcycleを進め、端数は最後のフレームで調整する", async () => {
+    const renderer = new MockCycleRenderer(drawing.width, drawing.height);
+    const encoder = new MockAnimationEncoder();
+
+    await exportDrawingAnimation({
+      frames: [
+        createFrame("f1", drawing, 250),
+        createFrame("f2", drawing, 100),
+      ],
+      drawingRevision: 10,
+      renderer,
+      encoder,
+      jitterConfig: { amplitude: 0, frequency: 1 },
+      animation: DEFAULT_ANIMATION_SETTINGS,
+    });
+
+    expect(encoder.delays).toEqual([
+      100, 100, 50, 100, 100, 100, 50, 100, 100, 100, 50, 100,
+    ]);
+    expect(renderer.revisions).toEqual([
+      10, 10, 10, 11, 10, 10, 10, 11, 10, 10, 10, 11,
+    ]);
+    expect(renderer.cycleIndices).toEqual([0, 1, 2, 0, 1, 2, 0, 1, 2, 0, 1, 2]);
+  });
+
+  test("色表に対応したレンダラーとエンコーダーならパレット・背景色・固定色を渡す", async () => {
+    const renderer = Object.assign(
+      new MockRenderer(drawing.width, drawing.height),
+      {
+        getColorTable: () => [
+          { r: 1, g: 2, b: 3 },
+          { r: 255, g: 255, b: 255 },
+        ],
+      },
+    );
+    const encoder = Object.assign(new MockAnimationEncoder(), {
+      setColorTable: vi.fn(),
+    });
+    const fixedDrawing = createDrawing(20, 20, [
+      {
+        ...drawing.layers[0].strokes[0],
+        brush: {
+          ...drawing.layers[0].strokes[0].brush,
+          color: { kind: "fixed", color: "#102030" },
+        },
+      },
+    ]);
+
+    await exportDrawingAnimation({
+      frames: [createFrame("f1", fixedDrawing, cycleIntervalMs)],
+      drawingRevision: 0,
+      renderer,
+      encoder,
+      jitterConfig: { amplitude: 0, frequency: 1 },
+      animation: DEFAULT_ANIMATION_SETTINGS,
+    });
+
+    expect(encoder.setColorTable).toHaveBeenCalledWith([
+      { r: 1, g: 2, b: 3 },
+      { r: 255, g: 255, b: 255 },
+      { r: 0x10, g: 0x20, b: 0x30 },
+    ]);
+  });
+  describe("拡大とふち", () => {
+    const RED = [255, 0, 0, 255];
+    const BLUE = [0, 0, 255, 255];
+    const FILL = [0x11, 0x22, 0x33, 255];
+    const LINE = [0x44, 0x55, 0x66, 255];
+    const smallDrawing = createDrawing(2, 2);
+
+    /** 2×2の決まった絵を返すレンダラー */
+    function createPixelRenderer() {
+      return Object.assign(new MockRenderer(2, 2), {
+        getImageData: () =>
+          ({
+            width: 2,
+            height: 2,
+            data: new Uint8ClampedArray([RED, BLUE, BLUE, RED].flat()),
+          }) as unknown as ImageData,
+      });
+    }
+
+    /** 出力フレームを行ごとのピクセル配列にする */
+    function toRows(imageData: ImageData): number[][][] {
+      return Array.from({ length: imageData.height }, (_, y) =>
+        Array.from({ length: imageData.width }, (_, x) => {
+          const i = (y * imageData.width + x) * 4;
+          return Array.from(imageData.data.subarray(i, i + 4));
+        }),
+      );
+    }
+
+    beforeEach(() => {
+      // jsdomにはImageDataが無いため、必要なプロパティだけ持つものに置き換える
+      vi.stubGlobal(
+        "ImageData",
+        class {
+          constructor(
+            public data: Uint8ClampedArray,
+            public width: number,
+            public height: number,
+          ) {}
+        },
+      );
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    test("倍率分だけピクセルをブロック状に複製する", async () => {
+      const encoder = new MockAnimationEncoder();
+
+      await exportDrawingAnimation({
+        frames: [createFrame("f1", smallDrawing, cycleIntervalMs)],
+        drawingRevision: 0,
+        renderer: createPixelRenderer(),
+        encoder,
+        jitterConfig: { amplitude: 0, frequency: 1 },
+        animation: DEFAULT_ANIMATION_SETTINGS,
+        scale: 3,
+      });
+
+      expect(encoder.beginArgs).toMatchObject({ width: 6, height: 6 });
+      const rows = toRows(encoder.frames[0]);
+      const top = [RED, RED, RED, BLUE, BLUE, BLUE];
+      const bottom = [BLUE, BLUE, BLUE, RED, RED, RED];
+      expect(rows).toEqual([top, top, top, bottom, bottom, bottom]);
+    });
+
+    test("ふちを付けると余白を塗り、外周に線を引く", async () => {
+      const encoder = Object.assign(new MockAnimationEncoder(), {
+        setColorTable: vi.fn(),
+      });
+      const renderer = Object.assign(createPixelRenderer(), {
+        getColorTable: () => [{ r: 255, g: 0, b: 0 }],
+      });
+
+      await exportDrawingAnimation({
+        frames: [createFrame("f1", smallDrawing, cycleIntervalMs)],
+        drawingRevision: 0,
+        renderer,
+        encoder,
+        jitterConfig: { amplitude: 0, frequency: 1 },
+        animation: DEFAULT_ANIMATION_SETTINGS,
+        scale: 2,
+        border: { padding: 2, fillColor: "#112233", lineColor: "#445566" },
+      });
+
+      // 絵(2×2)の周りに2ピクセルずつ余白を付けて2倍にする
+      expect(encoder.beginArgs).toMatchObject({ width: 12, height: 12 });
+      const rows = toRows(encoder.frames[0]);
+      expect(rows[0]).toEqual(Array(12).fill(LINE));
+      expect(rows[1]).toEqual(Array(12).fill(LINE));
+      expect(rows[2]).toEqual([LINE, LINE, ...Array(8).fill(FILL), LINE, LINE]);
+      expect(rows[4]).toEqual([
+        LINE,
+        LINE,
+        FILL,
+        FILL,
+        RED,
+        RED,
+        BLUE,
+        BLUE,
+        FILL,
+        FILL,
+        LINE,
+        LINE,
+      ]);
+      expect(rows[7].slice(4, 8)).toEqual([BLUE, BLUE, RED, RED]);
+      expect(rows[11]).toEqual(Array(12).fill(LINE));
+      // ふちの色も減色せずに書けるよう色表に含める
+      expect(encoder.setColorTable).toHaveBeenCalledWith([
+        { r: 255, g: 0, b: 0 },
+        { r: 0x11, g: 0x22, b: 0x33 },
+        { r: 0x44, g: 0x55, b: 0x66 },
+      ]);
+    });
+
+    test("倍率が範囲外ならエラーになる", async () => {
+      await expect(
+        exportDrawingAnimation({
+          frames: [createFrame("f1", smallDrawing, cycleIntervalMs)],
+          drawingRevision: 0,
+          renderer: createPixelRenderer(),
+          encoder: new MockAnimationEncoder(),
+          jitterConfig: { amplitude: 0, frequency: 1 },
+          animation: DEFAULT_ANIMATION_SETTINGS,
+          scale: 9,
+        }),
+      ).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { collectFixedColors } from "@/core/frames";
+import type { AnimationEncoder } from "@/engine/ports";
+import { parseColorToRgb } from "@/infra/colorUtil";
+import {
+  type ExportFramesOptions,
+  getExportFrameSize,
+  renderExportFrames,
+} from "@/infra/exportFrames";
+
+/** アニメーション画像の出力に必要な入力パラメータ */
+export type ExportAnimationOptions = ExportFramesOptions & {
+  /** 出力形式（GIF/APNG/WebP）のエンコーダー */
+  encoder: AnimationEncoder;
+  /** 画像に埋め込む編集用ドキュメントのJSON（対応する形式のみ） */
+  documentMetadata?: string;
+  /** 書き出しを途中で止める合図（止めた場合はフレームを描く前にAbortErrorで終わる） */
+  signal?: AbortSignal;
+};
+
+/**
+ * コマ列をアニメーション画像に変換して返す。
+ * フレームの描き方（cycleの進め方・拡大・ふち）はrenderExportFramesに従う。
+ *
+ * @throws レンダラーがgetImageDataメソッドを提供していない場合
+ * @throws 拡大倍率が1〜8の整数でない場合
+ * @throws signalで中止された場合
+ */
+export async function exportDrawingAnimation(
+  options: ExportAnimationOptions,
+): Promise<Blob> {
+  const {
+    frames,
+    renderer,
+    encoder,
+    animation,
+    border,
+    documentMetadata,
+    signal,
+  } = options;
+  signal?.throwIfAborted();
+  const fps = Math.round(1000 / animation.cycleIntervalMs);
+  const { width, height } = getExportFrameSize(options);
+
+  // パレット・背景色・固定色がすべて分かるので、対応エンコーダーには色表を渡して減色を避ける
+  if (
+    "setColorTable" in encoder &&
+    typeof encoder.setColorTable === "function" &&
+    "getColorTable" in renderer &&
+    typeof renderer.getColorTable === "function"
+  ) {
+    encoder.setColorTable([
+      ...renderer.getColorTable(),
+      ...collectFixedColors(frames).map((color) => {
+        const { r, g, b } = parseColorToRgb(color);
+        return { r, g, b };
+      }),
+      ...(border ? [border.fillColor, border.lineColor] : []).map((color) => {
+        const { r, g, b } = parseColorToRgb(color);
+        return { r, g, b };
+      }),
+    ]);
+  }
+
+  if (
+    documentMetadata !== undefined &&
+    "setDocumentMetadata" in encoder &&
+    typeof encoder.setDocumentMetadata === "function"
+  ) {
+    encoder.setDocumentMetadata(documentMetadata);
+  }
+
+  encoder.begin(width, height, fps);
+  for await (const { imageData, delayMs } of renderExportFrames(options)) {
+    signal?.throwIfAborted();
+    encoder.addFrame(imageData, delayMs);
+  }
+  return encoder.finish();
+}
@@ -0,0 +1,337 @@
+import type { AnimationSettings } from "@/core/animation";
+import type { JitterConfig } from "@/core/jitter";
+import type { Frame } from "@/core/types";
+import type { DrawingRenderer, GetCycleBitmapParams } from "@/engine/ports";
+import { renderDrawingAtTime } from "@/engine/renderScheduler";
+import { parseColorToRgb } from "@/infra/colorUtil";
+
+type RendererWithImageData = DrawingRenderer & {
+  getImageData: () => ImageData;
+};
+
+type RendererWithCycleBitmap = DrawingRenderer & {
+  getCycleBitmap(params: GetCycleBitmapParams): Promise<ImageBitmap>;
+  getCycleCount(): number;
+};
+
+/** 書き出しの拡大倍率の範囲 */
+export const MIN_EXPORT_SCALE = 1;
+export const MAX_EXPORT_SCALE = 8;
+
+/** 書き出す画像の周りに付けるふち（本体の見た目に合わせる） */
+export type ExportBorder = {
+  /** 絵の周りの余白（拡大前のピクセル数） */
+  padding: number;
+  /** 余白の色 */
+  fillColor: string;
+  /** 外周の線の色（太さは拡大前の1ピクセル分） */
+  lineColor: string;
+};
+
+/** 書き出すフレーム列の描画に必要な入力パラメータ */
+export type ExportFramesOptions = {
+  /** 書き出すコマ列（先頭から順に表示時間どおり並べる） */
+  frames: Frame[];
+  /** 版番号の起点（キャッシュ無効化用。コマごとに1ずつ進める） */
+  drawingRevision: number;
+  /** 描画レンダラー */
+  renderer: RendererWithImageData | RendererWithCycleBitmap;
+  /** jitter設定 */
+  jitterConfig: JitterConfig;
+  /** ぶるぶるのコマ数・間隔（対応レンダラーにはこの設定を反映してから描く） */
+  animation: AnimationSettings;
+  /** 拡大倍率（1〜8の整数。ニアレストネイバーで拡大する。省略時は1） */
+  scale?: number;
+  /** 周りに付けるふち（省略時は付けない） */
+  border?: ExportBorder;
+  /** 最初の出力フレームのcycle番号（省略時は0。表示中の揺れから書き出す場合に指定する） */
+  startCycleIndex?: number;
+};
+
+/** 書き出す1フレーム（拡大とふちを付けたあとの画像と表示時間） */
+export type ExportFrame = {
+  imageData: ImageData;
+  delayMs: number;
+};
+
+/**
+ * 拡大とふちを含めた出力フレームの大きさ
+ *
+ * @throws 拡大倍率が1〜8の整数でない場合
+ */
+export function getExportFrameSize({
+  frames,
+  scale = MIN_EXPORT_SCALE,
+  border,
+}: Pick<ExportFramesOptions, "frames" | "scale" | "border">): {
+  width: number;
+  height: number;
+} {
+  const { width, height } = frames[0].drawing;
+  return computeFrameLayout({ width, height, scale, border });
+}
+
+/**
+ * コマ列を書き出し用のフレーム列として順に描く。
+ * 各コマは表示時間の間もwiggleのcycleを進め続け、コマをまたいでも揺れが途切れないようにする。
+ * 出力フレーム数がcycle数の倍数になるまでコマ列を繰り返して書き出す。
+ * ImageBitmapキャッシュ対応レンダラーの場合はキャッシュ経由で描画する。
+ * 拡大やふちの指定があれば、各フレームを描いたあとに付ける。
+ *
+ * @throws レンダラーがgetImageDataメソッドを提供していない場合
+ * @throws 拡大倍率が1〜8の整数でない場合
+ */
+export async function* renderExportFrames(
+  options: ExportFramesOptions,
+): AsyncGenerator<ExportFrame> {
+  const {
+    frames,
+    drawingRevision,
+    renderer,
+    jitterConfig,
+    animation,
+    scale = MIN_EXPORT_SCALE,
+    border,
+    startCycleIndex = 0,
+  } = options;
+  const { cycleCount, cycleIntervalMs } = animation;
+  const { width, height } = frames[0].drawing;
+  const scaler = createFrameScaler({ width, height, scale, border });
+
+  if (
+    "setAnimationSettings" in renderer &&
+    typeof renderer.setAnimationSettings === "function"
+  ) {
+    renderer.setAnimationSettings(animation);
+  }
+
+  // ImageBitmapキャッシュを使用する場合
+  if (
+    "getCycleBitmap" in renderer &&
+    typeof renderer.getCycleBitmap === "function" &&
+    "getCycleCount" in renderer &&
+    typeof renderer.getCycleCount === "function"
+  ) {
+    const cycleRenderer = renderer as RendererWithCycleBitmap;
+    const rendererCycleCount = cycleRenderer.getCycleCount();
+
+    const tempCanvas = document.createElement("canvas");
+    tempCanvas.width = width;
+    tempCanvas.height = height;
+    const tempCtx = tempCanvas.getContext("2d", {
+      willReadFrequently: true,
+    });
+    if (!tempCtx) {
+      throw new Error("Failed to get 2D context for temp canvas");
+    }
+
+    let step = startCycleIndex;
+    for (const { frameIndex, frame, delayMs } of planOutputFrames(
+      frames,
+      cycleIntervalMs,
+      rendererCycleCount,
+    )) {
+      const cycleIndex = step % rendererCycleCount;
+      const elapsedTimeMs = cycleIndex * cycleIntervalMs;
+      step += 1;
+
+      const bitmap = await cycleRenderer.getCycleBitmap({
+        drawing: frame.drawing,
+        drawingRevision: drawingRevision + frameIndex,
+        cycleIndex,
+        jitterConfig,
+        elapsedTimeMs,
+      });
+
+      try {
+        // ImageBitmapからImageDataを取得
+        tempCtx.setTransform(1, 0, 0, 1, 0, 0);
+        tempCtx.clearRect(0, 0, width, height);
+        tempCtx.drawImage(bitmap, 0, 0);
+        const imageData = tempCtx.getImageData(0, 0, width, height);
+        yield { imageData: scaler.apply(imageData), delayMs };
+      } finally {
+        bitmap.close();
+      }
+    }
+  } else {
+    // フォールバック: 通常の描画
+    const imageRenderer = renderer as RendererWithImageData;
+
+    let step = startCycleIndex;
+    for (const { frameIndex, frame, delayMs } of planOutputFrames(
+      frames,
+      cycleIntervalMs,
+      cycleCount,
+    )) {
+      const elapsedTimeMs = (step % cycleCount) * cycleIntervalMs;
+      step += 1;
+      renderDrawingAtTime({
+        drawing: frame.drawing,
+        drawingRevision: drawingRevision + frameIndex,
+        renderer,
+        jitterConfig,
+        elapsedTimeMs,
+        cycleIntervalMs,
+      });
+      const imageData = imageRenderer.getImageData();
+      yield { imageData: scaler.apply(imageData), delayMs };
+    }
+  }
+}
+
+/** 出力フレーム1枚分の描画対象と表示時間 */
+type PlannedOutputFrame = {
+  frameIndex: number;
+  frame: Frame;
+  delayMs: number;
+};
+
+/**
+ * コマ列を出力フレームの並びに展開する
+ * 出力フレーム数がcycle数の倍数になるまでコマ列を繰り返し、
+ * すべてのcycleが現れ、ループの継ぎ目でも揺れが飛ばないようにする
+ */
+function planOutputFrames(
+  frames: Frame[],
+  intervalMs: number,
+  cycleCount: number,
+): PlannedOutputFrame[] {
+  const pass = frames.flatMap((frame, frameIndex) =>
+    splitDuration(frame.durationMs, intervalMs).map((delayMs) => ({
+      frameIndex,
+      frame,
+      delayMs,
+    })),
+  );
+  const passCount = cycleCount / greatestCommonDivisor(pass.length, cycleCount);
+  return Array.from({ length: passCount }, () => pass).flat();
+}
+
+/** 最大公約数 */
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
+/**
+ * コマの表示時間をcycle間隔ごとの出力フレームの表示時間に分ける
+ * 端数は最後のフレームに持たせ、合計がコマの表示時間と一致するようにする
+ */
+function splitDuration(durationMs: number, intervalMs: number): number[] {
+  const count = Math.max(1, Math.ceil(durationMs / intervalMs));
+  return Array.from({ length: count }, (_, i) =>
+    i < count - 1 ? intervalMs : durationMs - intervalMs * i,
+  );
+}
+
+/** 出力フレームの大きさと、描いたフレームを出力フレームに変換する関数 */
+type FrameScaler = {
+  width: number;
+  height: number;
+  apply: (imageData: ImageData) => ImageData;
+};
+
+/** 拡大とふちの入力 */
+type FrameLayoutParams = {
+  width: number;
+  height: number;
+  scale: number;
+  border: ExportBorder | undefined;
+};
+
+/**
+ * 拡大とふちを含めた出力の大きさと、絵を置く位置（左上からの余白）を求める
+ *
+ * @throws 拡大倍率が1〜8の整数でない場合
+ */
+function computeFrameLayout({
+  width,
+  height,
+  scale,
+  border,
+}: FrameLayoutParams): { width: number; height: number; inset: number } {
+  if (
+    !Number.isInteger(scale) ||
+    scale < MIN_EXPORT_SCALE ||
+    scale > MAX_EXPORT_SCALE
+  ) {
+    throw new Error(
+      `scale must be an integer between ${MIN_EXPORT_SCALE} and ${MAX_EXPORT_SCALE}, got ${scale}`,
+    );
+  }
+  const inset = (border?.padding ?? 0) * scale;
+  return {
+    width: width * scale + inset * 2,
+    height: height * scale + inset * 2,
+    inset,
+  };
+}
+
+/**
+ * 拡大とふちを付けるFrameScalerを作る
+ * ふちは全フレームで同じなので、塗った下地を1枚作っておきフレームごとに複製する
+ */
+function createFrameScaler(params: FrameLayoutParams): FrameScaler {
+  const { width, height, scale, border } = params;
+  const {
+    width: outputWidth,
+    height: outputHeight,
+    inset,
+  } = computeFrameLayout(params);
+  if (scale === 1 && !border) {
+    return { width, height, apply: (imageData) => imageData };
+  }
+
+  const base = new Uint8ClampedArray(outputWidth * outputHeight * 4);
+  if (border) {
+    const fill = parseColorToRgb(border.fillColor);
+    const line = parseColorToRgb(border.lineColor);
+    for (let y = 0; y < outputHeight; y++) {
+      for (let x = 0; x < outputWidth; x++) {
+        const onLine =
+          x < scale ||
+          y < scale ||
+          x >= outputWidth - scale ||
+          y >= outputHeight - scale;
+        const color = onLine ? line : fill;
+        const i = (y * outputWidth + x) * 4;
+        base[i] = color.r;
+        base[i + 1] = color.g;
+        base[i + 2] = color.b;
+        base[i + 3] = 255;
+      }
+    }
+  }
+
+  const rowLength = width * scale * 4;
+  return {
+    width: outputWidth,
+    height: outputHeight,
+    apply: (imageData) => {
+      const source = imageData.data;
+      const data = base.slice();
+      for (let y = 0; y < height; y++) {
+        const rowStart = ((inset + y * scale) * outputWidth + inset) * 4;
+        // 1行目をピクセルごとに横へ複製し、残りの行はその行をコピーする
+        for (let x = 0; x < width; x++) {
+          const s = (y * width + x) * 4;
+          for (let dx = 0; dx < scale; dx++) {
+            const d = rowStart + (x * scale + dx) * 4;
+            data[d] = source[s];
+            data[d + 1] = source[s + 1];
+            data[d + 2] = source[s + 2];
+            data[d + 3] = source[s + 3];
+          }
+        }
+        for (let dy = 1; dy < scale; dy++) {
+          data.copyWithin(
+            rowStart + dy * outputWidth * 4,
+            rowStart,
+            rowStart + rowLength,
+          );
+        }
+      }
+      return new ImageData(data, outputWidth, outputHeight);
+    },
+  };
+}
@@ -0,0 +1,273 @@
+import { crc32, inflateSync } from "node:zlib";
+import { createFrame } from "@/core/frames";
+import { createDrawing } from "@/core/layers";
+import type { Stroke } from "@/core/types";
+import type { DrawingRenderer } from "@/engine/ports";
+import {
+  exportDrawingPng,
+  exportDrawingPngSequence,
+  exportDrawingSpritesheet,
+  exportDrawingSpritesheetZip,
+} from "@/infra/exportSpritesheet";
+import { readBlob } from "@/testUtils/imageHelpers";
+
+/** 描くたびに色が変わる2×1の絵を返すレンダラー */
+class CountingRenderer implements DrawingRenderer {
+  count = 0;
+
+  clear(_width: number, _height: number): void {
+    this.count += 1;
+  }
+
+  renderStroke(_params: {
+    stroke: Stroke;
+    jitteredPoints: { x: number; y: number }[];
+    elapsedTimeMs: number;
+  }): void {
+    // モック用の空実装
+  }
+
+  invalidateRenderCache(): void {
+    // モック用の空実装
+  }
+
+  getImageData(): ImageData {
+    return {
+      width: 2,
+      height: 1,
+      data: new Uint8ClampedArray([
+        this.count,
+        0,
+        0,
+        255,
+        0,
+        this.count,
+        0,
+        255,
+      ]),
+    } as unknown as ImageData;
+  }
+}
+
+/** PNGを展開して大きさとRGBAのピクセル列を取り出す（Subフィルタのみ対応） */
+function decodePng(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const width = view.getUint32(16);
+  const height = view.getUint32(20);
+  const idat: number[] = [];
+  let offset = 8;
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (type === "IDAT") {
+      idat.push(...bytes.subarray(offset + 8, offset + 8 + length));
+    }
+    offset += 12 + length;
+  }
+  const raw = inflateSync(Uint8Array.from(idat));
+  const stride = width * 4;
+  const pixels: number[][] = [];
+  for (let y = 0; y < height; y++) {
+    const row = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = new Uint8Array(stride);
+    for (let x = 0; x < stride; x++) {
+      out[x] = (row[x] + (x >= 4 ? out[x - 4] : 0)) & 0xff;
+    }
+    for (let x = 0; x < width; x++) {
+      pixels.push(Array.from(out.subarray(x * 4, x * 4 + 4)));
+    }
+  }
+  return { width, height, pixels };
+}
+
+/** 無圧縮のZIPを中央ディレクトリからたどってファイルに分ける */
+function readZip(bytes: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const files = new Map<string, Uint8Array>();
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    expect(view.getUint16(offset + 10, true)).toBe(0);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength),
+    );
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    const data = bytes.subarray(dataStart, dataStart + size);
+    expect(crc32(data)).toBe(crc);
+    files.set(name, data);
+    offset += 46 + nameLength;
+  }
+  return files;
+}
+
+const drawing = createDrawing(2, 1);
+const animation = { cycleCount: 3, cycleIntervalMs: 50 };
+/** 1コマ150msを50msごとに3フレーム（1巡分のcycle）にして書き出す */
+const baseOptions = () => ({
+  frames: [createFrame("f1", drawing, 150)],
+  drawingRevision: 0,
+  renderer: new CountingRenderer(),
+  jitterConfig: { amplitude: 0, frequency: 1 },
+  animation,
+});
+
+/** n回目に描いたフレームの2ピクセル */
+const framePixels = (n: number) => [
+  [n, 0, 0, 255],
+  [0, n, 0, 255],
+];
+const EMPTY = [0, 0, 0, 0];
+
+describe("exportSpritesheet", () => {
+  beforeEach(() => {
+    // jsdomにはImageDataが無いため、必要なプロパティだけ持つものに置き換える
+    vi.stubGlobal(
+      "ImageData",
+      class {
+        constructor(
+          public data: Uint8ClampedArray,
+          public width: number,
+          public height: number,
+        ) {}
+      },
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("格子状に並べたシートとフレームの位置・表示時間のアトラスを返す", async () => {
+    const { image, atlas } = await exportDrawingSpritesheet({
+      ...baseOptions(),
+      layout: "grid",
+    });
+
+    expect(image.type).toBe("image/png");
+    expect(atlas.meta).toEqual({
+      image: "spritesheet.png",
+      format: "RGBA8888",
+      size: { w: 4, h: 2 },
+      layout: "grid",
+    });
+    expect(atlas.frames).toEqual([
+      {
+        filename: "frame_000.png",
+        frame: { x: 0, y: 0, w: 2, h: 1 },
+        duration: 50,
+      },
+      {
+        filename: "frame_001.png",
+        frame: { x: 2, y: 0, w: 2, h: 1 },
+        duration: 50,
+      },
+      {
+        filename: "frame_002.png",
+        frame: { x: 0, y: 1, w: 2, h: 1 },
+        duration: 50,
+      },
+    ]);
+    const png = decodePng(await readBlob(image));
+    expect(png.pixels).toEqual([
+      ...framePixels(1),
+      ...framePixels(2),
+      ...framePixels(3),
+      EMPTY,
+      EMPTY,
+    ]);
+  });
+
+  test("横並び・縦並びではフレーム数分だけ一方向に伸ばす", async () => {
+    const horizontal = await exportDrawingSpritesheet({
+      ...baseOptions(),
+      layout: "horizontal",
+    });
+    const vertical = await exportDrawingSpritesheet({
+      ...baseOptions(),
+      layout: "vertical",
+    });
+
+    expect(horizontal.atlas.meta.size).toEqual({ w: 6, h: 1 });
+    expect(horizontal.atlas.frames.map(({ frame }) => frame.x)).toEqual([
+      0, 2, 4,
+    ]);
+    expect(vertical.atlas.meta.size).toEqual({ w: 2, h: 3 });
+    expect(vertical.atlas.frames.map(({ frame }) => frame.y)).toEqual([
+      0, 1, 2,
+    ]);
+    expect(decodePng(await readBlob(vertical.image)).pixels).toEqual([
+      ...framePixels(1),
+      ...framePixels(2),
+      ...framePixels(3),
+    ]);
+  });
+
+  test("シートとアトラスを同じ名前でZIPにまとめる", async () => {
+    const blob = await exportDrawingSpritesheetZip({
+      ...baseOptions(),
+      layout: "horizontal",
+      name: "sheet",
+    });
+
+    expect(blob.type).toBe("application/zip");
+    const files = readZip(await readBlob(blob));
+    expect([...files.keys()]).toEqual(["sheet.png", "sheet.json"]);
+    const atlas = JSON.parse(new TextDecoder().decode(files.get("sheet.json")));
+    expect(atlas.meta.image).toBe("sheet.png");
+    const sheet = files.get("sheet.png");
+    expect(sheet && decodePng(sheet).width).toBe(6);
+  });
+
+  test("連番PNGはフレームごとのPNGと表示時間の一覧をZIPにまとめる", async () => {
+    const blob = await exportDrawingPngSequence(baseOptions());
+
+    const files = readZip(await readBlob(blob));
+    expect([...files.keys()]).toEqual([
+      "frame_000.png",
+      "frame_001.png",
+      "frame_002.png",
+      "frames.json",
+    ]);
+    const second = files.get("frame_001.png");
+    expect(second && decodePng(second).pixels).toEqual(framePixels(2));
+    expect(
+      JSON.parse(new TextDecoder().decode(files.get("frames.json"))),
+    ).toEqual({
+      frames: [
+        { filename: "frame_000.png", duration: 50 },
+        { filename: "frame_001.png", duration: 50 },
+        { filename: "frame_002.png", duration: 50 },
+      ],
+    });
+  });
+
+  test("静止画は先頭のフレームだけを描いて拡大したPNGにする", async () => {
+    const options = baseOptions();
+    const image = await exportDrawingPng({ ...options, scale: 2 });
+
+    expect(image.type).toBe("image/png");
+    expect(options.renderer.count).toBe(1);
+    const png = decodePng(await readBlob(image));
+    expect(png.width).toBe(4);
+    expect(png.height).toBe(2);
+    const [left, right] = framePixels(1);
+    expect(png.pixels).toEqual([
+      left,
+      left,
+      right,
+      right,
+      left,
+      left,
+      right,
+      right,
+    ]);
+  });
+});
@@ -0,0 +1,201 @@
+import { assertNever } from "@/core/assertNever";
+import {
+  type ExportFrame,
+  type ExportFramesOptions,
+  getExportFrameSize,
+  renderExportFrames,
+} from "@/infra/exportFrames";
+import { encodePng } from "@/infra/png";
+import { createZip } from "@/infra/zip";
+
+/** スプライトシートの並べ方 */
+export type SpritesheetLayout = "horizontal" | "vertical" | "grid";
+
+/** アトラスの1フレーム分（AsepriteなどのJSON配列形式に合わせる） */
+export type SpritesheetAtlasFrame = {
+  filename: string;
+  /** シート上の位置と大きさ */
+  frame: { x: number; y: number; w: number; h: number };
+  /** 表示時間（ms） */
+  duration: number;
+};
+
+/** スプライトシートのJSONアトラス */
+export type SpritesheetAtlas = {
+  frames: SpritesheetAtlasFrame[];
+  meta: {
+    image: string;
+    format: "RGBA8888";
+    size: { w: number; h: number };
+    layout: SpritesheetLayout;
+  };
+};
+
+/** スプライトシート出力の入力パラメータ */
+export type ExportSpritesheetOptions = ExportFramesOptions & {
+  layout: SpritesheetLayout;
+  /** アトラスに書くシート画像のファイル名（省略時は"spritesheet.png"） */
+  imageName?: string;
+};
+
+/** 連番PNGのZIPに同梱する表示時間の一覧 */
+export type PngSequenceManifest = {
+  frames: { filename: string; duration: number }[];
+};
+
+/** 連番・アトラスで使うフレームのファイル名 */
+function getFrameFileName(index: number): string {
+  return `frame_${String(index).padStart(3, "0")}.png`;
+}
+
+/** 書き出すフレームをすべて描いて配列にする */
+async function collectFrames(
+  options: ExportFramesOptions,
+): Promise<ExportFrame[]> {
+  const frames: ExportFrame[] = [];
+  for await (const frame of renderExportFrames(options)) {
+    frames.push(frame);
+  }
+  return frames;
+}
+
+/** 並べ方に応じた列数・行数 */
+function getGridSize(
+  layout: SpritesheetLayout,
+  count: number,
+): { columns: number; rows: number } {
+  switch (layout) {
+    case "horizontal":
+      return { columns: count, rows: 1 };
+    case "vertical":
+      return { columns: 1, rows: count };
+    case "grid": {
+      // 正方形に近くなるよう列数を決め、最後の行は左から詰める
+      const columns = Math.ceil(Math.sqrt(count));
+      return { columns, rows: Math.ceil(count / columns) };
+    }
+    default:
+      return assertNever(layout);
+  }
+}
+
+/** シート画像（PNG）とアトラスを作る */
+async function renderSpritesheet(
+  options: ExportSpritesheetOptions,
+): Promise<{ png: Uint8Array; atlas: SpritesheetAtlas }> {
+  const { layout, imageName = "spritesheet.png" } = options;
+  const { width, height } = getExportFrameSize(options);
+  const frames = await collectFrames(options);
+  const { columns, rows } = getGridSize(layout, frames.length);
+  const sheetWidth = width * columns;
+  const sheetHeight = height * rows;
+  const data = new Uint8ClampedArray(sheetWidth * sheetHeight * 4);
+
+  const atlasFrames = frames.map(({ imageData, delayMs }, index) => {
+    const x = (index % columns) * width;
+    const y = Math.floor(index / columns) * height;
+    for (let row = 0; row < height; row++) {
+      const start = row * width * 4;
+      data.set(
+        imageData.data.subarray(start, start + width * 4),
+        ((y + row) * sheetWidth + x) * 4,
+      );
+    }
+    return {
+      filename: getFrameFileName(index),
+      frame: { x, y, w: width, h: height },
+      duration: delayMs,
+    };
+  });
+
+  return {
+    png: encodePng(new ImageData(data, sheetWidth, sheetHeight)),
+    atlas: {
+      frames: atlasFrames,
+      meta: {
+        image: imageName,
+        format: "RGBA8888",
+        size: { w: sheetWidth, h: sheetHeight },
+        layout,
+      },
+    },
+  };
+}
+
+/**
+ * 書き出すフレームをすべて1枚のPNGに並べたスプライトシートと、JSONアトラスを返す。
+ * フレームの描き方（cycleの進め方・拡大・ふち）はアニメーション画像の出力と同じ。
+ *
+ * @throws レンダラーがgetImageDataメソッドを提供していない場合
+ * @throws 拡大倍率が1〜8の整数でない場合
+ */
+export async function exportDrawingSpritesheet(
+  options: ExportSpritesheetOptions,
+): Promise<{ image: Blob; atlas: SpritesheetAtlas }> {
+  const { png, atlas } = await renderSpritesheet(options);
+  return { image: new Blob([png as BlobPart], { type: "image/png" }), atlas };
+}
+
+/**
+ * スプライトシートのPNGとJSONアトラスを1つのZIPにまとめて返す
+ * ファイル名は`${name}.png`と`${name}.json`になる
+ */
+export async function exportDrawingSpritesheetZip(
+  options: Omit<ExportSpritesheetOptions, "imageName"> & { name: string },
+): Promise<Blob> {
+  const imageName = `${options.name}.png`;
+  const { png, atlas } = await renderSpritesheet({ ...options, imageName });
+  const zip = createZip([
+    { name: imageName, data: png },
+    {
+      name: `${options.name}.json`,
+      data: new TextEncoder().encode(JSON.stringify(atlas, null, 2)),
+    },
+  ]);
+  return new Blob([zip as BlobPart], { type: "application/zip" });
+}
+
+/**
+ * 先頭の出力フレームだけを描いて静止画のPNGで返す
+ * 表示中の揺れをそのまま切り出す場合はstartCycleIndexを指定する
+ *
+ * @throws レンダラーがgetImageDataメソッドを提供していない場合
+ * @throws 拡大倍率が1〜8の整数でない場合
+ */
+export async function exportDrawingPng(
+  options: ExportFramesOptions,
+): Promise<Blob> {
+  for await (const { imageData } of renderExportFrames(options)) {
+    return new Blob([encodePng(imageData) as BlobPart], { type: "image/png" });
+  }
+  throw new Error("frames must not be empty");
+}
+
+/**
+ * 書き出すフレームを1枚ずつPNGにし、表示時間の一覧（frames.json）と一緒にZIPにまとめて返す
+ *
+ * @throws レンダラーがgetImageDataメソッドを提供していない場合
+ * @throws 拡大倍率が1〜8の整数でない場合
+ */
+export async function exportDrawingPngSequence(
+  options: ExportFramesOptions,
+): Promise<Blob> {
+  const frames = await collectFrames(options);
+  const manifest: PngSequenceManifest = {
+    frames: frames.map(({ delayMs }, index) => ({
+      filename: getFrameFileName(index),
+      duration: delayMs,
+    })),
+  };
+  const zip = createZip([
+    ...frames.map(({ imageData }, index) => ({
+      name: getFrameFileName(index),
+      data: encodePng(imageData),
+    })),
+    {
+      name: "frames.json",
+      data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+    },
+  ]);
+  return new Blob([zip as BlobPart], { type: "application/zip" });
+}
@@ -0,0 +1,160 @@
+import { createFrame } from "@/core/frames";
+import { createDrawing } from "@/core/layers";
+import type { Stroke } from "@/core/types";
+import type {
+  DrawingRenderer,
+  VideoChunk,
+  VideoChunkEncoder,
+} from "@/engine/ports";
+import { exportDrawingVideo } from "@/infra/exportVideo";
+
+/** 描くたびに赤の値が増え、半分だけ透明な1×1の絵を返すレンダラー */
+class CountingRenderer implements DrawingRenderer {
+  count = 0;
+
+  clear(_width: number, _height: number): void {
+    this.count += 1;
+  }
+
+  renderStroke(_params: {
+    stroke: Stroke;
+    jitteredPoints: { x: number; y: number }[];
+    elapsedTimeMs: number;
+  }): void {
+    // モック用の空実装
+  }
+
+  invalidateRenderCache(): void {
+    // モック用の空実装
+  }
+
+  getImageData(): ImageData {
+    return {
+      width: 1,
+      height: 1,
+      data: new Uint8ClampedArray([
+        this.count * 10,
+        0,
+        0,
+        this.count === 2 ? 0 : 255,
+      ]),
+    } as unknown as ImageData;
+  }
+}
+
+/** 渡されたフレームを記録し、そのまま合成チャンクにするエンコーダー */
+class MockVideoEncoder implements VideoChunkEncoder {
+  readonly codecId = "V_VP8";
+  beginArgs: { width: number; height: number; fps: number } | null = null;
+  frames: { pixel: number[]; timestampMs: number; keyFrame: boolean }[] = [];
+
+  begin(width: number, height: number, fps: number): void {
+    this.beginArgs = { width, height, fps };
+  }
+
+  encodeFrame(
+    imageData: ImageData,
+    timestampMs: number,
+    keyFrame: boolean,
+  ): void {
+    this.frames.push({
+      pixel: Array.from(imageData.data),
+      timestampMs,
+      keyFrame,
+    });
+  }
+
+  async finish(): Promise<VideoChunk[]> {
+    return this.frames.map(({ pixel, timestampMs, keyFrame }) => ({
+      data: Uint8Array.from(pixel),
+      timestampMs,
+      keyFrame,
+    }));
+  }
+}
+
+const baseOptions = () => ({
+  // 1コマ300msを100msごとの3フレームにする
+  frames: [createFrame("f1", createDrawing(1, 1), 300)],
+  drawingRevision: 0,
+  renderer: new CountingRenderer(),
+  jitterConfig: { amplitude: 0, frequency: 1 },
+  animation: { cycleCount: 3, cycleIntervalMs: 100 },
+  backgroundColor: "#204060",
+});
+
+describe("exportDrawingVideo", () => {
+  beforeEach(() => {
+    // jsdomにはImageDataが無いため、必要なプロパティだけ持つものに置き換える
+    vi.stubGlobal(
+      "ImageData",
+      class {
+        constructor(
+          public data: Uint8ClampedArray,
+          public width: number,
+          public height: number,
+        ) {}
+      },
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("1ループ分のフレームを指定の長さまで繰り返し、透明な部分を背景色で塗る", async () => {
+    const encoder = new MockVideoEncoder();
+
+    const blob = await exportDrawingVideo({
+      ...baseOptions(),
+      encoder,
+      durationMs: 1000,
+    });
+
+    expect(blob.type).toBe("video/webm");
+    expect(encoder.beginArgs).toEqual({ width: 1, height: 1, fps: 10 });
+    expect(encoder.frames.map((frame) => frame.timestampMs)).toEqual([
+      0, 100, 200, 300, 400, 500, 600, 700, 800, 900,
+    ]);
+    // 描くのは1ループ分だけで、あとは同じフレームを並べる
+    expect(encoder.frames.slice(0, 4).map((frame) => frame.pixel)).toEqual([
+      [10, 0, 0, 255],
+      [0x20, 0x40, 0x60, 255],
+      [30, 0, 0, 255],
+      [10, 0, 0, 255],
+    ]);
+    // 1秒ごとにキーフレームを入れる
+    expect(encoder.frames.map((frame) => frame.keyFrame)).toEqual([
+      true,
+      ...Array(9).fill(false),
+    ]);
+  });
+
+  test("拡大すると動画の大きさも倍率分になる", async () => {
+    const encoder = new MockVideoEncoder();
+
+    await exportDrawingVideo({
+      ...baseOptions(),
+      encoder,
+      durationMs: 2000,
+      scale: 2,
+    });
+
+    expect(encoder.beginArgs).toMatchObject({ width: 2, height: 2 });
+    expect(encoder.frames[0].pixel).toHaveLength(16);
+    const keyFrameTimes = encoder.frames
+      .filter((frame) => frame.keyFrame)
+      .map((frame) => frame.timestampMs);
+    expect(keyFrameTimes).toEqual([0, 1000]);
+  });
+
+  test("長さが範囲外ならエラーになる", async () => {
+    await expect(
+      exportDrawingVideo({
+        ...baseOptions(),
+        encoder: new MockVideoEncoder(),
+        durationMs: 120_000,
+      }),
+    ).rejects.toThrow();
+  });
+});
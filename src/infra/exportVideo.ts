@@ -0,0 +1,101 @@
+import type { VideoChunkEncoder } from "@/engine/ports";
+import { parseColorToRgb } from "@/infra/colorUtil";
+import {
+  type ExportFrame,
+  type ExportFramesOptions,
+  getExportFrameSize,
+  renderExportFrames,
+} from "@/infra/exportFrames";
+import { muxWebm } from "@/infra/webmMuxer";
+
+/** 動画の長さの範囲 */
+export const MIN_VIDEO_DURATION_MS = 1000;
+export const MAX_VIDEO_DURATION_MS = 60_000;
+/** 途中から再生・シークできるようにキーフレームを入れる間隔 */
+const KEYFRAME_INTERVAL_MS = 1000;
+
+/** 動画出力の入力パラメータ */
+export type ExportVideoOptions = ExportFramesOptions & {
+  /** フレームの圧縮に使うエンコーダー */
+  encoder: VideoChunkEncoder;
+  /** 動画の長さ（ms）。アニメーションを繰り返してこの長さにする */
+  durationMs: number;
+  /** 透明な部分を塗る背景色（動画はアルファを持てない） */
+  backgroundColor: string;
+};
+
+/** 透明な部分を背景色で塗った不透明なフレームにする */
+function flattenFrame(
+  { imageData, delayMs }: ExportFrame,
+  background: { r: number; g: number; b: number },
+): ExportFrame {
+  const { data, width, height } = imageData;
+  let opaque = true;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 255) {
+      opaque = false;
+      break;
+    }
+  }
+  if (opaque) return { imageData, delayMs };
+
+  const flattened = new Uint8ClampedArray(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    flattened[i] = data[i] * alpha + background.r * (1 - alpha);
+    flattened[i + 1] = data[i + 1] * alpha + background.g * (1 - alpha);
+    flattened[i + 2] = data[i + 2] * alpha + background.b * (1 - alpha);
+    flattened[i + 3] = 255;
+  }
+  return { imageData: new ImageData(flattened, width, height), delayMs };
+}
+
+/**
+ * アニメーションを指定の長さだけ繰り返したWebM動画を返す。
+ * 1ループ分のフレームを描いてから、表示時間どおりに並べ直して圧縮する。
+ * フレームの描き方（cycleの進め方・拡大・ふち）はアニメーション画像の出力と同じ。
+ *
+ * @throws 長さが1〜60秒の範囲外の場合
+ * @throws 拡大倍率が1〜8の整数でない場合
+ */
+export async function exportDrawingVideo(
+  options: ExportVideoOptions,
+): Promise<Blob> {
+  const { encoder, durationMs, backgroundColor, animation } = options;
+  if (
+    !Number.isFinite(durationMs) ||
+    durationMs < MIN_VIDEO_DURATION_MS ||
+    durationMs > MAX_VIDEO_DURATION_MS
+  ) {
+    throw new Error(
+      `durationMs must be between ${MIN_VIDEO_DURATION_MS} and ${MAX_VIDEO_DURATION_MS}, got ${durationMs}`,
+    );
+  }
+  const { width, height } = getExportFrameSize(options);
+  const background = parseColorToRgb(backgroundColor);
+  const loop: ExportFrame[] = [];
+  for await (const frame of renderExportFrames(options)) {
+    loop.push(flattenFrame(frame, background));
+  }
+
+  encoder.begin(width, height, Math.round(1000 / animation.cycleIntervalMs));
+  let timestampMs = 0;
+  let lastKeyFrameMs = Number.NEGATIVE_INFINITY;
+  for (let index = 0; timestampMs < durationMs; index++) {
+    const { imageData, delayMs } = loop[index % loop.length];
+    const keyFrame = timestampMs - lastKeyFrameMs >= KEYFRAME_INTERVAL_MS;
+    if (keyFrame) lastKeyFrameMs = timestampMs;
+    encoder.encodeFrame(imageData, timestampMs, keyFrame);
+    timestampMs += delayMs;
+  }
+  const chunks = await encoder.finish();
+
+  const bytes = muxWebm({
+    width,
+    height,
+    codecId: encoder.codecId,
+    chunks,
+    durationMs,
+  });
+  return new Blob([bytes as BlobPart], { type: "video/webm" });
+}
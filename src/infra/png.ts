@@ -0,0 +1,68 @@
+import { crc32 } from "@/infra/crc32";
+import { zlibDeflate } from "@/infra/deflate";
+
+/** PNGファイルの先頭8バイト */
+export const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+/** フィルタ種別: 左隣のピクセルとの差分 */
+const FILTER_SUB = 1;
+/** RGBA1ピクセルのバイト数 */
+const BYTES_PER_PIXEL = 4;
+
+/** 長さ・種別・データ・CRCからなるPNGチャンクを組み立てる */
+export function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/** 8bit RGBAのIHDRチャンク */
+export function createHeaderChunk(width: number, height: number): Uint8Array {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // ビット深度
+  header[9] = 6; // カラータイプ: RGBA
+  return createChunk("IHDR", header);
+}
+
+/** 行ごとにSubフィルタをかけてzlib圧縮した画素データ */
+export function compressPixels(imageData: ImageData): Uint8Array {
+  const { data, width, height } = imageData;
+  const stride = width * BYTES_PER_PIXEL;
+  const filtered = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * stride;
+    const outStart = y * (stride + 1);
+    filtered[outStart] = FILTER_SUB;
+    for (let x = 0; x < stride; x++) {
+      const left =
+        x >= BYTES_PER_PIXEL ? data[rowStart + x - BYTES_PER_PIXEL] : 0;
+      filtered[outStart + 1 + x] = (data[rowStart + x] - left) & 0xff;
+    }
+  }
+  return zlibDeflate(filtered);
+}
+
+/** 1枚の静止画をRGBAのPNGにする */
+export function encodePng(imageData: ImageData): Uint8Array {
+  const chunks = [
+    Uint8Array.from(PNG_SIGNATURE),
+    createHeaderChunk(imageData.width, imageData.height),
+    createChunk("IDAT", compressPixels(imageData)),
+    createChunk("IEND", new Uint8Array(0)),
+  ];
+  const bytes = new Uint8Array(
+    chunks.reduce((sum, chunk) => sum + chunk.length, 0),
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
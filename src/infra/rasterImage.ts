@@ -0,0 +1,96 @@
+import {
+  type QuantizedRaster,
+  quantizeRaster,
+  resampleRaster,
+} from "@/core/rasterImport";
+import { parseColorToRgb } from "@/infra/colorUtil";
+
+/** 取り込める画像のMIMEタイプ（GIFは1コマ目を使う） */
+export const RASTER_IMPORT_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+] as const;
+/**
+ * デコード時に描画の何倍まで縮めておくか
+ * 大きな写真をそのままImageDataにしないため。最後の縮小は平均で行う
+ */
+const DECODE_SCALE_LIMIT = 4;
+
+/** 画像の取り込みに必要な入力パラメータ */
+export type ImportRasterImageOptions = {
+  /** 描画の大きさ（縦横比を保って収める） */
+  width: number;
+  height: number;
+  /** 置き換え先のパレット */
+  palette: string[];
+  /** 背景色（近いピクセルにはストロークを置かない） */
+  backgroundColor: string;
+  /** 近い2色の間をパターンで網掛けするか */
+  dither: boolean;
+};
+
+/**
+ * PNG/JPEG/GIFを読み込み、描画の大きさに縮めてパレットの色番号に置き換える
+ *
+ * @throws PNG/JPEG/GIF以外のファイルの場合
+ * @throws 画像のデコードに失敗した場合
+ */
+export async function importRasterImage(
+  blob: Blob,
+  { width, height, palette, backgroundColor, dither }: ImportRasterImageOptions,
+): Promise<QuantizedRaster> {
+  const image = await loadRasterImage(
+    blob,
+    width * DECODE_SCALE_LIMIT,
+    height * DECODE_SCALE_LIMIT,
+  );
+  const toRgb = (color: string) => {
+    const { r, g, b } = parseColorToRgb(color);
+    return { r, g, b };
+  };
+  return quantizeRaster(resampleRaster(image, width, height), {
+    palette: palette.map(toRgb),
+    backgroundColor: toRgb(backgroundColor),
+    dither,
+  });
+}
+
+/**
+ * PNG/JPEG/GIFをデコードしてImageDataにする
+ * 指定の大きさを超える場合は縦横比を保って縮める
+ *
+ * @throws PNG/JPEG/GIF以外のファイルの場合
+ * @throws 画像のデコードに失敗した場合
+ */
+async function loadRasterImage(
+  blob: Blob,
+  maxWidth: number,
+  maxHeight: number,
+): Promise<ImageData> {
+  if (!(RASTER_IMPORT_TYPES as readonly string[]).includes(blob.type)) {
+    throw new Error(
+      `image type must be one of ${RASTER_IMPORT_TYPES.join(", ")}, got ${blob.type || "unknown"}`,
+    );
+  }
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const scale = Math.min(
+      1,
+      maxWidth / bitmap.width,
+      maxHeight / bitmap.height,
+    );
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) throw new Error("Failed to get 2D context for image import");
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  } finally {
+    bitmap.close();
+  }
+}
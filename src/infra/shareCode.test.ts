@@ -0,0 +1,229 @@
+import { DEFAULT_ANIMATION_SETTINGS } from "@/core/animation";
+import { createFrame } from "@/core/frames";
+import { createDrawing, createLayer } from "@/core/layers";
+import {
+  type DrawingDocument,
+  DrawingFormatError,
+  stringifyDrawingDocument,
+} from "@/core/serialization";
+import type { Stroke } from "@/core/types";
+import { decodeShareCode, encodeShareCode } from "@/infra/shareCode";
+
+/**
+ * 手描きに近いテスト用のストロークを生成する
+ * 16ms間隔で数ピクセルずつ動く点を、乱数の種ごとに決まった形で並べる
+ */
+function createStrokes(count: number, pointsPerStroke: number): Stroke[] {
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed / 0x7fffffff;
+  };
+  let t = 0;
+  return Array.from({ length: count }, (_, i) => {
+    let x = Math.floor(random() * 256);
+    let y = Math.floor(random() * 192);
+    t += 300 + Math.floor(random() * 500);
+    return {
+      id: crypto.randomUUID(),
+      kind: "draw",
+      brush: {
+        kind: "solid",
+        color: { kind: "palette", index: i % 3 },
+        width: 2 + (i % 4),
+        opacity: 1,
+        variant: "penCircle",
+      },
+      points: Array.from({ length: pointsPerStroke }, () => {
+        x += Math.round(random() * 6 - 3);
+        y += Math.round(random() * 6 - 3);
+        t += 16;
+        return { x, y, t };
+      }),
+    };
+  });
+}
+
+/** 指定のストロークを1コマに描いたドキュメント */
+function createDocument(strokes: Stroke[]): DrawingDocument {
+  return {
+    frames: [createFrame("frame-1", createDrawing(256, 192, strokes))],
+    palette: ["#000000", "#ff0000", "#0000ff"],
+    backgroundColor: "#fdfbf7",
+    jitterConfig: { amplitude: 1.2, frequency: 0.008 },
+    animation: DEFAULT_ANIMATION_SETTINGS,
+  };
+}
+
+/** ストロークIDを除いた比較用の値（IDは読み込み時に振り直すため） */
+function withoutStrokeIds(document: DrawingDocument) {
+  return {
+    ...document,
+    frames: document.frames.map((frame) => ({
+      ...frame,
+      drawing: {
+        ...frame.drawing,
+        layers: frame.drawing.layers.map((layer) => ({
+          ...layer,
+          strokes: layer.strokes.map(({ id: _id, ...stroke }) => stroke),
+        })),
+      },
+    })),
+  };
+}
+
+describe("shareCode", () => {
+  test("レイヤー・コマ・パターン・固定色を含むドキュメントを復元できる", () => {
+    const [solid, erase] = createStrokes(2, 5);
+    const document: DrawingDocument = {
+      ...createDocument([solid]),
+      frames: [
+        createFrame("frame-1", {
+          ...createDrawing(256, 192, [solid]),
+          layers: [
+            createLayer("layer-1", "下", [solid]),
+            {
+              ...createLayer("layer-2", "上の線", [
+                {
+                  ...erase,
+                  kind: "erase",
+                  brush: { ...erase.brush, variant: "eraserLine" },
+                },
+                {
+                  ...solid,
+                  brush: {
+                    kind: "pattern",
+                    color: { kind: "fixed", color: "#123456" },
+                    width: 2.5,
+                    opacity: 0.35,
+                    patternId: "crosshatch",
+                    variant: "penSquare",
+                  },
+                },
+              ]),
+              locked: true,
+            },
+          ],
+        }),
+        createFrame("frame-2", createDrawing(256, 192), 400),
+      ],
+      jitterConfig: { amplitude: 0.75, frequency: 0.0125 },
+    };
+
+    const decoded = decodeShareCode(encodeShareCode(document));
+
+    expect(withoutStrokeIds(decoded)).toEqual(withoutStrokeIds(document));
+    const ids = decoded.frames[0].drawing.layers.flatMap((layer) =>
+      layer.strokes.map((stroke) => stroke.id),
+    );
+    expect(new Set(ids).size).toBe(3);
+  });
+
+  test("塗りつぶしのストロークを範囲ごと復元できる", () => {
+    const [solid] = createStrokes(1, 1);
+    const fill: Stroke = {
+      ...solid,
+      kind: "fill",
+      brush: { ...solid.brush, width: 1 },
+      region: {
+        top: -2,
+        rows: [
+          [-3, 4],
+          [-5, 2, 0, 7],
+          [0, 1],
+        ],
+      },
+    };
+    const document = createDocument([fill]);
+
+    const decoded = decodeShareCode(encodeShareCode(document));
+
+    expect(withoutStrokeIds(decoded)).toEqual(withoutStrokeIds(document));
+  });
+
+  test("筆圧と傾きを点ごとに復元し、筆圧は1/255刻みに丸める", () => {
+    const [solid] = createStrokes(1, 3);
+    const stroke: Stroke = {
+      ...solid,
+      brush: { ...solid.brush, pressure: true },
+      points: solid.points.map((point, i) => ({
+        ...point,
+        pressure: [0, 0.5, 1][i],
+        tiltX: -20 + i * 10,
+        tiltY: 45,
+      })),
+    };
+
+    const decoded = decodeShareCode(encodeShareCode(createDocument([stroke])));
+    const restored = decoded.frames[0].drawing.layers[0].strokes[0];
+
+    expect(restored.brush.pressure).toBe(true);
+    expect(restored.points.map((point) => point.pressure)).toEqual([
+      0,
+      128 / 255,
+      1,
+    ]);
+    expect(restored.points.map((point) => point.tiltX)).toEqual([-20, -10, 0]);
+    expect(restored.points.map((point) => point.tiltY)).toEqual([45, 45, 45]);
+  });
+
+  test("入り抜き筆・墨のストロークを点ごとの太さごと復元できる", () => {
+    const [taper, ink] = createStrokes(2, 3).map(
+      (stroke, i): Stroke => ({
+        ...stroke,
+        brush: {
+          ...stroke.brush,
+          variant: i === 0 ? "brushTaper" : "brushInk",
+        },
+        points: stroke.points.map((point, j) => ({
+          ...point,
+          width: 2 + i + j * 3,
+        })),
+      }),
+    );
+    const document = createDocument([taper, ink]);
+
+    const decoded = decodeShareCode(encodeShareCode(document));
+
+    expect(withoutStrokeIds(decoded)).toEqual(withoutStrokeIds(document));
+  });
+
+  test("共有コードはURLにそのまま入るbase64urlで、点の時刻はミリ秒に丸める", () => {
+    const [stroke] = createStrokes(1, 3);
+    stroke.points[1].t += 0.4;
+
+    const code = encodeShareCode(createDocument([stroke]));
+    const decoded = decodeShareCode(code);
+
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decoded.frames[0].drawing.layers[0].strokes[0].points[1].t).toBe(
+      Math.round(stroke.points[1].t),
+    );
+  });
+
+  // 手描きの典型的な量（1本あたり40点）での長さの目安。
+  // 保存形式のJSONより十分小さく、URLのフラグメントに収まることを確かめる
+  test.each([
+    { strokeCount: 10, maxLength: 1500 },
+    { strokeCount: 50, maxLength: 6000 },
+    { strokeCount: 200, maxLength: 20000 },
+  ])(
+    "$strokeCount本のストロークは$maxLength文字以内に収まる",
+    ({ strokeCount, maxLength }) => {
+      const document = createDocument(createStrokes(strokeCount, 40));
+      const code = encodeShareCode(document);
+      const jsonLength = stringifyDrawingDocument(document).length;
+
+      expect(code.length).toBeLessThanOrEqual(maxLength);
+      expect(code.length).toBeLessThan(jsonLength / 8);
+    },
+  );
+
+  test("壊れた共有コードはDrawingFormatErrorにする", () => {
+    const code = encodeShareCode(createDocument(createStrokes(3, 4)));
+
+    for (const broken of ["", "not a code!", code.slice(0, -8)]) {
+      expect(() => decodeShareCode(broken)).toThrow(DrawingFormatError);
+    }
+  });
+});
@@ -0,0 +1,504 @@
+import {
+  type DrawingDocument,
+  DrawingFormatError,
+  deserializeDrawingDocument,
+  serializeDrawingDocument,
+} from "@/core/serialization";
+import type {
+  BrushPatternId,
+  BrushSettings,
+  BrushVariant,
+  Drawing,
+  Frame,
+  Layer,
+  Point,
+  Stroke,
+  StrokeKind,
+} from "@/core/types";
+import { zlibDeflate, zlibInflate } from "@/infra/deflate";
+
+/*
+ * URLのフラグメントに入れて共有するための、ドキュメントのバイナリ表現
+ * 可変長整数と点の差分で詰めてからzlibで圧縮し、base64urlにする。
+ * 点の座標と時刻は整数に丸め（座標はもともとピクセルに揃っている）、ストロークIDは読み込み時に振り直す
+ */
+
+/** 共有コードの形式バージョン */
+const SHARE_CODE_VERSION = 1;
+
+/** ストローク種別の番号（追加する時は末尾に足す） */
+const STROKE_KIND_CODES: Record<StrokeKind, number> = {
+  draw: 0,
+  erase: 1,
+  fill: 2,
+};
+
+/** ブラシバリアントの番号（追加する時は末尾に足す） */
+const BRUSH_VARIANT_CODES: Record<BrushVariant, number> = {
+  penCircle: 0,
+  penSquare: 1,
+  eraserCircle: 2,
+  eraserSquare: 3,
+  eraserLine: 4,
+  brushTaper: 5,
+  brushInk: 6,
+};
+
+/** パターンIDの番号（追加する時は末尾に足す） */
+const PATTERN_ID_CODES: Record<BrushPatternId, number> = {
+  dot_sparse: 0,
+  dot_dense: 1,
+  stripe_horizontal: 2,
+  stripe_vertical: 3,
+  check: 4,
+  mesh: 5,
+  mesh_bold: 6,
+  crosshatch: 7,
+};
+
+/** ストロークの先頭バイトのフラグ */
+const STROKE_FLAG_PATTERN = 1;
+const STROKE_FLAG_FIXED_COLOR = 2;
+/** 筆圧を使うストローク（点ごとに筆圧を書く） */
+const STROKE_FLAG_PRESSURE = 4;
+/** ペンの傾きを持つストローク（点ごとに傾きを書く） */
+const STROKE_FLAG_TILT = 8;
+/** 点ごとの太さを持つストローク（点ごとに太さを書く） */
+const STROKE_FLAG_POINT_WIDTH = 16;
+/** 筆圧を書く時の段階数（0〜1をこの数の整数にする） */
+const PRESSURE_STEPS = 255;
+/** レイヤーのフラグ */
+const LAYER_FLAG_VISIBLE = 1;
+const LAYER_FLAG_LOCKED = 2;
+
+/** ドキュメントを共有コード（base64url）にする */
+export function encodeShareCode(document: DrawingDocument): string {
+  const writer = new ByteWriter();
+  writer.writeUint(SHARE_CODE_VERSION);
+  writer.writeUint(document.palette.length);
+  for (const color of document.palette) writer.writeString(color);
+  writer.writeString(document.backgroundColor);
+  writer.writeNumber(document.jitterConfig.amplitude);
+  writer.writeNumber(document.jitterConfig.frequency);
+  writer.writeUint(document.animation.cycleCount);
+  writer.writeUint(document.animation.cycleIntervalMs);
+  writer.writeUint(document.frames.length);
+  for (const frame of document.frames) writeFrame(writer, frame);
+  return toBase64Url(zlibDeflate(writer.toBytes()));
+}
+
+/**
+ * 共有コードからドキュメントを復元する
+ * @throws DrawingFormatError 壊れている、または形式に合わない場合
+ */
+export function decodeShareCode(code: string): DrawingDocument {
+  let bytes: Uint8Array;
+  try {
+    bytes = zlibInflate(fromBase64Url(code));
+  } catch {
+    throw new DrawingFormatError("invalidFormat", "$", "Invalid share code");
+  }
+
+  const reader = new ByteReader(bytes);
+  const version = reader.readUint();
+  if (version !== SHARE_CODE_VERSION) {
+    throw new DrawingFormatError(
+      "unsupportedVersion",
+      "version",
+      `Unsupported version: ${version}`,
+    );
+  }
+  const palette = Array.from({ length: reader.readCount() }, () =>
+    reader.readString(),
+  );
+  const backgroundColor = reader.readString();
+  const jitterConfig = {
+    amplitude: reader.readNumber(),
+    frequency: reader.readNumber(),
+  };
+  const animation = {
+    cycleCount: reader.readUint(),
+    cycleIntervalMs: reader.readUint(),
+  };
+  const frames = Array.from({ length: reader.readCount() }, (_, i) =>
+    readFrame(reader, i),
+  );
+  if (!reader.isAtEnd()) {
+    throw new DrawingFormatError(
+      "invalidFormat",
+      "$",
+      "Unexpected trailing data",
+    );
+  }
+
+  // 保存形式と同じ検証（IDの重複・値の範囲）を通す
+  return deserializeDrawingDocument(
+    serializeDrawingDocument({
+      frames,
+      palette,
+      backgroundColor,
+      jitterConfig,
+      animation,
+    }),
+  );
+}
+
+function writeFrame(writer: ByteWriter, frame: Frame): void {
+  writer.writeString(frame.id);
+  writer.writeUint(frame.durationMs);
+  writeDrawing(writer, frame.drawing);
+}
+
+function readFrame(reader: ByteReader, index: number): Frame {
+  return {
+    id: reader.readString(),
+    durationMs: reader.readUint(),
+    drawing: readDrawing(reader, index),
+  };
+}
+
+function writeDrawing(writer: ByteWriter, drawing: Drawing): void {
+  writer.writeUint(drawing.width);
+  writer.writeUint(drawing.height);
+  writer.writeUint(drawing.layers.length);
+  for (const layer of drawing.layers) writeLayer(writer, layer);
+}
+
+function readDrawing(reader: ByteReader, frameIndex: number): Drawing {
+  const width = reader.readUint();
+  const height = reader.readUint();
+  let strokeCount = 0;
+  // フレーム内で一意になるようストロークIDを振り直す
+  const createStrokeId = () => `shared-${frameIndex + 1}-${++strokeCount}`;
+  const layers = Array.from({ length: reader.readCount() }, () =>
+    readLayer(reader, createStrokeId),
+  );
+  return { width, height, layers };
+}
+
+function writeLayer(writer: ByteWriter, layer: Layer): void {
+  writer.writeString(layer.id);
+  writer.writeString(layer.name);
+  writer.writeUint(
+    (layer.visible ? LAYER_FLAG_VISIBLE : 0) |
+      (layer.locked ? LAYER_FLAG_LOCKED : 0),
+  );
+  writer.writeUint(layer.strokes.length);
+  for (const stroke of layer.strokes) writeStroke(writer, stroke);
+}
+
+function readLayer(reader: ByteReader, createStrokeId: () => string): Layer {
+  const id = reader.readString();
+  const name = reader.readString();
+  const flags = reader.readUint();
+  const strokes = Array.from({ length: reader.readCount() }, () =>
+    readStroke(reader, createStrokeId()),
+  );
+  return {
+    id,
+    name,
+    visible: (flags & LAYER_FLAG_VISIBLE) !== 0,
+    locked: (flags & LAYER_FLAG_LOCKED) !== 0,
+    strokes,
+  };
+}
+
+function writeStroke(writer: ByteWriter, stroke: Stroke): void {
+  const { brush } = stroke;
+  const hasTilt = stroke.points.some(
+    (point) => point.tiltX !== undefined || point.tiltY !== undefined,
+  );
+  const hasPointWidth = stroke.points.some(
+    (point) => point.width !== undefined,
+  );
+  writer.writeUint(
+    (brush.kind === "pattern" ? STROKE_FLAG_PATTERN : 0) |
+      (brush.color.kind === "fixed" ? STROKE_FLAG_FIXED_COLOR : 0) |
+      (brush.pressure ? STROKE_FLAG_PRESSURE : 0) |
+      (hasTilt ? STROKE_FLAG_TILT : 0) |
+      (hasPointWidth ? STROKE_FLAG_POINT_WIDTH : 0),
+  );
+  writer.writeUint(STROKE_KIND_CODES[stroke.kind]);
+  writer.writeUint(BRUSH_VARIANT_CODES[brush.variant]);
+  if (brush.kind === "pattern") {
+    writer.writeUint(PATTERN_ID_CODES[brush.patternId]);
+  }
+  if (brush.color.kind === "fixed") {
+    writer.writeString(brush.color.color);
+  } else {
+    writer.writeUint(brush.color.index);
+  }
+  writer.writeNumber(brush.width);
+  writer.writeNumber(brush.opacity);
+
+  // 点は前の点との差分で書く（先頭は原点・0msとの差分）
+  writer.writeUint(stroke.points.length);
+  let previous: Point = { x: 0, y: 0, t: 0 };
+  for (const point of stroke.points) {
+    const current = {
+      x: Math.round(point.x),
+      y: Math.round(point.y),
+      t: Math.round(point.t),
+    };
+    writer.writeInt(current.x - previous.x);
+    writer.writeInt(current.y - previous.y);
+    writer.writeInt(current.t - previous.t);
+    previous = current;
+    // 太さ・筆圧・傾きは差分にせずそのまま書く
+    // （太さの無い点はブラシの太さ、筆圧の無い点は最大、傾きの無い点は0）
+    if (hasPointWidth) {
+      writer.writeUint(Math.max(1, Math.round(point.width ?? brush.width)));
+    }
+    if (brush.pressure) {
+      writer.writeUint(Math.round((point.pressure ?? 1) * PRESSURE_STEPS));
+    }
+    if (hasTilt) {
+      writer.writeInt(Math.round(point.tiltX ?? 0));
+      writer.writeInt(Math.round(point.tiltY ?? 0));
+    }
+  }
+
+  // 塗りつぶしの範囲は行ごとに連続の数と[左端, 長さ]を書く
+  if (stroke.kind === "fill") {
+    const region = stroke.region ?? { top: 0, rows: [] };
+    writer.writeInt(region.top);
+    writer.writeUint(region.rows.length);
+    for (const row of region.rows) {
+      writer.writeUint(row.length / 2);
+      for (let i = 0; i + 1 < row.length; i += 2) {
+        writer.writeInt(row[i]);
+        writer.writeUint(row[i + 1]);
+      }
+    }
+  }
+}
+
+function readStroke(reader: ByteReader, id: string): Stroke {
+  const flags = reader.readUint();
+  const kind = decodeCode(
+    STROKE_KIND_CODES,
+    reader.readUint(),
+    "invalidValue",
+    "kind",
+  );
+  const variant = decodeCode(
+    BRUSH_VARIANT_CODES,
+    reader.readUint(),
+    "unknownBrushVariant",
+    "brush.variant",
+  );
+  const patternId =
+    flags & STROKE_FLAG_PATTERN
+      ? decodeCode(
+          PATTERN_ID_CODES,
+          reader.readUint(),
+          "unknownPatternId",
+          "brush.patternId",
+        )
+      : null;
+  const color: BrushSettings["color"] =
+    flags & STROKE_FLAG_FIXED_COLOR
+      ? { kind: "fixed", color: reader.readString() }
+      : { kind: "palette", index: reader.readUint() };
+  const hasPressure = (flags & STROKE_FLAG_PRESSURE) !== 0;
+  const hasTilt = (flags & STROKE_FLAG_TILT) !== 0;
+  const hasPointWidth = (flags & STROKE_FLAG_POINT_WIDTH) !== 0;
+  const common = {
+    color,
+    width: reader.readNumber(),
+    opacity: reader.readNumber(),
+    variant,
+    ...(hasPressure ? { pressure: true } : {}),
+  };
+  const brush: BrushSettings = patternId
+    ? { kind: "pattern", ...common, patternId }
+    : { kind: "solid", ...common };
+
+  const points: Point[] = [];
+  let previous: Point = { x: 0, y: 0, t: 0 };
+  for (let count = reader.readCount(); count > 0; count--) {
+    previous = {
+      x: previous.x + reader.readInt(),
+      y: previous.y + reader.readInt(),
+      t: previous.t + reader.readInt(),
+    };
+    const point: Point = { ...previous };
+    if (hasPointWidth) point.width = reader.readUint();
+    if (hasPressure) point.pressure = reader.readUint() / PRESSURE_STEPS;
+    if (hasTilt) {
+      point.tiltX = reader.readInt();
+      point.tiltY = reader.readInt();
+    }
+    points.push(point);
+  }
+  if (kind !== "fill") return { id, kind, brush, points };
+
+  const top = reader.readInt();
+  const rows = Array.from({ length: reader.readCount() }, () =>
+    Array.from({ length: reader.readCount() }, () => [
+      reader.readInt(),
+      reader.readUint(),
+    ]).flat(),
+  );
+  return { id, kind, brush, points, region: { top, rows } };
+}
+
+/** 番号から値に戻す（知らない番号は読み込めない） */
+function decodeCode<T extends string>(
+  codes: Record<T, number>,
+  code: number,
+  errorCode: "invalidValue" | "unknownBrushVariant" | "unknownPatternId",
+  path: string,
+): T {
+  const entry = (Object.entries(codes) as [T, number][]).find(
+    ([, value]) => value === code,
+  );
+  if (!entry) {
+    throw new DrawingFormatError(errorCode, path, `Unknown code: ${code}`);
+  }
+  return entry[0];
+}
+
+/** バイト列をbase64url（パディング無し）にする */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary)
+    .replaceAll("+", "-")
+    .replaceAll("/", "_")
+    .replace(/=+$/, "");
+}
+
+/** base64url（パディング無し）をバイト列に戻す */
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replaceAll("-", "+").replaceAll("_", "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/** 可変長整数・文字列・数値を詰めて書くバッファ */
+class ByteWriter {
+  private bytes = new Uint8Array(1024);
+  private length = 0;
+
+  /** 0以上の整数を7ビットずつの可変長整数で書く */
+  writeUint(value: number): void {
+    let rest = value;
+    while (rest >= 0x80) {
+      this.pushByte((rest % 0x80) | 0x80);
+      rest = Math.floor(rest / 0x80);
+    }
+    this.pushByte(rest);
+  }
+
+  /** 符号付き整数をジグザグ符号化して書く（0,-1,1,-2…を0,1,2,3…にする） */
+  writeInt(value: number): void {
+    this.writeUint(value < 0 ? -2 * value - 1 : 2 * value);
+  }
+
+  /**
+   * 数値を書く
+   * 整数は最下位ビットを0にした可変長整数、それ以外は1を書いてから64bit浮動小数点で書く
+   */
+  writeNumber(value: number): void {
+    if (Number.isSafeInteger(value) && Math.abs(value) < 2 ** 30) {
+      this.writeUint((value < 0 ? -2 * value - 1 : 2 * value) * 2);
+      return;
+    }
+    this.writeUint(1);
+    const float = new Uint8Array(8);
+    new DataView(float.buffer).setFloat64(0, value);
+    for (const byte of float) this.pushByte(byte);
+  }
+
+  /** UTF-8の長さに続けて文字列を書く */
+  writeString(value: string): void {
+    const encoded = new TextEncoder().encode(value);
+    this.writeUint(encoded.length);
+    for (const byte of encoded) this.pushByte(byte);
+  }
+
+  toBytes(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+
+  private pushByte(value: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value;
+  }
+}
+
+/**
+ * ByteWriterで書いたバイト列を読む
+ * 途中で終わっている場合はDrawingFormatErrorを投げる
+ */
+class ByteReader {
+  private position = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  readUint(): number {
+    let value = 0;
+    let scale = 1;
+    while (true) {
+      const byte = this.readByte();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+      if (scale > 2 ** 49) {
+        throw new DrawingFormatError("invalidFormat", "$", "Varint too long");
+      }
+    }
+  }
+
+  /** 要素数を読む（各要素は1バイト以上なので、残りより多い数は壊れている） */
+  readCount(): number {
+    const count = this.readUint();
+    if (count > this.bytes.length - this.position) this.fail();
+    return count;
+  }
+
+  readInt(): number {
+    const value = this.readUint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  readNumber(): number {
+    const tagged = this.readUint();
+    if (tagged % 2 === 0) {
+      const value = tagged / 2;
+      return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+    }
+    const float = new Uint8Array(8);
+    for (let i = 0; i < 8; i++) float[i] = this.readByte();
+    return new DataView(float.buffer).getFloat64(0);
+  }
+
+  readString(): string {
+    const length = this.readUint();
+    if (this.position + length > this.bytes.length) this.fail();
+    const value = new TextDecoder().decode(
+      this.bytes.subarray(this.position, this.position + length),
+    );
+    this.position += length;
+    return value;
+  }
+
+  isAtEnd(): boolean {
+    return this.position === this.bytes.length;
+  }
+
+  private readByte(): number {
+    if (this.position >= this.bytes.length) this.fail();
+    return this.bytes[this.position++];
+  }
+
+  private fail(): never {
+    throw new DrawingFormatError("invalidFormat", "$", "Truncated share code");
+  }
+}
@@ -76,6 +76,21 @@ export function initializeUISounds(): void {
   // シェアボタン - select1.mp3を使用
   uiSoundManager.registerSound("share-button", selectSound);
 
+  // ギャラリー（メモ帳）- select1.mp3を使用
+  uiSoundManager.registerSound("button-gallery", selectSound);
+  uiSoundManager.registerSound("gallery-select", selectSound);
+  uiSoundManager.registerSound("gallery-close", selectSound);
+
+  // レイヤー - select1.mp3を使用
+  uiSoundManager.registerSound("button-layers", selectSound);
+  uiSoundManager.registerSound("layer-select", selectSound);
+  uiSoundManager.registerSound("layer-close", selectSound);
+
+  // コマ - select1.mp3を使用
+  uiSoundManager.registerSound("button-frames", selectSound);
+  uiSoundManager.registerSound("frame-select", selectSound);
+  uiSoundManager.registerSound("frame-close", selectSound);
+
   // ポップアップ閉じる - select1.mp3を使用
   uiSoundManager.registerSound("popup-close", selectSound);
 }
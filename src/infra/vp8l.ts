@@ -0,0 +1,296 @@
+import { BitWriter } from "@/infra/bitWriter";
+
+/*
+ * WebPの可逆圧縮（VP8L）ビットストリームの簡易エンコーダー
+ * 変換・カラーキャッシュ・メタハフマン符号は使わず、
+ * 左隣と真上のピクセルの繰り返しだけを後方参照にする
+ */
+
+/** VP8Lビットストリームの先頭バイト */
+const VP8L_SIGNATURE = 0x2f;
+/** 緑チャンネルの後ろに続く長さ符号の数 */
+const NUM_LENGTH_CODES = 24;
+const GREEN_ALPHABET_SIZE = 256 + NUM_LENGTH_CODES;
+const COLOR_ALPHABET_SIZE = 256;
+const DISTANCE_ALPHABET_SIZE = 40;
+/** 符号長の上限（本体・符号長符号） */
+const MAX_CODE_LENGTH = 15;
+const MAX_CODE_LENGTH_CODE_LENGTH = 7;
+/** 符号長符号の符号長を書き込む順序 */
+const CODE_LENGTH_ORDER = [
+  17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15,
+];
+const NUM_CODE_LENGTH_CODES = CODE_LENGTH_ORDER.length;
+/** 後方参照にする最短・最長のピクセル数 */
+const MIN_COPY_LENGTH = 3;
+const MAX_COPY_LENGTH = 4096;
+/** 2次元距離表の先頭2つ: 真上(0,1)と左隣(1,0) */
+const DISTANCE_CODE_UP = 1;
+const DISTANCE_CODE_LEFT = 2;
+
+/** リテラル1ピクセルまたは後方参照 */
+type Token =
+  | { kind: "literal"; argb: number }
+  | { kind: "copy"; length: number; distanceCode: number };
+
+/** 長さ・距離の値を接頭符号と追加ビットに分ける */
+function toPrefix(value: number): {
+  prefix: number;
+  extraBits: number;
+  extraValue: number;
+} {
+  const d = value - 1;
+  if (d < 4) return { prefix: d, extraBits: 0, extraValue: 0 };
+  const highestBit = 31 - Math.clz32(d);
+  const secondBit = (d >> (highestBit - 1)) & 1;
+  const extraBits = highestBit - 1;
+  return {
+    prefix: 2 * highestBit + secondBit,
+    extraBits,
+    extraValue: d & ((1 << extraBits) - 1),
+  };
+}
+
+/** 出現回数からハフマン符号長を求める（使う記号が2つ以上ある前提） */
+function huffmanLengths(counts: number[]): number[] {
+  const lengths = new Array<number>(counts.length).fill(0);
+  let nodes = counts.flatMap((count, symbol) =>
+    count > 0 ? [{ weight: count, symbols: [symbol] }] : [],
+  );
+  while (nodes.length > 1) {
+    nodes.sort((a, b) => a.weight - b.weight || a.symbols[0] - b.symbols[0]);
+    const [first, second, ...rest] = nodes;
+    for (const symbol of [...first.symbols, ...second.symbols]) {
+      lengths[symbol] += 1;
+    }
+    nodes = [
+      ...rest,
+      {
+        weight: first.weight + second.weight,
+        symbols: [...first.symbols, ...second.symbols],
+      },
+    ];
+  }
+  return lengths;
+}
+
+/** 上限を超えないようにした符号長（超えたら出現回数を均して作り直す） */
+function limitedCodeLengths(counts: number[], maxLength: number): number[] {
+  let scaled = counts;
+  for (;;) {
+    const lengths = huffmanLengths(scaled);
+    if (Math.max(...lengths) <= maxLength) return lengths;
+    scaled = scaled.map((count) => (count === 0 ? 0 : Math.max(1, count >> 1)));
+  }
+}
+
+/** 符号長から正準ハフマン符号を割り当てる */
+function canonicalCodes(lengths: number[]): number[] {
+  const maxLength = Math.max(0, ...lengths);
+  const lengthCounts = new Array<number>(maxLength + 1).fill(0);
+  for (const length of lengths) {
+    if (length > 0) lengthCounts[length] += 1;
+  }
+  const nextCode = new Array<number>(maxLength + 1).fill(0);
+  let code = 0;
+  for (let length = 1; length <= maxLength; length++) {
+    code = (code + lengthCounts[length - 1]) << 1;
+    nextCode[length] = code;
+  }
+  return lengths.map((length) => (length > 0 ? nextCode[length]++ : 0));
+}
+
+/**
+ * 使う記号が1つしかない場合は未使用の記号を1つ足す
+ * 1記号だけの通常符号はデコーダーが0ビットとして読むため、長さ1の2記号にそろえる
+ */
+function withAtLeastTwoSymbols(counts: number[]): number[] {
+  if (counts.filter((count) => count > 0).length >= 2) return counts;
+  const result = [...counts];
+  result[result.indexOf(0)] = 1;
+  return result;
+}
+
+/** 書き込み済みのハフマン符号（記号ごとの符号と長さ） */
+type HuffmanCode = { codes: number[]; lengths: number[] };
+
+/** 記号を書く */
+function writeSymbol(
+  writer: BitWriter,
+  code: HuffmanCode,
+  symbol: number,
+): void {
+  writer.writeCode(code.codes[symbol], code.lengths[symbol]);
+}
+
+/** 出現回数からハフマン符号を作り、その定義をビットストリームに書く */
+function writeHuffmanCode(writer: BitWriter, counts: number[]): HuffmanCode {
+  const used = counts.flatMap((count, symbol) => (count > 0 ? [symbol] : []));
+
+  // 2記号までで8ビットに収まるなら記号を直接書く単純符号にする
+  if (used.length <= 2 && used.every((symbol) => symbol < 256)) {
+    const symbols = used.length === 0 ? [0] : used;
+    writer.writeBits(1, 1);
+    writer.writeBits(symbols.length - 1, 1);
+    if (symbols[0] < 2) {
+      writer.writeBits(0, 1);
+      writer.writeBits(symbols[0], 1);
+    } else {
+      writer.writeBits(1, 1);
+      writer.writeBits(symbols[0], 8);
+    }
+    if (symbols.length === 2) writer.writeBits(symbols[1], 8);
+    // 1記号なら0ビット、2記号なら記号番号の小さい方から0/1の1ビット
+    const lengths = new Array<number>(counts.length).fill(0);
+    if (symbols.length === 2) {
+      lengths[symbols[0]] = 1;
+      lengths[symbols[1]] = 1;
+    }
+    return { codes: canonicalCodes(lengths), lengths };
+  }
+
+  const lengths = limitedCodeLengths(
+    withAtLeastTwoSymbols(counts),
+    MAX_CODE_LENGTH,
+  );
+  writer.writeBits(0, 1);
+
+  const lengthCounts = new Array<number>(NUM_CODE_LENGTH_CODES).fill(0);
+  for (const length of lengths) lengthCounts[length] += 1;
+  const lengthCode: HuffmanCode = {
+    lengths: limitedCodeLengths(
+      withAtLeastTwoSymbols(lengthCounts),
+      MAX_CODE_LENGTH_CODE_LENGTH,
+    ),
+    codes: [],
+  };
+  lengthCode.codes = canonicalCodes(lengthCode.lengths);
+
+  let numCodes = NUM_CODE_LENGTH_CODES;
+  while (
+    numCodes > 4 &&
+    lengthCode.lengths[CODE_LENGTH_ORDER[numCodes - 1]] === 0
+  ) {
+    numCodes--;
+  }
+  writer.writeBits(numCodes - 4, 4);
+  for (let i = 0; i < numCodes; i++) {
+    writer.writeBits(lengthCode.lengths[CODE_LENGTH_ORDER[i]], 3);
+  }
+  // max_symbolは使わず、アルファベット全体の符号長を書く
+  writer.writeBits(0, 1);
+  for (const length of lengths) writeSymbol(writer, lengthCode, length);
+
+  return { codes: canonicalCodes(lengths), lengths };
+}
+
+/** 同じピクセルが続く長さ */
+function runLength(
+  pixels: Uint32Array,
+  index: number,
+  distance: number,
+): number {
+  if (index < distance) return 0;
+  const maxLength = Math.min(MAX_COPY_LENGTH, pixels.length - index);
+  let length = 0;
+  while (
+    length < maxLength &&
+    pixels[index + length] === pixels[index + length - distance]
+  ) {
+    length++;
+  }
+  return length;
+}
+
+/** ピクセル列をリテラルと後方参照に分ける */
+function tokenize(pixels: Uint32Array, width: number): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < pixels.length) {
+    const left = runLength(pixels, i, 1);
+    const up = runLength(pixels, i, width);
+    const length = Math.max(left, up);
+    if (length >= MIN_COPY_LENGTH) {
+      tokens.push({
+        kind: "copy",
+        length,
+        distanceCode: up >= left ? DISTANCE_CODE_UP : DISTANCE_CODE_LEFT,
+      });
+      i += length;
+    } else {
+      tokens.push({ kind: "literal", argb: pixels[i] });
+      i += 1;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * RGBAのImageDataをVP8Lビットストリームにする
+ * @returns VP8Lチャンクの中身
+ */
+export function encodeVp8l(imageData: ImageData): Uint8Array {
+  const { data, width, height } = imageData;
+  const pixels = new Uint32Array(width * height);
+  let hasAlpha = false;
+  for (let i = 0; i < pixels.length; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const a = data[i * 4 + 3];
+    if (a !== 255) hasAlpha = true;
+    pixels[i] = ((a << 24) | (r << 16) | (g << 8) | b) >>> 0;
+  }
+
+  const tokens = tokenize(pixels, width);
+  const green = new Array<number>(GREEN_ALPHABET_SIZE).fill(0);
+  const red = new Array<number>(COLOR_ALPHABET_SIZE).fill(0);
+  const blue = new Array<number>(COLOR_ALPHABET_SIZE).fill(0);
+  const alpha = new Array<number>(COLOR_ALPHABET_SIZE).fill(0);
+  const distance = new Array<number>(DISTANCE_ALPHABET_SIZE).fill(0);
+  for (const token of tokens) {
+    if (token.kind === "literal") {
+      green[(token.argb >>> 8) & 0xff] += 1;
+      red[(token.argb >>> 16) & 0xff] += 1;
+      blue[token.argb & 0xff] += 1;
+      alpha[token.argb >>> 24] += 1;
+    } else {
+      green[256 + toPrefix(token.length).prefix] += 1;
+      distance[toPrefix(token.distanceCode).prefix] += 1;
+    }
+  }
+
+  const writer = new BitWriter();
+  writer.pushByte(VP8L_SIGNATURE);
+  writer.writeBits(width - 1, 14);
+  writer.writeBits(height - 1, 14);
+  writer.writeBits(hasAlpha ? 1 : 0, 1);
+  writer.writeBits(0, 3); // バージョン
+  writer.writeBits(0, 1); // 変換なし
+  writer.writeBits(0, 1); // カラーキャッシュなし
+  writer.writeBits(0, 1); // メタハフマン符号なし
+
+  const greenCode = writeHuffmanCode(writer, green);
+  const redCode = writeHuffmanCode(writer, red);
+  const blueCode = writeHuffmanCode(writer, blue);
+  const alphaCode = writeHuffmanCode(writer, alpha);
+  const distanceCode = writeHuffmanCode(writer, distance);
+
+  for (const token of tokens) {
+    if (token.kind === "literal") {
+      writeSymbol(writer, greenCode, (token.argb >>> 8) & 0xff);
+      writeSymbol(writer, redCode, (token.argb >>> 16) & 0xff);
+      writeSymbol(writer, blueCode, token.argb & 0xff);
+      writeSymbol(writer, alphaCode, token.argb >>> 24);
+    } else {
+      const length = toPrefix(token.length);
+      writeSymbol(writer, greenCode, 256 + length.prefix);
+      writer.writeBits(length.extraValue, length.extraBits);
+      const dist = toPrefix(token.distanceCode);
+      writeSymbol(writer, distanceCode, dist.prefix);
+      writer.writeBits(dist.extraValue, dist.extraBits);
+    }
+  }
+
+  return writer.flush();
+}
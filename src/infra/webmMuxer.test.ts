@@ -0,0 +1,171 @@
+import type { VideoChunk } from "@/engine/ports";
+import { muxWebm } from "@/infra/webmMuxer";
+
+/** 読み取ったEBML要素（子を持つ要素はchildrenに展開する） */
+type EbmlNode = { id: number; data: Uint8Array; children: EbmlNode[] };
+
+/** 子要素を持つ要素のID */
+const MASTER_IDS = new Set([
+  0x1a45dfa3, 0x18538067, 0x1549a966, 0x1654ae6b, 0xae, 0xe0, 0x1f43b675,
+]);
+
+/** 先頭のビットで長さが決まる可変長整数を読む */
+function readVint(bytes: Uint8Array, offset: number, keepMarker: boolean) {
+  let length = 1;
+  while (!(bytes[offset] & (0x100 >> length))) length++;
+  let value = keepMarker ? bytes[offset] : bytes[offset] & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 0x100 + bytes[offset + i];
+  return { value, length };
+}
+
+function parseEbml(bytes: Uint8Array): EbmlNode[] {
+  const nodes: EbmlNode[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const id = readVint(bytes, offset, true);
+    const size = readVint(bytes, offset + id.length, false);
+    const start = offset + id.length + size.length;
+    const data = bytes.subarray(start, start + size.value);
+    expect(data.length).toBe(size.value);
+    nodes.push({
+      id: id.value,
+      data,
+      children: MASTER_IDS.has(id.value) ? parseEbml(data) : [],
+    });
+    offset = start + size.value;
+  }
+  return nodes;
+}
+
+function find(nodes: EbmlNode[], id: number): EbmlNode {
+  const node = nodes.find((n) => n.id === id);
+  if (!node) throw new Error(`element ${id.toString(16)} not found`);
+  return node;
+}
+
+function readUint(node: EbmlNode): number {
+  return node.data.reduce((value, byte) => value * 0x100 + byte, 0);
+}
+
+function readString(node: EbmlNode): string {
+  return new TextDecoder().decode(node.data);
+}
+
+/** 中身を区別できるだけの合成チャンク */
+function createChunk(timestampMs: number, keyFrame: boolean): VideoChunk {
+  return {
+    data: Uint8Array.from([timestampMs & 0xff, 0xaa, 0xbb]),
+    timestampMs,
+    keyFrame,
+  };
+}
+
+describe("muxWebm", () => {
+  test("EBMLヘッダ・トラック情報・クラスタを正しい入れ子で書く", () => {
+    const bytes = muxWebm({
+      width: 384,
+      height: 256,
+      codecId: "V_VP8",
+      chunks: [
+        createChunk(0, true),
+        createChunk(100, false),
+        createChunk(200, false),
+        createChunk(1000, true),
+        createChunk(1100, false),
+      ],
+      durationMs: 1200,
+    });
+
+    const [header, segment, ...rest] = parseEbml(bytes);
+    expect(rest).toHaveLength(0);
+    expect(header.id).toBe(0x1a45dfa3);
+    expect(readString(find(header.children, 0x4282))).toBe("webm");
+    expect(segment.id).toBe(0x18538067);
+
+    const info = find(segment.children, 0x1549a966);
+    expect(readUint(find(info.children, 0x2ad7b1))).toBe(1_000_000);
+    const duration = find(info.children, 0x4489).data;
+    expect(
+      new DataView(duration.buffer, duration.byteOffset).getFloat64(0),
+    ).toBe(1200);
+
+    const track = find(find(segment.children, 0x1654ae6b).children, 0xae);
+    expect(readUint(find(track.children, 0xd7))).toBe(1);
+    expect(readUint(find(track.children, 0x83))).toBe(1);
+    expect(readString(find(track.children, 0x86))).toBe("V_VP8");
+    const video = find(track.children, 0xe0);
+    expect(readUint(find(video.children, 0xb0))).toBe(384);
+    expect(readUint(find(video.children, 0xba))).toBe(256);
+
+    // キーフレームごとにクラスタを分け、ブロックの時刻はクラスタからの相対値
+    const clusters = segment.children.filter((n) => n.id === 0x1f43b675);
+    const blocks = clusters.map((cluster) => ({
+      timecode: readUint(find(cluster.children, 0xe7)),
+      blocks: cluster.children
+        .filter((n) => n.id === 0xa3)
+        .map(({ data }) => ({
+          track: data[0] & 0x7f,
+          relativeMs: new DataView(data.buffer, data.byteOffset).getInt16(1),
+          keyFrame: (data[3] & 0x80) !== 0,
+          payload: Array.from(data.subarray(4)),
+        })),
+    }));
+    expect(blocks).toEqual([
+      {
+        timecode: 0,
+        blocks: [
+          { track: 1, relativeMs: 0, keyFrame: true, payload: [0, 0xaa, 0xbb] },
+          {
+            track: 1,
+            relativeMs: 100,
+            keyFrame: false,
+            payload: [100, 0xaa, 0xbb],
+          },
+          {
+            track: 1,
+            relativeMs: 200,
+            keyFrame: false,
+            payload: [200, 0xaa, 0xbb],
+          },
+        ],
+      },
+      {
+        timecode: 1000,
+        blocks: [
+          {
+            track: 1,
+            relativeMs: 0,
+            keyFrame: true,
+            payload: [1000 & 0xff, 0xaa, 0xbb],
+          },
+          {
+            track: 1,
+            relativeMs: 100,
+            keyFrame: false,
+            payload: [1100 & 0xff, 0xaa, 0xbb],
+          },
+        ],
+      },
+    ]);
+  });
+
+  test("キーフレームが無くても相対時刻が16bitを超える前にクラスタを分ける", () => {
+    const bytes = muxWebm({
+      width: 2,
+      height: 2,
+      codecId: "V_VP8",
+      chunks: [
+        createChunk(0, true),
+        createChunk(20_000, false),
+        createChunk(40_000, false),
+      ],
+      durationMs: 41_000,
+    });
+
+    const segment = parseEbml(bytes)[1];
+    const timecodes = segment.children
+      .filter((n) => n.id === 0x1f43b675)
+      .map((cluster) => readUint(find(cluster.children, 0xe7)));
+    expect(timecodes).toEqual([0, 40_000]);
+  });
+});
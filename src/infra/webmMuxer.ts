@@ -0,0 +1,203 @@
+import type { VideoChunk } from "@/engine/ports";
+
+/** EBMLの要素ID（先頭のマーカービットを含む値） */
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+} as const;
+
+/** タイムコードの単位（1ms） */
+const TIMECODE_SCALE_NS = 1_000_000;
+/** SimpleBlockのクラスタ内相対時刻は符号付き16bitに収める */
+const MAX_CLUSTER_SPAN_MS = 32_767;
+/** 映像トラックの番号 */
+const TRACK_NUMBER = 1;
+/** TrackType: 映像 */
+const TRACK_TYPE_VIDEO = 1;
+/** SimpleBlockのフラグ: キーフレーム */
+const FLAG_KEYFRAME = 0x80;
+const APP_NAME = "wiggly-zakomemo";
+
+/** 要素IDのバイト列（IDは長さのマーカーを含むのでそのまま詰める） */
+function encodeId(id: number): number[] {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 0x100)) {
+    bytes.unshift(value & 0xff);
+  }
+  return bytes;
+}
+
+/** データサイズの可変長整数（最短の長さで書く） */
+function encodeSize(size: number): number[] {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const bytes: number[] = [];
+  let value = size;
+  for (let i = 0; i < length; i++) {
+    bytes.unshift(value & 0xff);
+    value = Math.floor(value / 0x100);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+/** 符号なし整数を最短のビッグエンディアンにする */
+function encodeUint(value: number): Uint8Array {
+  const bytes: number[] = [];
+  let rest = value;
+  do {
+    bytes.unshift(rest & 0xff);
+    rest = Math.floor(rest / 0x100);
+  } while (rest > 0);
+  return Uint8Array.from(bytes);
+}
+
+function encodeFloat(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+}
+
+function encodeString(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+/** バイト列をつなげる */
+function concat(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(
+    parts.reduce((sum, part) => sum + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+/** ID・サイズ・データからなるEBML要素 */
+function element(id: number, data: Uint8Array | Uint8Array[]): Uint8Array {
+  const body = Array.isArray(data) ? concat(data) : data;
+  return concat([
+    Uint8Array.from([...encodeId(id), ...encodeSize(body.length)]),
+    body,
+  ]);
+}
+
+/** 映像トラックのフレームを1つ格納するSimpleBlock */
+function simpleBlock(chunk: VideoChunk, relativeMs: number): Uint8Array {
+  const header = new Uint8Array(4);
+  header[0] = 0x80 | TRACK_NUMBER;
+  new DataView(header.buffer).setInt16(1, relativeMs);
+  header[3] = chunk.keyFrame ? FLAG_KEYFRAME : 0;
+  return element(ID.SimpleBlock, [header, chunk.data]);
+}
+
+/**
+ * キーフレームごと（と相対時刻が16bitを超える手前）にクラスタを分ける
+ * 先頭のチャンクは必ずクラスタの始まりになる
+ */
+function createClusters(chunks: VideoChunk[]): Uint8Array[] {
+  const clusters: Uint8Array[] = [];
+  let clusterStart = 0;
+  let blocks: Uint8Array[] = [];
+  const flush = () => {
+    if (blocks.length === 0) return;
+    clusters.push(
+      element(ID.Cluster, [
+        element(ID.Timecode, encodeUint(clusterStart)),
+        ...blocks,
+      ]),
+    );
+    blocks = [];
+  };
+  for (const chunk of chunks) {
+    const timestamp = Math.round(chunk.timestampMs);
+    if (
+      blocks.length === 0 ||
+      chunk.keyFrame ||
+      timestamp - clusterStart > MAX_CLUSTER_SPAN_MS
+    ) {
+      flush();
+      clusterStart = timestamp;
+    }
+    blocks.push(simpleBlock(chunk, timestamp - clusterStart));
+  }
+  flush();
+  return clusters;
+}
+
+/** WebMに格納する映像の情報 */
+export type WebmVideo = {
+  width: number;
+  height: number;
+  codecId: string;
+  /** 時刻順のチャンク（先頭はキーフレーム） */
+  chunks: VideoChunk[];
+  /** 動画全体の長さ（最後のフレームの表示時間を含む） */
+  durationMs: number;
+};
+
+/**
+ * 圧縮済みの映像チャンクを1トラックのWebM（Matroska）に格納する
+ * 全体をメモリ上で組み立てるため、各要素のサイズは確定した値で書く
+ */
+export function muxWebm(video: WebmVideo): Uint8Array {
+  const header = element(ID.EBML, [
+    element(ID.EBMLVersion, encodeUint(1)),
+    element(ID.EBMLReadVersion, encodeUint(1)),
+    element(ID.EBMLMaxIDLength, encodeUint(4)),
+    element(ID.EBMLMaxSizeLength, encodeUint(8)),
+    element(ID.DocType, encodeString("webm")),
+    element(ID.DocTypeVersion, encodeUint(2)),
+    element(ID.DocTypeReadVersion, encodeUint(2)),
+  ]);
+  const info = element(ID.Info, [
+    element(ID.TimecodeScale, encodeUint(TIMECODE_SCALE_NS)),
+    element(ID.MuxingApp, encodeString(APP_NAME)),
+    element(ID.WritingApp, encodeString(APP_NAME)),
+    element(ID.Duration, encodeFloat(video.durationMs)),
+  ]);
+  const tracks = element(ID.Tracks, [
+    element(ID.TrackEntry, [
+      element(ID.TrackNumber, encodeUint(TRACK_NUMBER)),
+      element(ID.TrackUID, encodeUint(TRACK_NUMBER)),
+      element(ID.TrackType, encodeUint(TRACK_TYPE_VIDEO)),
+      element(ID.CodecID, encodeString(video.codecId)),
+      element(ID.Video, [
+        element(ID.PixelWidth, encodeUint(video.width)),
+        element(ID.PixelHeight, encodeUint(video.height)),
+      ]),
+    ]),
+  ]);
+  const segment = element(ID.Segment, [
+    info,
+    tracks,
+    ...createClusters(video.chunks),
+  ]);
+  return concat([header, segment]);
+}
@@ -0,0 +1,102 @@
+import { crc32 } from "@/infra/crc32";
+
+/** ZIPに入れるファイル */
+export type ZipEntry = {
+  /** アーカイブ内のパス（"/"区切り） */
+  name: string;
+  data: Uint8Array;
+};
+
+/** 汎用フラグ: ファイル名をUTF-8で書く */
+const FLAG_UTF8 = 0x0800;
+/** 展開に必要なバージョン（2.0） */
+const VERSION = 20;
+
+/** 日時をMS-DOS形式の時刻・日付にする */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+/**
+ * 無圧縮（stored）のZIPを作る
+ * PNGなど圧縮済みのファイルをまとめる用途なので、再圧縮はしない
+ */
+export function createZip(
+  entries: ZipEntry[],
+  modifiedAt: Date = new Date(),
+): Uint8Array {
+  const encoder = new TextEncoder();
+  const dos = toDosDateTime(modifiedAt);
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, VERSION, true);
+    localView.setUint16(6, FLAG_UTF8, true);
+    localView.setUint16(8, 0, true); // 圧縮方式: stored
+    localView.setUint16(10, dos.time, true);
+    localView.setUint16(12, dos.date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, size, true);
+    localView.setUint32(22, size, true);
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, VERSION, true);
+    centralView.setUint16(6, VERSION, true);
+    centralView.setUint16(8, FLAG_UTF8, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, dos.time, true);
+    centralView.setUint16(14, dos.date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, size, true);
+    centralView.setUint32(24, size, true);
+    centralView.setUint16(28, name.length, true);
+    // 拡張フィールド・コメント・ディスク番号・属性はすべて0
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, entry.data);
+    centralParts.push(central);
+    offset += local.length + size;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const bytes = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of parts) {
+    bytes.set(part, position);
+    position += part.length;
+  }
+  return bytes;
+}
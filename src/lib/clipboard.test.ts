@@ -0,0 +1,62 @@
+import {
+  canWriteClipboardImage,
+  getClipboardImageFile,
+  writeClipboardImage,
+} from "@/lib/clipboard";
+
+/** 渡された中身を保持するだけのClipboardItem */
+class StubClipboardItem {
+  constructor(public items: Record<string, Blob | Promise<Blob>>) {}
+}
+
+describe("clipboard", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("書き込める形式はClipboardItem.supportsで判定し、無ければPNGだけにする", () => {
+    vi.stubGlobal("navigator", { clipboard: { write: vi.fn() } });
+    vi.stubGlobal("ClipboardItem", StubClipboardItem);
+    expect(canWriteClipboardImage("image/png")).toBe(true);
+    expect(canWriteClipboardImage("image/gif")).toBe(false);
+
+    vi.stubGlobal(
+      "ClipboardItem",
+      class extends StubClipboardItem {
+        static supports = () => true;
+      },
+    );
+    expect(canWriteClipboardImage("image/gif")).toBe(true);
+
+    vi.stubGlobal("navigator", {});
+    expect(canWriteClipboardImage("image/png")).toBe(false);
+  });
+
+  test("描き終わる前の画像もそのままClipboardItemに渡して書き込む", async () => {
+    const write = vi.fn().mockResolvedValue(undefined);
+    vi.stubGlobal("navigator", { clipboard: { write } });
+    vi.stubGlobal("ClipboardItem", StubClipboardItem);
+    const image = Promise.resolve(new Blob([], { type: "image/png" }));
+
+    await writeClipboardImage("image/png", image);
+
+    const [[item]] = write.mock.calls[0];
+    expect(item.items).toEqual({ "image/png": image });
+    await expect(writeClipboardImage("image/gif", new Blob())).rejects.toThrow(
+      "clipboard does not support image/gif",
+    );
+  });
+
+  test("貼り付けたデータから最初の画像ファイルを取り出す", () => {
+    const text = new File(["memo"], "memo.txt", { type: "text/plain" });
+    const png = new File([], "memo.png", { type: "image/png" });
+
+    expect(
+      getClipboardImageFile({ files: [text, png] } as unknown as DataTransfer),
+    ).toBe(png);
+    expect(
+      getClipboardImageFile({ files: [text] } as unknown as DataTransfer),
+    ).toBe(null);
+    expect(getClipboardImageFile(null)).toBe(null);
+  });
+});
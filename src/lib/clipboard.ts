@@ -0,0 +1,41 @@
+/**
+ * クリップボードとの画像のやり取り
+ */
+
+/** クリップボードにその形式の画像を書き込めるか */
+export const canWriteClipboardImage = (type: string): boolean => {
+  if (
+    typeof navigator === "undefined" ||
+    typeof navigator.clipboard?.write !== "function" ||
+    typeof ClipboardItem === "undefined"
+  ) {
+    return false;
+  }
+  if (typeof ClipboardItem.supports === "function") {
+    return ClipboardItem.supports(type);
+  }
+  // supportsが無いブラウザでもPNGだけは書き込める
+  return type === "image/png";
+};
+
+/**
+ * 画像をクリップボードに書き込む
+ * Safariはキー操作などの直後にwriteを呼ぶ必要があるため、描き終わる前のPromiseも受け付ける
+ *
+ * @throws その形式の画像を書き込めない環境の場合
+ */
+export const writeClipboardImage = async (
+  type: string,
+  image: Blob | Promise<Blob>,
+): Promise<void> => {
+  if (!canWriteClipboardImage(type)) {
+    throw new Error(`clipboard does not support ${type}`);
+  }
+  await navigator.clipboard.write([new ClipboardItem({ [type]: image })]);
+};
+
+/** 貼り付けられたデータから画像ファイルを1つ取り出す（無ければnull） */
+export const getClipboardImageFile = (data: DataTransfer | null): File | null =>
+  Array.from(data?.files ?? []).find((file) =>
+    file.type.startsWith("image/"),
+  ) ?? null;
@@ -1,3 +1,11 @@
+/** debounceされた関数（保留中の実行を取り消せる） */
+export type DebouncedFunction<Args extends unknown[]> = ((
+  ...args: Args
+) => void) & {
+  /** 保留中の実行を取り消す */
+  cancel: () => void;
+};
+
 /**
  * debounce関数
  * 指定された時間が経過してから関数を実行する
@@ -8,15 +16,25 @@
 export function debounce<T extends (...args: unknown[]) => void>(
   func: T,
   delay: number,
-): (...args: Parameters<T>) => void {
+): DebouncedFunction<Parameters<T>> {
   let timeoutId: ReturnType<typeof setTimeout> | null = null;
 
-  return (...args: Parameters<T>) => {
+  const debounced = (...args: Parameters<T>) => {
     if (timeoutId) {
       clearTimeout(timeoutId);
     }
     timeoutId = setTimeout(() => {
+      timeoutId = null;
       func(...args);
     }, delay);
   };
+
+  debounced.cancel = () => {
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+      timeoutId = null;
+    }
+  };
+
+  return debounced;
 }
@@ -0,0 +1,21 @@
+/**
+ * ダウンロード関連のユーティリティ関数
+ */
+
+// クリック直後にURLを解放するとダウンロードが始まらないブラウザがあるため少し待つ
+const REVOKE_DELAY_MS = 1000;
+
+/** URL（blob URL・data URLなど）の中身をファイルとしてダウンロードさせる */
+export const downloadUrl = (url: string, filename: string): void => {
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+};
+
+/** Blobをファイルとしてダウンロードさせる */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
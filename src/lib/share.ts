@@ -44,6 +44,20 @@ export const urlToFile = async (
   return new File([blob], filename, { type: mimeType });
 };
 
+/** 共有リンクを開くページのパス */
+export const SHARED_DRAWING_PATH = "/share";
+
+/**
+ * 編集できるメモの共有リンクを生成
+ * 共有コードはサーバーに送られないフラグメントに入れる
+ */
+export const createSharedDrawingUrl = (origin: string, code: string): string =>
+  `${origin}${SHARED_DRAWING_PATH}#${code}`;
+
+/** 共有リンクのフラグメントから共有コードを取り出す（無ければnull） */
+export const getSharedDrawingCode = (hash: string): string | null =>
+  hash.replace(/^#/, "") || null;
+
 /**
  * X (Twitter) 用の Intent URL を生成
  * モバイルでは twitter:// スキームを使用
@@ -60,12 +74,17 @@ export const createTwitterIntentUrl = (text: string, url?: string): string => {
   return `https://twitter.com/intent/tweet?${params.toString()}`;
 };
 
-/** X (Twitter) 共有の入力オプション */
+/** 共有先に共通の入力オプション */
 export interface ShareOptions {
   text: string;
   imageUrl?: string;
   imageName?: string;
+  imageType?: string;
+  /** 今の1枚をPNGで描き出す（クリップボードが画像の形式を書き込めない場合に使う） */
+  createPngImage?: () => Promise<Blob>;
   url?: string;
+  /** Mastodonで共有する時のインスタンス（例: mastodon.social） */
+  mastodonInstance?: string;
 }
 
 // モバイルでアプリ起動判定を行う猶予時間
@@ -77,12 +96,17 @@ const TWITTER_APP_OPEN_TIMEOUT_MS = 1000;
  * - それ以外: インテントURLでシェア（モバイルはアプリ、PCはWeb）
  */
 export const shareToTwitter = async (options: ShareOptions): Promise<void> => {
-  const { text, imageUrl, imageName = "wiggly-zakomemo.gif" } = options;
+  const {
+    text,
+    imageUrl,
+    imageName = "wiggly-zakomemo.gif",
+    imageType = "image/gif",
+  } = options;
 
   // モバイル + 画像あり + Web Share API 対応の場合
   if (isMobile() && imageUrl && (await canShareFiles())) {
     try {
-      const file = await urlToFile(imageUrl, imageName, "image/gif");
+      const file = await urlToFile(imageUrl, imageName, imageType);
       await navigator.share({
         text,
         files: [file],
@@ -0,0 +1,144 @@
+import {
+  getAvailableShareTargets,
+  getShareTarget,
+  normalizeMastodonInstance,
+} from "@/lib/shareTargets";
+
+const TEXT = "ざこメモで絵を描いたよ！";
+const IMAGE = {
+  imageUrl: "blob:zakomemo",
+  imageName: "wiggly-zakomemo.gif",
+  imageType: "image/gif",
+};
+
+/** テスト用のnavigatorを差し替える（デスクトップのUA） */
+function stubNavigator(overrides: Partial<Navigator> = {}): void {
+  vi.stubGlobal("navigator", {
+    userAgent: "Mozilla/5.0 (Windows NT 10.0)",
+    ...overrides,
+  });
+}
+
+/** 共有先のIDの並び */
+async function listTargetIds(
+  options: Parameters<typeof getAvailableShareTargets>[0],
+) {
+  return (await getAvailableShareTargets(options)).map((target) => target.id);
+}
+
+describe("shareTargets", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  test("Web Share APIもクリップボードも無い環境ではURLで開く共有先だけを使う", async () => {
+    stubNavigator();
+
+    expect(await listTargetIds({ text: TEXT })).toEqual([
+      "x",
+      "bluesky",
+      "mastodon",
+      "line",
+    ]);
+    expect(await listTargetIds({ text: TEXT, ...IMAGE })).toContain("download");
+  });
+
+  test("画像のコピーはクリップボードがその形式を書き込める場合だけ使う", async () => {
+    const supports = vi.fn((type: string) => type === "image/png");
+    stubNavigator({
+      share: vi.fn(),
+      clipboard: { write: vi.fn() } as unknown as Clipboard,
+    });
+    vi.stubGlobal("ClipboardItem", Object.assign(vi.fn(), { supports }));
+
+    expect(await listTargetIds({ text: TEXT, ...IMAGE })).toEqual([
+      "webShare",
+      "x",
+      "bluesky",
+      "mastodon",
+      "line",
+      "download",
+    ]);
+    expect(
+      await listTargetIds({ text: TEXT, ...IMAGE, imageType: "image/png" }),
+    ).toContain("copyImage");
+  });
+
+  test("GIFはPNGで描き直した1枚をコピーする", async () => {
+    const write = vi.fn().mockResolvedValue(undefined);
+    const ClipboardItemMock = Object.assign(vi.fn(), {
+      supports: (type: string) => type === "image/png",
+    });
+    stubNavigator({ clipboard: { write } as unknown as Clipboard });
+    vi.stubGlobal("ClipboardItem", ClipboardItemMock);
+    const png = new Blob([], { type: "image/png" });
+    const options = {
+      text: TEXT,
+      ...IMAGE,
+      createPngImage: vi.fn().mockResolvedValue(png),
+    };
+
+    expect(await listTargetIds(options)).toContain("copyImage");
+    await getShareTarget("copyImage").share(options);
+
+    expect(options.createPngImage).toHaveBeenCalled();
+    const [items] = ClipboardItemMock.mock.calls[0];
+    expect(Object.keys(items)).toEqual(["image/png"]);
+    await expect(items["image/png"]).resolves.toBe(png);
+    expect(write).toHaveBeenCalled();
+  });
+
+  test("Web Share APIでは共有できる場合に画像を付け、キャンセルはエラーにしない", async () => {
+    const share = vi.fn().mockResolvedValue(undefined);
+    stubNavigator({ share, canShare: () => true });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({ ok: true, blob: async () => new Blob() }),
+    );
+
+    await getShareTarget("webShare").share({ text: TEXT, ...IMAGE });
+
+    const [data] = share.mock.calls[0];
+    expect(data.text).toBe(TEXT);
+    expect(data.files[0].name).toBe(IMAGE.imageName);
+
+    share.mockRejectedValue(
+      Object.assign(new Error("canceled"), { name: "AbortError" }),
+    );
+    await expect(
+      getShareTarget("webShare").share({ text: TEXT }),
+    ).resolves.toBeUndefined();
+  });
+
+  test("Bluesky・LINE・Mastodonは本文とURLを入れた投稿画面を開く", async () => {
+    stubNavigator();
+    const open = vi.spyOn(window, "open").mockImplementation(() => null);
+    const options = { text: TEXT, url: "https://example.com/share#abc" };
+
+    await getShareTarget("bluesky").share(options);
+    await getShareTarget("line").share(options);
+    await getShareTarget("mastodon").share({
+      ...options,
+      mastodonInstance: "https://Mastodon.Social/",
+    });
+
+    const urls = open.mock.calls.map(([url]) => new URL(String(url)));
+    expect(urls.map((url) => `${url.origin}${url.pathname}`)).toEqual([
+      "https://bsky.app/intent/compose",
+      "https://line.me/R/share",
+      "https://mastodon.social/share",
+    ]);
+    for (const url of urls) {
+      expect(url.searchParams.get("text")).toBe(`${TEXT} ${options.url}`);
+    }
+  });
+
+  test("Mastodonのインスタンスはホスト名だけを受け付ける", async () => {
+    expect(normalizeMastodonInstance(" fedibird.com ")).toBe("fedibird.com");
+    expect(normalizeMastodonInstance("not a host")).toBe(null);
+    await expect(
+      getShareTarget("mastodon").share({ text: TEXT }),
+    ).rejects.toThrow("mastodonInstance must be a host name");
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * 共有先の一覧と、環境ごとに使える共有先の判定
+ */
+
+import { canWriteClipboardImage, writeClipboardImage } from "@/lib/clipboard";
+import { downloadUrl } from "@/lib/download";
+import {
+  canShareFiles,
+  type ShareOptions,
+  shareToTwitter,
+  urlToFile,
+} from "@/lib/share";
+
+/** 共有先のID */
+export type ShareTargetId =
+  | "webShare"
+  | "x"
+  | "bluesky"
+  | "mastodon"
+  | "line"
+  | "copyImage"
+  | "download";
+
+/** 共有先 */
+export interface ShareTarget {
+  id: ShareTargetId;
+  label: string;
+  /** この環境・この内容で使えるか */
+  isAvailable(options: ShareOptions): Promise<boolean>;
+  /**
+   * 共有する
+   * @throws 共有に失敗した場合（ユーザーが共有シートを閉じた場合は何もしない）
+   */
+  share(options: ShareOptions): Promise<void>;
+}
+
+const DEFAULT_IMAGE_NAME = "wiggly-zakomemo.gif";
+const DEFAULT_IMAGE_TYPE = "image/gif";
+
+/** 本文とURLを1つのテキストにまとめる（URLを別に渡せない共有先用） */
+const joinTextAndUrl = ({ text, url }: ShareOptions): string =>
+  url ? `${text} ${url}` : text;
+
+/** 共有用のURLを新しいタブで開く */
+const openShareUrl = (url: string): void => {
+  window.open(url, "_blank", "noopener");
+};
+
+/** Mastodonのインスタンス名をホスト名にする（https://や末尾の/は取り除く） */
+export const normalizeMastodonInstance = (instance: string): string | null => {
+  const host = instance
+    .trim()
+    .replace(/^https?:\/\//, "")
+    .replace(/\/.*$/, "");
+  return /^[a-z0-9.-]+\.[a-z]{2,}(:\d+)?$/i.test(host)
+    ? host.toLowerCase()
+    : null;
+};
+
+/** 端末の共有シート（Web Share API）。画像を渡せない環境ではテキストだけ共有する */
+const webShareTarget: ShareTarget = {
+  id: "webShare",
+  label: "その他",
+  isAvailable: async () =>
+    typeof navigator !== "undefined" && typeof navigator.share === "function",
+  share: async (options) => {
+    const {
+      text,
+      url,
+      imageUrl,
+      imageName = DEFAULT_IMAGE_NAME,
+      imageType = DEFAULT_IMAGE_TYPE,
+    } = options;
+    const data: ShareData = { text, ...(url ? { url } : {}) };
+    if (imageUrl && (await canShareFiles())) {
+      data.files = [await urlToFile(imageUrl, imageName, imageType)];
+    }
+    try {
+      await navigator.share(data);
+    } catch (error) {
+      // ユーザーがキャンセルした場合は何もしない
+      if (error instanceof Error && error.name === "AbortError") return;
+      throw error;
+    }
+  },
+};
+
+/** X (Twitter)。モバイルではアプリや画像付きの共有を優先する */
+const xTarget: ShareTarget = {
+  id: "x",
+  label: "X",
+  isAvailable: async () => true,
+  share: (options) => shareToTwitter(options),
+};
+
+/** Bluesky の投稿画面 */
+const blueskyTarget: ShareTarget = {
+  id: "bluesky",
+  label: "Bluesky",
+  isAvailable: async () => true,
+  share: async (options) => {
+    const params = new URLSearchParams({ text: joinTextAndUrl(options) });
+    openShareUrl(`https://bsky.app/intent/compose?${params.toString()}`);
+  },
+};
+
+/** Mastodon の投稿画面（インスタンスは呼び出し側で指定する） */
+const mastodonTarget: ShareTarget = {
+  id: "mastodon",
+  label: "Mastodon",
+  isAvailable: async () => true,
+  share: async (options) => {
+    const host = normalizeMastodonInstance(options.mastodonInstance ?? "");
+    if (!host) {
+      throw new Error(
+        `mastodonInstance must be a host name, got ${options.mastodonInstance ?? "nothing"}`,
+      );
+    }
+    const params = new URLSearchParams({ text: joinTextAndUrl(options) });
+    openShareUrl(`https://${host}/share?${params.toString()}`);
+  },
+};
+
+/** LINE の送信画面 */
+const lineTarget: ShareTarget = {
+  id: "line",
+  label: "LINE",
+  isAvailable: async () => true,
+  share: async (options) => {
+    const params = new URLSearchParams({ text: joinTextAndUrl(options) });
+    openShareUrl(`https://line.me/R/share?${params.toString()}`);
+  },
+};
+
+/**
+ * 画像をクリップボードにコピーする
+ * 多くのブラウザはPNGしか書き込めないため、GIFなどはPNGで描き直した1枚をコピーする
+ */
+const copyImageTarget: ShareTarget = {
+  id: "copyImage",
+  label: "画像をコピー",
+  isAvailable: async ({
+    imageUrl,
+    imageType = DEFAULT_IMAGE_TYPE,
+    createPngImage,
+  }) =>
+    Boolean(imageUrl) &&
+    (canWriteClipboardImage(imageType) ||
+      (Boolean(createPngImage) && canWriteClipboardImage("image/png"))),
+  share: async ({
+    imageUrl,
+    imageName,
+    imageType = DEFAULT_IMAGE_TYPE,
+    createPngImage,
+  }) => {
+    if (!imageUrl) throw new Error("imageUrl is required to copy an image");
+    if (!canWriteClipboardImage(imageType) && createPngImage) {
+      await writeClipboardImage("image/png", createPngImage());
+      return;
+    }
+    await writeClipboardImage(
+      imageType,
+      urlToFile(imageUrl, imageName ?? DEFAULT_IMAGE_NAME, imageType),
+    );
+  },
+};
+
+/** 画像をファイルとして保存する */
+const downloadTarget: ShareTarget = {
+  id: "download",
+  label: "保存",
+  isAvailable: async ({ imageUrl }) => Boolean(imageUrl),
+  share: async ({ imageUrl, imageName = DEFAULT_IMAGE_NAME }) => {
+    if (!imageUrl) throw new Error("imageUrl is required to download");
+    downloadUrl(imageUrl, imageName);
+  },
+};
+
+/** 表示する順の共有先一覧 */
+export const SHARE_TARGETS: readonly ShareTarget[] = [
+  webShareTarget,
+  xTarget,
+  blueskyTarget,
+  mastodonTarget,
+  lineTarget,
+  copyImageTarget,
+  downloadTarget,
+];
+
+/** IDから共有先を取得する */
+export const getShareTarget = (id: ShareTargetId): ShareTarget => {
+  const target = SHARE_TARGETS.find((t) => t.id === id);
+  if (!target) throw new Error(`Unknown share target: ${id}`);
+  return target;
+};
+
+/** この環境・この内容で使える共有先を一覧の順で返す */
+export const getAvailableShareTargets = async (
+  options: ShareOptions,
+): Promise<ShareTarget[]> => {
+  const available = await Promise.all(
+    SHARE_TARGETS.map((target) =>
+      target.isAvailable(options).catch(() => false),
+    ),
+  );
+  return SHARE_TARGETS.filter((_, i) => available[i]);
+};
@@ -1,4 +1,5 @@
 import type { JitterConfig } from "@/core/jitter";
+import { createDrawing } from "@/core/layers";
 import type { Drawing, Stroke } from "@/core/types";
 import type {
   DrawingRenderer,
@@ -10,11 +11,7 @@ import type {
 import { WigglyEngine } from "@/engine/WigglyEngine";
 
 /** エンジンテスト向けの最小描画フィクスチャ。 */
-export const DEFAULT_TEST_DRAWING: Drawing = {
-  width: 50,
-  height: 50,
-  strokes: [],
-};
+export const DEFAULT_TEST_DRAWING: Drawing = createDrawing(50, 50);
 
 /** エンジンテストで使うデフォルトのジッター振幅。 */
 export const DEFAULT_TEST_JITTER_AMPLITUDE = 1.5;
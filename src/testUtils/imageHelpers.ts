@@ -0,0 +1,71 @@
+/** RGBA配列からImageData相当を作る */
+export function createImageData(
+  width: number,
+  height: number,
+  pixels: number[][],
+): ImageData {
+  return {
+    width,
+    height,
+    data: new Uint8ClampedArray(pixels.flat()),
+  } as unknown as ImageData;
+}
+
+/** jsdomのBlobにはarrayBufferが無いのでFileReaderで読む */
+export function readBlob(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/** jsdomのBlobにはtextが無いのでFileReaderで読む */
+export function readBlobText(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+}
+
+/** PNGのチャンク */
+export type PngChunk = { type: string; data: Uint8Array; crc: number };
+
+/** PNGをチャンク列に分ける */
+export function parsePngChunks(bytes: Uint8Array): PngChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = 8;
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    const crc = view.getUint32(offset + 8 + length);
+    chunks.push({ type, data, crc });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+/** RIFFのチャンク */
+export type RiffChunk = { type: string; data: Uint8Array };
+
+/** RIFFのチャンク列に分ける */
+export function parseRiffChunks(bytes: Uint8Array): RiffChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const length = view.getUint32(offset + 4, true);
+    chunks.push({
+      type,
+      data: bytes.subarray(offset + 8, offset + 8 + length),
+    });
+    offset += 8 + length + (length % 2);
+  }
+  return chunks;
+}
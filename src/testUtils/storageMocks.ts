@@ -0,0 +1,25 @@
+import type { DrawingStorage } from "@/engine/ports";
+
+/** メモリ上に値を保持するストレージモック。 */
+export class MemoryDrawingStorage implements DrawingStorage {
+  entries = new Map<string, unknown>();
+  saveCount = 0;
+
+  /** 保存済みの値を返す（なければnull）。 */
+  async load(key: string): Promise<unknown | null> {
+    const value = this.entries.get(key);
+    // 実ストレージと同様に参照を共有しないようコピーを返す
+    return value === undefined ? null : structuredClone(value);
+  }
+
+  /** 値をコピーして保存する。 */
+  async save(key: string, value: unknown): Promise<void> {
+    this.saveCount += 1;
+    this.entries.set(key, structuredClone(value));
+  }
+
+  /** 値を削除する。 */
+  async remove(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
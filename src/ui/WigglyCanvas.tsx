@@ -5,7 +5,12 @@ import { DEFAULT_DRAWING } from "@/config/presets";
 import { assertNever } from "@/core/assertNever";
 import type { JitterConfig } from "@/core/jitter";
 import type { EraserVariant } from "@/engine/variants";
-import type { Tool, WigglyEngine } from "@/engine/WigglyEngine";
+import type {
+  PointerInput,
+  SelectionOverlay,
+  Tool,
+  WigglyEngine,
+} from "@/engine/WigglyEngine";
 import { createWigglyEngine } from "@/infra/createWigglyEngine";
 
 const ERASER_GUIDE = {
@@ -31,6 +36,14 @@ type EraserGuideStyle = {
   borderRadius: string;
 };
 
+/** ペンの筆圧と傾き（マウスやタッチは筆圧を持たないので渡さない） */
+function getPenInput(
+  ev: PointerEvent,
+): Pick<PointerInput, "pressure" | "tiltX" | "tiltY"> {
+  if (ev.pointerType !== "pen") return {};
+  return { pressure: ev.pressure, tiltX: ev.tiltX, tiltY: ev.tiltY };
+}
+
 /** 消しゴムガイドの表示スタイルを解決する */
 function resolveEraserGuideStyle(params: {
   variant: EraserVariant;
@@ -74,6 +87,12 @@ interface WigglyCanvasProps {
   paletteColors: string[];
   backgroundColor: string;
   jitterConfig: JitterConfig;
+  /** 再生中は描き込めないことを示す表示を出す */
+  isPlaying: boolean;
+  /** 描き順のリプレイ中は描き込めないことを示す表示を出す */
+  isReplaying: boolean;
+  /** 選択範囲の表示（選択ツール以外ではnull） */
+  selection: SelectionOverlay | null;
   onEngineInit: (engine: WigglyEngine) => void;
 }
 
@@ -85,6 +104,9 @@ export function WigglyCanvas({
   paletteColors,
   backgroundColor,
   jitterConfig,
+  isPlaying,
+  isReplaying,
+  selection,
   onEngineInit,
 }: WigglyCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
@@ -189,7 +211,10 @@ export function WigglyCanvas({
 
       if (primaryPointerIdRef.current === null) {
         primaryPointerIdRef.current = ev.pointerId;
-        engine.pointerDown(internal.x, internal.y);
+        engine.pointerDown(internal.x, internal.y, {
+          alt: ev.altKey,
+          ...getPenInput(ev),
+        });
 
         if (toolRef.current === "eraser") {
           setEraserPos(visual);
@@ -230,7 +255,10 @@ export function WigglyCanvas({
       }
 
       if (ev.pointerId === primaryPointerIdRef.current) {
-        engine.pointerMove(internal.x, internal.y);
+        engine.pointerMove(internal.x, internal.y, {
+          shift: ev.shiftKey,
+          ...getPenInput(ev),
+        });
       }
     };
 
@@ -334,6 +362,49 @@ export function WigglyCanvas({
           height: "100%",
         }}
       />
+      {isPlaying && (
+        <div className="pointer-events-none absolute top-2 left-2 z-10 bg-zako-orange-strong border-[2px] border-black rounded-[4px] px-2 py-0.5 text-xs font-black text-white">
+          ▶ 再生中
+        </div>
+      )}
+      {isReplaying && (
+        <div className="pointer-events-none absolute top-2 left-2 z-10 bg-zako-orange-strong border-[2px] border-black rounded-[4px] px-2 py-0.5 text-xs font-black text-white">
+          ✎ 描き順を再生中
+        </div>
+      )}
+      {selection && (selection.outline || selection.bounds) && (
+        <svg
+          aria-hidden="true"
+          className="pointer-events-none absolute inset-0 w-full h-full z-10"
+          viewBox={`0 0 ${selection.width} ${selection.height}`}
+          preserveAspectRatio="none"
+        >
+          {selection.outline && (
+            <polygon
+              points={selection.outline.map((p) => `${p.x},${p.y}`).join(" ")}
+              fill="none"
+              stroke="var(--color-zako-orange-strong)"
+              strokeWidth={1}
+              strokeDasharray="3 2"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          {selection.bounds && (
+            <rect
+              x={selection.bounds.x - 0.5}
+              y={selection.bounds.y - 0.5}
+              width={selection.bounds.width + 1}
+              height={selection.bounds.height + 1}
+              fill="var(--color-zako-orange-strong)"
+              fillOpacity={0.08}
+              stroke="var(--color-zako-orange-strong)"
+              strokeWidth={1.5}
+              strokeDasharray="4 3"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+      )}
       {tool === "eraser" && eraserPos && (
         <div
           className="pointer-events-none absolute border border-black/70 z-10"
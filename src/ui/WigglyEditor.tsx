@@ -1,31 +1,157 @@
 "use client";
 
 import { useCallback, useEffect, useRef, useState } from "react";
-import { BODY_PRESETS, PALETTE_PRESETS } from "@/config/presets";
+import {
+  BODY_PRESETS,
+  DEFAULT_DRAWING,
+  PALETTE_PRESETS,
+} from "@/config/presets";
+import {
+  type AnimationSettings,
+  DEFAULT_ANIMATION_SETTINGS,
+} from "@/core/animation";
+import {
+  countFrameStrokes,
+  createFrame,
+  DEFAULT_FRAME_ID,
+} from "@/core/frames";
 import type { JitterConfig } from "@/core/jitter";
-import type { BrushPatternId } from "@/core/types";
+import { DEFAULT_LAYER_ID } from "@/core/layers";
+import { DEFAULT_PRESSURE_CURVE } from "@/core/pressure";
+import {
+  createReplayFrames,
+  createReplayTimeline,
+  type ReplayOptions,
+} from "@/core/replay";
+import type { SelectionMode } from "@/core/selection";
+import {
+  type DrawingDocument,
+  DrawingFormatError,
+  stringifyDrawingDocument,
+} from "@/core/serialization";
+import type { ShapeKind } from "@/core/shapes";
+import type { BrushPatternId, Frame, Layer } from "@/core/types";
+import { DrawingAutosave, type RestoredAutosave } from "@/engine/autosave";
+import { type DrawingEntry, DrawingLibrary } from "@/engine/drawingLibrary";
+import type { DrawingStorage } from "@/engine/ports";
 import type { EraserVariant, PenVariant } from "@/engine/variants";
-import type { Tool, WigglyEngine } from "@/engine/WigglyEngine";
+import type {
+  SelectionOverlay,
+  Tool,
+  WigglyEngine,
+} from "@/engine/WigglyEngine";
+import {
+  type AnimationFormat,
+  createAnimationEncoder,
+  DEFAULT_ANIMATION_FORMAT,
+} from "@/infra/animationFormats";
 import { CanvasRenderer } from "@/infra/canvas/CanvasRenderer";
-import { exportDrawingAsGif } from "@/infra/exportGif";
-import { GifEncGifEncoder } from "@/infra/GifEncGifEncoder";
+import { readEmbeddedDocument } from "@/infra/documentMetadata";
+import { exportDrawingAnimation } from "@/infra/exportAnimation";
+import {
+  type ExportFramesOptions,
+  MIN_EXPORT_SCALE,
+} from "@/infra/exportFrames";
+import {
+  exportDrawingPng,
+  exportDrawingPngSequence,
+  exportDrawingSpritesheetZip,
+} from "@/infra/exportSpritesheet";
+import { exportDrawingVideo } from "@/infra/exportVideo";
+import { IndexedDbDrawingStorage } from "@/infra/IndexedDbDrawingStorage";
+import { importRasterImage } from "@/infra/rasterImage";
+import { decodeShareCode, encodeShareCode } from "@/infra/shareCode";
 import { initializeUISounds, uiSoundManager } from "@/infra/sound/uiSounds";
+import {
+  isWebCodecsVideoSupported,
+  WebCodecsVideoEncoder,
+} from "@/infra/WebCodecsVideoEncoder";
+import {
+  canWriteClipboardImage,
+  getClipboardImageFile,
+  writeClipboardImage,
+} from "@/lib/clipboard";
+import { downloadBlob } from "@/lib/download";
+import { createSharedDrawingUrl } from "@/lib/share";
+import { FramePanel } from "@/ui/components/FramePanel";
+import { GalleryModal } from "@/ui/components/GalleryModal";
+import { LayerPanel } from "@/ui/components/LayerPanel";
+import {
+  type RasterImportMode,
+  RasterImportPanel,
+} from "@/ui/components/RasterImportPanel";
+import { RestorePrompt } from "@/ui/components/RestorePrompt";
 import { useWigglyEngineSync } from "@/ui/hooks/useWigglyEngineSync";
 import { DesktopLayout } from "@/ui/layouts/DesktopLayout";
 import { MobileLayout } from "@/ui/layouts/MobileLayout";
+import { toReplayOptions } from "@/ui/replayDurations";
 import { WigglyCanvas } from "@/ui/WigglyCanvas";
-import { WigglyTools, type WigglyToolsHandle } from "@/ui/WigglyTools";
+import {
+  type ExportAssetKind,
+  WigglyTools,
+  type WigglyToolsHandle,
+} from "@/ui/WigglyTools";
 
 const defaultPalette = PALETTE_PRESETS[0];
 
 // 標準DSホワイト本体
 const defaultBodyColor = BODY_PRESETS[0].body;
 
+/** ふちを付けて書き出すときの絵の周りの余白（拡大前のピクセル数） */
+const EXPORT_BORDER_PADDING = 8;
+
 /** デフォルトのペン幅（engine/variants.tsのdefaultPenWidth.penCircleと揃える） */
 const DEFAULT_PEN_WIDTH = 16;
 
+/** パレットと背景色が一致するプリセット名を返す（なければnull） */
+function findPalettePresetName(
+  palette: string[],
+  backgroundColor: string,
+): string | null {
+  const preset = PALETTE_PRESETS.find(
+    (p) =>
+      p.background === backgroundColor &&
+      p.colors.length === palette.length &&
+      p.colors.every((color, i) => color === palette[i]),
+  );
+  return preset?.name ?? null;
+}
+
+/** 文字の入力中やテキストの選択中か（その間のコピー・貼り付けはブラウザに任せる） */
+function isEditingText(target: EventTarget | null): boolean {
+  if (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      target.tagName === "INPUT" ||
+      target.tagName === "TEXTAREA")
+  ) {
+    return true;
+  }
+  return Boolean(window.getSelection()?.toString());
+}
+
+/** 書き出しの見た目の設定 */
+type ExportAppearance = {
+  transparentBackground: boolean;
+  scale: number;
+  withBorder: boolean;
+  /** 編集中のコマの描き順のリプレイとして書き出す（nullなら全コマをそのまま書き出す） */
+  replay: ReplayOptions | null;
+};
+
+/** WigglyEditorの入力 */
+interface WigglyEditorProps {
+  /** 共有リンクの共有コード（指定すると起動時に新しいメモとして開く） */
+  sharedCode?: string;
+  /** 共有コードを読み終えた時に呼ばれる（開けなかった場合も呼ぶ） */
+  onSharedCodeOpened?: () => void;
+}
+
 /** 画面全体の描画UIを提供するエディタ */
-export function WigglyEditor() {
+export function WigglyEditor({
+  sharedCode,
+  onSharedCodeOpened,
+}: WigglyEditorProps = {}) {
   const engineRef = useRef<WigglyEngine | null>(null);
   const toolsRef = useRef<WigglyToolsHandle | null>(null);
   const [engine, setEngine] = useState<WigglyEngine | null>(null);
@@ -38,13 +164,31 @@ export function WigglyEditor() {
   // 状態
   const [tool, setTool] = useState<Tool>("pen");
   const [colorIndex, setColorIndex] = useState(0);
+  const [pickedColor, setPickedColor] = useState<string | null>(null);
   const [brushWidth, setBrushWidth] = useState(DEFAULT_PEN_WIDTH);
   const [penVariant, setPenVariant] = useState<PenVariant>("penCircle");
   const [eraserVariant, setEraserVariant] =
     useState<EraserVariant>("eraserCircle");
   const [patternId, setPatternId] = useState<BrushPatternId>("dot_sparse");
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>("rect");
+  const [selection, setSelection] = useState<SelectionOverlay | null>(null);
+  const [fillWithPattern, setFillWithPattern] = useState(false);
+  const [shapeKind, setShapeKind] = useState<ShapeKind>("line");
+  const [shapeFilled, setShapeFilled] = useState(false);
+  const [shapeWithPattern, setShapeWithPattern] = useState(false);
 
   const [isExporting, setIsExporting] = useState(false);
+  /** 書き出しを押した回数（0は閉じている。開いている間は設定が変わるたびに書き出し直す） */
+  const [exportRequest, setExportRequest] = useState(0);
+  const [exportFormat, setExportFormat] = useState<AnimationFormat>(
+    DEFAULT_ANIMATION_FORMAT,
+  );
+  const [exportTransparentBackground, setExportTransparentBackground] =
+    useState(false);
+  const [exportScale, setExportScale] = useState(MIN_EXPORT_SCALE);
+  const [exportWithBorder, setExportWithBorder] = useState(false);
+  const [exportReplay, setExportReplay] = useState<ReplayOptions | null>(null);
+  const [isExportingAssets, setIsExportingAssets] = useState(false);
   const [exportUrl, setExportUrl] = useState<string | null>(null);
   const [exportError, setExportError] = useState<string | null>(null);
 
@@ -70,6 +214,341 @@ export function WigglyEditor() {
     amplitude: 1.2,
     frequency: 0.008,
   });
+  const [animationSettings, setAnimationSettings] = useState<AnimationSettings>(
+    DEFAULT_ANIMATION_SETTINGS,
+  );
+  const [pressureEnabled, setPressureEnabled] = useState(false);
+  const [pressureCurve, setPressureCurve] = useState(DEFAULT_PRESSURE_CURVE);
+
+  // 保存先の状態
+  const storageRef = useRef<DrawingStorage | null>(null);
+  const libraryRef = useRef<DrawingLibrary | null>(null);
+  const [activeDocumentId, setActiveDocumentId] = useState<string | null>(null);
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  const [layers, setLayers] = useState<Layer[]>(DEFAULT_DRAWING.layers);
+  const [activeLayerId, setActiveLayerId] = useState(DEFAULT_LAYER_ID);
+  const [isLayerPanelOpen, setIsLayerPanelOpen] = useState(false);
+  const [isImportPanelOpen, setIsImportPanelOpen] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [hasReference, setHasReference] = useState(false);
+  const [frames, setFrames] = useState<Frame[]>(() => [
+    createFrame(DEFAULT_FRAME_ID, DEFAULT_DRAWING),
+  ]);
+  const [activeFrameId, setActiveFrameId] = useState(DEFAULT_FRAME_ID);
+  const [isFramePanelOpen, setIsFramePanelOpen] = useState(false);
+  const [onionSkinEnabled, setOnionSkinEnabled] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+  /** 描き順のリプレイの長さ（nullは描いた時の速さのまま） */
+  const [replayDurationMs, setReplayDurationMs] = useState<number | null>(null);
+
+  // 自動保存の状態
+  const autosaveRef = useRef<DrawingAutosave | null>(null);
+  /** 復元確認が済むまでは保存しない（前回の保存データを上書きしないため） */
+  const autosaveReadyRef = useRef(false);
+  const [pendingRestore, setPendingRestore] = useState<RestoredAutosave | null>(
+    null,
+  );
+  // 自動保存時に最新の状態を読めるよう参照を保持する
+  const editorStateRef = useRef({
+    activeDocumentId,
+    palette,
+    backgroundColor,
+    jitterConfig,
+    animationSettings,
+    selectedPaletteName,
+    customPalette,
+    customBackgroundColor,
+    bodyColor,
+  });
+  useEffect(() => {
+    editorStateRef.current = {
+      activeDocumentId,
+      palette,
+      backgroundColor,
+      jitterConfig,
+      animationSettings,
+      selectedPaletteName,
+      customPalette,
+      customBackgroundColor,
+      bodyColor,
+    };
+  });
+
+  /** 保存先のストレージを取得する（初回アクセス時に生成） */
+  const getStorage = useCallback((): DrawingStorage => {
+    if (!storageRef.current) {
+      storageRef.current = new IndexedDbDrawingStorage();
+    }
+    return storageRef.current;
+  }, []);
+
+  /** メモ帳を取得する（初回アクセス時に生成） */
+  const getLibrary = useCallback((): DrawingLibrary => {
+    if (!libraryRef.current) {
+      libraryRef.current = new DrawingLibrary({ storage: getStorage() });
+    }
+    return libraryRef.current;
+  }, [getStorage]);
+
+  /** 編集中のメモを保存形式にまとめる */
+  const getCurrentDocument = useCallback((): DrawingDocument => {
+    const state = editorStateRef.current;
+    return {
+      frames: engineRef.current?.getFrames() ?? [
+        createFrame(DEFAULT_FRAME_ID, DEFAULT_DRAWING),
+      ],
+      palette: state.palette,
+      backgroundColor: state.backgroundColor,
+      jitterConfig: state.jitterConfig,
+      animation: state.animationSettings,
+    };
+  }, []);
+
+  /** 自動保存を取得する（初回アクセス時に生成） */
+  const getAutosave = useCallback((): DrawingAutosave => {
+    if (!autosaveRef.current) {
+      autosaveRef.current = new DrawingAutosave({
+        storage: getStorage(),
+        getSnapshot: () => {
+          const state = editorStateRef.current;
+          return {
+            document: getCurrentDocument(),
+            editor: {
+              activeDocumentId: state.activeDocumentId,
+              selectedPaletteName: state.selectedPaletteName,
+              customPalette: state.customPalette,
+              customBackgroundColor: state.customBackgroundColor,
+              bodyColor: state.bodyColor,
+            },
+          };
+        },
+      });
+    }
+    return autosaveRef.current;
+  }, [getStorage, getCurrentDocument]);
+
+  /** 変更を自動保存に通知する */
+  const requestAutosave = useCallback(() => {
+    if (!autosaveReadyRef.current || !engineRef.current) return;
+    getAutosave().schedule();
+  }, [getAutosave]);
+
+  // エンジン生成後に前回の自動保存を確認する
+  // 共有リンクから開いた場合は確認せず、共有されたメモを開く
+  // biome-ignore lint/correctness/useExhaustiveDependencies: エンジン生成時に1回だけ実行するため
+  useEffect(() => {
+    if (!engine) return;
+    let cancelled = false;
+    getAutosave()
+      .restore()
+      .then(async (restored) => {
+        if (cancelled) return;
+        if (sharedCode) {
+          const opened = await openSharedDocument(sharedCode, restored);
+          onSharedCodeOpened?.();
+          if (opened) return;
+        }
+        // 白紙のまま閉じた場合は確認しない
+        if (
+          restored &&
+          (countFrameStrokes(restored.document.frames) > 0 ||
+            restored.editor.activeDocumentId !== null)
+        ) {
+          setPendingRestore(restored);
+        } else {
+          autosaveReadyRef.current = true;
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [engine, getAutosave]);
+
+  // 設定の変更も自動保存する
+  // biome-ignore lint/correctness/useExhaustiveDependencies: 値の変化をトリガーにするため
+  useEffect(() => {
+    requestAutosave();
+  }, [
+    requestAutosave,
+    activeDocumentId,
+    palette,
+    backgroundColor,
+    jitterConfig,
+    animationSettings,
+    selectedPaletteName,
+    customPalette,
+    customBackgroundColor,
+    bodyColor,
+  ]);
+
+  // タブが隠れる時は待たずに保存する（モバイルでタブが破棄されても残すため）
+  useEffect(() => {
+    /** 保留中の自動保存を即時実行する */
+    const flushAutosave = () => {
+      if (!autosaveReadyRef.current || !engineRef.current) return;
+      void getAutosave().flush();
+    };
+    /** 非表示になったタイミングで保存する */
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flushAutosave();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("pagehide", flushAutosave);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", flushAutosave);
+      autosaveRef.current?.cancel();
+    };
+  }, [getAutosave]);
+
+  /** 自動保存された描画と設定を復元する */
+  const handleRestore = () => {
+    const restored = pendingRestore;
+    const engine = engineRef.current;
+    if (!restored || !engine) return;
+    const { document: savedDocument, editor } = restored;
+    setIsPlaying(false);
+    setIsReplaying(false);
+    engine.loadFrames(savedDocument.frames);
+    setPalette(savedDocument.palette);
+    setBackgroundColor(savedDocument.backgroundColor);
+    setJitterConfig(savedDocument.jitterConfig);
+    setAnimationSettings(savedDocument.animation);
+    setSelectedPaletteName(editor.selectedPaletteName);
+    setCustomPalette(editor.customPalette);
+    setCustomBackgroundColor(editor.customBackgroundColor);
+    setBodyColor(editor.bodyColor);
+    setActiveDocumentId(editor.activeDocumentId);
+    setPendingRestore(null);
+    autosaveReadyRef.current = true;
+  };
+
+  /**
+   * 共有コードのメモをメモ帳に追加して開く
+   * 自動保存の描きかけがメモ帳に無ければ、失わないよう先にメモ帳へ保存する
+   * @returns 共有コードが壊れていて開けなかった場合はfalse
+   */
+  const openSharedDocument = async (
+    code: string,
+    restored: RestoredAutosave | null,
+  ): Promise<boolean> => {
+    let shared: DrawingDocument;
+    try {
+      shared = decodeShareCode(code);
+    } catch (error) {
+      console.error("[WigglyEditor] open shared link failed:", error);
+      return false;
+    }
+    const library = getLibrary();
+    try {
+      if (restored) {
+        // 自動保存にしか無い編集を、共有されたメモで上書きする前にメモ帳へ残す
+        const { document: savedDocument, editor } = restored;
+        await library.commit(editor.activeDocumentId, savedDocument);
+        setCustomPalette(editor.customPalette);
+        setCustomBackgroundColor(editor.customBackgroundColor);
+        setBodyColor(editor.bodyColor);
+      }
+      const created = await library.create(shared);
+      setActiveDocumentId(created.id);
+    } catch (error) {
+      // メモ帳に保存できなくても、共有されたメモは開いて自動保存に任せる
+      console.error("[WigglyEditor] save shared document failed:", error);
+      setActiveDocumentId(null);
+    }
+    applyDocument(shared);
+    autosaveReadyRef.current = true;
+    return true;
+  };
+
+  /** 共有リンク（編集できるメモをURLのフラグメントに入れたもの）を作る */
+  const createShareLink = (): string =>
+    createSharedDrawingUrl(
+      window.location.origin,
+      encodeShareCode(getCurrentDocument()),
+    );
+
+  /** 自動保存を破棄して新しく描き始める */
+  const handleDiscardRestore = () => {
+    void getAutosave().discard();
+    setPendingRestore(null);
+    autosaveReadyRef.current = true;
+  };
+
+  /**
+   * 編集中のメモをメモ帳に保存する
+   * 未保存の白紙は一覧を散らかさないよう保存しない
+   */
+  const commitActiveDocument = async (): Promise<void> => {
+    const saved = await getLibrary().commit(
+      activeDocumentId,
+      getCurrentDocument(),
+    );
+    if (saved) setActiveDocumentId(saved.id);
+  };
+
+  /** 編集中のメモを保存してからメモ帳を開く */
+  const handleOpenGallery = async () => {
+    try {
+      await commitActiveDocument();
+    } catch (error) {
+      console.error("[WigglyEditor] save before gallery failed:", error);
+    }
+    setIsGalleryOpen(true);
+  };
+
+  /** ドキュメントの描画と設定を編集中のメモに反映する（エンジンは作り直さない） */
+  const applyDocument = (document: DrawingDocument) => {
+    const { frames, palette, backgroundColor, jitterConfig, animation } =
+      document;
+    setIsPlaying(false);
+    setIsReplaying(false);
+    engineRef.current?.loadFrames(frames);
+    setPalette(palette);
+    setBackgroundColor(backgroundColor);
+    setJitterConfig(jitterConfig);
+    setAnimationSettings(animation);
+    setSelectedPaletteName(findPalettePresetName(palette, backgroundColor));
+  };
+
+  /** メモ帳のメモに切り替える */
+  const handleOpenDocument = async (id: string) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    if (id !== activeDocumentId) {
+      let entry: DrawingEntry | null;
+      try {
+        entry = await getLibrary().load(id);
+      } catch (error) {
+        console.error("[WigglyEditor] load document failed:", error);
+        return;
+      }
+      if (!entry) return;
+      applyDocument(entry.document);
+      setActiveDocumentId(id);
+    }
+    setIsGalleryOpen(false);
+  };
+
+  /** 白紙の新しいメモを始める */
+  const handleCreateDocument = () => {
+    setIsPlaying(false);
+    setIsReplaying(false);
+    engineRef.current?.loadDrawing(DEFAULT_DRAWING);
+    setActiveDocumentId(null);
+    setIsGalleryOpen(false);
+  };
+
+  /** 編集中のメモが削除されたら白紙に戻す */
+  const handleDocumentDeleted = (id: string) => {
+    if (id !== activeDocumentId) return;
+    setIsPlaying(false);
+    setIsReplaying(false);
+    engineRef.current?.loadDrawing(DEFAULT_DRAWING);
+    setActiveDocumentId(null);
+  };
 
   // レイアウト状態
   const [isDesktop, setIsDesktop] = useState(false);
@@ -82,9 +561,17 @@ export function WigglyEditor() {
     return () => window.removeEventListener("resize", check);
   }, []);
 
-  // グローバルショートカット（Ctrl/Cmd+Z/Yはやり直し/進むのみ）
+  // キー操作から最新の状態で呼べるよう、クリップボード操作の参照を保持する
+  const clipboardActionsRef = useRef<{
+    copyImage: (type: "image/png" | "image/gif") => void;
+    pasteImage: (file: File) => void;
+    renderPng: () => Promise<Blob>;
+  } | null>(null);
+
+  // グローバルショートカット（Ctrl/Cmd+Z/Yはやり直し/進む、Ctrl/Cmd+C/Vは画像のコピー/貼り付け、
+  // Delete/Backspaceは選択の削除、Escapeは選択の解除）
   useEffect(() => {
-    /** undo/redoショートカットを処理する */
+    /** undo/redo・コピー・選択のショートカットを処理する */
     const handleKey = (ev: KeyboardEvent) => {
       const engine = engineRef.current;
       if (!engine) return;
@@ -99,83 +586,426 @@ export function WigglyEditor() {
       } else if (mod && key === "z") {
         ev.preventDefault();
         engine.undo();
+      } else if (mod && key === "c" && !isEditingText(ev.target)) {
+        // Shift付きはアニメーションのGIF（書き込めない環境では今の1枚のPNG）
+        const type =
+          ev.shiftKey && canWriteClipboardImage("image/gif")
+            ? "image/gif"
+            : "image/png";
+        if (!canWriteClipboardImage(type)) return;
+        ev.preventDefault();
+        clipboardActionsRef.current?.copyImage(type);
+      } else if (
+        !mod &&
+        (key === "delete" || key === "backspace") &&
+        engine.hasSelection() &&
+        !isEditingText(ev.target)
+      ) {
+        ev.preventDefault();
+        engine.deleteSelection();
+      } else if (key === "escape" && engine.hasSelection()) {
+        engine.clearSelection();
       }
     };
+    /**
+     * Ctrl/Cmd+Vでブラウザが送る貼り付けから画像を受け取って取り込む
+     * キー操作でClipboard APIを読むと許可を求められるため、貼り付けイベントを使う
+     */
+    const handlePaste = (ev: ClipboardEvent) => {
+      if (isEditingText(ev.target)) return;
+      const file = getClipboardImageFile(ev.clipboardData);
+      if (!file) return;
+      ev.preventDefault();
+      clipboardActionsRef.current?.pasteImage(file);
+    };
     window.addEventListener("keydown", handleKey);
-    return () => window.removeEventListener("keydown", handleKey);
+    window.addEventListener("paste", handlePaste);
+    return () => {
+      window.removeEventListener("keydown", handleKey);
+      window.removeEventListener("paste", handlePaste);
+    };
   }, []);
 
-  /** GIFエクスポートを実行する */
-  const handleExportGif = async () => {
+  /**
+   * 書き出し用のレンダラーを作り、フレーム列の描画設定にまとめる
+   * 書き出し用のオフスクリーンキャンバスにはDPRスケーリングなし
+   */
+  const createExportFramesOptions = (
+    engine: WigglyEngine,
+    { transparentBackground, scale, withBorder, replay }: ExportAppearance,
+  ): ExportFramesOptions => {
+    const frames = replay
+      ? createReplayFrames(createReplayTimeline(engine.getDrawing(), replay), {
+          stepMs: animationSettings.cycleIntervalMs,
+        })
+      : engine.getFrames();
+    const { drawing } = frames[0];
+    const offscreen = document.createElement("canvas");
+    offscreen.width = drawing.width;
+    offscreen.height = drawing.height;
+    const ctx = offscreen.getContext("2d");
+    if (!ctx) throw new Error("2D context not available");
+
+    // 現在の背景色を使用（透明にする場合は背景を塗らない）
+    const renderer = new CanvasRenderer({
+      ctx,
+      backgroundColor,
+      paletteColors: palette,
+      animation: animationSettings,
+      transparentBackground,
+    });
+
+    return {
+      frames,
+      drawingRevision: engine.getDrawingRevision(),
+      renderer,
+      jitterConfig,
+      animation: animationSettings,
+      scale,
+      // 本体と同じ色で囲んで、端末の画面のように見せる
+      border: withBorder
+        ? {
+            padding: EXPORT_BORDER_PADDING,
+            fillColor: bodyColor.bg,
+            lineColor: bodyColor.border,
+          }
+        : undefined,
+    };
+  };
+
+  /**
+   * 今の書き出しの設定でアニメーション画像を書き出す
+   * 設定が変わったり閉じたりしてsignalで中止された場合は、結果も状態も捨てる
+   */
+  const runExport = async (signal: AbortSignal) => {
     const engine = engineRef.current;
-    const drawing = engine?.getDrawing();
-    if (!engine || !drawing) return;
-    const drawingRevision = engine.getDrawingRevision();
+    if (!engine) return;
 
     setIsExporting(true);
     setExportError(null);
 
     // ローディングUIを描画するためイベントループに処理を譲る
     await new Promise((resolve) => setTimeout(resolve, 50));
+    if (signal.aborted) return;
 
     try {
-      const offscreen = document.createElement("canvas");
-      offscreen.width = drawing.width;
-      offscreen.height = drawing.height;
-      const ctx = offscreen.getContext("2d");
-      if (!ctx) throw new Error("2D context not available");
-
-      // GIF出力用（オフスクリーンキャンバスにはDPRスケーリングなし）
-      // 現在の背景色を使用
-      const renderer = new CanvasRenderer({
-        ctx,
-        backgroundColor,
-        paletteColors: palette,
+      const blob = await exportDrawingAnimation({
+        ...createExportFramesOptions(engine, {
+          transparentBackground: exportTransparentBackground,
+          scale: exportScale,
+          withBorder: exportWithBorder,
+          replay: exportReplay,
+        }),
+        encoder: createAnimationEncoder(exportFormat, {
+          backgroundColor,
+          transparentBackground: exportTransparentBackground,
+        }),
+        // 共有された画像を取り込んで線のまま描き直せるようにする
+        documentMetadata: stringifyDrawingDocument(getCurrentDocument()),
+        signal,
       });
+      if (signal.aborted) return;
+      setExportUrl(URL.createObjectURL(blob));
+    } catch (err) {
+      if (signal.aborted) return;
+      setExportError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      if (!signal.aborted) setIsExporting(false);
+    }
+  };
+
+  // 書き出しを開いている間は、設定が変わるたびに書き出し直す（前の書き出しは中止する）
+  // biome-ignore lint/correctness/useExhaustiveDependencies: 書き出しの設定の変化をトリガーにするため
+  useEffect(() => {
+    if (exportRequest === 0) return;
+    const controller = new AbortController();
+    void runExport(controller.signal);
+    return () => controller.abort();
+  }, [
+    exportRequest,
+    exportFormat,
+    exportTransparentBackground,
+    exportScale,
+    exportWithBorder,
+    exportReplay,
+  ]);
+
+  // 差し替えたり閉じたりした書き出しのURLを解放する
+  useEffect(() => {
+    if (!exportUrl) return;
+    return () => URL.revokeObjectURL(exportUrl);
+  }, [exportUrl]);
+
+  /** ゲーム素材向けにスプライトシートまたは連番PNGをZIPで書き出す */
+  const handleExportAssets = async (kind: ExportAssetKind) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+
+    setIsExportingAssets(true);
+    setExportError(null);
+    await new Promise((resolve) => setTimeout(resolve, 50));
 
-      const gifEncoder = new GifEncGifEncoder();
-      gifEncoder.setBackgroundColor(backgroundColor);
-      const blob = await exportDrawingAsGif({
-        drawing,
-        drawingRevision,
-        renderer,
-        gif: gifEncoder,
-        jitterConfig,
+    try {
+      const options = createExportFramesOptions(engine, {
+        transparentBackground: exportTransparentBackground,
+        scale: exportScale,
+        withBorder: exportWithBorder,
+        replay: null,
       });
+      if (kind === "sequence") {
+        downloadBlob(
+          await exportDrawingPngSequence(options),
+          "wiggly-zakomemo-frames.zip",
+        );
+      } else {
+        downloadBlob(
+          await exportDrawingSpritesheetZip({
+            ...options,
+            layout: kind,
+            name: "wiggly-zakomemo-spritesheet",
+          }),
+          "wiggly-zakomemo-spritesheet.zip",
+        );
+      }
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setIsExportingAssets(false);
+    }
+  };
+
+  /** 指定の長さだけアニメーションを繰り返したWebM動画を書き出す */
+  const handleExportVideo = async (durationMs: number) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+
+    setIsExportingAssets(true);
+    setExportError(null);
+    await new Promise((resolve) => setTimeout(resolve, 50));
 
-      if (exportUrl) URL.revokeObjectURL(exportUrl);
-      const url = URL.createObjectURL(blob);
-      setExportUrl(url);
+    try {
+      // 動画はアルファを持てないため、背景は常に塗る
+      const blob = await exportDrawingVideo({
+        ...createExportFramesOptions(engine, {
+          transparentBackground: false,
+          scale: exportScale,
+          withBorder: exportWithBorder,
+          replay: null,
+        }),
+        encoder: new WebCodecsVideoEncoder(),
+        durationMs,
+        backgroundColor,
+      });
+      downloadBlob(blob, "wiggly-zakomemo.webm");
     } catch (err) {
-      setExportError(err instanceof Error ? err.message : "GIF export failed");
+      setExportError(err instanceof Error ? err.message : "Export failed");
     } finally {
-      setIsExporting(false);
+      setIsExportingAssets(false);
     }
   };
 
-  const onEngineInit = useCallback((engine: WigglyEngine) => {
-    engineRef.current = engine;
-    setEngine(engine);
-    engine.setHistoryChangeListener(() => {
-      setCanUndo(engine.canUndo());
-      setCanRedo(engine.canRedo());
+  /** 画像に埋め込まれたメモを読む（壊れている場合は埋め込みが無いものとして扱う） */
+  const readEmbeddedDocumentOrNull = async (
+    file: File,
+  ): Promise<DrawingDocument | null> => {
+    try {
+      return await readEmbeddedDocument(file);
+    } catch (error) {
+      if (!(error instanceof DrawingFormatError)) throw error;
+      // 画像としては読めるので、ふつうの画像として取り込む
+      console.warn("[WigglyEditor] broken embedded document:", error);
+      return null;
+    }
+  };
+
+  /**
+   * 写真やスケッチを取り込み、下絵として重ねるか新しいレイヤーの線にする
+   * ざこメモから書き出したGIF/PNGは、埋め込まれたドキュメントを新しいメモとして開く。
+   * 埋め込みが壊れている場合は、ふつうの画像として取り込む
+   *
+   * @returns 取り込めたか
+   */
+  const handleImportImage = async (
+    file: File,
+    { mode, dither }: { mode: RasterImportMode; dither: boolean },
+  ): Promise<boolean> => {
+    const engine = engineRef.current;
+    if (!engine) return false;
+
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const embedded = await readEmbeddedDocumentOrNull(file);
+      if (embedded) {
+        await commitActiveDocument();
+        const created = await getLibrary().create(embedded);
+        applyDocument(embedded);
+        setActiveDocumentId(created.id);
+        setIsImportPanelOpen(false);
+        setIsLayerPanelOpen(false);
+        return true;
+      }
+
+      const { width, height } = engine.getDrawing();
+      const raster = await importRasterImage(file, {
+        width,
+        height,
+        palette,
+        backgroundColor,
+        dither,
+      });
+      if (mode === "reference") {
+        engine.setReference(raster);
+        setHasReference(true);
+      } else {
+        engine.importRasterLayer(raster);
+      }
+      setIsImportPanelOpen(false);
+      return true;
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Import failed");
+      return false;
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  /**
+   * コピー用の画像を描き出す
+   * PNGは編集中のコマを今表示している揺れのまま1枚、GIFは全コマのアニメーションにする。
+   * 拡大・ふち・背景透明は書き出しの設定に従う
+   */
+  const renderClipboardImage = (
+    engine: WigglyEngine,
+    type: "image/png" | "image/gif",
+  ): Promise<Blob> => {
+    const options = createExportFramesOptions(engine, {
+      transparentBackground: exportTransparentBackground,
+      scale: exportScale,
+      withBorder: exportWithBorder,
+      replay: null,
     });
-    // 初期チェック
-    setCanUndo(engine.canUndo());
-    setCanRedo(engine.canRedo());
+    return type === "image/gif"
+      ? exportDrawingAnimation({
+          ...options,
+          encoder: createAnimationEncoder("gif", {
+            backgroundColor,
+            transparentBackground: exportTransparentBackground,
+          }),
+          documentMetadata: stringifyDrawingDocument(getCurrentDocument()),
+        })
+      : exportDrawingPng({
+          ...options,
+          frames: options.frames.filter(
+            (frame) => frame.id === engine.getActiveFrameId(),
+          ),
+          startCycleIndex: engine.getCycleIndex(),
+        });
+  };
+
+  /** 編集中のメモをクリップボードにコピーする */
+  const copyImageToClipboard = async (type: "image/png" | "image/gif") => {
+    const engine = engineRef.current;
+    if (!engine) return;
+
+    try {
+      const image = renderClipboardImage(engine, type);
+      // 描き終わるのを待たずに書き込む（キー操作の直後に呼ぶ必要があるブラウザがあるため）
+      await writeClipboardImage(type, image);
+      uiSoundManager.play("export-save", { stopPrevious: true });
+    } catch (error) {
+      console.error("[WigglyEditor] copy image failed:", error);
+    }
+  };
+
+  /** 貼り付けた画像を新しいレイヤーの線として取り込む（失敗したら取り込み画面で理由を見せる） */
+  const pasteImage = async (file: File) => {
+    const imported = await handleImportImage(file, {
+      mode: "strokes",
+      dither: true,
+    });
+    if (!imported) setIsImportPanelOpen(true);
+  };
+
+  useEffect(() => {
+    clipboardActionsRef.current = {
+      copyImage: (type) => void copyImageToClipboard(type),
+      pasteImage: (file) => void pasteImage(file),
+      renderPng: async () => {
+        const engine = engineRef.current;
+        if (!engine) throw new Error("engine is not ready");
+        return renderClipboardImage(engine, "image/png");
+      },
+    };
+  });
+
+  /** 共有の画像のコピー用に、今の1枚をPNGで描き出す（共有先の判定をやり直さないよう参照を保つ） */
+  const createPngImage = useCallback(async (): Promise<Blob> => {
+    const actions = clipboardActionsRef.current;
+    if (!actions) throw new Error("clipboard actions are not ready");
+    return actions.renderPng();
   }, []);
 
+  const onEngineInit = useCallback(
+    (engine: WigglyEngine) => {
+      engineRef.current = engine;
+      setEngine(engine);
+      engine.setHistoryChangeListener(() => {
+        setCanUndo(engine.canUndo());
+        setCanRedo(engine.canRedo());
+        setLayers(engine.getDrawing().layers);
+        setActiveLayerId(engine.getActiveLayerId());
+        setFrames(engine.getFrames());
+        setActiveFrameId(engine.getActiveFrameId());
+        requestAutosave();
+      });
+      engine.setSelectionChangeListener(() => {
+        setSelection(engine.getSelection());
+      });
+      // スポイトで拾った色をパレットの選択に反映し、スポイトツールはペンに戻す
+      engine.setColorPickListener((color) => {
+        if (color.kind === "palette") {
+          setColorIndex(color.index);
+          setPickedColor(null);
+        } else {
+          setPickedColor(color.color);
+        }
+        setTool((current) => (current === "eyedropper" ? "pen" : current));
+      });
+      // 初期チェック
+      setCanUndo(engine.canUndo());
+      setCanRedo(engine.canRedo());
+      setLayers(engine.getDrawing().layers);
+      setActiveLayerId(engine.getActiveLayerId());
+      setFrames(engine.getFrames());
+      setActiveFrameId(engine.getActiveFrameId());
+    },
+    [requestAutosave],
+  );
+
   useWigglyEngineSync({
     engine,
     tool,
+    selectionMode,
+    fillWithPattern,
+    shapeKind,
+    shapeFilled,
+    shapeWithPattern,
     colorIndex,
+    pickedColor,
     brushWidth,
     penVariant,
     eraserVariant,
     patternId,
+    pressureEnabled,
+    pressureCurve,
     backgroundColor,
     jitterConfig,
     palette,
+    animationSettings,
+    onionSkinEnabled,
+    isPlaying,
+    replay: isReplaying ? toReplayOptions(replayDurationMs) : null,
   });
 
   const Layout = isDesktop ? DesktopLayout : MobileLayout;
@@ -204,6 +1034,7 @@ export function WigglyEditor() {
     uiSoundManager.play("ds-button-y", { stopPrevious: true });
     const nextIndex = (colorIndex + 1) % palette.length;
     setColorIndex(nextIndex);
+    setPickedColor(null);
   }, [colorIndex, palette.length]);
 
   const handleDSButtonUp = useCallback(() => {
@@ -375,54 +1206,200 @@ export function WigglyEditor() {
             paletteColors={palette}
             backgroundColor={backgroundColor}
             jitterConfig={jitterConfig}
+            isPlaying={isPlaying}
+            isReplaying={isReplaying}
+            selection={tool === "select" ? selection : null}
             onEngineInit={onEngineInit}
           />
         }
         tools={
-          <WigglyTools
-            ref={toolsRef}
-            tool={tool}
-            setTool={setTool}
-            colorIndex={colorIndex}
-            setColorIndex={setColorIndex}
-            brushWidth={brushWidth}
-            setBrushWidth={setBrushWidth}
-            penVariant={penVariant}
-            setPenVariant={setPenVariant}
-            eraserVariant={eraserVariant}
-            setEraserVariant={setEraserVariant}
-            patternId={patternId}
-            setPatternId={setPatternId}
-            onUndo={() => engineRef.current?.undo()}
-            onRedo={() => engineRef.current?.redo()}
-            canUndo={canUndo}
-            canRedo={canRedo}
-            onClear={() => engineRef.current?.clear()}
-            onExport={handleExportGif}
-            onCloseExport={() => {
-              if (exportUrl) URL.revokeObjectURL(exportUrl);
-              setExportUrl(null);
-            }}
-            isExporting={isExporting}
-            exportUrl={exportUrl}
-            exportError={exportError}
-            palette={palette}
-            setPalette={setPalette}
-            customPalette={customPalette}
-            setCustomPalette={setCustomPalette}
-            selectedPaletteName={selectedPaletteName}
-            setSelectedPaletteName={setSelectedPaletteName}
-            bodyColor={bodyColor}
-            setBodyColor={setBodyColor}
-            backgroundColor={backgroundColor}
-            setBackgroundColor={setBackgroundColor}
-            customBackgroundColor={customBackgroundColor}
-            setCustomBackgroundColor={setCustomBackgroundColor}
-            jitterConfig={jitterConfig}
-            setJitterConfig={setJitterConfig}
-          />
+          <>
+            <WigglyTools
+              ref={toolsRef}
+              tool={tool}
+              setTool={setTool}
+              colorIndex={colorIndex}
+              setColorIndex={(index) => {
+                setColorIndex(index);
+                setPickedColor(null);
+              }}
+              pickedColor={pickedColor}
+              brushWidth={brushWidth}
+              setBrushWidth={setBrushWidth}
+              penVariant={penVariant}
+              setPenVariant={setPenVariant}
+              eraserVariant={eraserVariant}
+              setEraserVariant={setEraserVariant}
+              patternId={patternId}
+              setPatternId={setPatternId}
+              selectionMode={selectionMode}
+              setSelectionMode={setSelectionMode}
+              hasSelection={selection?.bounds != null}
+              onDuplicateSelection={() =>
+                engineRef.current?.duplicateSelection()
+              }
+              onDeleteSelection={() => engineRef.current?.deleteSelection()}
+              fillWithPattern={fillWithPattern}
+              setFillWithPattern={setFillWithPattern}
+              shapeKind={shapeKind}
+              setShapeKind={setShapeKind}
+              shapeFilled={shapeFilled}
+              setShapeFilled={setShapeFilled}
+              shapeWithPattern={shapeWithPattern}
+              setShapeWithPattern={setShapeWithPattern}
+              onUndo={() => engineRef.current?.undo()}
+              onRedo={() => engineRef.current?.redo()}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              onClear={() => engineRef.current?.clear()}
+              onExport={() => setExportRequest((request) => request + 1)}
+              exportFormat={exportFormat}
+              onExportFormatChange={setExportFormat}
+              exportTransparentBackground={exportTransparentBackground}
+              onExportTransparentBackgroundChange={
+                setExportTransparentBackground
+              }
+              exportScale={exportScale}
+              onExportScaleChange={setExportScale}
+              exportWithBorder={exportWithBorder}
+              onExportWithBorderChange={setExportWithBorder}
+              exportReplay={exportReplay}
+              onExportReplayChange={setExportReplay}
+              onExportAssets={(kind) => void handleExportAssets(kind)}
+              onExportVideo={
+                isWebCodecsVideoSupported()
+                  ? (durationMs) => void handleExportVideo(durationMs)
+                  : undefined
+              }
+              onCreateShareLink={createShareLink}
+              onCreatePngImage={createPngImage}
+              isExportingAssets={isExportingAssets}
+              onOpenGallery={handleOpenGallery}
+              onOpenLayers={() => setIsLayerPanelOpen(true)}
+              onOpenFrames={() => setIsFramePanelOpen(true)}
+              onCloseExport={() => {
+                setExportRequest(0);
+                setExportUrl(null);
+              }}
+              isExporting={isExporting}
+              exportUrl={exportUrl}
+              exportError={exportError}
+              palette={palette}
+              setPalette={setPalette}
+              customPalette={customPalette}
+              setCustomPalette={setCustomPalette}
+              selectedPaletteName={selectedPaletteName}
+              setSelectedPaletteName={setSelectedPaletteName}
+              bodyColor={bodyColor}
+              setBodyColor={setBodyColor}
+              backgroundColor={backgroundColor}
+              setBackgroundColor={setBackgroundColor}
+              customBackgroundColor={customBackgroundColor}
+              setCustomBackgroundColor={setCustomBackgroundColor}
+              jitterConfig={jitterConfig}
+              setJitterConfig={setJitterConfig}
+              animationSettings={animationSettings}
+              setAnimationSettings={setAnimationSettings}
+              pressureEnabled={pressureEnabled}
+              setPressureEnabled={setPressureEnabled}
+              pressureCurve={pressureCurve}
+              setPressureCurve={setPressureCurve}
+            />
+            {isLayerPanelOpen && (
+              <LayerPanel
+                layers={layers}
+                activeLayerId={activeLayerId}
+                onSelect={(layerId) => engineRef.current?.selectLayer(layerId)}
+                onAdd={() => engineRef.current?.addLayer()}
+                onRemove={(layerId) => engineRef.current?.removeLayer(layerId)}
+                onMove={(layerId, toIndex) =>
+                  engineRef.current?.moveLayer(layerId, toIndex)
+                }
+                onVisibilityChange={(layerId, visible) =>
+                  engineRef.current?.setLayerVisibility(layerId, visible)
+                }
+                onLockedChange={(layerId, locked) =>
+                  engineRef.current?.setLayerLocked(layerId, locked)
+                }
+                onOpenImport={() => {
+                  setImportError(null);
+                  setIsImportPanelOpen(true);
+                }}
+                onClose={() => setIsLayerPanelOpen(false)}
+              />
+            )}
+            {isImportPanelOpen && (
+              <RasterImportPanel
+                hasReference={hasReference}
+                isImporting={isImporting}
+                importError={importError}
+                onImport={(file, options) =>
+                  void handleImportImage(file, options)
+                }
+                onClearReference={() => {
+                  engineRef.current?.setReference(null);
+                  setHasReference(false);
+                }}
+                onClose={() => setIsImportPanelOpen(false)}
+              />
+            )}
+            {isFramePanelOpen && (
+              <FramePanel
+                frames={frames}
+                activeFrameId={activeFrameId}
+                onionSkinEnabled={onionSkinEnabled}
+                isPlaying={isPlaying}
+                isReplaying={isReplaying}
+                replayDurationMs={replayDurationMs}
+                onSelect={(frameId) => {
+                  setIsPlaying(false);
+                  setIsReplaying(false);
+                  engineRef.current?.selectFrame(frameId);
+                }}
+                onAdd={() => engineRef.current?.addFrame()}
+                onDuplicate={(frameId) =>
+                  engineRef.current?.duplicateFrame(frameId)
+                }
+                onRemove={(frameId) => engineRef.current?.removeFrame(frameId)}
+                onMove={(frameId, toIndex) =>
+                  engineRef.current?.moveFrame(frameId, toIndex)
+                }
+                onDurationChange={(frameId, durationMs) =>
+                  engineRef.current?.setFrameDuration(frameId, durationMs)
+                }
+                onOnionSkinChange={setOnionSkinEnabled}
+                onPlayingChange={(playing) => {
+                  setIsReplaying(false);
+                  setIsPlaying(playing);
+                }}
+                onReplayingChange={(replaying) => {
+                  setIsPlaying(false);
+                  setIsReplaying(replaying);
+                }}
+                onReplayDurationChange={setReplayDurationMs}
+                onClose={() => setIsFramePanelOpen(false)}
+              />
+            )}
+            {isGalleryOpen && (
+              <GalleryModal
+                library={getLibrary()}
+                activeDocumentId={activeDocumentId}
+                onOpen={handleOpenDocument}
+                onCreate={handleCreateDocument}
+                onDeleted={handleDocumentDeleted}
+                onClose={() => setIsGalleryOpen(false)}
+              />
+            )}
+          </>
         }
       />
+      {pendingRestore && (
+        <RestorePrompt
+          savedAt={pendingRestore.savedAt}
+          onRestore={handleRestore}
+          onDiscard={handleDiscardRestore}
+        />
+      )}
     </>
   );
 }
@@ -15,12 +15,29 @@ import {
   generateBodyColorFromBase,
   PALETTE_PRESETS,
 } from "@/config/presets";
+import {
+  type AnimationSettings,
+  MAX_CYCLE_COUNT,
+  MAX_CYCLE_INTERVAL_MS,
+  MIN_CYCLE_COUNT,
+  MIN_CYCLE_INTERVAL_MS,
+} from "@/core/animation";
 import { assertNever } from "@/core/assertNever";
 import type { JitterConfig } from "@/core/jitter";
 import { getPatternDefinition, PATTERNS } from "@/core/patterns";
+import { MAX_PRESSURE_CURVE, MIN_PRESSURE_CURVE } from "@/core/pressure";
+import type { ReplayOptions } from "@/core/replay";
+import type { SelectionMode } from "@/core/selection";
+import type { ShapeKind } from "@/core/shapes";
 import type { BrushPatternId } from "@/core/types";
 import type { EraserVariant, PenVariant } from "@/engine/variants";
 import type { Tool } from "@/engine/WigglyEngine";
+import {
+  ANIMATION_FORMATS,
+  type AnimationFormat,
+  getAnimationFormatInfo,
+} from "@/infra/animationFormats";
+import type { SpritesheetLayout } from "@/infra/exportSpritesheet";
 import { uiSoundManager } from "@/infra/sound/uiSounds";
 import { debounce } from "@/lib/debounce";
 import { isMobile } from "@/lib/share";
@@ -29,10 +46,44 @@ import {
   AnimatedGif,
   type AnimatedGifHandle,
 } from "@/ui/components/AnimatedGif";
+import { FillToolbar } from "@/ui/components/FillToolbar";
 import { PatternPreview } from "@/ui/components/PatternPreview";
+import { SelectionToolbar } from "@/ui/components/SelectionToolbar";
+import { ShapeToolbar } from "@/ui/components/ShapeToolbar";
 import { ShareButton } from "@/ui/components/ShareButton";
+import { ShareLinkButton } from "@/ui/components/ShareLinkButton";
+import { REPLAY_DURATION_CHOICES, toReplayOptions } from "@/ui/replayDurations";
 import { eraserVariants, penVariants } from "@/ui/variants";
 
+/** 素材として書き出す種類（スプライトシートの並べ方、または連番PNG） */
+export type ExportAssetKind = SpritesheetLayout | "sequence";
+
+/** 書き出し完了画面の素材ボタン */
+const EXPORT_ASSET_CHOICES: readonly {
+  kind: ExportAssetKind;
+  label: string;
+}[] = [
+  { kind: "horizontal", label: "横並び" },
+  { kind: "vertical", label: "縦並び" },
+  { kind: "grid", label: "格子" },
+  { kind: "sequence", label: "連番PNG" },
+];
+
+/** 書き出し完了画面で選べる動画の長さ（ms） */
+const EXPORT_VIDEO_DURATIONS_MS = [3000, 5000, 10_000] as const;
+
+/** 書き出し完了画面で選べる拡大倍率 */
+const EXPORT_SCALE_CHOICES = [1, 2, 3, 4, 8] as const;
+
+/** 書き出し完了画面の切り替えボタンの見た目（選択中は白地） */
+function getExportChipClassName(isSelected: boolean): string {
+  return `h-8 px-3 border-[3px] border-black rounded-[6px] font-black text-sm active:translate-y-0.5 cursor-pointer ${
+    isSelected
+      ? "bg-white text-zako-orange-strong"
+      : "bg-zako-orange-dark text-white"
+  }`;
+}
+
 /** WigglyToolsの外部操作用ハンドル */
 export interface WigglyToolsHandle {
   playUndoAnimation: () => void;
@@ -110,6 +161,14 @@ const MIN_PEN_WIDTH = 1;
 /** ペン幅スライダーの最大値 */
 const MAX_PEN_WIDTH = 48;
 
+/** スライダー行の右端に並べる補助ツールの表示名 */
+const SUB_TOOL_LABELS: readonly { tool: Tool; label: string }[] = [
+  { tool: "shape", label: "図形" },
+  { tool: "fill", label: "塗り" },
+  { tool: "select", label: "選択" },
+  { tool: "eyedropper", label: "スポイト" },
+];
+
 /** パターンプレビューの1ドットサイズ(px) */
 const PATTERN_PREVIEW_PIXEL_SIZE = 2;
 const CUSTOM_COLOR_LABELS = [
@@ -136,6 +195,11 @@ function getPenShapeClass(
       return `rounded-full ${sizeClass}`;
     case "penSquare":
       return `rounded-none ${sizeClass}`;
+    // 入り抜き筆は細長い筆先、墨は角の丸い滲み
+    case "brushTaper":
+      return `rounded-full rotate-45 ${size === "indicator" ? "w-1.5 h-4" : "w-2 h-5"}`;
+    case "brushInk":
+      return `rounded-[40%] ${sizeClass}`;
     default:
       return assertNever(variant);
   }
@@ -175,6 +239,8 @@ interface WigglyToolsProps {
   setTool: (tool: Tool) => void;
   colorIndex: number;
   setColorIndex: (colorIndex: number) => void;
+  /** スポイトで拾ったパレットに無い色（パレットの色を使う場合はnull） */
+  pickedColor: string | null;
   brushWidth: number;
   setBrushWidth: (brushWidth: number) => void;
   penVariant: PenVariant;
@@ -183,6 +249,23 @@ interface WigglyToolsProps {
   setEraserVariant: (variant: EraserVariant) => void;
   patternId: BrushPatternId;
   setPatternId: (id: BrushPatternId) => void;
+  selectionMode: SelectionMode;
+  setSelectionMode: (mode: SelectionMode) => void;
+  /** 選択中のストロークがあるか */
+  hasSelection: boolean;
+  onDuplicateSelection: () => void;
+  onDeleteSelection: () => void;
+  /** 塗りつぶしをパターンで塗るか */
+  fillWithPattern: boolean;
+  setFillWithPattern: (enabled: boolean) => void;
+  shapeKind: ShapeKind;
+  setShapeKind: (kind: ShapeKind) => void;
+  /** 図形の内側を塗るか */
+  shapeFilled: boolean;
+  setShapeFilled: (filled: boolean) => void;
+  /** 図形をパターンで描くか */
+  shapeWithPattern: boolean;
+  setShapeWithPattern: (enabled: boolean) => void;
 
   onUndo: () => void;
   onRedo: () => void;
@@ -190,10 +273,38 @@ interface WigglyToolsProps {
   canRedo: boolean;
   onClear: () => void;
   onExport: () => void;
+  /** 書き出し形式（完了画面で切り替えると作り直す） */
+  exportFormat: AnimationFormat;
+  onExportFormatChange: (format: AnimationFormat) => void;
+  /** 背景を透明にして書き出すか（完了画面で切り替えると作り直す） */
+  exportTransparentBackground: boolean;
+  onExportTransparentBackgroundChange: (transparentBackground: boolean) => void;
+  /** 書き出しの拡大倍率（完了画面で切り替えると作り直す） */
+  exportScale: number;
+  onExportScaleChange: (scale: number) => void;
+  /** 本体の色のふちを付けて書き出すか（完了画面で切り替えると作り直す） */
+  exportWithBorder: boolean;
+  onExportWithBorderChange: (withBorder: boolean) => void;
+  /** 描き順のリプレイとして書き出す指定（nullはリプレイにしない。完了画面で切り替えると作り直す） */
+  exportReplay: ReplayOptions | null;
+  onExportReplayChange: (replay: ReplayOptions | null) => void;
+  /** スプライトシート（PNG+JSON）または連番PNGをZIPでダウンロードする */
+  onExportAssets: (kind: ExportAssetKind) => void;
+  /** 指定の長さのWebM動画をダウンロードする（動画を作れない環境では省略） */
+  onExportVideo?: (durationMs: number) => void;
+  /** 編集できるメモの共有リンクを作る */
+  onCreateShareLink: () => string;
+  /** 編集中のコマを今の揺れのままPNGで描き出す（画像のコピー用） */
+  onCreatePngImage: () => Promise<Blob>;
+  /** 素材・動画をダウンロード用に生成中か */
+  isExportingAssets: boolean;
   isExporting: boolean;
   exportUrl: string | null;
   exportError: string | null;
   onCloseExport: () => void;
+  onOpenGallery: () => void;
+  onOpenLayers: () => void;
+  onOpenFrames: () => void;
 
   palette: string[];
   setPalette: (palette: string[]) => void;
@@ -209,6 +320,14 @@ interface WigglyToolsProps {
   setCustomBackgroundColor: (backgroundColor: string) => void;
   jitterConfig: JitterConfig;
   setJitterConfig: (jitterConfig: JitterConfig) => void;
+  animationSettings: AnimationSettings;
+  setAnimationSettings: (animationSettings: AnimationSettings) => void;
+  /** ペンの筆圧で線の太さと濃さを変えるか */
+  pressureEnabled: boolean;
+  setPressureEnabled: (enabled: boolean) => void;
+  /** 筆圧の補正カーブ */
+  pressureCurve: number;
+  setPressureCurve: (curve: number) => void;
 }
 
 const CUSTOM_PALETTE_NAME = "カスタム";
@@ -222,6 +341,7 @@ export const WigglyTools = React.forwardRef<
     tool,
     setTool,
     colorIndex,
+    pickedColor,
     setColorIndex,
     brushWidth,
     setBrushWidth,
@@ -231,16 +351,47 @@ export const WigglyTools = React.forwardRef<
     setEraserVariant,
     patternId,
     setPatternId,
+    selectionMode,
+    setSelectionMode,
+    hasSelection,
+    onDuplicateSelection,
+    onDeleteSelection,
+    fillWithPattern,
+    setFillWithPattern,
+    shapeKind,
+    setShapeKind,
+    shapeFilled,
+    setShapeFilled,
+    shapeWithPattern,
+    setShapeWithPattern,
     onUndo,
     onRedo,
     canUndo,
     canRedo,
     onClear,
     onExport,
+    exportFormat,
+    onExportFormatChange,
+    exportTransparentBackground,
+    onExportTransparentBackgroundChange,
+    exportScale,
+    onExportScaleChange,
+    exportWithBorder,
+    onExportWithBorderChange,
+    exportReplay,
+    onExportReplayChange,
+    onExportAssets,
+    onExportVideo,
+    onCreateShareLink,
+    onCreatePngImage,
+    isExportingAssets,
     isExporting,
     exportUrl,
     exportError,
     onCloseExport,
+    onOpenGallery,
+    onOpenLayers,
+    onOpenFrames,
     palette,
     setPalette,
     customPalette,
@@ -255,6 +406,12 @@ export const WigglyTools = React.forwardRef<
     setCustomBackgroundColor,
     jitterConfig,
     setJitterConfig,
+    animationSettings,
+    setAnimationSettings,
+    pressureEnabled,
+    setPressureEnabled,
+    pressureCurve,
+    setPressureCurve,
   }: WigglyToolsProps,
   ref,
 ) {
@@ -266,10 +423,12 @@ export const WigglyTools = React.forwardRef<
     () => getPatternDefinition(patternId),
     [patternId],
   );
-  const [settingsTab, setSettingsTab] = useState<"palette" | "body" | "jitter">(
-    "palette",
-  );
+  const [settingsTab, setSettingsTab] = useState<
+    "palette" | "body" | "jitter" | "pressure"
+  >("palette");
   const undoGifRef = useRef<AnimatedGifHandle>(null);
+  const exportFormatInfo = getAnimationFormatInfo(exportFormat);
+  const exportFileName = `wiggly-zakomemo.${exportFormatInfo.extension}`;
   const playWidthSliderSound = useRef(
     throttle(() => {
       uiSoundManager.play("slider-change", { stopPrevious: true });
@@ -440,31 +599,105 @@ export const WigglyTools = React.forwardRef<
         </span>
       </button>
 
-      {/* 中央左: 設定 */}
-      <button
-        type="button"
-        onClick={() => {
-          uiSoundManager.play("button-settings", { stopPrevious: true });
-          setActivePopup("settings");
-        }}
-        onKeyDown={handleButtonKeyDown(() => {
-          uiSoundManager.play("button-settings", { stopPrevious: true });
-          setActivePopup("settings");
-        })}
-        className="absolute top-0 left-[calc(94px+2px)] bg-zako-orange-strong border-t-[3px] border-l-[3px] border-t-zako-orange-light border-l-zako-orange-light border-b-[3px] border-r-[3px] border-b-zako-orange-dark border-r-zako-orange-dark rounded-[6px] h-12 px-2 py-1 flex items-center justify-center gap-1 active:translate-y-0.5 group cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-white focus-visible:ring-offset-2 focus-visible:ring-offset-zako-orange-strong z-10"
-      >
-        <svg
-          viewBox="0 0 24 24"
-          fill="currentColor"
-          aria-hidden="true"
-          className="w-6 h-6 text-white drop-shadow-sm transition-transform group-active:rotate-45"
+      {/* 中央左: 設定・メモ帳・レイヤー */}
+      <div className="absolute top-0 left-[calc(94px+2px)] flex h-12 gap-[2px] z-10">
+        <button
+          type="button"
+          onClick={() => {
+            uiSoundManager.play("button-settings", { stopPrevious: true });
+            setActivePopup("settings");
+          }}
+          onKeyDown={handleButtonKeyDown(() => {
+            uiSoundManager.play("button-settings", { stopPrevious: true });
+            setActivePopup("settings");
+          })}
+          className="bg-zako-orange-strong border-t-[3px] border-l-[3px] border-t-zako-orange-light border-l-zako-orange-light border-b-[3px] border-r-[3px] border-b-zako-orange-dark border-r-zako-orange-dark rounded-[6px] h-12 px-2 py-1 flex items-center justify-center gap-1 active:translate-y-0.5 group cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-white focus-visible:ring-offset-2 focus-visible:ring-offset-zako-orange-strong"
         >
-          <path d="M19.14 12.94c.04-.3.06-.61.06-.94 0-.32-.02-.64-.07-.94l2.03-1.58c.18-.14.23-.41.12-.61l-1.92-3.32c-.12-.22-.37-.29-.59-.22l-2.39.96c-.5-.38-1.03-.7-1.62-.94l-.36-2.54c-.04-.24-.24-.41-.48-.41h-3.84c-.24 0-.43.17-.47.41l-.36 2.54c-.59.24-1.13.57-1.62.94l-2.39-.96c-.22-.08-.47 0-.59.22L2.74 8.87c-.12.21-.08.47.12.61l2.03 1.58c-.05.3-.09.63-.09.94s.02.64.07.94l-2.03 1.58c-.18.14-.23.41-.12.61l1.92 3.32c.12.22.37.29.59.22l2.39-.96c.5.38 1.03.7 1.62.94l.36 2.54c.05.24.24.41.48.41h3.84c.24 0 .44-.17.47-.41l.36-2.54c.59-.24 1.13-.56 1.62-.94l2.39.96c.22.08.47 0 .59-.22l1.92-3.32c.12-.21.07-.47-.12-.61l-2.01-1.58zM12 15.6c-1.98 0-3.6-1.62-3.6-3.6s1.62-3.6 3.6-3.6 3.6 1.62 3.6 3.6-1.62 3.6-3.6 3.6z" />
-        </svg>
-        <span className="text-white font-black text-sm leading-none tracking-tighter whitespace-nowrap">
-          設定
-        </span>
-      </button>
+          <svg
+            viewBox="0 0 24 24"
+            fill="currentColor"
+            aria-hidden="true"
+            className="w-6 h-6 text-white drop-shadow-sm transition-transform group-active:rotate-45"
+          >
+            <path d="M19.14 12.94c.04-.3.06-.61.06-.94 0-.32-.02-.64-.07-.94l2.03-1.58c.18-.14.23-.41.12-.61l-1.92-3.32c-.12-.22-.37-.29-.59-.22l-2.39.96c-.5-.38-1.03-.7-1.62-.94l-.36-2.54c-.04-.24-.24-.41-.48-.41h-3.84c-.24 0-.43.17-.47.41l-.36 2.54c-.59.24-1.13.57-1.62.94l-2.39-.96c-.22-.08-.47 0-.59.22L2.74 8.87c-.12.21-.08.47.12.61l2.03 1.58c-.05.3-.09.63-.09.94s.02.64.07.94l-2.03 1.58c-.18.14-.23.41-.12.61l1.92 3.32c.12.22.37.29.59.22l2.39-.96c.5.38 1.03.7 1.62.94l.36 2.54c.05.24.24.41.48.41h3.84c.24 0 .44-.17.47-.41l.36-2.54c.59-.24 1.13-.56 1.62-.94l2.39.96c.22.08.47 0 .59-.22l1.92-3.32c.12-.21.07-.47-.12-.61l-2.01-1.58zM12 15.6c-1.98 0-3.6-1.62-3.6-3.6s1.62-3.6 3.6-3.6 3.6 1.62 3.6 3.6-1.62 3.6-3.6 3.6z" />
+          </svg>
+          <span className="text-white font-black text-sm leading-none tracking-tighter whitespace-nowrap">
+            設定
+          </span>
+        </button>
+
+        {/* メモ帳（ギャラリー） */}
+        <button
+          type="button"
+          aria-label="メモ帳"
+          onClick={() => {
+            uiSoundManager.play("button-gallery", { stopPrevious: true });
+            onOpenGallery();
+          }}
+          onKeyDown={handleButtonKeyDown(() => {
+            uiSoundManager.play("button-gallery", { stopPrevious: true });
+            onOpenGallery();
+          })}
+          className="bg-zako-orange-strong border-t-[3px] border-l-[3px] border-t-zako-orange-light border-l-zako-orange-light border-b-[3px] border-r-[3px] border-b-zako-orange-dark border-r-zako-orange-dark rounded-[6px] h-12 w-12 flex items-center justify-center active:translate-y-0.5 cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-white focus-visible:ring-offset-2 focus-visible:ring-offset-zako-orange-strong"
+        >
+          <svg
+            viewBox="0 0 24 24"
+            fill="currentColor"
+            aria-hidden="true"
+            className="w-6 h-6 text-white drop-shadow-sm"
+          >
+            <path d="M4 3h13a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H4V3zm3 4v2h8V7H7zm0 4v2h8v-2H7zm0 4v2h5v-2H7zM20 6h1v12h-1V6z" />
+          </svg>
+        </button>
+
+        {/* レイヤー */}
+        <button
+          type="button"
+          aria-label="レイヤー"
+          onClick={() => {
+            uiSoundManager.play("button-layers", { stopPrevious: true });
+            onOpenLayers();
+          }}
+          onKeyDown={handleButtonKeyDown(() => {
+            uiSoundManager.play("button-layers", { stopPrevious: true });
+            onOpenLayers();
+          })}
+          className="bg-zako-orange-strong border-t-[3px] border-l-[3px] border-t-zako-orange-light border-l-zako-orange-light border-b-[3px] border-r-[3px] border-b-zako-orange-dark border-r-zako-orange-dark rounded-[6px] h-12 w-12 flex items-center justify-center active:translate-y-0.5 cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-white focus-visible:ring-offset-2 focus-visible:ring-offset-zako-orange-strong"
+        >
+          <svg
+            viewBox="0 0 24 24"
+            fill="currentColor"
+            aria-hidden="true"
+            className="w-6 h-6 text-white drop-shadow-sm"
+          >
+            <path d="M12 2 1 8l11 6 11-6-11-6zm-8.6 9.3L1 12.6l11 6 11-6-2.4-1.3L12 16 3.4 11.3zm0 4L1 16.6l11 6 11-6-2.4-1.3L12 20 3.4 15.3z" />
+          </svg>
+        </button>
+
+        {/* コマ */}
+        <button
+          type="button"
+          aria-label="コマ"
+          onClick={() => {
+            uiSoundManager.play("button-frames", { stopPrevious: true });
+            onOpenFrames();
+          }}
+          onKeyDown={handleButtonKeyDown(() => {
+            uiSoundManager.play("button-frames", { stopPrevious: true });
+            onOpenFrames();
+          })}
+          className="bg-zako-orange-strong border-t-[3px] border-l-[3px] border-t-zako-orange-light border-l-zako-orange-light border-b-[3px] border-r-[3px] border-b-zako-orange-dark border-r-zako-orange-dark rounded-[6px] h-12 w-12 flex items-center justify-center active:translate-y-0.5 cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-white focus-visible:ring-offset-2 focus-visible:ring-offset-zako-orange-strong"
+        >
+          <svg
+            viewBox="0 0 24 24"
+            fill="currentColor"
+            aria-hidden="true"
+            className="w-6 h-6 text-white drop-shadow-sm"
+          >
+            <path d="M2 4h20v16H2V4zm2 2v2h2V6H4zm14 0v2h2V6h-2zM4 10v4h2v-4H4zm14 0v4h2v-4h-2zM4 16v2h2v-2H4zm14 0v2h2v-2h-2zM8 6v12h8V6H8z" />
+          </svg>
+        </button>
+      </div>
 
       {/* 右寄せグループ: やり直し/進む - 右上 */}
       <div className="absolute top-0 right-0 flex h-12 items-stretch z-10">
@@ -602,7 +835,7 @@ export const WigglyTools = React.forwardRef<
                         setPenVariant(v.id);
                         setActivePopup("none");
                       }}
-                        className={`relative border-[2px] w-9 h-9 flex items-center justify-center transition-all rounded-[2px] cursor-pointer
+                      className={`relative border-[2px] w-9 h-9 flex items-center justify-center transition-all rounded-[2px] cursor-pointer
                                     ${
                                       penVariant === v.id
                                         ? "border-black bg-zako-yellow-strong-30"
@@ -856,29 +1089,74 @@ export const WigglyTools = React.forwardRef<
         </div>
       </div>
 
-      {/* 2.5. スライダー行 */}
+      {/* 2.5. スライダー行（図形・塗りつぶし・選択ではそれぞれの操作）と補助ツール */}
       <div className="h-8 shrink-0 flex items-center gap-2 relative z-10">
-        <span className="text-sm font-black text-zako-brown leading-none whitespace-nowrap">
-          太さ
-        </span>
-        <div className="flex-1 flex items-center relative">
-          <div
-            className="absolute top-1/2 -translate-y-1/2 left-0 right-0 h-3 bg-zako-paper"
-            style={{ clipPath: "polygon(0 80%, 100% 20%, 100% 100%, 0% 100%)" }}
+        {tool === "select" ? (
+          <SelectionToolbar
+            selectionMode={selectionMode}
+            onSelectionModeChange={setSelectionMode}
+            hasSelection={hasSelection}
+            onDuplicate={onDuplicateSelection}
+            onDelete={onDeleteSelection}
           />
-          <input
-            type="range"
-            min={MIN_PEN_WIDTH}
-            max={MAX_PEN_WIDTH}
-            step={1}
-            value={brushWidth}
-            onChange={(e) => {
-              setBrushWidth(Number(e.target.value));
-              playWidthSliderSound();
-            }}
-            className="pen-width-slider w-full h-4 relative z-10 accent-zako-orange-strong cursor-pointer mix-blend-multiply"
+        ) : tool === "fill" ? (
+          <FillToolbar
+            fillWithPattern={fillWithPattern}
+            onFillWithPatternChange={setFillWithPattern}
           />
-        </div>
+        ) : (
+          <>
+            {tool === "shape" ? (
+              <ShapeToolbar
+                shapeKind={shapeKind}
+                onShapeKindChange={setShapeKind}
+                shapeFilled={shapeFilled}
+                onShapeFilledChange={setShapeFilled}
+                shapeWithPattern={shapeWithPattern}
+                onShapeWithPatternChange={setShapeWithPattern}
+              />
+            ) : (
+              <span className="text-sm font-black text-zako-brown leading-none whitespace-nowrap">
+                太さ
+              </span>
+            )}
+            <div className="flex-1 flex items-center relative">
+              <div
+                className="absolute top-1/2 -translate-y-1/2 left-0 right-0 h-3 bg-zako-paper"
+                style={{
+                  clipPath: "polygon(0 80%, 100% 20%, 100% 100%, 0% 100%)",
+                }}
+              />
+              <input
+                type="range"
+                min={MIN_PEN_WIDTH}
+                max={MAX_PEN_WIDTH}
+                step={1}
+                value={brushWidth}
+                onChange={(e) => {
+                  setBrushWidth(Number(e.target.value));
+                  playWidthSliderSound();
+                }}
+                className="pen-width-slider w-full h-4 relative z-10 accent-zako-orange-strong cursor-pointer mix-blend-multiply"
+              />
+            </div>
+          </>
+        )}
+        {SUB_TOOL_LABELS.map(({ tool: subTool, label }) => (
+          <button
+            key={subTool}
+            type="button"
+            aria-pressed={tool === subTool}
+            onClick={() => handleToolClick(subTool)}
+            className={`h-6 px-2 border-[2px] rounded-[4px] font-black text-xs leading-none active:translate-y-0.5 cursor-pointer ${
+              tool === subTool
+                ? "bg-zako-orange-strong border-black text-white"
+                : "bg-white border-zako-tan text-zako-brown"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
       </div>
 
       {/* 3. 下段: 色 */}
@@ -897,7 +1175,7 @@ export const WigglyTools = React.forwardRef<
           />
           {palette.map((_c, idx) => {
             const varName = `var(--palette-${idx})`;
-            const isSelected = colorIndex === idx;
+            const isSelected = pickedColor === null && colorIndex === idx;
             return (
               <button
                 type="button"
@@ -922,6 +1200,17 @@ export const WigglyTools = React.forwardRef<
               </button>
             );
           })}
+          {pickedColor && (
+            <div
+              role="img"
+              aria-label={`スポイトで拾った色 ${pickedColor}`}
+              title={pickedColor}
+              style={{ backgroundColor: pickedColor }}
+              className="h-8 w-8 rounded-[2px] shadow-sm shrink-0 relative border-black border-[3px] scale-110 z-10 shadow-[0_0_0_2px_var(--color-zako-white-80)]"
+            >
+              <div className="absolute inset-0 border-2 border-white opacity-80 pointer-events-none" />
+            </div>
+          )}
         </div>
       </div>
 
@@ -930,13 +1219,15 @@ export const WigglyTools = React.forwardRef<
         {exportUrl ? (
           <a
             href={exportUrl}
-            download="wiggly-zakomemo.gif"
+            download={exportFileName}
             onClick={() => {
               uiSoundManager.play("export-save", { stopPrevious: true });
             }}
             className="bg-zako-orange-strong border-t-[3px] border-l-[3px] border-t-zako-orange-light border-l-zako-orange-light border-b-[3px] border-r-[3px] border-b-zako-orange-dark border-r-zako-orange-dark rounded-tl-[6px] rounded-tr-[6px] rounded-bl-none rounded-br-none h-full px-2 py-1 flex items-center justify-center active:translate-y-0.5 transition-all text-white font-black cursor-pointer"
           >
-            <span className="text-lg leading-none">GIFを保存</span>
+            <span className="text-lg leading-none">
+              {exportFormatInfo.label}を保存
+            </span>
           </a>
         ) : (
           <button
@@ -955,7 +1246,9 @@ export const WigglyTools = React.forwardRef<
             {isExporting ? (
               <span className="text-lg">...</span>
             ) : (
-              <span className="text-lg leading-none">GIFを保存</span>
+              <span className="text-lg leading-none">
+                {exportFormatInfo.label}を保存
+              </span>
             )}
           </button>
         )}
@@ -988,7 +1281,7 @@ export const WigglyTools = React.forwardRef<
                 </div>
                 <div className="flex flex-col items-center gap-2">
                   <span className="text-lg font-black tracking-tighter drop-shadow-md">
-                    GIFを生成中...
+                    {exportFormatInfo.label}を生成中...
                   </span>
                 </div>
               </div>
@@ -996,7 +1289,7 @@ export const WigglyTools = React.forwardRef<
               <div className="flex flex-col items-center gap-3 text-center">
                 <div className="text-3xl">⚠️</div>
                 <span className="text-lg font-black tracking-tighter drop-shadow-md">
-                  GIF生成に失敗しました
+                  {exportFormatInfo.label}の生成に失敗しました
                 </span>
                 <span className="text-xs opacity-80">{exportError}</span>
                 <button
@@ -1015,16 +1308,173 @@ export const WigglyTools = React.forwardRef<
                 <div className="bg-white p-0.5 rounded-[6px] border-[3px] border-black shadow-[6px_6px_0_var(--color-zako-black-20)] w-[45%] aspect-[3/2] flex items-center justify-center overflow-hidden">
                   {exportUrl && (
                     <>
-                      {/* biome-ignore lint/performance/noImgElement: エクスポートされたGIF表示のため */}
+                      {/* biome-ignore lint/performance/noImgElement: エクスポートされたアニメーション表示のため */}
                       <img
                         src={exportUrl}
-                        alt="Generated GIF"
+                        alt={`Generated ${exportFormatInfo.label}`}
                         className="w-full h-full object-contain image-rendering-pixelated"
                       />
                     </>
                   )}
                 </div>
 
+                {/* 形式の切り替え（選ぶとその形式で作り直す） */}
+                <div className="flex flex-row gap-1.5">
+                  {ANIMATION_FORMATS.map((info) => {
+                    const isSelected = info.format === exportFormat;
+                    return (
+                      <button
+                        key={info.format}
+                        type="button"
+                        aria-pressed={isSelected}
+                        onClick={() => {
+                          if (isSelected) return;
+                          uiSoundManager.play("button-export", {
+                            stopPrevious: true,
+                          });
+                          onExportFormatChange(info.format);
+                        }}
+                        className={getExportChipClassName(isSelected)}
+                      >
+                        {info.label}
+                      </button>
+                    );
+                  })}
+                  <button
+                    type="button"
+                    aria-pressed={exportTransparentBackground}
+                    onClick={() => {
+                      uiSoundManager.play("button-export", {
+                        stopPrevious: true,
+                      });
+                      onExportTransparentBackgroundChange(
+                        !exportTransparentBackground,
+                      );
+                    }}
+                    className={getExportChipClassName(
+                      exportTransparentBackground,
+                    )}
+                  >
+                    背景透明
+                  </button>
+                </div>
+
+                {/* 拡大倍率とふちの切り替え（選ぶとその設定で作り直す） */}
+                <div className="flex flex-row gap-1.5">
+                  {EXPORT_SCALE_CHOICES.map((scale) => {
+                    const isSelected = scale === exportScale;
+                    return (
+                      <button
+                        key={scale}
+                        type="button"
+                        aria-pressed={isSelected}
+                        onClick={() => {
+                          if (isSelected) return;
+                          uiSoundManager.play("button-export", {
+                            stopPrevious: true,
+                          });
+                          onExportScaleChange(scale);
+                        }}
+                        className={getExportChipClassName(isSelected)}
+                      >
+                        {scale}×
+                      </button>
+                    );
+                  })}
+                  <button
+                    type="button"
+                    aria-pressed={exportWithBorder}
+                    onClick={() => {
+                      uiSoundManager.play("button-export", {
+                        stopPrevious: true,
+                      });
+                      onExportWithBorderChange(!exportWithBorder);
+                    }}
+                    className={getExportChipClassName(exportWithBorder)}
+                  >
+                    ふち
+                  </button>
+                </div>
+
+                {/* 描き順のリプレイとして書き出すか（選ぶとその長さで作り直す） */}
+                <div className="flex flex-row items-center gap-1.5">
+                  <span className="text-xs font-black">描き順</span>
+                  {[
+                    { replay: null, label: "オフ" },
+                    ...REPLAY_DURATION_CHOICES.map(({ durationMs, label }) => ({
+                      replay: toReplayOptions(durationMs),
+                      label,
+                    })),
+                  ].map(({ replay, label }) => {
+                    const isSelected =
+                      replay === null || exportReplay === null
+                        ? replay === exportReplay
+                        : replay.targetDurationMs ===
+                          exportReplay.targetDurationMs;
+                    return (
+                      <button
+                        key={label}
+                        type="button"
+                        aria-pressed={isSelected}
+                        onClick={() => {
+                          if (isSelected) return;
+                          uiSoundManager.play("button-export", {
+                            stopPrevious: true,
+                          });
+                          onExportReplayChange(replay);
+                        }}
+                        className={getExportChipClassName(isSelected)}
+                      >
+                        {label}
+                      </button>
+                    );
+                  })}
+                </div>
+
+                {/* ゲーム素材向けの書き出し（全cycleのフレームをZIPでダウンロード） */}
+                <div className="flex flex-row items-center gap-1.5">
+                  <span className="text-xs font-black">素材</span>
+                  {EXPORT_ASSET_CHOICES.map(({ kind, label }) => (
+                    <button
+                      key={kind}
+                      type="button"
+                      disabled={isExportingAssets}
+                      onClick={() => {
+                        uiSoundManager.play("export-save", {
+                          stopPrevious: true,
+                        });
+                        onExportAssets(kind);
+                      }}
+                      className={`${getExportChipClassName(false)} ${isExportingAssets ? "opacity-50 pointer-events-none" : ""}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+
+                {/* 動画の書き出し（アニメーションを繰り返して指定の長さにする） */}
+                {onExportVideo && (
+                  <div className="flex flex-row items-center gap-1.5">
+                    <span className="text-xs font-black">WebM</span>
+                    {EXPORT_VIDEO_DURATIONS_MS.map((durationMs) => (
+                      <button
+                        key={durationMs}
+                        type="button"
+                        disabled={isExportingAssets}
+                        onClick={() => {
+                          uiSoundManager.play("export-save", {
+                            stopPrevious: true,
+                          });
+                          onExportVideo(durationMs);
+                        }}
+                        className={`${getExportChipClassName(false)} ${isExportingAssets ? "opacity-50 pointer-events-none" : ""}`}
+                      >
+                        {durationMs / 1000}秒
+                      </button>
+                    ))}
+                  </div>
+                )}
+
                 <div className="flex flex-col items-center gap-1 text-center mt-1.5">
                   <p className="text-xs font-black leading-tight">
                     {isMobile()
@@ -1036,7 +1486,7 @@ export const WigglyTools = React.forwardRef<
                 <div className="flex flex-row gap-2 w-full px-6 mt-3">
                   <a
                     href={exportUrl || "#"}
-                    download="wiggly-zakomemo.gif"
+                    download={exportFileName}
                     onClick={() => {
                       uiSoundManager.play("export-save", {
                         stopPrevious: true,
@@ -1049,9 +1499,16 @@ export const WigglyTools = React.forwardRef<
                   <ShareButton
                     text="ざこメモで絵を描いたよ！ #wigglyzakomemo"
                     imageUrl={exportUrl || undefined}
+                    imageName={exportFileName}
+                    imageType={exportFormatInfo.mimeType}
+                    createPngImage={onCreatePngImage}
                     className="flex-1"
                   />
                 </div>
+                <ShareLinkButton
+                  createLink={onCreateShareLink}
+                  className="mt-1"
+                />
               </div>
             )}
           </div>
@@ -1120,6 +1577,20 @@ export const WigglyTools = React.forwardRef<
               >
                 ぶるぶる
               </button>
+              <button
+                type="button"
+                onClick={() => {
+                  uiSoundManager.play("settings-tab", { stopPrevious: true });
+                  setSettingsTab("pressure");
+                }}
+                className={`px-3 py-1.5 rounded-t-[8px] font-black text-sm transition-all cursor-pointer ${
+                  settingsTab === "pressure"
+                    ? "bg-zako-cream text-zako-orange-strong translate-y-px border-t-[3px] border-l-[3px] border-r-[3px] border-zako-tan-light hover:brightness-95"
+                    : "bg-zako-orange-light text-white hover:bg-zako-orange-bright"
+                }`}
+              >
+                筆圧
+              </button>
             </div>
 
             <button
@@ -1358,6 +1829,77 @@ export const WigglyTools = React.forwardRef<
                     setJitterConfig({ ...jitterConfig, frequency })
                   }
                 />
+                <JitterControlSlider
+                  label="揺れのコマ数"
+                  value={animationSettings.cycleCount}
+                  min={MIN_CYCLE_COUNT}
+                  max={MAX_CYCLE_COUNT}
+                  step={1}
+                  toFixed={0}
+                  onChange={(cycleCount) =>
+                    setAnimationSettings({ ...animationSettings, cycleCount })
+                  }
+                />
+                <JitterControlSlider
+                  label="揺れの間隔（ms）"
+                  value={animationSettings.cycleIntervalMs}
+                  min={MIN_CYCLE_INTERVAL_MS}
+                  max={MAX_CYCLE_INTERVAL_MS}
+                  step={10}
+                  toFixed={0}
+                  onChange={(cycleIntervalMs) =>
+                    setAnimationSettings({
+                      ...animationSettings,
+                      cycleIntervalMs,
+                    })
+                  }
+                />
+              </div>
+            ) : settingsTab === "pressure" ? (
+              <div className="flex flex-col gap-4">
+                {/* ペン入力の時だけ効く。マウスやタッチの線は変わらない */}
+                <div className="p-3 bg-white border-[3px] border-zako-tan-light rounded-[6px] shadow-[2px_2px_0_var(--color-zako-tan-10)] flex items-center justify-between">
+                  <span className="font-black text-sm text-zako-brown">
+                    ペンの筆圧で太さと濃さを変える
+                  </span>
+                  <div className="flex gap-1">
+                    {[
+                      { enabled: true, label: "ON" },
+                      { enabled: false, label: "OFF" },
+                    ].map(({ enabled, label }) => {
+                      const isSelected = pressureEnabled === enabled;
+                      return (
+                        <button
+                          key={label}
+                          type="button"
+                          aria-pressed={isSelected}
+                          onClick={() => {
+                            uiSoundManager.play("button-tool", {
+                              stopPrevious: true,
+                            });
+                            setPressureEnabled(enabled);
+                          }}
+                          className={`h-6 px-2 border-[2px] rounded-[4px] font-black text-xs leading-none active:translate-y-0.5 cursor-pointer ${
+                            isSelected
+                              ? "bg-zako-orange-strong border-black text-white"
+                              : "bg-white border-zako-tan text-zako-brown"
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+                <JitterControlSlider
+                  label="筆圧カーブ（小さいほど軽い力で太くなる）"
+                  value={pressureCurve}
+                  min={MIN_PRESSURE_CURVE}
+                  max={MAX_PRESSURE_CURVE}
+                  step={0.05}
+                  toFixed={2}
+                  onChange={setPressureCurve}
+                />
               </div>
             ) : (
               <div className="flex flex-col gap-2.5">
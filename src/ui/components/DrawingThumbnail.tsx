@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { DrawingDocument } from "@/core/serialization";
+import { renderThumbnailFrames } from "@/infra/canvas/renderThumbnailFrames";
+
+/** DrawingThumbnailの入力 */
+interface DrawingThumbnailProps {
+  drawingDocument: DrawingDocument;
+  /** 描画する幅（px） */
+  width: number;
+  className?: string;
+}
+
+/**
+ * メモを縮小してぶるぶるアニメーション付きで表示する
+ * フレームは一度だけ生成し、以降はcanvasに貼り替えるだけにする
+ */
+export function DrawingThumbnail({
+  drawingDocument,
+  width,
+  className = "",
+}: DrawingThumbnailProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let frames: ImageBitmap[] = [];
+    let timer: ReturnType<typeof setInterval> | null = null;
+
+    renderThumbnailFrames({ drawingDocument, maxWidth: width })
+      .then((rendered) => {
+        if (cancelled) {
+          for (const frame of rendered) frame.close();
+          return;
+        }
+        frames = rendered;
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext("2d");
+        if (!canvas || !ctx || frames.length === 0) return;
+        canvas.width = frames[0].width;
+        canvas.height = frames[0].height;
+
+        let frameIndex = 0;
+        /** 次のフレームを表示する */
+        const drawNext = () => {
+          ctx.drawImage(frames[frameIndex], 0, 0);
+          frameIndex = (frameIndex + 1) % frames.length;
+        };
+        drawNext();
+        timer = setInterval(
+          drawNext,
+          drawingDocument.animation.cycleIntervalMs,
+        );
+      })
+      .catch((error: unknown) => {
+        console.error("[DrawingThumbnail] render failed:", error);
+      });
+
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+      for (const frame of frames) frame.close();
+    };
+  }, [drawingDocument, width]);
+
+  const { drawing } = drawingDocument.frames[0];
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`image-rendering-pixelated ${className}`}
+      style={{
+        aspectRatio: `${drawing.width} / ${drawing.height}`,
+      }}
+    />
+  );
+}
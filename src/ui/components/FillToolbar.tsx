@@ -0,0 +1,51 @@
+"use client";
+
+import { uiSoundManager } from "@/infra/sound/uiSounds";
+
+/** FillToolbarの入力 */
+interface FillToolbarProps {
+  /** パターンで塗るか（falseならベタ塗り） */
+  fillWithPattern: boolean;
+  onFillWithPatternChange: (enabled: boolean) => void;
+}
+
+/** 塗り方の表示名 */
+const FILL_STYLE_LABELS: { withPattern: boolean; label: string }[] = [
+  { withPattern: false, label: "ベタ" },
+  { withPattern: true, label: "パターン" },
+];
+
+/**
+ * 塗りつぶしツールの操作（ベタ塗りとパターン塗りの切り替え）
+ * 塗りつぶしでは太さを使わないため、スライダー行の代わりに表示する
+ */
+export function FillToolbar({
+  fillWithPattern,
+  onFillWithPatternChange,
+}: FillToolbarProps) {
+  return (
+    <div className="flex-1 flex items-center gap-1">
+      {FILL_STYLE_LABELS.map(({ withPattern, label }) => {
+        const isSelected = fillWithPattern === withPattern;
+        return (
+          <button
+            key={label}
+            type="button"
+            aria-pressed={isSelected}
+            onClick={() => {
+              uiSoundManager.play("button-tool", { stopPrevious: true });
+              onFillWithPatternChange(withPattern);
+            }}
+            className={`h-6 px-2 border-[2px] rounded-[4px] font-black text-xs leading-none active:translate-y-0.5 cursor-pointer ${
+              isSelected
+                ? "bg-zako-orange-strong border-black text-white"
+                : "bg-white border-zako-tan text-zako-brown"
+            }`}
+          >
+            {label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
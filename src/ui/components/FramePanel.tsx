@@ -0,0 +1,263 @@
+"use client";
+
+import { useState } from "react";
+import {
+  getTotalDuration,
+  MAX_FRAME_DURATION_MS,
+  MIN_FRAME_DURATION_MS,
+} from "@/core/frames";
+import { countStrokes } from "@/core/layers";
+import type { Frame } from "@/core/types";
+import { uiSoundManager } from "@/infra/sound/uiSounds";
+import { REPLAY_DURATION_CHOICES } from "@/ui/replayDurations";
+
+/** 表示時間の入力の刻み幅（ミリ秒） */
+const DURATION_STEP_MS = 50;
+
+/** FramePanelの入力 */
+interface FramePanelProps {
+  /** 再生順に並んだコマ */
+  frames: Frame[];
+  activeFrameId: string;
+  onionSkinEnabled: boolean;
+  isPlaying: boolean;
+  /** 編集中のコマを描いた順に表示しているか */
+  isReplaying: boolean;
+  /** リプレイの長さ（nullは描いた時の速さのまま） */
+  replayDurationMs: number | null;
+  onSelect: (frameId: string) => void;
+  onAdd: () => void;
+  onDuplicate: (frameId: string) => void;
+  onRemove: (frameId: string) => void;
+  onMove: (frameId: string, toIndex: number) => void;
+  onDurationChange: (frameId: string, durationMs: number) => void;
+  onOnionSkinChange: (enabled: boolean) => void;
+  onPlayingChange: (playing: boolean) => void;
+  onReplayingChange: (replaying: boolean) => void;
+  onReplayDurationChange: (durationMs: number | null) => void;
+  onClose: () => void;
+}
+
+/**
+ * パラパラ漫画のコマ一覧
+ * 選んだコマが編集対象になり、キャンバスにはそのコマが表示される
+ */
+export function FramePanel({
+  frames,
+  activeFrameId,
+  onionSkinEnabled,
+  isPlaying,
+  isReplaying,
+  replayDurationMs,
+  onSelect,
+  onAdd,
+  onDuplicate,
+  onRemove,
+  onMove,
+  onDurationChange,
+  onOnionSkinChange,
+  onPlayingChange,
+  onReplayingChange,
+  onReplayDurationChange,
+  onClose,
+}: FramePanelProps) {
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(
+    null,
+  );
+  const canRemove = frames.length > 1;
+  const totalSeconds = (getTotalDuration(frames) / 1000).toFixed(2);
+
+  return (
+    <div className="absolute inset-0 z-[200] bg-zako-cream flex flex-col overflow-hidden">
+      {/* 上部バー: タイトル・追加・閉じる */}
+      <div className="h-14 shrink-0 bg-zako-orange-strong border-b-[4px] border-zako-orange-dark flex items-center px-2 gap-2 relative z-10">
+        <span className="flex-1 text-white font-black text-lg tracking-tighter drop-shadow-md">
+          コマ
+        </span>
+        <button
+          type="button"
+          onClick={() => {
+            uiSoundManager.play("frame-select", { stopPrevious: true });
+            onAdd();
+          }}
+          className="bg-white text-zako-orange-strong border-[3px] border-black rounded-[6px] h-9 px-3 font-black text-sm active:translate-y-0.5 shadow-md cursor-pointer"
+        >
+          ＋ 追加
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            uiSoundManager.play("frame-close", { stopPrevious: true });
+            onClose();
+          }}
+          className="bg-white border-[3px] border-black rounded-[6px] w-9 h-9 flex items-center justify-center text-xl font-black text-black active:translate-y-0.5 shadow-md cursor-pointer"
+        >
+          ×
+        </button>
+      </div>
+
+      {/* 再生・オニオンスキン */}
+      <div className="shrink-0 flex items-center gap-2 px-3 pt-3 relative z-10">
+        <button
+          type="button"
+          aria-pressed={isPlaying}
+          onClick={() => onPlayingChange(!isPlaying)}
+          className={`h-9 px-3 border-[3px] border-black rounded-[6px] font-black text-sm active:translate-y-0.5 cursor-pointer ${
+            isPlaying
+              ? "bg-zako-orange-strong text-white"
+              : "bg-white text-zako-dark"
+          }`}
+        >
+          {isPlaying ? "■ 停止" : "▶ 再生"}
+        </button>
+        <button
+          type="button"
+          aria-pressed={onionSkinEnabled}
+          onClick={() => onOnionSkinChange(!onionSkinEnabled)}
+          className={`h-9 px-3 border-[3px] rounded-[6px] font-black text-sm active:translate-y-0.5 cursor-pointer ${
+            onionSkinEnabled
+              ? "bg-zako-orange-strong border-black text-white"
+              : "bg-white border-zako-tan text-zako-brown"
+          }`}
+        >
+          前後のコマを透かす
+        </button>
+        <span className="ml-auto text-xs font-black text-zako-brown">
+          {frames.length}コマ / {totalSeconds}秒
+        </span>
+      </div>
+
+      {/* 描き順のリプレイ（編集中のコマを描いた順に少しずつ表示する） */}
+      <div className="shrink-0 flex items-center gap-2 px-3 pt-2 relative z-10">
+        <button
+          type="button"
+          aria-pressed={isReplaying}
+          onClick={() => onReplayingChange(!isReplaying)}
+          className={`h-9 px-3 border-[3px] border-black rounded-[6px] font-black text-sm active:translate-y-0.5 cursor-pointer ${
+            isReplaying
+              ? "bg-zako-orange-strong text-white"
+              : "bg-white text-zako-dark"
+          }`}
+        >
+          {isReplaying ? "■ 停止" : "✎ 描き順"}
+        </button>
+        {REPLAY_DURATION_CHOICES.map(({ durationMs, label }) => {
+          const isSelected = durationMs === replayDurationMs;
+          return (
+            <button
+              key={label}
+              type="button"
+              aria-pressed={isSelected}
+              onClick={() => onReplayDurationChange(durationMs)}
+              className={`h-9 px-3 border-[3px] rounded-[6px] font-black text-sm active:translate-y-0.5 cursor-pointer ${
+                isSelected
+                  ? "bg-zako-orange-strong border-black text-white"
+                  : "bg-white border-zako-tan text-zako-brown"
+              }`}
+            >
+              {label}
+            </button>
+          );
+        })}
+      </div>
+
+      <ul className="flex-1 overflow-y-auto zako-scrollbar p-3 flex flex-col gap-2 relative z-10">
+        {frames.map((frame, index) => {
+          const isActive = frame.id === activeFrameId;
+          const isConfirmingDelete = confirmingDeleteId === frame.id;
+          return (
+            <li
+              key={frame.id}
+              className={`flex flex-row items-center gap-1 bg-zako-cream-soft border-[3px] rounded-[6px] p-1.5 ${
+                isActive
+                  ? "border-black shadow-[4px_4px_0_var(--color-zako-black)]"
+                  : "border-zako-tan shadow-[3px_3px_0_var(--color-zako-tan-20)]"
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => {
+                  uiSoundManager.play("frame-select", { stopPrevious: true });
+                  onSelect(frame.id);
+                }}
+                className="flex-1 min-w-0 text-left text-sm font-black truncate cursor-pointer text-zako-dark"
+              >
+                {isActive && "✏️ "}
+                {index + 1}コマ目
+                <span className="ml-1 text-xs text-zako-brown">
+                  ({countStrokes(frame.drawing)}本)
+                </span>
+              </button>
+              <input
+                type="number"
+                aria-label="表示時間（ミリ秒）"
+                min={MIN_FRAME_DURATION_MS}
+                max={MAX_FRAME_DURATION_MS}
+                step={DURATION_STEP_MS}
+                value={frame.durationMs}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (e.target.value !== "" && Number.isFinite(value)) {
+                    onDurationChange(frame.id, value);
+                  }
+                }}
+                className="w-16 h-8 shrink-0 bg-white border-[2px] border-zako-tan rounded-[4px] px-1 text-xs font-black text-zako-dark text-right"
+              />
+              <span className="shrink-0 text-xs font-black text-zako-brown">
+                ms
+              </span>
+              <button
+                type="button"
+                aria-label="前へ"
+                disabled={index === 0}
+                onClick={() => onMove(frame.id, index - 1)}
+                className="w-7 h-8 shrink-0 bg-white border-[2px] border-zako-tan rounded-[4px] text-xs font-black text-zako-brown cursor-pointer active:translate-y-0.5 disabled:opacity-30 disabled:cursor-default"
+              >
+                ▲
+              </button>
+              <button
+                type="button"
+                aria-label="後ろへ"
+                disabled={index === frames.length - 1}
+                onClick={() => onMove(frame.id, index + 1)}
+                className="w-7 h-8 shrink-0 bg-white border-[2px] border-zako-tan rounded-[4px] text-xs font-black text-zako-brown cursor-pointer active:translate-y-0.5 disabled:opacity-30 disabled:cursor-default"
+              >
+                ▼
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  uiSoundManager.play("frame-select", { stopPrevious: true });
+                  onDuplicate(frame.id);
+                }}
+                className="shrink-0 h-8 px-1.5 bg-white border-[2px] border-zako-tan rounded-[4px] text-xs font-black text-zako-brown cursor-pointer active:translate-y-0.5"
+              >
+                複製
+              </button>
+              <button
+                type="button"
+                disabled={!canRemove}
+                onClick={() => {
+                  if (isConfirmingDelete) {
+                    onRemove(frame.id);
+                    setConfirmingDeleteId(null);
+                  } else {
+                    setConfirmingDeleteId(frame.id);
+                  }
+                }}
+                onBlur={() => setConfirmingDeleteId(null)}
+                className={`shrink-0 h-8 px-1.5 border-[2px] rounded-[4px] text-xs font-black cursor-pointer active:translate-y-0.5 disabled:opacity-30 disabled:cursor-default ${
+                  isConfirmingDelete
+                    ? "bg-zako-orange-strong border-black text-white"
+                    : "bg-white border-zako-tan text-zako-brown"
+                }`}
+              >
+                {isConfirmingDelete ? "本当に消す" : "削除"}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { DrawingDocument } from "@/core/serialization";
+import type { DrawingLibrary, DrawingSummary } from "@/engine/drawingLibrary";
+import { uiSoundManager } from "@/infra/sound/uiSounds";
+import { DrawingThumbnail } from "@/ui/components/DrawingThumbnail";
+
+/** サムネイルの描画幅（px） */
+const THUMBNAIL_WIDTH = 128;
+
+/** GalleryModalの入力 */
+interface GalleryModalProps {
+  library: DrawingLibrary;
+  /** 編集中のメモのID */
+  activeDocumentId: string | null;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  /** メモを削除した後に呼ばれる */
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+/** 更新日時を「M/D HH:MM」形式で表示する */
+function formatUpdatedAt(updatedAt: number): string {
+  const date = new Date(updatedAt);
+  const hh = String(date.getHours()).padStart(2, "0");
+  const mm = String(date.getMinutes()).padStart(2, "0");
+  return `${date.getMonth() + 1}/${date.getDate()} ${hh}:${mm}`;
+}
+
+/**
+ * 保存済みメモの一覧（メモ帳）
+ * 下画面を覆うフルスクリーンモーダルで、開く/新規/複製/名前変更/削除を行う
+ */
+export function GalleryModal({
+  library,
+  activeDocumentId,
+  onOpen,
+  onCreate,
+  onDeleted,
+  onClose,
+}: GalleryModalProps) {
+  const [summaries, setSummaries] = useState<DrawingSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /** 一覧を読み直す */
+  const reload = useCallback(async () => {
+    try {
+      setSummaries(await library.list());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "メモを読み込めません");
+    }
+  }, [library]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  /** 操作を実行して一覧を更新する */
+  const runAndReload = async (operation: () => Promise<unknown>) => {
+    try {
+      await operation();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "操作に失敗しました");
+    }
+    await reload();
+  };
+
+  return (
+    <div className="absolute inset-0 z-[200] bg-zako-cream flex flex-col overflow-hidden">
+      {/* 背景グリッド（メイン画面と統一） */}
+      <div
+        className="absolute inset-0 pointer-events-none opacity-[0.12] z-0"
+        style={{
+          backgroundImage: `
+            linear-gradient(to right, var(--color-zako-orange-bright) 1.5px, transparent 1.5px),
+            linear-gradient(to bottom, var(--color-zako-orange-bright) 1.5px, transparent 1.5px)
+          `,
+          backgroundSize: "16px 16px",
+        }}
+      />
+
+      {/* 上部バー: タイトル・新規・閉じる */}
+      <div className="h-14 shrink-0 bg-zako-orange-strong border-b-[4px] border-zako-orange-dark flex items-center px-2 gap-2 relative z-10">
+        <span className="flex-1 text-white font-black text-lg tracking-tighter drop-shadow-md">
+          メモ帳
+        </span>
+        <button
+          type="button"
+          onClick={() => {
+            uiSoundManager.play("gallery-select", { stopPrevious: true });
+            onCreate();
+          }}
+          className="bg-white text-zako-orange-strong border-[3px] border-black rounded-[6px] h-9 px-3 font-black text-sm active:translate-y-0.5 shadow-md cursor-pointer"
+        >
+          ＋ 新しいメモ
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            uiSoundManager.play("gallery-close", { stopPrevious: true });
+            onClose();
+          }}
+          className="bg-white border-[3px] border-black rounded-[6px] w-9 h-9 flex items-center justify-center text-xl font-black text-black active:translate-y-0.5 shadow-md cursor-pointer"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto zako-scrollbar p-3 relative z-10">
+        {error && (
+          <p className="mb-2 text-xs font-black text-zako-orange-strong">
+            {error}
+          </p>
+        )}
+        {summaries === null ? (
+          <p className="text-sm font-black text-zako-brown">読み込み中...</p>
+        ) : summaries.length === 0 ? (
+          <p className="text-sm font-black text-zako-brown">
+            まだ保存されたメモはありません
+          </p>
+        ) : (
+          <ul className="grid grid-cols-2 gap-3">
+            {summaries.map((summary) => (
+              <GalleryItem
+                key={summary.id}
+                library={library}
+                summary={summary}
+                isActive={summary.id === activeDocumentId}
+                onOpen={() => {
+                  uiSoundManager.play("gallery-select", { stopPrevious: true });
+                  onOpen(summary.id);
+                }}
+                onDuplicate={() =>
+                  runAndReload(() => library.duplicate(summary.id))
+                }
+                onRename={(name) =>
+                  runAndReload(() => library.rename(summary.id, name))
+                }
+                onDelete={() =>
+                  runAndReload(async () => {
+                    await library.remove(summary.id);
+                    onDeleted(summary.id);
+                  })
+                }
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** GalleryItemの入力 */
+interface GalleryItemProps {
+  library: DrawingLibrary;
+  summary: DrawingSummary;
+  isActive: boolean;
+  onOpen: () => void;
+  onDuplicate: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}
+
+/** メモ1件分のカード */
+function GalleryItem({
+  library,
+  summary,
+  isActive,
+  onOpen,
+  onDuplicate,
+  onRename,
+  onDelete,
+}: GalleryItemProps) {
+  const [drawingDocument, setDrawingDocument] =
+    useState<DrawingDocument | null>(null);
+  const [nameDraft, setNameDraft] = useState<string | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  // 更新されたメモだけサムネイルを作り直す
+  // biome-ignore lint/correctness/useExhaustiveDependencies: 更新時刻の変化をトリガーにするため
+  useEffect(() => {
+    let cancelled = false;
+    library
+      .load(summary.id)
+      .then((entry) => {
+        if (!cancelled) setDrawingDocument(entry?.document ?? null);
+      })
+      .catch((error: unknown) => {
+        console.error("[GalleryItem] load failed:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [library, summary.id, summary.updatedAt]);
+
+  /** 入力中の名前を確定する */
+  const commitName = () => {
+    if (nameDraft !== null && nameDraft !== summary.name) {
+      onRename(nameDraft);
+    }
+    setNameDraft(null);
+  };
+
+  return (
+    <li
+      className={`flex flex-col gap-1 bg-zako-cream-soft border-[3px] rounded-[6px] p-1.5 ${
+        isActive
+          ? "border-black shadow-[4px_4px_0_var(--color-zako-black)]"
+          : "border-zako-tan shadow-[3px_3px_0_var(--color-zako-tan-20)]"
+      }`}
+    >
+      <button
+        type="button"
+        onClick={onOpen}
+        className="w-full bg-white border-[2px] border-zako-tan rounded-[4px] overflow-hidden cursor-pointer"
+      >
+        {drawingDocument ? (
+          <DrawingThumbnail
+            drawingDocument={drawingDocument}
+            width={THUMBNAIL_WIDTH}
+            className="w-full h-auto block"
+          />
+        ) : (
+          <div className="w-full aspect-[3/2]" />
+        )}
+      </button>
+
+      {nameDraft === null ? (
+        <button
+          type="button"
+          onClick={() => setNameDraft(summary.name)}
+          className="text-left text-sm font-black text-zako-dark truncate cursor-text"
+          title="名前を変更"
+        >
+          {isActive && "✏️ "}
+          {summary.name}
+        </button>
+      ) : (
+        <input
+          type="text"
+          value={nameDraft}
+          onChange={(e) => setNameDraft(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitName();
+            if (e.key === "Escape") setNameDraft(null);
+          }}
+          className="text-sm font-black text-zako-dark bg-white border-[2px] border-zako-tan rounded-[2px] px-1"
+        />
+      )}
+      <span className="text-[10px] font-black text-zako-brown opacity-80">
+        {formatUpdatedAt(summary.updatedAt)}
+      </span>
+
+      <div className="flex flex-row gap-1">
+        <button
+          type="button"
+          onClick={onDuplicate}
+          className="flex-1 bg-white border-[2px] border-zako-tan rounded-[4px] py-0.5 text-xs font-black text-zako-brown active:translate-y-0.5 cursor-pointer"
+        >
+          複製
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            if (isConfirmingDelete) {
+              onDelete();
+              setIsConfirmingDelete(false);
+            } else {
+              setIsConfirmingDelete(true);
+            }
+          }}
+          onBlur={() => setIsConfirmingDelete(false)}
+          className={`flex-1 border-[2px] rounded-[4px] py-0.5 text-xs font-black active:translate-y-0.5 cursor-pointer ${
+            isConfirmingDelete
+              ? "bg-zako-orange-strong border-black text-white"
+              : "bg-white border-zako-tan text-zako-brown"
+          }`}
+        >
+          {isConfirmingDelete ? "本当に消す" : "削除"}
+        </button>
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import type { Layer } from "@/core/types";
+import { uiSoundManager } from "@/infra/sound/uiSounds";
+
+/** LayerPanelの入力 */
+interface LayerPanelProps {
+  /** 下から順に並んだレイヤー */
+  layers: Layer[];
+  activeLayerId: string;
+  onSelect: (layerId: string) => void;
+  onAdd: () => void;
+  onRemove: (layerId: string) => void;
+  /** toIndexは0が最背面 */
+  onMove: (layerId: string, toIndex: number) => void;
+  onVisibilityChange: (layerId: string, visible: boolean) => void;
+  onLockedChange: (layerId: string, locked: boolean) => void;
+  /** 写真やスケッチを下絵または線として取り込む */
+  onOpenImport: () => void;
+  onClose: () => void;
+}
+
+/**
+ * レイヤー一覧
+ * 上にあるレイヤーほど前面に描かれるよう、配列を逆順に表示する
+ */
+export function LayerPanel({
+  layers,
+  activeLayerId,
+  onSelect,
+  onAdd,
+  onRemove,
+  onMove,
+  onVisibilityChange,
+  onLockedChange,
+  onOpenImport,
+  onClose,
+}: LayerPanelProps) {
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(
+    null,
+  );
+  const canRemove = layers.length > 1;
+
+  return (
+    <div className="absolute inset-0 z-[200] bg-zako-cream flex flex-col overflow-hidden">
+      {/* 上部バー: タイトル・追加・閉じる */}
+      <div className="h-14 shrink-0 bg-zako-orange-strong border-b-[4px] border-zako-orange-dark flex items-center px-2 gap-2 relative z-10">
+        <span className="flex-1 text-white font-black text-lg tracking-tighter drop-shadow-md">
+          レイヤー
+        </span>
+        <button
+          type="button"
+          onClick={() => {
+            uiSoundManager.play("layer-select", { stopPrevious: true });
+            onAdd();
+          }}
+          className="bg-white text-zako-orange-strong border-[3px] border-black rounded-[6px] h-9 px-3 font-black text-sm active:translate-y-0.5 shadow-md cursor-pointer"
+        >
+          ＋ 追加
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            uiSoundManager.play("layer-select", { stopPrevious: true });
+            onOpenImport();
+          }}
+          className="bg-white text-zako-orange-strong border-[3px] border-black rounded-[6px] h-9 px-3 font-black text-sm active:translate-y-0.5 shadow-md cursor-pointer"
+        >
+          画像
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            uiSoundManager.play("layer-close", { stopPrevious: true });
+            onClose();
+          }}
+          className="bg-white border-[3px] border-black rounded-[6px] w-9 h-9 flex items-center justify-center text-xl font-black text-black active:translate-y-0.5 shadow-md cursor-pointer"
+        >
+          ×
+        </button>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto zako-scrollbar p-3 flex flex-col gap-2 relative z-10">
+        {layers
+          .map((layer, index) => ({ layer, index }))
+          .reverse()
+          .map(({ layer, index }) => {
+            const isActive = layer.id === activeLayerId;
+            const isConfirmingDelete = confirmingDeleteId === layer.id;
+            return (
+              <li
+                key={layer.id}
+                className={`flex flex-row items-center gap-1 bg-zako-cream-soft border-[3px] rounded-[6px] p-1.5 ${
+                  isActive
+                    ? "border-black shadow-[4px_4px_0_var(--color-zako-black)]"
+                    : "border-zako-tan shadow-[3px_3px_0_var(--color-zako-tan-20)]"
+                }`}
+              >
+                <button
+                  type="button"
+                  aria-label={layer.visible ? "非表示にする" : "表示する"}
+                  aria-pressed={layer.visible}
+                  onClick={() => onVisibilityChange(layer.id, !layer.visible)}
+                  className={`w-8 h-8 shrink-0 bg-white border-[2px] border-zako-tan rounded-[4px] text-sm font-black cursor-pointer active:translate-y-0.5 ${
+                    layer.visible ? "text-zako-dark" : "text-zako-tan"
+                  }`}
+                >
+                  {layer.visible ? "●" : "○"}
+                </button>
+                <button
+                  type="button"
+                  aria-label={layer.locked ? "ロックを外す" : "ロックする"}
+                  aria-pressed={layer.locked}
+                  onClick={() => onLockedChange(layer.id, !layer.locked)}
+                  className={`w-8 h-8 shrink-0 border-[2px] rounded-[4px] text-sm cursor-pointer active:translate-y-0.5 ${
+                    layer.locked
+                      ? "bg-zako-orange-strong border-black"
+                      : "bg-white border-zako-tan opacity-60"
+                  }`}
+                >
+                  🔒
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    uiSoundManager.play("layer-select", { stopPrevious: true });
+                    onSelect(layer.id);
+                  }}
+                  className={`flex-1 min-w-0 text-left text-sm font-black truncate cursor-pointer ${
+                    layer.visible
+                      ? "text-zako-dark"
+                      : "text-zako-brown opacity-60"
+                  }`}
+                >
+                  {isActive && "✏️ "}
+                  {layer.name}
+                </button>
+                <button
+                  type="button"
+                  aria-label="上へ"
+                  disabled={index === layers.length - 1}
+                  onClick={() => onMove(layer.id, index + 1)}
+                  className="w-7 h-8 shrink-0 bg-white border-[2px] border-zako-tan rounded-[4px] text-xs font-black text-zako-brown cursor-pointer active:translate-y-0.5 disabled:opacity-30 disabled:cursor-default"
+                >
+                  ▲
+                </button>
+                <button
+                  type="button"
+                  aria-label="下へ"
+                  disabled={index === 0}
+                  onClick={() => onMove(layer.id, index - 1)}
+                  className="w-7 h-8 shrink-0 bg-white border-[2px] border-zako-tan rounded-[4px] text-xs font-black text-zako-brown cursor-pointer active:translate-y-0.5 disabled:opacity-30 disabled:cursor-default"
+                >
+                  ▼
+                </button>
+                <button
+                  type="button"
+                  disabled={!canRemove}
+                  onClick={() => {
+                    if (isConfirmingDelete) {
+                      onRemove(layer.id);
+                      setConfirmingDeleteId(null);
+                    } else {
+                      setConfirmingDeleteId(layer.id);
+                    }
+                  }}
+                  onBlur={() => setConfirmingDeleteId(null)}
+                  className={`shrink-0 h-8 px-1.5 border-[2px] rounded-[4px] text-xs font-black cursor-pointer active:translate-y-0.5 disabled:opacity-30 disabled:cursor-default ${
+                    isConfirmingDelete
+                      ? "bg-zako-orange-strong border-black text-white"
+                      : "bg-white border-zako-tan text-zako-brown"
+                  }`}
+                >
+                  {isConfirmingDelete ? "本当に消す" : "削除"}
+                </button>
+              </li>
+            );
+          })}
+      </ul>
+    </div>
+  );
+}
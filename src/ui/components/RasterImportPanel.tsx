@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import { RASTER_IMPORT_TYPES } from "@/infra/rasterImage";
+import { uiSoundManager } from "@/infra/sound/uiSounds";
+
+/** 取り込んだ画像の使い方（下絵として重ねる、または揺れる線にする） */
+export type RasterImportMode = "reference" | "strokes";
+
+/** RasterImportPanelの入力 */
+interface RasterImportPanelProps {
+  /** 下絵を表示しているか */
+  hasReference: boolean;
+  isImporting: boolean;
+  importError: string | null;
+  onImport: (
+    file: File,
+    options: { mode: RasterImportMode; dither: boolean },
+  ) => void;
+  onClearReference: () => void;
+  onClose: () => void;
+}
+
+/**
+ * 写真やスケッチの取り込み
+ * 描画の大きさに縮めてパレットの色に置き換え、下絵にするか新しいレイヤーの線にする
+ */
+export function RasterImportPanel({
+  hasReference,
+  isImporting,
+  importError,
+  onImport,
+  onClearReference,
+  onClose,
+}: RasterImportPanelProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [dither, setDither] = useState(true);
+  const canImport = file !== null && !isImporting;
+
+  return (
+    <div className="absolute inset-0 z-[200] bg-zako-cream flex flex-col overflow-hidden">
+      {/* 上部バー: タイトル・閉じる */}
+      <div className="h-14 shrink-0 bg-zako-orange-strong border-b-[4px] border-zako-orange-dark flex items-center px-2 gap-2 relative z-10">
+        <span className="flex-1 text-white font-black text-lg tracking-tighter drop-shadow-md">
+          画像の取り込み
+        </span>
+        <button
+          type="button"
+          onClick={() => {
+            uiSoundManager.play("layer-close", { stopPrevious: true });
+            onClose();
+          }}
+          className="bg-white border-[3px] border-black rounded-[6px] w-9 h-9 flex items-center justify-center text-xl font-black text-black active:translate-y-0.5 shadow-md cursor-pointer"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto zako-scrollbar p-3 flex flex-col gap-3 relative z-10">
+        <label className="flex flex-col gap-1 bg-zako-cream-soft border-[3px] border-zako-tan rounded-[6px] p-2 cursor-pointer">
+          <span className="text-sm font-black text-zako-dark">
+            PNG / JPEG / GIF を選ぶ
+          </span>
+          <input
+            type="file"
+            accept={RASTER_IMPORT_TYPES.join(",")}
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="text-xs font-black text-zako-brown"
+          />
+        </label>
+
+        <button
+          type="button"
+          aria-pressed={dither}
+          onClick={() => setDither(!dither)}
+          className={`self-start h-9 px-3 border-[3px] rounded-[6px] font-black text-sm active:translate-y-0.5 cursor-pointer ${
+            dither
+              ? "bg-zako-orange-strong border-black text-white"
+              : "bg-white border-zako-tan text-zako-brown"
+          }`}
+        >
+          パターンで網掛けする
+        </button>
+
+        <div className="flex flex-row gap-2">
+          <button
+            type="button"
+            disabled={!canImport}
+            onClick={() => {
+              if (!file) return;
+              uiSoundManager.play("layer-select", { stopPrevious: true });
+              onImport(file, { mode: "reference", dither });
+            }}
+            className="flex-1 h-10 bg-white border-[3px] border-black rounded-[6px] font-black text-sm text-zako-dark active:translate-y-0.5 cursor-pointer disabled:opacity-30 disabled:cursor-default"
+          >
+            下絵にする
+          </button>
+          <button
+            type="button"
+            disabled={!canImport}
+            onClick={() => {
+              if (!file) return;
+              uiSoundManager.play("layer-select", { stopPrevious: true });
+              onImport(file, { mode: "strokes", dither });
+            }}
+            className="flex-1 h-10 bg-white border-[3px] border-black rounded-[6px] font-black text-sm text-zako-dark active:translate-y-0.5 cursor-pointer disabled:opacity-30 disabled:cursor-default"
+          >
+            線にする
+          </button>
+        </div>
+        <p className="text-xs font-black text-zako-brown leading-tight">
+          下絵は薄く表示するだけで、保存や書き出しには含まれません。線にすると新しいレイヤーに追加され、手描きの線と同じように揺れます。
+          ざこメモで書き出した GIF / PNG
+          は、元の線のまま新しいメモとして開きます。
+        </p>
+
+        {isImporting && (
+          <p className="text-sm font-black text-zako-dark">取り込み中...</p>
+        )}
+        {importError && (
+          <p className="text-xs font-black text-zako-orange-strong">
+            取り込みに失敗しました: {importError}
+          </p>
+        )}
+
+        {hasReference && (
+          <button
+            type="button"
+            onClick={onClearReference}
+            className="self-start h-9 px-3 bg-white border-[3px] border-zako-tan rounded-[6px] font-black text-sm text-zako-brown active:translate-y-0.5 cursor-pointer"
+          >
+            下絵を外す
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { uiSoundManager } from "@/infra/sound/uiSounds";
+
+/** RestorePromptの入力 */
+interface RestorePromptProps {
+  /** 自動保存された時刻（UNIXミリ秒） */
+  savedAt: number;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+/** 保存時刻を「M/D HH:MM」形式で表示する */
+function formatSavedAt(savedAt: number): string {
+  const date = new Date(savedAt);
+  const hh = String(date.getHours()).padStart(2, "0");
+  const mm = String(date.getMinutes()).padStart(2, "0");
+  return `${date.getMonth() + 1}/${date.getDate()} ${hh}:${mm}`;
+}
+
+/**
+ * 前回の描きかけを復元するかを尋ねるダイアログ
+ * タブが破棄されても作業を失わないよう、起動時に自動保存があれば表示する
+ */
+export function RestorePrompt({
+  savedAt,
+  onRestore,
+  onDiscard,
+}: RestorePromptProps) {
+  return (
+    <div className="fixed inset-0 z-[400] flex items-center justify-center bg-zako-black-20 p-6">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="restore-prompt-title"
+        className="w-full max-w-xs bg-zako-orange-strong border-[3px] border-black rounded-[6px] shadow-[6px_6px_0_var(--color-zako-black-20)] p-4 flex flex-col items-center gap-3 text-white text-center"
+      >
+        <span
+          id="restore-prompt-title"
+          className="text-lg font-black tracking-tighter drop-shadow-md"
+        >
+          描きかけのメモがあります
+        </span>
+        <span className="text-xs font-black opacity-80">
+          {formatSavedAt(savedAt)} に自動保存
+        </span>
+        <div className="flex flex-row gap-2 w-full mt-1">
+          <button
+            type="button"
+            onClick={() => {
+              uiSoundManager.play("export-close", { stopPrevious: true });
+              onDiscard();
+            }}
+            className="flex-1 bg-white text-zako-brown border-[3px] border-black rounded-[6px] py-1.5 font-black text-base active:translate-y-0.5 transition-all cursor-pointer"
+          >
+            破棄する
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              uiSoundManager.play("export-save", { stopPrevious: true });
+              onRestore();
+            }}
+            className="flex-1 bg-white text-zako-orange-strong border-[3px] border-black rounded-[6px] py-1.5 font-black text-base active:translate-y-0.5 transition-all cursor-pointer"
+          >
+            復元する
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
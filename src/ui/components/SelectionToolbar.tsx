@@ -0,0 +1,83 @@
+"use client";
+
+import type { SelectionMode } from "@/core/selection";
+import { uiSoundManager } from "@/infra/sound/uiSounds";
+
+/** 選択範囲の囲み方の表示名 */
+const SELECTION_MODE_LABELS: { mode: SelectionMode; label: string }[] = [
+  { mode: "rect", label: "四角" },
+  { mode: "lasso", label: "なげなわ" },
+];
+
+/** SelectionToolbarの入力 */
+interface SelectionToolbarProps {
+  selectionMode: SelectionMode;
+  onSelectionModeChange: (mode: SelectionMode) => void;
+  /** 選択中のストロークがあるか（無ければ複製・削除できない） */
+  hasSelection: boolean;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+/** 小さな切り替えボタンの見た目（選択中は黒枠で塗る） */
+function getChipClassName(isSelected: boolean): string {
+  return `h-6 px-2 border-[2px] rounded-[4px] font-black text-xs leading-none active:translate-y-0.5 cursor-pointer disabled:opacity-30 disabled:cursor-default ${
+    isSelected
+      ? "bg-zako-orange-strong border-black text-white"
+      : "bg-white border-zako-tan text-zako-brown"
+  }`;
+}
+
+/**
+ * 選択ツールの操作（囲み方の切り替えと、選択中のストロークの複製・削除）
+ * 選択ツールでは太さを使わないため、スライダー行の代わりに表示する
+ */
+export function SelectionToolbar({
+  selectionMode,
+  onSelectionModeChange,
+  hasSelection,
+  onDuplicate,
+  onDelete,
+}: SelectionToolbarProps) {
+  return (
+    <div className="flex-1 flex items-center gap-1">
+      {SELECTION_MODE_LABELS.map(({ mode, label }) => (
+        <button
+          key={mode}
+          type="button"
+          aria-pressed={selectionMode === mode}
+          onClick={() => {
+            uiSoundManager.play("button-tool", { stopPrevious: true });
+            onSelectionModeChange(mode);
+          }}
+          className={getChipClassName(selectionMode === mode)}
+        >
+          {label}
+        </button>
+      ))}
+      <div className="flex-1" />
+      <button
+        type="button"
+        disabled={!hasSelection}
+        onClick={() => {
+          uiSoundManager.play("layer-select", { stopPrevious: true });
+          onDuplicate();
+        }}
+        className={getChipClassName(false)}
+      >
+        複製
+      </button>
+      <button
+        type="button"
+        disabled={!hasSelection}
+        onClick={() => {
+          uiSoundManager.play("button-clear", { stopPrevious: true });
+          onDelete();
+        }}
+        className={getChipClassName(false)}
+      >
+        削除
+      </button>
+    </div>
+  );
+}
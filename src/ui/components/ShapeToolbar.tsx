@@ -0,0 +1,93 @@
+"use client";
+
+import type { ShapeKind } from "@/core/shapes";
+import { uiSoundManager } from "@/infra/sound/uiSounds";
+
+/** 図形の表示名（狭い行に収まるよう記号で表す） */
+const SHAPE_KIND_LABELS: { kind: ShapeKind; label: string; title: string }[] = [
+  { kind: "line", label: "／", title: "線" },
+  { kind: "rect", label: "□", title: "四角" },
+  { kind: "ellipse", label: "○", title: "楕円" },
+];
+
+/** ShapeToolbarの入力 */
+interface ShapeToolbarProps {
+  shapeKind: ShapeKind;
+  onShapeKindChange: (kind: ShapeKind) => void;
+  /** 内側を塗るか（線では使わない） */
+  shapeFilled: boolean;
+  onShapeFilledChange: (filled: boolean) => void;
+  /** パターンで描くか */
+  shapeWithPattern: boolean;
+  onShapeWithPatternChange: (enabled: boolean) => void;
+}
+
+/** 小さな切り替えボタンの見た目（選択中は黒枠で塗る） */
+function getChipClassName(isSelected: boolean): string {
+  return `h-6 min-w-6 px-1 border-[2px] rounded-[4px] font-black text-xs leading-none active:translate-y-0.5 cursor-pointer disabled:opacity-30 disabled:cursor-default ${
+    isSelected
+      ? "bg-zako-orange-strong border-black text-white"
+      : "bg-white border-zako-tan text-zako-brown"
+  }`;
+}
+
+/**
+ * 図形ツールの操作（図形の種類、内側を塗るか、パターンで描くかの切り替え）
+ * 図形は太さを使うため、スライダーの手前に並べる
+ */
+export function ShapeToolbar({
+  shapeKind,
+  onShapeKindChange,
+  shapeFilled,
+  onShapeFilledChange,
+  shapeWithPattern,
+  onShapeWithPatternChange,
+}: ShapeToolbarProps) {
+  const playToggleSound = () =>
+    uiSoundManager.play("button-tool", { stopPrevious: true });
+  return (
+    <div className="flex items-center gap-1">
+      {SHAPE_KIND_LABELS.map(({ kind, label, title }) => (
+        <button
+          key={kind}
+          type="button"
+          title={title}
+          aria-label={title}
+          aria-pressed={shapeKind === kind}
+          onClick={() => {
+            playToggleSound();
+            onShapeKindChange(kind);
+          }}
+          className={getChipClassName(shapeKind === kind)}
+        >
+          {label}
+        </button>
+      ))}
+      <button
+        type="button"
+        title="内側を塗る"
+        aria-pressed={shapeFilled}
+        disabled={shapeKind === "line"}
+        onClick={() => {
+          playToggleSound();
+          onShapeFilledChange(!shapeFilled);
+        }}
+        className={getChipClassName(shapeFilled && shapeKind !== "line")}
+      >
+        塗
+      </button>
+      <button
+        type="button"
+        title="パターンで描く"
+        aria-pressed={shapeWithPattern}
+        onClick={() => {
+          playToggleSound();
+          onShapeWithPatternChange(!shapeWithPattern);
+        }}
+        className={getChipClassName(shapeWithPattern)}
+      >
+        柄
+      </button>
+    </div>
+  );
+}
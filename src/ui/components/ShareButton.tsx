@@ -2,22 +2,11 @@
 
 import { useEffect, useState } from "react";
 import { uiSoundManager } from "@/infra/sound/uiSounds";
-import { shareToTwitter } from "@/lib/share";
-
-// X（Twitter）アイコン
-/** Xアイコン */
-const XIcon = () => (
-  <svg
-    xmlns="http://www.w3.org/2000/svg"
-    width="20"
-    height="20"
-    viewBox="0 0 24 24"
-    fill="currentColor"
-    aria-hidden="true"
-  >
-    <path d="M18.244 2.25h3.308l-7.227 8.26 8.502 11.24H16.17l-5.214-6.817L4.99 21.75H1.68l7.73-8.835L1.254 2.25H8.08l4.713 6.231zm-1.161 17.52h1.833L7.084 4.126H5.117z" />
-  </svg>
-);
+import {
+  getAvailableShareTargets,
+  normalizeMastodonInstance,
+  type ShareTarget,
+} from "@/lib/shareTargets";
 
 /** ShareButtonの入力 */
 interface ShareButtonProps {
@@ -25,22 +14,35 @@ interface ShareButtonProps {
   text: string;
   /** シェアする画像のURL（data URL または blob URL） */
   imageUrl?: string;
+  /** シェアする画像のファイル名 */
+  imageName?: string;
+  /** シェアする画像のMIMEタイプ */
+  imageType?: string;
+  /** 今の1枚をPNGで描き出す（画像をコピーできない形式の時に使う） */
+  createPngImage?: () => Promise<Blob>;
   /** クラス名 */
   className?: string;
 }
 
 /**
- * X (Twitter) シェアボタン
- * Web Share API対応ブラウザ（主にモバイル）では画像付きの共有を試みます。
- * 非対応の環境では、テキスト共有のインテントURLを開きます。
+ * シェアボタン
+ * 押すとこの環境で使える共有先（端末の共有シート・X・Bluesky・Mastodon・LINE・画像のコピー・保存）を並べる。
+ * Mastodonはインスタンスを入力してから投稿画面を開く。
  */
 export function ShareButton({
   text,
   imageUrl,
+  imageName = "wiggly-zakomemo.gif",
+  imageType = "image/gif",
+  createPngImage,
   className = "",
 }: ShareButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [targets, setTargets] = useState<ShareTarget[]>([]);
   const [isSharing, setIsSharing] = useState(false);
   const [shareError, setShareError] = useState(false);
+  const [isMastodonOpen, setIsMastodonOpen] = useState(false);
+  const [mastodonInstance, setMastodonInstance] = useState("");
 
   // エラー表示を3秒後にリセット
   useEffect(() => {
@@ -50,19 +52,53 @@ export function ShareButton({
     }
   }, [shareError]);
 
-  /** シェア処理を実行する */
-  const handleShare = async () => {
+  // 一覧を開いている間は、画像に合わせて使える共有先を選び直す
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    getAvailableShareTargets({
+      text,
+      imageUrl,
+      imageName,
+      imageType,
+      createPngImage,
+    }).then((available) => {
+      if (!cancelled) setTargets(available);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, text, imageUrl, imageName, imageType, createPngImage]);
+
+  /** 共有先の一覧を開閉する */
+  const handleToggle = () => {
+    uiSoundManager.play("share-button", { stopPrevious: true });
+    setIsOpen(!isOpen);
+    setIsMastodonOpen(false);
+  };
+
+  /** 選んだ共有先でシェアする */
+  const handleShare = async (target: ShareTarget) => {
     if (isSharing) return;
+    if (target.id === "mastodon" && !isMastodonOpen) {
+      setIsMastodonOpen(true);
+      return;
+    }
     uiSoundManager.play("share-button", { stopPrevious: true });
     setIsSharing(true);
     setShareError(false);
 
     try {
-      await shareToTwitter({
+      await target.share({
         text,
         imageUrl,
-        imageName: "wiggly-zakomemo.gif",
+        imageName,
+        imageType,
+        createPngImage,
+        mastodonInstance,
       });
+      setIsOpen(false);
+      setIsMastodonOpen(false);
     } catch (error) {
       console.error("Share failed:", error);
       setShareError(true);
@@ -72,27 +108,74 @@ export function ShareButton({
   };
 
   const buttonText = shareError ? "シェア失敗..." : "シェアする";
+  const mastodon = targets.find((target) => target.id === "mastodon");
 
   return (
-    <button
-      type="button"
-      onClick={handleShare}
-      disabled={isSharing}
-      className={`
-        bg-black text-white 
-        border-t-[3px] border-l-[3px] border-t-zako-border border-l-zako-border 
-        border-b-[3px] border-r-[3px] border-b-zako-black border-r-zako-black 
-        rounded-[6px] py-2.5 px-4
-        flex items-center justify-center gap-2
-        active:translate-y-0.5 transition-all 
-        font-black text-lg
-        disabled:opacity-50 disabled:pointer-events-none
-        cursor-pointer
-        ${className}
-      `}
-    >
-      <XIcon />
-      <span>{buttonText}</span>
-    </button>
+    <div className={`relative flex flex-col ${className}`}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        disabled={isSharing}
+        aria-expanded={isOpen}
+        className={`
+          bg-black text-white 
+          border-t-[3px] border-l-[3px] border-t-zako-border border-l-zako-border 
+          border-b-[3px] border-r-[3px] border-b-zako-black border-r-zako-black 
+          rounded-[6px] py-2.5 px-4
+          flex items-center justify-center gap-2
+          active:translate-y-0.5 transition-all 
+          font-black text-lg
+          disabled:opacity-50 disabled:pointer-events-none
+          cursor-pointer
+        `}
+      >
+        <span>{buttonText}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-2 z-10 w-56 bg-white border-[3px] border-black rounded-[6px] p-2 flex flex-col gap-1.5 shadow-lg">
+          <div className="flex flex-row flex-wrap gap-1.5">
+            {targets.map((target) => (
+              <button
+                key={target.id}
+                type="button"
+                disabled={isSharing}
+                onClick={() => void handleShare(target)}
+                className="h-8 px-2.5 bg-white border-[3px] border-black rounded-[6px] font-black text-xs text-zako-dark active:translate-y-0.5 cursor-pointer disabled:opacity-50"
+              >
+                {target.label}
+              </button>
+            ))}
+          </div>
+          {mastodon && isMastodonOpen && (
+            <form
+              className="flex flex-row gap-1.5"
+              onSubmit={(event) => {
+                event.preventDefault();
+                void handleShare(mastodon);
+              }}
+            >
+              <input
+                type="text"
+                value={mastodonInstance}
+                onChange={(event) => setMastodonInstance(event.target.value)}
+                placeholder="mastodon.social"
+                aria-label="Mastodonのインスタンス"
+                className="flex-1 min-w-0 h-8 px-2 border-[3px] border-zako-tan rounded-[6px] font-black text-xs"
+              />
+              <button
+                type="submit"
+                disabled={
+                  isSharing || !normalizeMastodonInstance(mastodonInstance)
+                }
+                className="h-8 px-2.5 bg-black text-white border-[3px] border-black rounded-[6px] font-black text-xs cursor-pointer disabled:opacity-50"
+              >
+                開く
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
   );
 }
@@ -0,0 +1,62 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { uiSoundManager } from "@/infra/sound/uiSounds";
+
+/** コピー結果の表示 */
+type CopyStatus = "idle" | "copied" | "failed";
+
+/** ShareLinkButtonの入力 */
+interface ShareLinkButtonProps {
+  /** 共有リンクを作る（押した時点の描画で作るため関数で受け取る） */
+  createLink: () => string;
+  /** クラス名 */
+  className?: string;
+}
+
+/**
+ * 編集できるメモの共有リンクをクリップボードにコピーするボタン
+ * リンクを開いた人は線のままメモを編集できる
+ */
+export function ShareLinkButton({
+  createLink,
+  className = "",
+}: ShareLinkButtonProps) {
+  const [status, setStatus] = useState<CopyStatus>("idle");
+
+  // 結果の表示を3秒後にリセット
+  useEffect(() => {
+    if (status === "idle") return;
+    const timer = setTimeout(() => setStatus("idle"), 3000);
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  /** リンクを作ってコピーする */
+  const handleCopy = async () => {
+    uiSoundManager.play("share-button", { stopPrevious: true });
+    try {
+      await navigator.clipboard.writeText(createLink());
+      setStatus("copied");
+    } catch (error) {
+      console.error("Copy share link failed:", error);
+      setStatus("failed");
+    }
+  };
+
+  const buttonText =
+    status === "copied"
+      ? "コピーしました"
+      : status === "failed"
+        ? "コピー失敗..."
+        : "編集できるリンクをコピー";
+
+  return (
+    <button
+      type="button"
+      onClick={() => void handleCopy()}
+      className={`bg-white text-zako-dark border-[3px] border-black rounded-[6px] py-1.5 px-3 font-black text-sm active:translate-y-0.5 transition-all cursor-pointer ${className}`}
+    >
+      {buttonText}
+    </button>
+  );
+}
@@ -1,5 +1,9 @@
 import { useEffect } from "react";
+import type { AnimationSettings } from "@/core/animation";
 import type { JitterConfig } from "@/core/jitter";
+import type { ReplayOptions } from "@/core/replay";
+import type { SelectionMode } from "@/core/selection";
+import type { ShapeKind } from "@/core/shapes";
 import type { BrushPatternId } from "@/core/types";
 import type { EraserVariant, PenVariant } from "@/engine/variants";
 import type { Tool, WigglyEngine } from "@/engine/WigglyEngine";
@@ -8,14 +12,30 @@ import type { Tool, WigglyEngine } from "@/engine/WigglyEngine";
 type UseWigglyEngineSyncParams = {
   engine: WigglyEngine | null;
   tool: Tool;
+  selectionMode: SelectionMode;
+  fillWithPattern: boolean;
+  shapeKind: ShapeKind;
+  shapeFilled: boolean;
+  shapeWithPattern: boolean;
   colorIndex: number;
+  /** スポイトで拾ったパレットに無い色（パレットの色を使う場合はnull） */
+  pickedColor: string | null;
   brushWidth: number;
   penVariant: PenVariant;
   eraserVariant: EraserVariant;
   patternId: BrushPatternId;
+  /** ペンの筆圧で線の太さと濃さを変えるか */
+  pressureEnabled: boolean;
+  /** 筆圧の補正カーブ */
+  pressureCurve: number;
   backgroundColor: string;
   jitterConfig: JitterConfig;
   palette: string[];
+  animationSettings: AnimationSettings;
+  onionSkinEnabled: boolean;
+  isPlaying: boolean;
+  /** 描き順のリプレイの指定（リプレイしない場合はnull） */
+  replay: ReplayOptions | null;
 };
 
 /**
@@ -24,14 +44,26 @@ type UseWigglyEngineSyncParams = {
 export function useWigglyEngineSync({
   engine,
   tool,
+  selectionMode,
+  fillWithPattern,
+  shapeKind,
+  shapeFilled,
+  shapeWithPattern,
   colorIndex,
+  pickedColor,
   brushWidth,
   penVariant,
   eraserVariant,
   patternId,
+  pressureEnabled,
+  pressureCurve,
   backgroundColor,
   jitterConfig,
   palette,
+  animationSettings,
+  onionSkinEnabled,
+  isPlaying,
+  replay,
 }: UseWigglyEngineSyncParams): void {
   // エンジンの生成完了後に同期を走らせる
   useEffect(() => {
@@ -41,8 +73,37 @@ export function useWigglyEngineSync({
 
   useEffect(() => {
     if (!engine) return;
-    engine.setBrushColor({ kind: "palette", index: colorIndex });
-  }, [colorIndex, engine]);
+    engine.setSelectionMode(selectionMode);
+  }, [engine, selectionMode]);
+
+  useEffect(() => {
+    if (!engine) return;
+    engine.setFillWithPattern(fillWithPattern);
+  }, [engine, fillWithPattern]);
+
+  useEffect(() => {
+    if (!engine) return;
+    engine.setShapeKind(shapeKind);
+  }, [engine, shapeKind]);
+
+  useEffect(() => {
+    if (!engine) return;
+    engine.setShapeFilled(shapeFilled);
+  }, [engine, shapeFilled]);
+
+  useEffect(() => {
+    if (!engine) return;
+    engine.setShapeWithPattern(shapeWithPattern);
+  }, [engine, shapeWithPattern]);
+
+  useEffect(() => {
+    if (!engine) return;
+    engine.setBrushColor(
+      pickedColor
+        ? { kind: "fixed", color: pickedColor }
+        : { kind: "palette", index: colorIndex },
+    );
+  }, [colorIndex, engine, pickedColor]);
 
   useEffect(() => {
     if (!engine) return;
@@ -64,6 +125,16 @@ export function useWigglyEngineSync({
     engine.setEraserVariant(eraserVariant);
   }, [engine, eraserVariant]);
 
+  useEffect(() => {
+    if (!engine) return;
+    engine.setPressureEnabled(pressureEnabled);
+  }, [engine, pressureEnabled]);
+
+  useEffect(() => {
+    if (!engine) return;
+    engine.setPressureCurve(pressureCurve);
+  }, [engine, pressureCurve]);
+
   useEffect(() => {
     if (!engine) return;
     engine.setBackgroundColor(backgroundColor);
@@ -78,4 +149,35 @@ export function useWigglyEngineSync({
     if (!engine) return;
     engine.setPaletteColors(palette);
   }, [engine, palette]);
+
+  useEffect(() => {
+    if (!engine) return;
+    engine.setAnimationSettings(animationSettings);
+  }, [animationSettings, engine]);
+
+  useEffect(() => {
+    if (!engine) return;
+    engine.setOnionSkinEnabled(onionSkinEnabled);
+  }, [engine, onionSkinEnabled]);
+
+  useEffect(() => {
+    if (!engine) return;
+    if (isPlaying) {
+      engine.play();
+    } else {
+      engine.stop();
+    }
+  }, [engine, isPlaying]);
+
+  // 長さを変えたら最初からリプレイし直す
+  const replayTargetDurationMs = replay?.targetDurationMs;
+  const isReplaying = replay !== null;
+  useEffect(() => {
+    if (!engine) return;
+    if (isReplaying) {
+      engine.startReplay({ targetDurationMs: replayTargetDurationMs });
+    } else {
+      engine.stopReplay();
+    }
+  }, [engine, isReplaying, replayTargetDurationMs]);
 }
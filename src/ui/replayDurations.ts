@@ -0,0 +1,16 @@
+import type { ReplayOptions } from "@/core/replay";
+
+/** 描き順のリプレイで選べる長さ（nullは描いた時の速さのまま） */
+export const REPLAY_DURATION_CHOICES: readonly {
+  durationMs: number | null;
+  label: string;
+}[] = [
+  { durationMs: null, label: "実時間" },
+  { durationMs: 5000, label: "5秒" },
+  { durationMs: 10_000, label: "10秒" },
+];
+
+/** 選んだ長さをリプレイの指定にする */
+export function toReplayOptions(durationMs: number | null): ReplayOptions {
+  return durationMs === null ? {} : { targetDurationMs: durationMs };
+}
@@ -4,6 +4,8 @@ import type { EraserVariant, PenVariant } from "@/engine/variants";
 export const penVariants: { id: PenVariant; label: string }[] = [
   { id: "penCircle", label: "丸" },
   { id: "penSquare", label: "四角" },
+  { id: "brushTaper", label: "入り抜き" },
+  { id: "brushInk", label: "墨" },
 ];
 
 /** 消しゴムのバリアント選択肢 */